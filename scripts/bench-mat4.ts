@@ -0,0 +1,165 @@
+/**
+ * mat4 할당 버전 vs *Into 버전 마이크로 벤치마크.
+ *
+ *   npm run bench:mat4
+ *   (esbuild로 번들해 node에 stdin으로 넘긴다 — --experimental-strip-types가 없는 Node 20에서도 돈다)
+ *
+ * 각 케이스는 Transform01 / Sphere01의 frame()과 같은 행렬 합성을 반복하고
+ * ops/sec, 그 동안 일어난 GC 횟수·시간, 힙 증가량을 출력한다.
+ */
+import { PerformanceObserver } from "node:perf_hooks";
+import type { PerformanceEntry } from "node:perf_hooks";
+import {
+  multiply,
+  multiplyInto,
+  translation,
+  translationInto,
+  rotationY,
+  rotationYInto,
+  rotationZ,
+  rotationZInto,
+  scaling,
+  scalingInto,
+  perspective,
+  perspectiveInto,
+  lookAt,
+  lookAtInto,
+  createMat4Pool,
+} from "../src/core/math/mat4.ts";
+import type { Mat4 } from "../src/core/math/mat4.ts";
+
+const DURATION_MS = 1000;
+const OBJECTS = 200; // 한 "프레임"에 그리는 물체 수
+
+let sink = 0;
+
+// ── GC 관찰 ──
+let gcCount = 0;
+let gcTime = 0;
+const observer = new PerformanceObserver((list) => {
+  for (const entry of list.getEntries() as PerformanceEntry[]) {
+    gcCount++;
+    gcTime += entry.duration;
+  }
+});
+observer.observe({ entryTypes: ["gc"] });
+
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 50));
+
+interface Case {
+  name: string;
+  frame: (t: number) => void;
+}
+
+// ── Transform01: M = T * Rz * S ──
+
+const transformAlloc: Case = {
+  name: "transform01  alloc",
+  frame(t) {
+    for (let i = 0; i < OBJECTS; i++) {
+      const S = scaling(1.2, 1.2);
+      const R = rotationZ(t + i);
+      const T = translation(0.1 * i, 0.2);
+      const mvp = multiply(T, multiply(R, S));
+      sink += mvp[0];
+    }
+  },
+};
+
+const tS = new Float32Array(16);
+const tR = new Float32Array(16);
+const tT = new Float32Array(16);
+const tMvp = new Float32Array(16);
+
+const transformInto: Case = {
+  name: "transform01  into",
+  frame(t) {
+    for (let i = 0; i < OBJECTS; i++) {
+      scalingInto(tS, 1.2, 1.2);
+      rotationZInto(tR, t + i);
+      translationInto(tT, 0.1 * i, 0.2);
+      multiplyInto(tMvp, tR, tS);
+      multiplyInto(tMvp, tT, tMvp);
+      sink += tMvp[0];
+    }
+  },
+};
+
+// ── Sphere01: MVP = P * V * M ──
+
+const EYE = [0, 0.8, 3];
+const TARGET = [0, 0, 0];
+
+const sphereAlloc: Case = {
+  name: "sphere01     alloc",
+  frame(t) {
+    const proj = perspective(Math.PI / 4, 16 / 9, 0.1, 100);
+    const view = lookAt(EYE, TARGET);
+    for (let i = 0; i < OBJECTS; i++) {
+      const model = multiply(translation(i, 0, 0), rotationY(t + i));
+      const mvp = multiply(proj, multiply(view, model));
+      sink += mvp[0];
+    }
+  },
+};
+
+const pool = createMat4Pool();
+
+const spherePool: Case = {
+  name: "sphere01     pool",
+  frame(t) {
+    pool.reset();
+    const proj = perspectiveInto(pool.acquire(), Math.PI / 4, 16 / 9, 0.1, 100);
+    const view = lookAtInto(pool.acquire(), EYE, TARGET);
+    const viewProj = multiplyInto(pool.acquire(), proj, view);
+    const model = pool.acquire();
+    const rot = pool.acquire();
+    const mvp: Mat4 = pool.acquire();
+    for (let i = 0; i < OBJECTS; i++) {
+      translationInto(model, i, 0, 0);
+      multiplyInto(model, model, rotationYInto(rot, t + i));
+      multiplyInto(mvp, viewProj, model);
+      sink += mvp[0];
+    }
+  },
+};
+
+// ── Runner ──
+
+async function run(c: Case): Promise<void> {
+  // warm-up (JIT)
+  for (let i = 0; i < 200; i++) c.frame(i);
+  await settle();
+
+  gcCount = 0;
+  gcTime = 0;
+  const heapBefore = process.memoryUsage().heapUsed;
+  const start = performance.now();
+  let frames = 0;
+  while (performance.now() - start < DURATION_MS) {
+    c.frame(frames * 0.016);
+    frames++;
+  }
+  const elapsed = performance.now() - start;
+  const heapDelta = process.memoryUsage().heapUsed - heapBefore;
+  await settle();
+
+  const framesPerSec = (frames / elapsed) * 1000;
+  console.log(
+    [
+      c.name.padEnd(20),
+      `${framesPerSec.toFixed(0).padStart(8)} frames/s`,
+      `${((framesPerSec * OBJECTS) / 1e6).toFixed(2).padStart(6)} M objects/s`,
+      `GC ${String(gcCount).padStart(4)}× ${gcTime.toFixed(1).padStart(7)} ms`,
+      `heap ${(heapDelta / 1024 / 1024).toFixed(1).padStart(6)} MB`,
+    ].join("  "),
+  );
+}
+
+console.log(`mat4 benchmark — ${OBJECTS} objects/frame, ${DURATION_MS} ms per case\n`);
+for (const c of [transformAlloc, transformInto, sphereAlloc, spherePool]) {
+  await run(c);
+}
+observer.disconnect();
+// 최적화로 계산이 제거되지 않도록 결과를 사용한다
+if (Number.isNaN(sink)) console.log(sink);
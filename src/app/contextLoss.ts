@@ -0,0 +1,43 @@
+import type { GLResourceManager } from "../core/gl/resources";
+import type { Disposer } from "../router";
+
+/**
+ * 캔버스 위에 컨텍스트 손실 상태 오버레이와 디버그용 "Lose context" 버튼을 붙인다.
+ * host는 캔버스를 담은 요소여야 한다 (오버레이가 host 기준으로 절대 위치된다).
+ */
+export function mountContextLossUI(host: HTMLElement, resources: GLResourceManager): Disposer {
+  host.classList.add("gl-host");
+
+  const overlay = document.createElement("div");
+  overlay.className = "gl-lost";
+  overlay.textContent = "WebGL context lost — restoring…";
+  overlay.style.display = "none";
+
+  const loseBtn = document.createElement("button");
+  loseBtn.className = "gl-debug-btn";
+  loseBtn.textContent = "Lose context";
+  loseBtn.title = "WEBGL_lose_context로 컨텍스트 손실을 일으키고 1초 뒤 복구합니다";
+  loseBtn.addEventListener("click", () => {
+    if (!resources.simulateLoss()) {
+      console.warn("[WebGL] WEBGL_lose_context를 사용할 수 없습니다");
+    }
+  });
+
+  const sync = (): void => {
+    overlay.style.display = resources.isLost ? "" : "none";
+    loseBtn.disabled = resources.isLost;
+  };
+
+  const offLost = resources.onLost(sync);
+  const offRestored = resources.onRestored(sync);
+  sync();
+
+  host.append(overlay, loseBtn);
+
+  return () => {
+    offLost();
+    offRestored();
+    overlay.remove();
+    loseBtn.remove();
+  };
+}
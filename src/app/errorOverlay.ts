@@ -0,0 +1,102 @@
+import { ShaderCompileError } from "../core/gl/shader";
+import type { ShaderDiagnostic } from "../core/gl/shader";
+
+/** 오류 줄 위아래로 보여 줄 소스 줄 수. */
+const CONTEXT_LINES = 2;
+
+/**
+ * 셰이더 생성 중 발생한 예외를 container에 표시한다.
+ * ShaderCompileError는 소스 발췌가 포함된 오버레이로, 그 외 예외는 기존 .gl-error 박스로 보여 준다.
+ */
+export function showShaderError(container: HTMLElement, e: unknown): void {
+  if (e instanceof ShaderCompileError) {
+    container.appendChild(createShaderErrorOverlay(e));
+    return;
+  }
+
+  const el = document.createElement("div");
+  el.className = "gl-error";
+  el.textContent = e instanceof Error ? e.message : String(e);
+  container.appendChild(el);
+}
+
+/**
+ * 진단마다 해당 줄 주변의 소스를 줄 번호와 함께 보여 주고,
+ * 오류 줄과 (column을 알 수 있으면) 위치를 강조한 오버레이 요소를 만든다.
+ */
+export function createShaderErrorOverlay(err: ShaderCompileError): HTMLElement {
+  const root = document.createElement("div");
+  root.className = "gl-error shader-error";
+
+  const errorCount = err.diagnostics.filter((d) => d.severity === "error").length;
+  const title = document.createElement("div");
+  title.className = "shader-error__title";
+  title.textContent = `${err.stage === "vertex" ? "Vertex" : "Fragment"} 셰이더 컴파일 실패 — 오류 ${errorCount}개`;
+  root.appendChild(title);
+
+  const sourceLines = err.source.split(/\r?\n/);
+
+  for (const diag of err.diagnostics) {
+    root.appendChild(createDiagnostic(diag, sourceLines));
+  }
+
+  // 파싱이 놓친 정보가 있을 수 있으므로 원본 로그도 접어서 남긴다
+  const raw = document.createElement("details");
+  raw.className = "shader-error__raw";
+  const summary = document.createElement("summary");
+  summary.textContent = "Raw info log";
+  const pre = document.createElement("pre");
+  pre.textContent = err.log;
+  raw.append(summary, pre);
+  root.appendChild(raw);
+
+  return root;
+}
+
+function createDiagnostic(diag: ShaderDiagnostic, sourceLines: string[]): HTMLElement {
+  const item = document.createElement("div");
+  item.className = `shader-error__diag is-${diag.severity}`;
+
+  const msg = document.createElement("div");
+  msg.className = "shader-error__msg";
+  const where = diag.line > 0
+    ? `${diag.line}${diag.column !== null ? `:${diag.column}` : ""}  `
+    : "";
+  msg.textContent = `${where}${diag.severity}: ${diag.message}`;
+
+  // #include로 펼쳐진 줄이면 원본 조각과 줄 번호를 함께 보여 준다
+  if (diag.origin) {
+    const origin = document.createElement("span");
+    origin.className = "shader-error__origin";
+    origin.textContent = `  ← ${diag.origin.file}:${diag.origin.line}`;
+    msg.appendChild(origin);
+  }
+  item.appendChild(msg);
+
+  if (diag.line <= 0 || diag.line > sourceLines.length) return item;
+
+  const code = document.createElement("pre");
+  code.className = "shader-error__code";
+
+  const first = Math.max(1, diag.line - CONTEXT_LINES);
+  const last = Math.min(sourceLines.length, diag.line + CONTEXT_LINES);
+  const gutterWidth = String(last).length;
+
+  for (let ln = first; ln <= last; ln++) {
+    const row = document.createElement("span");
+    row.className = "shader-error__line";
+    if (ln === diag.line) row.classList.add("is-hit");
+    row.textContent = `${String(ln).padStart(gutterWidth)} │ ${sourceLines[ln - 1]}`;
+    code.appendChild(row);
+
+    if (ln === diag.line && diag.column !== null) {
+      const caret = document.createElement("span");
+      caret.className = "shader-error__caret";
+      caret.textContent = `${" ".repeat(gutterWidth)} │ ${" ".repeat(Math.max(0, diag.column - 1))}^`;
+      code.appendChild(caret);
+    }
+  }
+
+  item.appendChild(code);
+  return item;
+}
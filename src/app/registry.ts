@@ -1,33 +1,160 @@
+import type { RouteEntry, RouteRenderer } from "../router";
+import { renderTriangle01 } from "../pages/triangle01";
+import { renderTransform01 } from "../pages/transform01";
+import { renderTexture01 } from "../pages/texture01";
+import { renderProjection01 } from "../pages/projection01";
+import { renderSphere01 } from "../pages/sphere01";
+import { renderShaderEditor01 } from "../pages/shaderEditor01";
+import { renderModel01 } from "../pages/model01";
+import { renderScene01 } from "../pages/scene01";
+import { renderLighting01 } from "../pages/lighting01";
+import { renderPbr01 } from "../pages/pbr01";
+import { renderTexture02 } from "../pages/texture02";
+
+export type LabDifficulty = "beginner" | "intermediate" | "advanced";
+
+/**
+ * ready       — 실습 가능
+ * coming-soon — 라우트는 있지만 아직 placeholder 페이지
+ */
+export type LabStatus = "ready" | "coming-soon";
+
 export interface LabMeta {
+  /** URL 식별자. "#/{id}" 와 "#/lab/{id}" 두 경로로 노출된다. */
+  id: string;
   title: string;
   description: string;
-  path: string;
+  render: RouteRenderer;
+  tags: string[];
+  difficulty: LabDifficulty;
+  status: LabStatus;
 }
 
 export const labs: LabMeta[] = [
   {
+    id: "triangle01",
     title: "Triangle01",
     description: "WebGL 기본 삼각형 렌더링. VBO 업로드와 셰이더 파이프라인 기초.",
-    path: "#/triangle01",
+    render: renderTriangle01,
+    tags: ["basics", "buffer", "shader"],
+    difficulty: "beginner",
+    status: "ready",
   },
   {
+    id: "transform01",
     title: "Transform01",
     description: "모델·뷰 행렬을 사용한 2D/3D 변환 기초.",
-    path: "#/transform01",
+    render: renderTransform01,
+    tags: ["matrix", "transform", "2d"],
+    difficulty: "beginner",
+    status: "ready",
   },
   {
+    id: "texture01",
     title: "Texture01",
-    description: "이미지 텍스처 로딩과 UV 매핑. Filter·Wrap·Flip 파라미터 실습.",
-    path: "#/texture01",
+    description: "이미지·캔버스·float 데이터 텍스처 로딩과 UV 매핑. Filter·Mipmap·Anisotropy·Wrap·Flip, WebGL2 LOD·compare 파라미터, NPOT·포맷 제약 실습.",
+    render: renderTexture01,
+    tags: ["texture", "sampler", "uv"],
+    difficulty: "beginner",
+    status: "ready",
   },
   {
+    id: "projection01",
     title: "Projection01",
     description: "직교·투영 행렬을 사용한 카메라 투영 기초.",
-    path: "#/projection01",
+    render: renderProjection01,
+    tags: ["matrix", "camera", "projection"],
+    difficulty: "intermediate",
+    status: "ready",
   },
   {
+    id: "sphere01",
     title: "Sphere01",
-    description: "Lat/Lon 구 메쉬 생성, UV 텍스처 매핑, 인덱스 드로우, MVP 행렬 회전.",
-    path: "#/sphere01",
+    description: "Lat/Lon 구 메쉬 생성, UV 텍스처 매핑, 인덱스 드로우, MVP 행렬, orbit · fly 카메라.",
+    render: renderSphere01,
+    tags: ["mesh", "texture", "matrix", "camera", "3d"],
+    difficulty: "intermediate",
+    status: "ready",
+  },
+  {
+    id: "shadereditor01",
+    title: "ShaderEditor01",
+    description: "장면을 고르고 버텍스·프래그먼트 셰이더를 페이지에서 수정하며 즉시 재컴파일 결과를 확인.",
+    render: renderShaderEditor01,
+    tags: ["shader", "glsl", "editor"],
+    difficulty: "intermediate",
+    status: "ready",
+  },
+  {
+    id: "model01",
+    title: "Model01",
+    description: "OBJ/MTL과 glTF 2.0(.gltf/.glb) 모델 로딩. 정점 de-indexing, n-gon 삼각형 분할, accessor·노드 계층, 재질별 part 렌더링, 파일 드롭.",
+    render: renderModel01,
+    tags: ["mesh", "loader", "3d"],
+    difficulty: "intermediate",
+    status: "ready",
+  },
+  {
+    id: "scene01",
+    title: "Scene01",
+    description: "장면 그래프와 계층 변환. 태양–지구–달 공전으로 보는 parent × local 합성, dirty flag로 필요한 world 행렬만 재계산.",
+    render: renderScene01,
+    tags: ["scene", "matrix", "3d"],
+    difficulty: "intermediate",
+    status: "ready",
+  },
+  {
+    id: "lighting01",
+    title: "Lighting01",
+    description: "Ambient·Directional·Point·Spot 광원과 Phong/Blinn-Phong. Gouraud와 per-pixel 비교, normal matrix, 법선·N·L·specular 디버그 뷰.",
+    render: renderLighting01,
+    tags: ["lighting", "shader", "3d"],
+    difficulty: "intermediate",
+    status: "ready",
+  },
+  {
+    id: "pbr01",
+    title: "Pbr01",
+    description: "glTF metallic-roughness 재질과 Cook-Torrance(GGX·Smith·Schlick). linear 조명, Reinhard/ACES 톤 매핑과 감마, 재질 텍스처 5종.",
+    render: renderPbr01,
+    tags: ["lighting", "pbr", "material", "3d"],
+    difficulty: "advanced",
+    status: "ready",
+  },
+  {
+    id: "texture02",
+    title: "Texture02",
+    description: "KTX2·DDS 압축 텍스처(BC1/BC3/BC7) 파싱과 compressedTexImage2D 업로드. s3tc·bptc·etc·astc 확장 감지, DXT1/5 CPU 디코딩 fallback, PNG 대비 GPU 메모리·PSNR·diff 비교.",
+    render: renderTexture02,
+    tags: ["texture", "compression", "loader"],
+    difficulty: "advanced",
+    status: "ready",
   },
 ];
+
+/** 랩의 기본 hash 경로. */
+export function labPath(lab: LabMeta): string {
+  return `#/${lab.id}`;
+}
+
+/** id로 랩을 찾는다. */
+export function findLab(id: string): LabMeta | undefined {
+  return labs.find((lab) => lab.id === id);
+}
+
+/** 모든 랩에 등장하는 태그 목록 (알파벳 순). */
+export function allTags(): string[] {
+  const set = new Set<string>();
+  for (const lab of labs) {
+    for (const tag of lab.tags) set.add(tag);
+  }
+  return [...set].sort();
+}
+
+/**
+ * 레지스트리에서 "#/{id}" 라우트를 생성한다.
+ * "#/lab/:id" 패턴 라우트는 main.ts에서 findLab으로 처리한다.
+ */
+export function buildLabRoutes(): RouteEntry[] {
+  return labs.map((lab) => ({ path: labPath(lab), render: lab.render }));
+}
@@ -0,0 +1,164 @@
+import { replaceQuery } from "../router";
+
+/**
+ * 랩 상태 객체의 필드 하나를 query 파라미터 하나와 대응시키는 코덱.
+ * parse는 잘못된 값에 대해 undefined를 반환하여 기본값으로 되돌아가게 한다.
+ */
+export interface FieldCodec<V> {
+  key: string;
+  parse: (raw: string) => V | undefined;
+  format: (value: V) => string;
+}
+
+export type StateSchema<T> = { [K in keyof T]: FieldCodec<T[K]> };
+
+/** 숫자 필드. 범위를 벗어난 값은 clamp한다. */
+export function numberField(
+  key: string,
+  min: number = -Infinity,
+  max: number = Infinity,
+): FieldCodec<number> {
+  return {
+    key,
+    parse: (raw) => {
+      const v = parseFloat(raw);
+      if (!Number.isFinite(v)) return undefined;
+      return Math.min(max, Math.max(min, v));
+    },
+    // 슬라이더 step 오차(0.30000000000000004 등)를 URL에 남기지 않는다
+    format: (v) => String(Number(v.toFixed(4))),
+  };
+}
+
+/** 정수 필드. */
+export function intField(
+  key: string,
+  min: number = -Infinity,
+  max: number = Infinity,
+): FieldCodec<number> {
+  const base = numberField(key, min, max);
+  return {
+    ...base,
+    parse: (raw) => {
+      const v = base.parse(raw);
+      return v === undefined ? undefined : Math.round(v);
+    },
+  };
+}
+
+/** 불리언 필드 ("1"/"0", "true"/"false"). */
+export function boolField(key: string): FieldCodec<boolean> {
+  return {
+    key,
+    parse: (raw) => {
+      if (raw === "1" || raw === "true") return true;
+      if (raw === "0" || raw === "false") return false;
+      return undefined;
+    },
+    format: (v) => (v ? "1" : "0"),
+  };
+}
+
+/** 열거형 문자열 필드. 목록에 없는 값은 무시한다. */
+export function enumField<T extends string>(
+  key: string,
+  options: readonly T[],
+): FieldCodec<T> {
+  return {
+    key,
+    parse: (raw) => (options as readonly string[]).includes(raw) ? (raw as T) : undefined,
+    format: (v) => v,
+  };
+}
+
+/**
+ * 색 필드. 값은 "#rrggbb"(소문자)이고 URL에는 "#" 없이 쓴다 (예: ?color=ff8800).
+ * input[type=color]의 value와 같은 형식이다.
+ */
+export function colorField(key: string): FieldCodec<string> {
+  return {
+    key,
+    parse: (raw) => {
+      const hex = raw.replace(/^#/, "").toLowerCase();
+      return /^[0-9a-f]{6}$/.test(hex) ? `#${hex}` : undefined;
+    },
+    format: (v) => v.replace(/^#/, ""),
+  };
+}
+
+/** 자유 문자열 필드. */
+export function stringField(key: string): FieldCodec<string> {
+  return {
+    key,
+    parse: (raw) => raw,
+    format: (v) => v,
+  };
+}
+
+/** 쉼표로 구분된 문자열 목록 필드. */
+export function listField(key: string): FieldCodec<string[]> {
+  return {
+    key,
+    parse: (raw) => raw.split(",").filter((v) => v !== ""),
+    format: (v) => v.join(","),
+  };
+}
+
+/**
+ * query에서 상태를 읽는다. 없거나 잘못된 필드는 defaults 값을 사용한다.
+ */
+export function readState<T extends object>(
+  query: URLSearchParams,
+  schema: StateSchema<T>,
+  defaults: Readonly<T>,
+): T {
+  const state = { ...defaults } as T;
+  for (const field of Object.keys(schema) as (keyof T)[]) {
+    const codec = schema[field];
+    const raw = query.get(codec.key);
+    if (raw === null) continue;
+    const v = codec.parse(raw);
+    if (v !== undefined) state[field] = v;
+  }
+  return state;
+}
+
+/**
+ * 상태를 query 문자열로 직렬화한다. 기본값과 같은 필드는 생략하여 링크를 짧게 유지한다.
+ */
+export function serializeState<T extends object>(
+  state: Readonly<T>,
+  schema: StateSchema<T>,
+  defaults: Readonly<T>,
+): URLSearchParams {
+  const query = new URLSearchParams();
+  for (const field of Object.keys(schema) as (keyof T)[]) {
+    const codec = schema[field];
+    const value = state[field];
+    if (codec.format(value) === codec.format(defaults[field])) continue;
+    query.set(codec.key, codec.format(value));
+  }
+  return query;
+}
+
+/**
+ * 상태를 URL에 반영하는 함수를 만든다.
+ * 슬라이더 드래그처럼 연속 호출되는 경우를 위해 replaceState를 debounce한다
+ * (일부 브라우저는 짧은 시간 내 과도한 replaceState 호출을 제한한다).
+ */
+export function createStateSync<T extends object>(
+  schema: StateSchema<T>,
+  defaults: Readonly<T>,
+  delayMs: number = 150,
+): { write: (state: Readonly<T>) => void; cancel: () => void } {
+  let timer = 0;
+
+  return {
+    write: (state) => {
+      clearTimeout(timer);
+      const query = serializeState(state, schema, defaults);
+      timer = window.setTimeout(() => replaceQuery(query), delayMs);
+    },
+    cancel: () => clearTimeout(timer),
+  };
+}
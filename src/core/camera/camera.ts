@@ -0,0 +1,118 @@
+import {
+  lookAtInto,
+  perspectiveInto,
+  orthoInto,
+  multiplyInto,
+} from "../math/mat4";
+import type { Mat4 } from "../math/mat4";
+import { vec3 } from "../math/vec3";
+import type { Vec3 } from "../math/vec3";
+
+export interface PerspectiveProjection {
+  kind: "perspective";
+  /** 세로 시야각 (radians) */
+  fovY: number;
+  near: number;
+  far: number;
+}
+
+export interface OrthographicProjection {
+  kind: "orthographic";
+  /** 화면 세로 절반 높이 (world 단위). 가로는 aspect를 곱해 정한다. */
+  halfHeight: number;
+  near: number;
+  far: number;
+}
+
+export type CameraProjection = PerspectiveProjection | OrthographicProjection;
+
+export interface CameraOptions {
+  projection?: CameraProjection;
+  position?: ArrayLike<number>;
+  target?: ArrayLike<number>;
+  up?: ArrayLike<number>;
+}
+
+/**
+ * 카메라를 조작하는 컨트롤러 공통 인터페이스.
+ * 이벤트 핸들러는 내부 상태만 바꾸고, 매 프레임 update(dt)에서 카메라에 반영한다.
+ */
+export interface CameraController {
+  update(dt: number): void;
+  /** 처음 붙였을 때의 카메라 상태로 되돌린다. */
+  reset(): void;
+  /** 캔버스/윈도우에 붙인 이벤트 리스너를 모두 뗀다. */
+  dispose(): void;
+}
+
+/**
+ * position / target / up으로 view 행렬을, projection 설정으로 투영 행렬을 만든다.
+ * 행렬은 미리 할당해 두고 update()에서 덮어쓰므로 프레임마다 할당이 없다.
+ *
+ *   camera.updateAspect(canvas);
+ *   camera.update();
+ *   program.setMat4("u_mvp", multiplyInto(mvp, camera.viewProjection, model));
+ */
+export class Camera {
+  readonly position: Vec3;
+  readonly target: Vec3;
+  readonly up: Vec3;
+  projection: CameraProjection;
+  /** width / height */
+  aspect = 1;
+
+  readonly view: Mat4 = new Float32Array(16);
+  readonly projectionMatrix: Mat4 = new Float32Array(16);
+  readonly viewProjection: Mat4 = new Float32Array(16);
+
+  constructor(options: CameraOptions = {}) {
+    this.projection = options.projection ?? {
+      kind: "perspective",
+      fovY: Math.PI / 4,
+      near: 0.1,
+      far: 100,
+    };
+    const p = options.position ?? [0, 0, 3];
+    const t = options.target ?? [0, 0, 0];
+    const u = options.up ?? [0, 1, 0];
+    this.position = vec3(p[0], p[1], p[2]);
+    this.target = vec3(t[0], t[1], t[2]);
+    this.up = vec3(u[0], u[1], u[2]);
+    this.update();
+  }
+
+  /** 캔버스의 CSS 크기로 aspect를 갱신한다. */
+  updateAspect(canvas: HTMLCanvasElement): void {
+    this.aspect = canvas.clientWidth / canvas.clientHeight || 1;
+  }
+
+  /** view / projection / viewProjection을 다시 계산한다. */
+  update(): void {
+    lookAtInto(this.view, this.position, this.target, this.up);
+
+    const p = this.projection;
+    if (p.kind === "perspective") {
+      perspectiveInto(this.projectionMatrix, p.fovY, this.aspect, p.near, p.far);
+    } else {
+      const h = p.halfHeight;
+      const w = h * this.aspect;
+      orthoInto(this.projectionMatrix, -w, w, -h, h, p.near, p.far);
+    }
+
+    multiplyInto(this.viewProjection, this.projectionMatrix, this.view);
+  }
+
+  /**
+   * target 위치에서 화면 1픽셀이 world 단위로 얼마인지 (세로 기준).
+   * 팬 이동량을 커서 이동량과 맞출 때 쓴다.
+   */
+  worldPerPixel(viewportHeight: number): number {
+    const p = this.projection;
+    if (p.kind === "orthographic") return (2 * p.halfHeight) / viewportHeight;
+    const dx = this.position[0] - this.target[0];
+    const dy = this.position[1] - this.target[1];
+    const dz = this.position[2] - this.target[2];
+    const distance = Math.hypot(dx, dy, dz);
+    return (2 * distance * Math.tan(p.fovY / 2)) / viewportHeight;
+  }
+}
@@ -0,0 +1,128 @@
+import type { Camera, CameraController } from "./camera";
+
+export interface FlyOptions {
+  /** 이동 속도 (world 단위 / 초). Shift를 누르면 3배 */
+  speed?: number;
+  /** 마우스 이동 1픽셀당 회전량 (radians). 기본 0.002 */
+  lookSpeed?: number;
+}
+
+const PITCH_LIMIT = Math.PI / 2 - 1e-3;
+
+/**
+ * 1인칭 비행 카메라. 캔버스를 클릭하면 pointer lock이 걸리고,
+ * 잠긴 동안 마우스로 시선을, WASD로 전후좌우, Q/E(또는 Space/C)로 상하 이동한다. Esc로 해제.
+ * up은 +Y로 가정한다.
+ */
+export class FlyControls implements CameraController {
+  readonly camera: Camera;
+  readonly canvas: HTMLCanvasElement;
+
+  /** -Z(정면)에서 +X 방향으로 잰 수평 각 */
+  yaw = 0;
+  pitch = 0;
+
+  private readonly speed: number;
+  private readonly lookSpeed: number;
+  private readonly keys = new Set<string>();
+  private readonly initial: { position: Float32Array; yaw: number; pitch: number };
+
+  constructor(camera: Camera, canvas: HTMLCanvasElement, options: FlyOptions = {}) {
+    this.camera = camera;
+    this.canvas = canvas;
+    this.speed = options.speed ?? 3;
+    this.lookSpeed = options.lookSpeed ?? 0.002;
+
+    const { position, target } = camera;
+    const dx = target[0] - position[0];
+    const dy = target[1] - position[1];
+    const dz = target[2] - position[2];
+    this.yaw = Math.atan2(dx, -dz);
+    this.pitch = Math.atan2(dy, Math.hypot(dx, dz));
+    this.initial = { position: position.slice(), yaw: this.yaw, pitch: this.pitch };
+
+    canvas.addEventListener("click", this.onClick);
+    document.addEventListener("pointerlockchange", this.onLockChange);
+    document.addEventListener("mousemove", this.onMouseMove);
+    window.addEventListener("keydown", this.onKeyDown);
+    window.addEventListener("keyup", this.onKeyUp);
+  }
+
+  get locked(): boolean {
+    return document.pointerLockElement === this.canvas;
+  }
+
+  update(dt: number): void {
+    const cam = this.camera;
+    const cosPitch = Math.cos(this.pitch);
+    const fx = Math.sin(this.yaw) * cosPitch;
+    const fy = Math.sin(this.pitch);
+    const fz = -Math.cos(this.yaw) * cosPitch;
+
+    if (this.keys.size > 0) {
+      // 전후 이동은 시선 방향, 좌우는 수평 right 축, 상하는 world +Y
+      const rx = Math.cos(this.yaw);
+      const rz = Math.sin(this.yaw);
+      const forward = axis(this.keys, "KeyW", "KeyS");
+      const right = axis(this.keys, "KeyD", "KeyA");
+      const up = axis(this.keys, "KeyE", "KeyQ") + axis(this.keys, "Space", "KeyC");
+      const boost = this.keys.has("ShiftLeft") || this.keys.has("ShiftRight") ? 3 : 1;
+      const step = this.speed * boost * dt;
+
+      cam.position[0] += (fx * forward + rx * right) * step;
+      cam.position[1] += (fy * forward + up) * step;
+      cam.position[2] += (fz * forward + rz * right) * step;
+    }
+
+    cam.target[0] = cam.position[0] + fx;
+    cam.target[1] = cam.position[1] + fy;
+    cam.target[2] = cam.position[2] + fz;
+  }
+
+  reset(): void {
+    this.camera.position.set(this.initial.position);
+    this.yaw = this.initial.yaw;
+    this.pitch = this.initial.pitch;
+  }
+
+  dispose(): void {
+    if (this.locked) document.exitPointerLock();
+    this.canvas.removeEventListener("click", this.onClick);
+    document.removeEventListener("pointerlockchange", this.onLockChange);
+    document.removeEventListener("mousemove", this.onMouseMove);
+    window.removeEventListener("keydown", this.onKeyDown);
+    window.removeEventListener("keyup", this.onKeyUp);
+    this.keys.clear();
+  }
+
+  // ── Internals ─────────────────────────────────────────────
+
+  private readonly onClick = (): void => {
+    if (!this.locked) void this.canvas.requestPointerLock();
+  };
+
+  private readonly onLockChange = (): void => {
+    // 잠금이 풀리면 눌려 있던 키의 keyup을 못 받을 수 있다
+    if (!this.locked) this.keys.clear();
+  };
+
+  private readonly onMouseMove = (e: MouseEvent): void => {
+    if (!this.locked) return;
+    this.yaw += e.movementX * this.lookSpeed;
+    this.pitch = Math.min(PITCH_LIMIT, Math.max(-PITCH_LIMIT, this.pitch - e.movementY * this.lookSpeed));
+  };
+
+  private readonly onKeyDown = (e: KeyboardEvent): void => {
+    if (!this.locked) return;
+    e.preventDefault();
+    this.keys.add(e.code);
+  };
+
+  private readonly onKeyUp = (e: KeyboardEvent): void => {
+    this.keys.delete(e.code);
+  };
+}
+
+function axis(keys: ReadonlySet<string>, positive: string, negative: string): number {
+  return (keys.has(positive) ? 1 : 0) - (keys.has(negative) ? 1 : 0);
+}
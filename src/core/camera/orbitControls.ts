@@ -0,0 +1,136 @@
+import type { Camera, CameraController } from "./camera";
+import { attachGestures } from "./pointerGestures";
+
+export interface OrbitOptions {
+  /** 픽셀당 회전량 (radians). 기본 0.005 */
+  rotateSpeed?: number;
+  /** wheel deltaY 100당 거리 배율의 지수. 기본 0.1 → 약 10% */
+  zoomSpeed?: number;
+  minDistance?: number;
+  maxDistance?: number;
+}
+
+/** 극점에서 up 벡터와 시선이 평행해지지 않도록 남겨 두는 여유 각. */
+const POLAR_EPSILON = 1e-3;
+
+/**
+ * target을 중심으로 도는 orbit 카메라 컨트롤러. up은 +Y로 가정한다.
+ *
+ *   왼쪽 드래그 / 한 손가락   회전
+ *   wheel / pinch             dolly (target까지 거리)
+ *   오른쪽·가운데·Shift 드래그  pan (target을 화면 평면에서 이동)
+ *   두 손가락 이동             pan
+ *
+ * 카메라 위치를 target 기준 구면 좌표(distance, azimuth, polar)로 관리한다.
+ */
+export class OrbitControls implements CameraController {
+  readonly camera: Camera;
+  readonly canvas: HTMLCanvasElement;
+
+  distance = 1;
+  /** +Z에서 +X 방향으로 잰 수평 각 */
+  azimuth = 0;
+  /** +Y에서 잰 각 (0 … π) */
+  polar = Math.PI / 2;
+
+  private readonly rotateSpeed: number;
+  private readonly zoomSpeed: number;
+  private readonly minDistance: number;
+  private readonly maxDistance: number;
+  private readonly initial: { target: Float32Array; distance: number; azimuth: number; polar: number };
+  private readonly detach: () => void;
+
+  constructor(camera: Camera, canvas: HTMLCanvasElement, options: OrbitOptions = {}) {
+    this.camera = camera;
+    this.canvas = canvas;
+    this.rotateSpeed = options.rotateSpeed ?? 0.005;
+    this.zoomSpeed = options.zoomSpeed ?? 0.1;
+    this.minDistance = options.minDistance ?? 0.1;
+    this.maxDistance = options.maxDistance ?? 1000;
+
+    this.syncFromCamera();
+    this.initial = {
+      target: camera.target.slice(),
+      distance: this.distance,
+      azimuth: this.azimuth,
+      polar: this.polar,
+    };
+
+    this.detach = attachGestures(canvas, {
+      drag: (dx, dy, button, shiftKey) => {
+        if (button === 0 && !shiftKey) this.rotate(dx, dy);
+        else this.pan(dx, dy);
+      },
+      pinch: (scale, dx, dy) => {
+        this.dolly(1 / scale);
+        this.pan(dx, dy);
+      },
+      wheel: (deltaY) => {
+        this.dolly(Math.exp((deltaY / 100) * this.zoomSpeed));
+      },
+    });
+  }
+
+  /** 현재 카메라 position/target에서 구면 좌표를 다시 읽는다. */
+  syncFromCamera(): void {
+    const { position, target } = this.camera;
+    const dx = position[0] - target[0];
+    const dy = position[1] - target[1];
+    const dz = position[2] - target[2];
+    this.distance = Math.hypot(dx, dy, dz) || 1;
+    this.azimuth = Math.atan2(dx, dz);
+    this.polar = Math.acos(Math.min(1, Math.max(-1, dy / this.distance)));
+  }
+
+  rotate(dxPixels: number, dyPixels: number): void {
+    this.azimuth -= dxPixels * this.rotateSpeed;
+    this.polar = clamp(this.polar - dyPixels * this.rotateSpeed, POLAR_EPSILON, Math.PI - POLAR_EPSILON);
+  }
+
+  /** factor < 1 이면 가까워진다. */
+  dolly(factor: number): void {
+    this.distance = clamp(this.distance * factor, this.minDistance, this.maxDistance);
+  }
+
+  /** 커서 이동량만큼 target을 화면 평면에서 옮긴다 (잡아 끄는 방향). */
+  pan(dxPixels: number, dyPixels: number): void {
+    const cam = this.camera;
+    const scale = cam.worldPerPixel(this.canvas.clientHeight || 1);
+    // view 행렬의 첫째/둘째 행 = 카메라의 right / up 축 (world 기준)
+    const v = cam.view;
+    for (let i = 0; i < 3; i++) {
+      cam.target[i] += (-dxPixels * v[i * 4] + dyPixels * v[i * 4 + 1]) * scale;
+    }
+  }
+
+  update(): void {
+    const cam = this.camera;
+    const sinPolar = Math.sin(this.polar);
+    cam.position[0] = cam.target[0] + this.distance * sinPolar * Math.sin(this.azimuth);
+    cam.position[1] = cam.target[1] + this.distance * Math.cos(this.polar);
+    cam.position[2] = cam.target[2] + this.distance * sinPolar * Math.cos(this.azimuth);
+  }
+
+  /** 현재 target과 구면 좌표를 reset()이 돌아갈 상태로 저장한다 (새 모델에 맞춰 카메라를 옮긴 뒤 등). */
+  saveState(): void {
+    this.initial.target.set(this.camera.target);
+    this.initial.distance = this.distance;
+    this.initial.azimuth = this.azimuth;
+    this.initial.polar = this.polar;
+  }
+
+  reset(): void {
+    this.camera.target.set(this.initial.target);
+    this.distance = this.initial.distance;
+    this.azimuth = this.initial.azimuth;
+    this.polar = this.initial.polar;
+  }
+
+  dispose(): void {
+    this.detach();
+  }
+}
+
+function clamp(v: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, v));
+}
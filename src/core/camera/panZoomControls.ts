@@ -0,0 +1,105 @@
+import type { Camera, CameraController } from "./camera";
+import { attachGestures } from "./pointerGestures";
+
+export interface PanZoomOptions {
+  /** wheel deltaY 100당 확대 배율의 지수. 기본 0.1 */
+  zoomSpeed?: number;
+  /** 화면 세로 절반 높이의 하한/상한 (world 단위) */
+  minHalfHeight?: number;
+  maxHalfHeight?: number;
+}
+
+/**
+ * 2D 장면용 pan/zoom 컨트롤러. 카메라는 orthographic이고 -Z를 바라보며 up이 +Y라고 가정한다.
+ *
+ *   드래그 / 한 손가락    pan
+ *   wheel               커서 위치를 고정한 채 zoom
+ *   pinch               zoom (+ 두 손가락 중점 이동만큼 pan)
+ */
+export class PanZoomControls implements CameraController {
+  readonly camera: Camera;
+  readonly canvas: HTMLCanvasElement;
+
+  private readonly zoomSpeed: number;
+  private readonly minHalfHeight: number;
+  private readonly maxHalfHeight: number;
+  private readonly initial: { position: Float32Array; target: Float32Array; halfHeight: number };
+  private readonly detach: () => void;
+
+  constructor(camera: Camera, canvas: HTMLCanvasElement, options: PanZoomOptions = {}) {
+    if (camera.projection.kind !== "orthographic") {
+      throw new Error("PanZoomControls는 orthographic 카메라에만 붙일 수 있습니다");
+    }
+    this.camera = camera;
+    this.canvas = canvas;
+    this.zoomSpeed = options.zoomSpeed ?? 0.1;
+    this.minHalfHeight = options.minHalfHeight ?? 0.05;
+    this.maxHalfHeight = options.maxHalfHeight ?? 100;
+    this.initial = {
+      position: camera.position.slice(),
+      target: camera.target.slice(),
+      halfHeight: camera.projection.halfHeight,
+    };
+
+    this.detach = attachGestures(canvas, {
+      drag: (dx, dy) => this.pan(dx, dy),
+      pinch: (scale, dx, dy) => {
+        this.zoomAt(1 / scale, canvas.clientWidth / 2, canvas.clientHeight / 2);
+        this.pan(dx, dy);
+      },
+      wheel: (deltaY, x, y) => this.zoomAt(Math.exp((deltaY / 100) * this.zoomSpeed), x, y),
+    });
+  }
+
+  /** 커서 이동량만큼 장면을 끈다. */
+  pan(dxPixels: number, dyPixels: number): void {
+    const scale = this.camera.worldPerPixel(this.canvas.clientHeight || 1);
+    this.translate(-dxPixels * scale, dyPixels * scale);
+  }
+
+  /**
+   * 보이는 영역을 factor배 한다 (factor < 1 이면 확대).
+   * (x, y)는 캔버스 CSS 픽셀 좌표이며, 그 아래의 world 점이 화면에서 움직이지 않는다.
+   */
+  zoomAt(factor: number, x: number, y: number): void {
+    const proj = this.camera.projection;
+    if (proj.kind !== "orthographic") return;
+
+    const w = this.canvas.clientWidth || 1;
+    const h = this.canvas.clientHeight || 1;
+    // 화면 중심에서 커서까지의 거리 (world 단위)
+    const before = (2 * proj.halfHeight) / h;
+    const offX = (x - w / 2) * before;
+    const offY = (h / 2 - y) * before;
+
+    const next = Math.min(this.maxHalfHeight, Math.max(this.minHalfHeight, proj.halfHeight * factor));
+    const ratio = next / proj.halfHeight;
+    proj.halfHeight = next;
+
+    this.translate(offX * (1 - ratio), offY * (1 - ratio));
+  }
+
+  update(): void {
+    // 이벤트 핸들러가 카메라를 직접 갱신하므로 프레임마다 할 일이 없다
+  }
+
+  reset(): void {
+    this.camera.position.set(this.initial.position);
+    this.camera.target.set(this.initial.target);
+    if (this.camera.projection.kind === "orthographic") {
+      this.camera.projection.halfHeight = this.initial.halfHeight;
+    }
+  }
+
+  dispose(): void {
+    this.detach();
+  }
+
+  private translate(dx: number, dy: number): void {
+    const { position, target } = this.camera;
+    position[0] += dx;
+    position[1] += dy;
+    target[0] += dx;
+    target[1] += dy;
+  }
+}
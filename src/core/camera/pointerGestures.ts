@@ -0,0 +1,97 @@
+/**
+ * 컨트롤러가 공유하는 포인터 제스처 해석기.
+ * 포인터 1개는 drag, 2개(터치)는 pinch로 해석하고, wheel은 그대로 전달한다.
+ * 좌표는 모두 CSS 픽셀이다.
+ */
+export interface GestureHandlers {
+  /** button: 0 = 왼쪽(또는 터치), 1 = 가운데, 2 = 오른쪽. shiftKey는 왼쪽 드래그를 보조 동작으로 바꿀 때 쓴다. */
+  drag?(dx: number, dy: number, button: number, shiftKey: boolean): void;
+  /** scale > 1 이면 손가락이 벌어진 것. (dx, dy)는 두 손가락 중점의 이동량. */
+  pinch?(scale: number, dx: number, dy: number): void;
+  /** (x, y)는 캔버스 기준 커서 위치. */
+  wheel?(deltaY: number, x: number, y: number): void;
+}
+
+interface ActivePointer {
+  x: number;
+  y: number;
+  button: number;
+}
+
+/** 캔버스에 제스처 리스너를 붙이고, 떼는 함수를 반환한다. */
+export function attachGestures(canvas: HTMLCanvasElement, handlers: GestureHandlers): () => void {
+  const pointers = new Map<number, ActivePointer>();
+  const prevTouchAction = canvas.style.touchAction;
+  // 브라우저 기본 스크롤/줌 제스처를 막아야 pinch를 받을 수 있다
+  canvas.style.touchAction = "none";
+
+  function pinchState(): { distance: number; cx: number; cy: number } {
+    const [a, b] = [...pointers.values()];
+    return {
+      distance: Math.hypot(b.x - a.x, b.y - a.y),
+      cx: (a.x + b.x) / 2,
+      cy: (a.y + b.y) / 2,
+    };
+  }
+
+  const onPointerDown = (e: PointerEvent): void => {
+    if (pointers.size >= 2) return;
+    canvas.setPointerCapture(e.pointerId);
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY, button: e.button });
+  };
+
+  const onPointerMove = (e: PointerEvent): void => {
+    const p = pointers.get(e.pointerId);
+    if (!p) return;
+
+    if (pointers.size === 1) {
+      const dx = e.clientX - p.x;
+      const dy = e.clientY - p.y;
+      p.x = e.clientX;
+      p.y = e.clientY;
+      handlers.drag?.(dx, dy, p.button, e.shiftKey);
+      return;
+    }
+
+    const before = pinchState();
+    p.x = e.clientX;
+    p.y = e.clientY;
+    const after = pinchState();
+    if (before.distance > 0) {
+      handlers.pinch?.(after.distance / before.distance, after.cx - before.cx, after.cy - before.cy);
+    }
+  };
+
+  const onPointerUp = (e: PointerEvent): void => {
+    if (!pointers.delete(e.pointerId)) return;
+    if (canvas.hasPointerCapture(e.pointerId)) canvas.releasePointerCapture(e.pointerId);
+  };
+
+  const onWheel = (e: WheelEvent): void => {
+    e.preventDefault();
+    const rect = canvas.getBoundingClientRect();
+    // deltaMode 1(줄 단위, Firefox)은 대략 픽셀로 환산한다
+    const deltaY = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+    handlers.wheel?.(deltaY, e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  const onContextMenu = (e: Event): void => e.preventDefault();
+
+  canvas.addEventListener("pointerdown", onPointerDown);
+  canvas.addEventListener("pointermove", onPointerMove);
+  canvas.addEventListener("pointerup", onPointerUp);
+  canvas.addEventListener("pointercancel", onPointerUp);
+  canvas.addEventListener("wheel", onWheel, { passive: false });
+  canvas.addEventListener("contextmenu", onContextMenu);
+
+  return () => {
+    canvas.removeEventListener("pointerdown", onPointerDown);
+    canvas.removeEventListener("pointermove", onPointerMove);
+    canvas.removeEventListener("pointerup", onPointerUp);
+    canvas.removeEventListener("pointercancel", onPointerUp);
+    canvas.removeEventListener("wheel", onWheel);
+    canvas.removeEventListener("contextmenu", onContextMenu);
+    canvas.style.touchAction = prevTouchAction;
+    pointers.clear();
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * #include <name> 으로 불러 쓰는 공용 GLSL 조각.
+ * 단일 소스 규칙(shaderSource.ts)을 따르되 in/out 선언 없이 함수와 상수만 담는다.
+ * 오래된 드라이버가 주석의 비 ASCII 문자를 거부하므로 GLSL 안의 주석은 영어로 쓴다.
+ */
+
+const UV = `
+// UV helpers
+vec2 uvTransform(vec2 uv, vec2 scale, vec2 offset) {
+  return uv * scale + offset;
+}
+
+vec2 uvFlipY(vec2 uv) {
+  return vec2(uv.x, 1.0 - uv.y);
+}
+
+// Checker pattern in texture space (0 or 1)
+float uvChecker(vec2 uv, float cells) {
+  vec2 c = floor(uv * cells);
+  return mod(c.x + c.y, 2.0);
+}`;
+
+const COLOR_SPACE = `
+// sRGB <-> linear (gamma 2.2 approximation, not the piecewise curve)
+const float GAMMA = 2.2;
+
+vec3 srgbToLinear(vec3 c) {
+  return pow(c, vec3(GAMMA));
+}
+
+vec3 linearToSrgb(vec3 c) {
+  return pow(c, vec3(1.0 / GAMMA));
+}
+
+float luminance(vec3 linearRgb) {
+  return dot(linearRgb, vec3(0.2126, 0.7152, 0.0722));
+}`;
+
+const NOISE = `
+// Hash-based value noise / fBm for procedural patterns
+float hash12(vec2 p) {
+  vec3 p3 = fract(vec3(p.xyx) * 0.1031);
+  p3 += dot(p3, p3.yzx + 33.33);
+  return fract((p3.x + p3.y) * p3.z);
+}
+
+float valueNoise(vec2 p) {
+  vec2 i = floor(p);
+  vec2 f = fract(p);
+  vec2 u = f * f * (3.0 - 2.0 * f);
+  float a = hash12(i);
+  float b = hash12(i + vec2(1.0, 0.0));
+  float c = hash12(i + vec2(0.0, 1.0));
+  float d = hash12(i + vec2(1.0, 1.0));
+  return mix(mix(a, b, u.x), mix(c, d, u.x), u.y);
+}
+
+float fbm(vec2 p) {
+  float sum = 0.0;
+  float amp = 0.5;
+  for (int i = 0; i < 5; i++) {
+    sum += amp * valueNoise(p);
+    p *= 2.0;
+    amp *= 0.5;
+  }
+  return sum;
+}`;
+
+const LIGHTING = `
+// Basic lighting terms. All vectors must be normalized and in the same space.
+float lambert(vec3 n, vec3 l) {
+  return max(dot(n, l), 0.0);
+}
+
+float phongSpecular(vec3 n, vec3 l, vec3 v, float shininess) {
+  vec3 r = reflect(-l, n);
+  return pow(max(dot(r, v), 0.0), shininess);
+}
+
+float blinnPhongSpecular(vec3 n, vec3 l, vec3 v, float shininess) {
+  vec3 h = normalize(l + v);
+  return pow(max(dot(n, h), 0.0), shininess);
+}
+
+// Distance attenuation 1 / (c + l*d + q*d^2)
+float attenuation(float d, vec3 clq) {
+  return 1.0 / (clq.x + clq.y * d + clq.z * d * d);
+}`;
+
+const PBR = `
+// Cook-Torrance metallic-roughness BRDF for analytic lights (glTF 2.0 appendix B).
+// All vectors normalized, same space. roughness is perceptual (alpha = roughness^2).
+const float PI = 3.14159265359;
+
+// GGX / Trowbridge-Reitz normal distribution
+float distributionGGX(float ndoth, float roughness) {
+  float a = roughness * roughness;
+  float a2 = a * a;
+  float d = ndoth * ndoth * (a2 - 1.0) + 1.0;
+  return a2 / (PI * d * d);
+}
+
+// Smith geometry term with the Schlick-GGX approximation, k = (r + 1)^2 / 8 for direct light
+float geometrySmith(float ndotv, float ndotl, float roughness) {
+  float r = roughness + 1.0;
+  float k = r * r / 8.0;
+  float gView = ndotv / (ndotv * (1.0 - k) + k);
+  float gLight = ndotl / (ndotl * (1.0 - k) + k);
+  return gView * gLight;
+}
+
+vec3 fresnelSchlick(float cosTheta, vec3 f0) {
+  return f0 + (1.0 - f0) * pow(clamp(1.0 - cosTheta, 0.0, 1.0), 5.0);
+}
+
+// Outgoing radiance from one light: BRDF * radiance * N.L
+vec3 cookTorrance(vec3 n, vec3 v, vec3 l, vec3 radiance, vec3 baseColor, float metallic, float roughness) {
+  vec3 h = normalize(v + l);
+  float ndotl = max(dot(n, l), 0.0);
+  float ndotv = max(dot(n, v), 1e-4);
+  float ndoth = max(dot(n, h), 0.0);
+
+  vec3 f0 = mix(vec3(0.04), baseColor, metallic);
+  vec3 f = fresnelSchlick(max(dot(h, v), 0.0), f0);
+  float d = distributionGGX(ndoth, roughness);
+  float g = geometrySmith(ndotv, ndotl, roughness);
+  vec3 specular = d * g * f / max(4.0 * ndotv * ndotl, 1e-4);
+
+  // Metals have no diffuse; what is reflected is not refracted
+  vec3 kd = (1.0 - f) * (1.0 - metallic);
+  return (kd * baseColor / PI + specular) * radiance * ndotl;
+}`;
+
+const TONEMAP = `
+// HDR -> LDR tone mapping. Input and output are linear; apply gamma afterwards.
+vec3 tonemapReinhard(vec3 c) {
+  return c / (1.0 + c);
+}
+
+// ACES filmic curve fit (Krzysztof Narkowicz)
+vec3 tonemapACES(vec3 c) {
+  const float a = 2.51;
+  const float b = 0.03;
+  const float cc = 2.43;
+  const float d = 0.59;
+  const float e = 0.14;
+  return clamp((c * (a * c + b)) / (c * (cc * c + d) + e), 0.0, 1.0);
+}`;
+
+/** 이름 → GLSL 조각. registerShaderChunk로 랩 전용 조각을 추가할 수 있다. */
+export const shaderChunks = new Map<string, string>([
+  ["uv", UV],
+  ["colorspace", COLOR_SPACE],
+  ["noise", NOISE],
+  ["lighting", LIGHTING],
+  ["pbr", PBR],
+  ["tonemap", TONEMAP],
+]);
+
+/**
+ * 조각을 등록한다. 같은 이름이 이미 있으면 덮어쓴다.
+ */
+export function registerShaderChunk(name: string, source: string): void {
+  shaderChunks.set(name, source);
+}
@@ -0,0 +1,140 @@
+import {
+  COMPRESSED_FORMATS,
+  canDecodeToRgba,
+  decodeToRgba,
+  mipChainLength,
+} from "../loaders/compressedTexture";
+import type {
+  CompressedTexture,
+  CompressedTextureFamily,
+  CompressedTextureFormat,
+} from "../loaders/compressedTexture";
+import { TextureOptionsError, applyTextureParams, isMipmapFilter, isPowerOfTwo, textureProblems } from "./texture";
+import type { TextureOptions } from "./texture";
+
+type GL = WebGL2RenderingContext | WebGLRenderingContext;
+
+/** 포맷 계열별 WebGL 확장 이름. */
+export const COMPRESSED_EXTENSIONS: Readonly<Record<CompressedTextureFamily, string>> = {
+  s3tc: "WEBGL_compressed_texture_s3tc",
+  bptc: "EXT_texture_compression_bptc",
+  etc: "WEBGL_compressed_texture_etc",
+  astc: "WEBGL_compressed_texture_astc",
+};
+
+/**
+ * 계열별 확장 지원 여부. getExtension으로 확장을 켜는 것까지 한다 —
+ * 켜지 않은 확장의 포맷으로 compressedTexImage2D를 부르면 INVALID_ENUM이다.
+ * 컨텍스트를 복구하면 다시 켜야 하므로 결과를 캐시하지 않는다 (객체는 브라우저가 캐시한다).
+ */
+export function compressedTextureSupport(gl: GL): Record<CompressedTextureFamily, boolean> {
+  return {
+    s3tc: gl.getExtension(COMPRESSED_EXTENSIONS.s3tc) !== null,
+    bptc: gl.getExtension(COMPRESSED_EXTENSIONS.bptc) !== null,
+    etc: gl.getExtension(COMPRESSED_EXTENSIONS.etc) !== null,
+    astc: gl.getExtension(COMPRESSED_EXTENSIONS.astc) !== null,
+  };
+}
+
+/**
+ * compressed   — compressedTexImage2D로 블록 그대로 올린다
+ * decoded      — 확장이 없어 (또는 decode를 요청해) CPU에서 RGBA8로 풀어 texImage2D로 올린다
+ * unsupported  — 확장도 CPU 디코더도 없다
+ */
+export type CompressedUploadPath = "compressed" | "decoded" | "unsupported";
+
+export function compressedUploadPath(gl: GL, format: CompressedTextureFormat, decode = false): CompressedUploadPath {
+  if (!decode && compressedTextureSupport(gl)[COMPRESSED_FORMATS[format].family]) return "compressed";
+  return canDecodeToRgba(format) ? "decoded" : "unsupported";
+}
+
+/**
+ * 압축 텍스처용 옵션. flipY와 mipmaps는 쓸 수 없다 —
+ * 압축 데이터에는 UNPACK_FLIP_Y_WEBGL이 적용되지 않고 generateMipmap도 부를 수 없어 파일의 level만 쓴다.
+ */
+export interface CompressedTextureOptions extends Omit<TextureOptions, "flipY" | "mipmaps"> {
+  /** 확장이 있어도 RGBA8로 풀어 올린다 (화질 · 메모리 비교용) */
+  decode?: boolean;
+}
+
+/**
+ * textureProblems에 압축 텍스처 규칙을 더한다. 빈 배열이면 문제가 없다.
+ *
+ *   - 확장도 CPU 디코더도 없는 포맷
+ *   - s3tc / bptc: level 0 크기가 4의 배수가 아니면 compressedTexImage2D가 INVALID_OPERATION
+ *   - WebGL1: mipmap 필터는 1×1까지 전체 level이 있고 POT여야 한다 (WebGL2는 MAX_LEVEL을 파일 level에 맞춘다)
+ */
+export function compressedTextureProblems(gl: GL, texture: CompressedTexture, options: CompressedTextureOptions): string[] {
+  const { format, width, height } = texture;
+  const minFilter = options.minFilter ?? gl.LINEAR;
+  const mipmapFilter = isMipmapFilter(minFilter);
+  // mipmap 필터 규칙은 아래에서 파일 level 기준으로 따로 본다
+  const problems = textureProblems(gl, { width, height }, { ...options, minFilter: mipmapFilter ? gl.LINEAR : minFilter, mipmaps: false });
+  const info = COMPRESSED_FORMATS[format];
+  const path = compressedUploadPath(gl, format, options.decode);
+
+  if (path === "unsupported") {
+    problems.push(`${format}: ${COMPRESSED_EXTENSIONS[info.family]} 확장이 없고 CPU 디코더도 없어 올릴 수 없습니다`);
+  }
+  if (path === "compressed" && (info.family === "s3tc" || info.family === "bptc") && (width % 4 !== 0 || height % 4 !== 0)) {
+    problems.push(`${format}: level 0 크기 ${width}×${height}가 4의 배수가 아니면 compressedTexImage2D가 INVALID_OPERATION입니다`);
+  }
+  if (mipmapFilter && !isWebGL2(gl)) {
+    const full = mipChainLength(width, height);
+    if (!(isPowerOfTwo(width) && isPowerOfTwo(height))) {
+      problems.push(`WebGL1 NPOT ${width}×${height} 텍스처에 mipmap 축소 필터를 쓰면 텍스처가 불완전해져 검게 그려집니다`);
+    } else if (texture.levels.length < full) {
+      problems.push(`파일에 mip level이 ${texture.levels.length}개뿐이라 (전체 ${full}개) mipmap 필터를 쓰면 불완전합니다 — 압축 텍스처는 generateMipmap을 쓸 수 없습니다`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * 파일의 모든 level을 올린 TEXTURE_2D를 만든다. 경로는 compressedUploadPath로 정한다.
+ * 옵션이나 포맷을 이 컨텍스트에서 쓸 수 없으면 GL 객체를 만들기 전에 TextureOptionsError를 던진다.
+ *
+ * 두 컨테이너 모두 첫 행이 위쪽이라 t = 0이 이미지 위가 된다. 셰이더에서 uv.y를 뒤집어 샘플링한다.
+ */
+export function createCompressedTexture(
+  gl: GL,
+  texture: CompressedTexture,
+  options: CompressedTextureOptions = {},
+): WebGLTexture {
+  const problems = compressedTextureProblems(gl, texture, options);
+  if (problems.length > 0) throw new TextureOptionsError(problems);
+  const path = compressedUploadPath(gl, texture.format, options.decode);
+  const info = COMPRESSED_FORMATS[texture.format];
+
+  const tex = gl.createTexture();
+  if (!tex) {
+    throw new Error("WebGL 텍스처 객체 생성 실패");
+  }
+
+  gl.bindTexture(gl.TEXTURE_2D, tex);
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 0);
+  for (const [i, level] of texture.levels.entries()) {
+    if (path === "compressed") {
+      gl.compressedTexImage2D(gl.TEXTURE_2D, i, info.glInternalFormat, level.width, level.height, 0, level.data);
+    } else {
+      const pixels = decodeToRgba(texture.format, level);
+      gl.texImage2D(gl.TEXTURE_2D, i, gl.RGBA, level.width, level.height, 0, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+    }
+  }
+
+  applyTextureParams(gl, {
+    wrapS: gl.CLAMP_TO_EDGE,
+    wrapT: gl.CLAMP_TO_EDGE,
+    minFilter: gl.LINEAR,
+    magFilter: gl.LINEAR,
+    // 파일에 있는 level까지만 쓰게 해서 일부만 있는 chain도 완전하게 만든다 (WebGL1에서는 무시된다)
+    maxLevel: texture.levels.length - 1,
+    ...options,
+  });
+
+  return tex;
+}
+
+function isWebGL2(gl: GL): gl is WebGL2RenderingContext {
+  return typeof WebGL2RenderingContext !== "undefined" && gl instanceof WebGL2RenderingContext;
+}
@@ -27,7 +27,7 @@ export function createGLCanvas(container: HTMLElement): GLContext {
     throw new Error("WebGL을 사용할 수 없습니다. 브라우저가 WebGL을 지원하는지 확인하세요.");
   }
 
-  // context lost / restored
+  // context lost / restored — 로그만 남긴다. 리소스 재생성과 렌더 루프 재개는 GLResourceManager가 담당한다.
   canvas.addEventListener("webglcontextlost", (e) => {
     e.preventDefault();
     console.warn("[WebGL] context lost");
@@ -54,3 +54,14 @@ export function resizeCanvas(gl: WebGL2RenderingContext | WebGLRenderingContext,
 
   gl.viewport(0, 0, canvas.width, canvas.height);
 }
+
+/**
+ * 컨텍스트를 즉시 반납하고 캔버스를 DOM에서 제거한다.
+ * GC를 기다리지 않고 WEBGL_lose_context로 해제하여, 라우트를 오갈 때
+ * 브라우저의 활성 컨텍스트 한도에 걸려 오래된 컨텍스트가 버려지는 것을 막는다.
+ */
+export function destroyGLCanvas(ctx: GLContext): void {
+  const ext = ctx.gl.getExtension("WEBGL_lose_context");
+  ext?.loseContext();
+  ctx.canvas.remove();
+}
@@ -0,0 +1,277 @@
+type GL = WebGL2RenderingContext | WebGLRenderingContext;
+
+/**
+ * 버퍼 안의 attribute 하나. location은 Geometry 생성 시 넘기는 이름 → 위치 표에서 찾는다
+ * (ShaderSourceSpec.attributes와 같은 표를 쓰면 셰이더와 자동으로 맞는다).
+ */
+export interface VertexAttributeDesc {
+  name: string;
+  size: 1 | 2 | 3 | 4;
+  /** 기본 gl.FLOAT */
+  type?: number;
+  normalized?: boolean;
+  /** 정점 시작으로부터의 바이트 오프셋 (interleaved 버퍼용). 기본 0 */
+  offset?: number;
+}
+
+/**
+ * 정점 버퍼 하나. attributes가 여러 개면 stride를 지정한 interleaved 버퍼,
+ * 하나면 tightly packed 버퍼로 취급한다.
+ */
+export interface VertexBufferDesc {
+  data: AllowSharedBufferSource;
+  attributes: VertexAttributeDesc[];
+  /** 정점당 바이트 수. 0 또는 생략 시 tightly packed */
+  stride?: number;
+  /** 기본 gl.STATIC_DRAW */
+  usage?: number;
+}
+
+export interface GeometryDesc {
+  buffers: VertexBufferDesc[];
+  indices?: Uint8Array | Uint16Array | Uint32Array;
+  /** 기본 gl.TRIANGLES */
+  mode?: number;
+  /** 그릴 정점(또는 인덱스) 수. 생략 시 indices 길이나 첫 번째 버퍼에서 계산한다. */
+  count?: number;
+}
+
+/**
+ * native    — WebGL2 VAO
+ * oes       — WebGL1 + OES_vertex_array_object
+ * emulated  — 확장이 없는 WebGL1. bind()마다 기록해 둔 attribute 설정을 다시 적용한다.
+ */
+export type GeometryBackend = "native" | "oes" | "emulated";
+
+interface BoundAttribute {
+  buffer: WebGLBuffer;
+  location: number;
+  size: number;
+  type: number;
+  normalized: boolean;
+  stride: number;
+  offset: number;
+}
+
+/**
+ * 정점 버퍼 + 인덱스 버퍼 + attribute 레이아웃을 묶은 그릴 수 있는 객체.
+ * WebGL1/WebGL2의 VAO 분기를 감추고, draw() 후에는 바인딩과 attribute 상태를 정리한다.
+ */
+export class Geometry {
+  readonly gl: GL;
+  readonly backend: GeometryBackend;
+  readonly mode: number;
+  /** indices가 없으면 null (drawArrays) */
+  readonly indexType: number | null;
+
+  private drawCount: number;
+  private readonly buffers: WebGLBuffer[] = [];
+  private readonly indexBuffer: WebGLBuffer | null = null;
+  private readonly attributes: BoundAttribute[] = [];
+  private readonly vao: WebGLVertexArrayObject | WebGLVertexArrayObjectOES | null = null;
+  private readonly oes: OES_vertex_array_object | null = null;
+
+  constructor(gl: GL, desc: GeometryDesc, locations: Record<string, number>) {
+    this.gl = gl;
+    this.mode = desc.mode ?? gl.TRIANGLES;
+
+    // ── index type ──
+    if (desc.indices) {
+      this.indexType = indexTypeOf(gl, desc.indices);
+    } else {
+      this.indexType = null;
+    }
+
+    // ── VAO backend ──
+    if (isWebGL2(gl)) {
+      this.backend = "native";
+    } else {
+      this.oes = gl.getExtension("OES_vertex_array_object");
+      this.backend = this.oes ? "oes" : "emulated";
+    }
+
+    // ── buffers ──
+    for (const bufDesc of desc.buffers) {
+      const buffer = gl.createBuffer();
+      if (!buffer) throw new Error("WebGL 버퍼 객체 생성 실패");
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      gl.bufferData(gl.ARRAY_BUFFER, bufDesc.data, bufDesc.usage ?? gl.STATIC_DRAW);
+      this.buffers.push(buffer);
+
+      for (const attr of bufDesc.attributes) {
+        const location = locations[attr.name];
+        if (location === undefined) {
+          throw new Error(`attribute "${attr.name}"의 위치가 지정되지 않았습니다`);
+        }
+        this.attributes.push({
+          buffer,
+          location,
+          size: attr.size,
+          type: attr.type ?? gl.FLOAT,
+          normalized: attr.normalized ?? false,
+          stride: bufDesc.stride ?? 0,
+          offset: attr.offset ?? 0,
+        });
+      }
+    }
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+
+    if (desc.indices) {
+      const ib = gl.createBuffer();
+      if (!ib) throw new Error("WebGL 인덱스 버퍼 객체 생성 실패");
+      this.indexBuffer = ib;
+    }
+
+    this.drawCount = desc.count ?? (desc.indices ? desc.indices.length : vertexCountOf(desc.buffers[0]));
+
+    // ── record layout ──
+    if (this.backend !== "emulated") {
+      this.vao = this.createVertexArray();
+      this.bindVertexArray(this.vao);
+      this.applyAttributes();
+    }
+
+    // ELEMENT_ARRAY_BUFFER 바인딩은 VAO 상태이므로 VAO가 바인드된 상태에서 업로드한다
+    if (desc.indices && this.indexBuffer) {
+      gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+      gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, desc.indices, gl.STATIC_DRAW);
+    }
+
+    if (this.backend !== "emulated") {
+      this.bindVertexArray(null);
+    } else {
+      gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, null);
+    }
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+  }
+
+  /** draw()가 그리는 정점(또는 인덱스) 수 */
+  get count(): number {
+    return this.drawCount;
+  }
+
+  bind(): void {
+    if (this.backend === "emulated") {
+      this.applyAttributes();
+      if (this.indexBuffer) this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+    } else {
+      this.bindVertexArray(this.vao);
+    }
+  }
+
+  /** 바인딩을 해제한다. emulated 경로에서는 켜 둔 attribute 배열도 끈다. */
+  unbind(): void {
+    const gl = this.gl;
+    if (this.backend === "emulated") {
+      for (const a of this.attributes) gl.disableVertexAttribArray(a.location);
+      gl.bindBuffer(gl.ARRAY_BUFFER, null);
+      gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, null);
+    } else {
+      this.bindVertexArray(null);
+    }
+  }
+
+  /** bind → draw → unbind. 호출 전에 프로그램이 use() 되어 있어야 한다. */
+  draw(): void {
+    this.bind();
+    if (this.indexType !== null) {
+      this.gl.drawElements(this.mode, this.count, this.indexType, 0);
+    } else {
+      this.gl.drawArrays(this.mode, 0, this.count);
+    }
+    this.unbind();
+  }
+
+  /**
+   * 정점 버퍼 i의 내용을 교체한다. 크기가 바뀌어 그릴 정점 수도 달라지면 count로 새 draw 수를 넘긴다.
+   * count를 생략하면 이전 draw 수를 그대로 쓴다.
+   */
+  updateBuffer(index: number, data: AllowSharedBufferSource, count?: number): void {
+    const gl = this.gl;
+    const buffer = this.buffers[index];
+    if (!buffer) throw new Error(`정점 버퍼 ${index}이 없습니다 (버퍼 ${this.buffers.length}개)`);
+    if (count !== undefined) this.drawCount = count;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data, gl.DYNAMIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+  }
+
+  dispose(): void {
+    const gl = this.gl;
+    if (this.vao) this.deleteVertexArray(this.vao);
+    for (const b of this.buffers) gl.deleteBuffer(b);
+    if (this.indexBuffer) gl.deleteBuffer(this.indexBuffer);
+  }
+
+  // ── Internals ─────────────────────────────────────────────
+
+  private applyAttributes(): void {
+    const gl = this.gl;
+    for (const a of this.attributes) {
+      gl.bindBuffer(gl.ARRAY_BUFFER, a.buffer);
+      gl.enableVertexAttribArray(a.location);
+      gl.vertexAttribPointer(a.location, a.size, a.type, a.normalized, a.stride, a.offset);
+    }
+  }
+
+  private createVertexArray(): WebGLVertexArrayObject | WebGLVertexArrayObjectOES {
+    const vao = this.backend === "native"
+      ? (this.gl as WebGL2RenderingContext).createVertexArray()
+      : this.oes!.createVertexArrayOES();
+    if (!vao) throw new Error("VAO 생성 실패");
+    return vao;
+  }
+
+  private bindVertexArray(vao: WebGLVertexArrayObject | WebGLVertexArrayObjectOES | null): void {
+    if (this.backend === "native") {
+      (this.gl as WebGL2RenderingContext).bindVertexArray(vao);
+    } else {
+      this.oes!.bindVertexArrayOES(vao);
+    }
+  }
+
+  private deleteVertexArray(vao: WebGLVertexArrayObject | WebGLVertexArrayObjectOES): void {
+    if (this.backend === "native") {
+      (this.gl as WebGL2RenderingContext).deleteVertexArray(vao);
+    } else {
+      this.oes!.deleteVertexArrayOES(vao);
+    }
+  }
+}
+
+function isWebGL2(gl: GL): gl is WebGL2RenderingContext {
+  return typeof WebGL2RenderingContext !== "undefined" && gl instanceof WebGL2RenderingContext;
+}
+
+/** Uint32 인덱스(gl.UNSIGNED_INT)를 drawElements에 쓸 수 있는지. WebGL1에서는 확장을 활성화한다. */
+export function supportsUint32Indices(gl: GL): boolean {
+  return isWebGL2(gl) || gl.getExtension("OES_element_index_uint") !== null;
+}
+
+function indexTypeOf(gl: GL, indices: Uint8Array | Uint16Array | Uint32Array): number {
+  if (indices instanceof Uint8Array) return gl.UNSIGNED_BYTE;
+  if (indices instanceof Uint16Array) return gl.UNSIGNED_SHORT;
+  if (!supportsUint32Indices(gl)) {
+    throw new Error("Uint32 인덱스는 WebGL2 또는 OES_element_index_uint 확장이 필요합니다");
+  }
+  return gl.UNSIGNED_INT;
+}
+
+const BYTES_PER_COMPONENT: Record<number, number> = {
+  0x1400: 1, // BYTE
+  0x1401: 1, // UNSIGNED_BYTE
+  0x1402: 2, // SHORT
+  0x1403: 2, // UNSIGNED_SHORT
+  0x1404: 4, // INT
+  0x1405: 4, // UNSIGNED_INT
+  0x1406: 4, // FLOAT
+  0x140b: 2, // HALF_FLOAT (WebGL2)
+};
+
+/** 버퍼 크기와 stride(또는 packed attribute 크기)로 정점 수를 계산한다. */
+function vertexCountOf(buf: VertexBufferDesc | undefined): number {
+  if (!buf || buf.attributes.length === 0) return 0;
+  const first = buf.attributes[0];
+  const stride = buf.stride || first.size * (BYTES_PER_COMPONENT[first.type ?? 0x1406] ?? 4);
+  return Math.floor(buf.data.byteLength / stride);
+}
@@ -0,0 +1,105 @@
+import { shaderChunks } from "./chunks";
+import type { SourceLocation } from "./shader";
+
+/**
+ * createProgram 앞단의 GLSL 전처리기.
+ *
+ *   - #include <name> / #include "name" 을 조각 레지스트리(chunks.ts)에서 찾아 펼친다.
+ *     같은 조각은 한 번만 포함되며, 순환 include는 오류로 처리한다.
+ *   - defines 객체를 소스 맨 앞의 #define 줄로 주입한다.
+ *       true → "#define NAME 1", false/undefined → 생략, 숫자·문자열 → 값 그대로
+ *   - 출력의 각 줄이 어느 파일(조각)의 몇 번째 줄에서 왔는지 source map을 함께 만든다.
+ */
+
+export type ShaderDefines = Record<string, boolean | number | string | undefined>;
+
+export interface PreprocessOptions {
+  defines?: ShaderDefines;
+  /** 입력 소스의 이름. 오류 메시지와 source map에 쓰인다. */
+  file?: string;
+  /** 조각 레지스트리. 기본값은 전역 shaderChunks. */
+  chunks?: ReadonlyMap<string, string>;
+}
+
+export interface PreprocessResult {
+  source: string;
+  /** map[i] = 출력 (i + 1)번째 줄의 원본 위치 */
+  map: SourceLocation[];
+}
+
+/**
+ * include 해석 실패 등 전처리 단계의 오류. 원본 위치를 함께 보관한다.
+ */
+export class ShaderPreprocessError extends Error {
+  readonly location: SourceLocation;
+
+  constructor(message: string, location: SourceLocation) {
+    super(`${location.file}:${location.line}: ${message}`);
+    this.name = "ShaderPreprocessError";
+    this.location = location;
+  }
+}
+
+const INCLUDE_RE = /^\s*#\s*include\s+(?:<([\w./-]+)>|"([\w./-]+)")\s*(?:\/\/.*)?$/;
+const DEFINE_NAME_RE = /^[A-Za-z_]\w*$/;
+
+export function preprocess(source: string, options: PreprocessOptions = {}): PreprocessResult {
+  const file = options.file ?? "main";
+  const chunks = options.chunks ?? shaderChunks;
+  const lines: string[] = [];
+  const map: SourceLocation[] = [];
+
+  // ── defines ──
+  for (const [name, value] of Object.entries(options.defines ?? {})) {
+    if (!DEFINE_NAME_RE.test(name)) {
+      throw new ShaderPreprocessError(`잘못된 define 이름 "${name}"`, { file: "<defines>", line: 0 });
+    }
+    if (value === false || value === undefined) continue;
+    lines.push(`#define ${name} ${value === true ? 1 : value}`);
+    map.push({ file: "<defines>", line: lines.length });
+  }
+
+  // ── includes ──
+  const included = new Set<string>();
+
+  function expand(src: string, name: string, stack: string[]): void {
+    const srcLines = src.split(/\r?\n/);
+    for (let i = 0; i < srcLines.length; i++) {
+      const text = srcLines[i];
+      const here: SourceLocation = { file: name, line: i + 1 };
+      const m = INCLUDE_RE.exec(text);
+
+      if (!m) {
+        lines.push(text);
+        map.push(here);
+        continue;
+      }
+
+      const chunkName = m[1] ?? m[2];
+      if (stack.includes(chunkName)) {
+        throw new ShaderPreprocessError(
+          `순환 include: ${[...stack, chunkName].join(" → ")}`,
+          here,
+        );
+      }
+
+      const chunk = chunks.get(chunkName);
+      if (chunk === undefined) {
+        throw new ShaderPreprocessError(`알 수 없는 include <${chunkName}>`, here);
+      }
+
+      // 이미 포함된 조각은 주석 한 줄로 대체한다
+      if (included.has(chunkName)) {
+        lines.push(`// #include <${chunkName}> (already included)`);
+        map.push(here);
+        continue;
+      }
+      included.add(chunkName);
+      expand(chunk, chunkName, [...stack, chunkName]);
+    }
+  }
+
+  expand(source, file, [file]);
+
+  return { source: lines.join("\n"), map };
+}
@@ -0,0 +1,295 @@
+import { createProgram, ShaderCompileError } from "./shader";
+import { buildShaderVariant } from "./shaderSource";
+import type { ShaderSourceSpec } from "./shaderSource";
+
+type GL = WebGL2RenderingContext | WebGLRenderingContext;
+
+/**
+ * getActiveAttrib / getActiveUniform 으로 얻은 활성 변수 정보.
+ */
+export interface ActiveAttribute {
+  name: string;
+  location: number;
+  type: number;
+  size: number;
+}
+
+export interface ActiveUniform {
+  name: string;
+  location: WebGLUniformLocation;
+  type: number;
+  size: number;
+}
+
+/** 마지막으로 업로드한 값. 숫자 하나 또는 벡터/행렬 사본. */
+type UniformValue = number | Float32Array | Int32Array;
+
+/**
+ * 링크된 프로그램을 리플렉션하여 attribute/uniform 위치를 캐시하는 래퍼.
+ *
+ * - 활성 변수를 생성 시점에 한 번만 조회한다 (getAttribLocation/getUniformLocation 반복 호출 제거).
+ * - 같은 값을 다시 업로드하지 않는다. 값은 location별로 기억하므로 "u_arr"과 "u_arr[0]"은 같은 값을 공유한다.
+ * - 원소가 2개 이상인 배열 uniform은 "u_arr[i]"로 원소마다 설정해야 한다. 기본 이름 "u_arr"로는 설정할 수 없다.
+ * - 존재하지 않는 이름, 타입이 맞지 않는 setter 호출은 이름당 한 번만 경고한다.
+ *
+ * setter는 raw GL과 마찬가지로 현재 프로그램에 업로드하므로 먼저 use()를 호출해야 한다.
+ */
+export class ShaderProgram {
+  readonly gl: GL;
+  readonly program: WebGLProgram;
+  readonly label: string;
+  readonly attributes: ReadonlyMap<string, ActiveAttribute>;
+  readonly uniforms: ReadonlyMap<string, ActiveUniform>;
+
+  private readonly values = new Map<WebGLUniformLocation, UniformValue>();
+  private readonly warned = new Set<string>();
+
+  constructor(
+    gl: GL,
+    vsSource: string,
+    fsSource: string,
+    label: string = "ShaderProgram",
+    attribLocations: Record<string, number> = {},
+  ) {
+    this.gl = gl;
+    this.label = label;
+    this.program = createProgram(gl, vsSource, fsSource, attribLocations);
+    this.attributes = reflectAttributes(gl, this.program);
+    this.uniforms = reflectUniforms(gl, this.program);
+  }
+
+  /**
+   * 단일 소스 셰이더(ShaderSourceSpec)에서 컨텍스트에 맞는 GLSL 변형을 만들어 프로그램을 생성한다.
+   * 컴파일 실패 시 ShaderCompileError의 진단에 #include 원본 위치(origin)를 채워 다시 던진다.
+   */
+  static fromSource(
+    gl: GL,
+    isWebGL2: boolean,
+    spec: ShaderSourceSpec,
+    label?: string,
+  ): ShaderProgram {
+    const variant = buildShaderVariant(spec, isWebGL2);
+    try {
+      return new ShaderProgram(gl, variant.vertex, variant.fragment, label, variant.attributes);
+    } catch (e: unknown) {
+      if (e instanceof ShaderCompileError) {
+        e.applySourceMap(e.stage === "vertex" ? variant.vertexMap : variant.fragmentMap);
+      }
+      throw e;
+    }
+  }
+
+  /** gl.useProgram 단축. */
+  use(): void {
+    this.gl.useProgram(this.program);
+  }
+
+  /** 활성 attribute의 위치. 없으면 경고 후 -1을 반환한다. */
+  attribLocation(name: string): number {
+    const info = this.attributes.get(name);
+    if (!info) {
+      this.warnOnce(`attrib:${name}`, `알 수 없는 attribute "${name}"`);
+      return -1;
+    }
+    return info.location;
+  }
+
+  hasAttribute(name: string): boolean {
+    return this.attributes.has(name);
+  }
+
+  hasUniform(name: string): boolean {
+    return this.uniforms.has(name);
+  }
+
+  // ── Typed setters ─────────────────────────────────────────
+
+  setFloat(name: string, v: number): void {
+    const u = this.lookup(name, "setFloat", FLOAT);
+    if (!u || this.values.get(u.location) === v) return;
+    this.values.set(u.location, v);
+    this.gl.uniform1f(u.location, v);
+  }
+
+  setInt(name: string, v: number): void {
+    const u = this.lookup(name, "setInt", INT, BOOL);
+    if (!u || this.values.get(u.location) === v) return;
+    this.values.set(u.location, v);
+    this.gl.uniform1i(u.location, v);
+  }
+
+  setBool(name: string, v: boolean): void {
+    this.setInt(name, v ? 1 : 0);
+  }
+
+  /** sampler uniform에 텍스처 유닛 번호를 지정한다. */
+  setSampler(name: string, unit: number): void {
+    const u = this.lookup(name, "setSampler", ...SAMPLER_TYPES);
+    if (!u || this.values.get(u.location) === unit) return;
+    this.values.set(u.location, unit);
+    this.gl.uniform1i(u.location, unit);
+  }
+
+  setVec2(name: string, v: ArrayLike<number>): void {
+    const u = this.lookup(name, "setVec2", FLOAT_VEC2);
+    if (!u || !this.changed(u.location, v, 2)) return;
+    this.gl.uniform2fv(u.location, this.values.get(u.location) as Float32Array);
+  }
+
+  setVec3(name: string, v: ArrayLike<number>): void {
+    const u = this.lookup(name, "setVec3", FLOAT_VEC3);
+    if (!u || !this.changed(u.location, v, 3)) return;
+    this.gl.uniform3fv(u.location, this.values.get(u.location) as Float32Array);
+  }
+
+  setVec4(name: string, v: ArrayLike<number>): void {
+    const u = this.lookup(name, "setVec4", FLOAT_VEC4);
+    if (!u || !this.changed(u.location, v, 4)) return;
+    this.gl.uniform4fv(u.location, this.values.get(u.location) as Float32Array);
+  }
+
+  setMat3(name: string, m: ArrayLike<number>): void {
+    const u = this.lookup(name, "setMat3", FLOAT_MAT3);
+    if (!u || !this.changed(u.location, m, 9)) return;
+    this.gl.uniformMatrix3fv(u.location, false, this.values.get(u.location) as Float32Array);
+  }
+
+  setMat4(name: string, m: ArrayLike<number>): void {
+    const u = this.lookup(name, "setMat4", FLOAT_MAT4);
+    if (!u || !this.changed(u.location, m, 16)) return;
+    this.gl.uniformMatrix4fv(u.location, false, this.values.get(u.location) as Float32Array);
+  }
+
+  /** 프로그램을 삭제한다. 이후 인스턴스를 사용하면 안 된다. */
+  dispose(): void {
+    this.gl.deleteProgram(this.program);
+    this.values.clear();
+  }
+
+  // ── Internals ─────────────────────────────────────────────
+
+  private lookup(name: string, setter: string, ...types: number[]): ActiveUniform | null {
+    const u = this.uniforms.get(name);
+    if (!u) {
+      this.warnOnce(
+        `uniform:${name}`,
+        `알 수 없는 uniform "${name}" (오타이거나, 셰이더에서 사용되지 않아 최적화로 제거됨)`,
+      );
+      return null;
+    }
+    if (!types.includes(u.type)) {
+      this.warnOnce(
+        `type:${name}:${setter}`,
+        `uniform "${name}"의 타입(0x${u.type.toString(16)})에 ${setter}를 사용할 수 없습니다`,
+      );
+      return null;
+    }
+    // 기본 이름의 location은 0번 원소를 가리키므로 그대로 올리면 나머지 원소가 조용히 빠진다
+    if (u.size > 1) {
+      this.warnOnce(
+        `array:${name}`,
+        `uniform "${name}"은 원소 ${u.size}개짜리 배열입니다. "${name}[i]"로 원소마다 설정하세요`,
+      );
+      return null;
+    }
+    return u;
+  }
+
+  /** 캐시된 값과 비교하여 달라졌으면 사본을 갱신하고 true를 반환한다. */
+  private changed(location: WebGLUniformLocation, v: ArrayLike<number>, length: number): boolean {
+    let cached = this.values.get(location);
+    if (cached instanceof Float32Array && cached.length === length) {
+      let same = true;
+      for (let i = 0; i < length; i++) {
+        if (cached[i] !== v[i]) {
+          same = false;
+          break;
+        }
+      }
+      if (same) return false;
+    } else {
+      cached = new Float32Array(length);
+      this.values.set(location, cached);
+    }
+    for (let i = 0; i < length; i++) cached[i] = v[i];
+    return true;
+  }
+
+  private warnOnce(key: string, message: string): void {
+    if (this.warned.has(key)) return;
+    this.warned.add(key);
+    console.warn(`[${this.label}] ${message}`);
+  }
+}
+
+// ── Reflection ────────────────────────────────────────────────
+
+function reflectAttributes(gl: GL, program: WebGLProgram): Map<string, ActiveAttribute> {
+  const out = new Map<string, ActiveAttribute>();
+  const count = gl.getProgramParameter(program, gl.ACTIVE_ATTRIBUTES) as number;
+  for (let i = 0; i < count; i++) {
+    const info = gl.getActiveAttrib(program, i);
+    if (!info || info.name.startsWith("gl_")) continue;
+    out.set(info.name, {
+      name: info.name,
+      location: gl.getAttribLocation(program, info.name),
+      type: info.type,
+      size: info.size,
+    });
+  }
+  return out;
+}
+
+/**
+ * 배열 uniform은 드라이버가 "u_arr[0]"으로 보고하므로,
+ * 기본 이름 "u_arr"과 각 원소 "u_arr[i]"를 모두 등록한다.
+ */
+function reflectUniforms(gl: GL, program: WebGLProgram): Map<string, ActiveUniform> {
+  const out = new Map<string, ActiveUniform>();
+  const count = gl.getProgramParameter(program, gl.ACTIVE_UNIFORMS) as number;
+  for (let i = 0; i < count; i++) {
+    const info = gl.getActiveUniform(program, i);
+    if (!info) continue;
+
+    const location = gl.getUniformLocation(program, info.name);
+    // uniform block 멤버(WebGL2)는 개별 location이 없다
+    if (!location) continue;
+
+    const baseName = info.name.endsWith("[0]") ? info.name.slice(0, -3) : info.name;
+    const entry: ActiveUniform = { name: baseName, location, type: info.type, size: info.size };
+    out.set(baseName, entry);
+
+    if (info.size > 1) {
+      out.set(`${baseName}[0]`, { ...entry, size: 1 });
+      for (let j = 1; j < info.size; j++) {
+        const elemName = `${baseName}[${j}]`;
+        const elemLoc = gl.getUniformLocation(program, elemName);
+        if (elemLoc) out.set(elemName, { name: elemName, location: elemLoc, type: info.type, size: 1 });
+      }
+    }
+  }
+  return out;
+}
+
+// ── GL type enums (WebGL1/2 공통 값) ──────────────────────────
+
+const FLOAT = 0x1406;
+const INT = 0x1404;
+const BOOL = 0x8b56;
+const FLOAT_VEC2 = 0x8b50;
+const FLOAT_VEC3 = 0x8b51;
+const FLOAT_VEC4 = 0x8b52;
+const FLOAT_MAT3 = 0x8b5b;
+const FLOAT_MAT4 = 0x8b5c;
+
+const SAMPLER_TYPES = [
+  0x8b5e, // SAMPLER_2D
+  0x8b60, // SAMPLER_CUBE
+  0x8b5f, // SAMPLER_3D
+  0x8dc1, // SAMPLER_2D_ARRAY
+  0x8b62, // SAMPLER_2D_SHADOW
+  0x8dc4, // SAMPLER_2D_ARRAY_SHADOW
+  0x8dc5, // SAMPLER_CUBE_SHADOW
+  0x8dca, // INT_SAMPLER_2D
+  0x8dd2, // UNSIGNED_INT_SAMPLER_2D
+];
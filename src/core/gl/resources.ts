@@ -0,0 +1,219 @@
+import type { GLContext } from "./context";
+import { ShaderProgram } from "./program";
+import type { ShaderSourceSpec } from "./shaderSource";
+import { Geometry } from "./geometry";
+import type { GeometryDesc } from "./geometry";
+
+type GL = WebGL2RenderingContext | WebGLRenderingContext;
+
+/**
+ * GLResourceManager가 관리하는 GPU 리소스 핸들.
+ * 컨텍스트가 복구되면 value는 기록된 생성 함수로 다시 만든 객체로 바뀌므로,
+ * 핸들을 보관하고 매번 value로 꺼내 써야 한다.
+ */
+export interface GLResource<T> {
+  readonly value: T;
+  /**
+   * 생성 함수를 교체한다. 새 값을 먼저 만들고, 성공하면 이전 값을 해제한다.
+   * 생성이 실패하면 이전 값과 생성 함수를 그대로 두고 예외를 다시 던진다.
+   */
+  replace(create: (gl: GL) => T): void;
+  /** 값을 해제하고 관리 목록에서 뺀다. */
+  release(): void;
+}
+
+interface Entry<T> {
+  value: T;
+  create: (gl: GL) => T;
+  destroy: (value: T, gl: GL) => void;
+}
+
+/**
+ * 컨텍스트 손실 복구를 위한 리소스 관리자.
+ *
+ * - program, geometry(버퍼 + VAO), texture를 "어떻게 만들었는지"(생성 함수)와 함께 기록한다.
+ * - webglcontextlost: 렌더 루프를 멈추고 onLost 리스너를 호출한다. 손실된 객체는 해제할 필요가 없다.
+ * - webglcontextrestored: 기록된 순서대로 모든 리소스를 다시 만들고, onRestored 리스너
+ *   (enable(DEPTH_TEST) 같은 GL 상태 재설정, 일회성 draw 등)를 호출한 뒤 렌더 루프를 재개한다.
+ *
+ * 라우트 disposer에서는 destroyGLCanvas보다 먼저 dispose()를 호출해야 한다.
+ * destroyGLCanvas가 일으키는 의도적인 손실을 복구 대상으로 착각하지 않도록 리스너를 먼저 뗀다.
+ */
+export class GLResourceManager {
+  readonly gl: GL;
+  readonly canvas: HTMLCanvasElement;
+  readonly isWebGL2: boolean;
+
+  private readonly entries = new Set<Entry<unknown>>();
+  private readonly lostListeners = new Set<() => void>();
+  private readonly restoredListeners = new Set<() => void>();
+  private lost = false;
+  private disposed = false;
+
+  private loopFrame: FrameRequestCallback | null = null;
+  private rafId = 0;
+  private restoreTimer = 0;
+
+  constructor(ctx: GLContext) {
+    this.gl = ctx.gl;
+    this.canvas = ctx.canvas;
+    this.isWebGL2 = ctx.isWebGL2;
+    this.lost = ctx.gl.isContextLost();
+    this.canvas.addEventListener("webglcontextlost", this.handleLost);
+    this.canvas.addEventListener("webglcontextrestored", this.handleRestored);
+  }
+
+  /** 컨텍스트가 손실되어 복구를 기다리는 중인지. */
+  get isLost(): boolean {
+    return this.lost;
+  }
+
+  // ── Resources ─────────────────────────────────────────────
+
+  /** 임의의 GPU 리소스를 생성 함수 / 해제 함수와 함께 등록한다. */
+  track<T>(create: (gl: GL) => T, destroy: (value: T, gl: GL) => void): GLResource<T> {
+    const entry: Entry<T> = { value: create(this.gl), create, destroy };
+    this.entries.add(entry as Entry<unknown>);
+
+    const gl = this.gl;
+    const entries = this.entries;
+    return {
+      get value() {
+        return entry.value;
+      },
+      replace(next) {
+        const value = next(gl);
+        entry.destroy(entry.value, gl);
+        entry.value = value;
+        entry.create = next;
+      },
+      release() {
+        if (!entries.delete(entry as Entry<unknown>)) return;
+        entry.destroy(entry.value, gl);
+      },
+    };
+  }
+
+  /** ShaderProgram.fromSource로 만든 프로그램. */
+  program(spec: ShaderSourceSpec, label?: string): GLResource<ShaderProgram> {
+    return this.track(
+      (gl) => ShaderProgram.fromSource(gl, this.isWebGL2, spec, label),
+      (p) => p.dispose(),
+    );
+  }
+
+  /** 정점/인덱스 버퍼와 VAO를 묶은 Geometry. */
+  geometry(desc: GeometryDesc, locations: Record<string, number>): GLResource<Geometry> {
+    return this.track(
+      (gl) => new Geometry(gl, desc, locations),
+      (g) => g.dispose(),
+    );
+  }
+
+  /**
+   * 텍스처. create는 복구 시 다시 호출되므로 현재 설정(flipY, 필터 등)을 그때그때 읽어야 한다.
+   */
+  texture(create: (gl: GL) => WebGLTexture): GLResource<WebGLTexture> {
+    return this.track(create, (t, gl) => gl.deleteTexture(t));
+  }
+
+  // ── Events ────────────────────────────────────────────────
+
+  /** 손실 시 호출된다. 반환값은 리스너 해제 함수. */
+  onLost(listener: () => void): () => void {
+    this.lostListeners.add(listener);
+    return () => this.lostListeners.delete(listener);
+  }
+
+  /** 모든 리소스를 다시 만든 뒤, 렌더 루프 재개 전에 호출된다. 반환값은 리스너 해제 함수. */
+  onRestored(listener: () => void): () => void {
+    this.restoredListeners.add(listener);
+    return () => this.restoredListeners.delete(listener);
+  }
+
+  // ── Render loop ───────────────────────────────────────────
+
+  /**
+   * requestAnimationFrame 루프를 시작한다. 손실 동안에는 멈추고 복구되면 자동으로 재개한다.
+   * frame 안에서 다음 프레임을 요청하지 않는다.
+   */
+  startLoop(frame: FrameRequestCallback): void {
+    this.stopLoop();
+    this.loopFrame = frame;
+    if (!this.lost) this.rafId = requestAnimationFrame(this.tick);
+  }
+
+  stopLoop(): void {
+    cancelAnimationFrame(this.rafId);
+    this.rafId = 0;
+    this.loopFrame = null;
+  }
+
+  // ── Debug ─────────────────────────────────────────────────
+
+  /**
+   * WEBGL_lose_context로 손실을 일으키고 restoreAfterMs 뒤에 복구를 요청한다.
+   * 확장이 없거나 이미 손실된 상태면 false.
+   */
+  simulateLoss(restoreAfterMs = 1000): boolean {
+    if (this.lost || this.disposed) return false;
+    const ext = this.gl.getExtension("WEBGL_lose_context");
+    if (!ext) return false;
+
+    ext.loseContext();
+    clearTimeout(this.restoreTimer);
+    this.restoreTimer = window.setTimeout(() => {
+      if (!this.disposed && this.gl.isContextLost()) ext.restoreContext();
+    }, restoreAfterMs);
+    return true;
+  }
+
+  /** 루프를 멈추고 모든 리소스를 해제한다. 이후 손실/복구 이벤트는 무시된다. */
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    this.stopLoop();
+    clearTimeout(this.restoreTimer);
+    this.canvas.removeEventListener("webglcontextlost", this.handleLost);
+    this.canvas.removeEventListener("webglcontextrestored", this.handleRestored);
+
+    for (const entry of this.entries) entry.destroy(entry.value, this.gl);
+    this.entries.clear();
+    this.lostListeners.clear();
+    this.restoredListeners.clear();
+  }
+
+  // ── Internals ─────────────────────────────────────────────
+
+  private readonly tick = (now: number): void => {
+    if (!this.loopFrame || this.lost) return;
+    this.loopFrame(now);
+    // frame 안에서 stopLoop / 손실이 일어났으면 다음 프레임을 예약하지 않는다
+    if (this.loopFrame !== null && !this.lost) this.rafId = requestAnimationFrame(this.tick);
+  };
+
+  private readonly handleLost = (e: Event): void => {
+    // preventDefault를 해야 브라우저가 복구를 시도한다
+    e.preventDefault();
+    this.lost = true;
+    cancelAnimationFrame(this.rafId);
+    this.rafId = 0;
+    for (const listener of this.lostListeners) listener();
+  };
+
+  private readonly handleRestored = (): void => {
+    this.lost = false;
+
+    // 손실된 객체는 이미 무효이므로 해제하지 않고 생성 함수로 다시 만든다
+    for (const entry of this.entries) {
+      try {
+        entry.value = entry.create(this.gl);
+      } catch (e: unknown) {
+        console.error("[WebGL] 리소스 복구 실패", e);
+      }
+    }
+
+    for (const listener of this.restoredListeners) listener();
+    if (this.loopFrame) this.rafId = requestAnimationFrame(this.tick);
+  };
+}
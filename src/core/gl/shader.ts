@@ -1,5 +1,146 @@
+export type ShaderStage = "vertex" | "fragment";
+
+/**
+ * 전처리 전 원본 위치 (파일 또는 #include 조각 이름 + 1-based 줄 번호).
+ */
+export interface SourceLocation {
+  file: string;
+  line: number;
+}
+
+/**
+ * 드라이버 info log 한 줄을 해석한 진단 정보.
+ * line/column은 1-based이며, 위치를 알 수 없는 메시지는 line = 0.
+ * origin은 source map이 적용된 경우에만 채워진다.
+ */
+export interface ShaderDiagnostic {
+  severity: "error" | "warning";
+  line: number;
+  column: number | null;
+  message: string;
+  origin?: SourceLocation;
+}
+
 /**
- * 개별 셰이더를 컴파일한다. 실패 시 에러를 throw한다.
+ * 셰이더 컴파일 실패. 원본 소스와 파싱된 진단 목록을 함께 보관하여
+ * 호출자가 오버레이 표시나 재시도 판단을 할 수 있게 한다.
+ */
+export class ShaderCompileError extends Error {
+  readonly stage: ShaderStage;
+  readonly source: string;
+  readonly log: string;
+  readonly diagnostics: ShaderDiagnostic[];
+
+  constructor(stage: ShaderStage, source: string, log: string) {
+    const label = stage === "vertex" ? "Vertex" : "Fragment";
+    super(`${label} 셰이더 컴파일 실패:\n${log}`);
+    this.name = "ShaderCompileError";
+    this.stage = stage;
+    this.source = source;
+    this.log = log;
+    this.diagnostics = parseShaderLog(log);
+  }
+
+  /**
+   * 컴파일된 소스의 줄 → 원본 위치 대응표로 각 진단의 origin을 채운다.
+   * map[i]는 (i + 1)번째 줄의 원본 위치이다.
+   */
+  applySourceMap(map: readonly SourceLocation[]): void {
+    for (const diag of this.diagnostics) {
+      const origin = diag.line > 0 ? map[diag.line - 1] : undefined;
+      if (origin) diag.origin = origin;
+    }
+  }
+}
+
+/**
+ * 프로그램 링크 실패 (varying 불일치, attribute 수 초과 등).
+ */
+export class ProgramLinkError extends Error {
+  readonly log: string;
+
+  constructor(log: string) {
+    super(`프로그램 링크 실패:\n${log}`);
+    this.name = "ProgramLinkError";
+    this.log = log;
+  }
+}
+
+// 드라이버별 info log 형식
+//   ERROR: 0:12: 'foo' : undeclared identifier           (ANGLE / Chrome, Firefox)
+//   ERROR: 0:12:5: 'foo' : undeclared identifier         (column 포함 변형)
+//   0(12) : error C1008: undefined variable "foo"        (NVIDIA / ANGLE D3D 백엔드)
+//   0(12,5) : error X3004: undeclared identifier 'foo'   (HLSL 스타일)
+//   0:12(5): error: 'foo' undeclared                     (Mesa)
+const LOG_PATTERNS: {
+  re: RegExp;
+  map: (m: RegExpExecArray) => ShaderDiagnostic;
+}[] = [
+  {
+    re: /^(ERROR|WARNING):\s*\d+:(\d+):(?:(\d+):)?\s*(.*)$/i,
+    map: (m) => ({
+      severity: m[1].toUpperCase() === "WARNING" ? "warning" : "error",
+      line: parseInt(m[2], 10),
+      column: m[3] ? parseInt(m[3], 10) : null,
+      message: m[4].trim(),
+    }),
+  },
+  {
+    re: /^\d+\((\d+)(?:,\s*(\d+))?\)\s*:\s*(error|warning)\b:?\s*(.*)$/i,
+    map: (m) => ({
+      severity: m[3].toLowerCase() === "warning" ? "warning" : "error",
+      line: parseInt(m[1], 10),
+      column: m[2] ? parseInt(m[2], 10) : null,
+      message: m[4].trim(),
+    }),
+  },
+  {
+    re: /^\d+:(\d+)\((\d+)\)\s*:\s*(error|warning)\b:?\s*(.*)$/i,
+    map: (m) => ({
+      severity: m[3].toLowerCase() === "warning" ? "warning" : "error",
+      line: parseInt(m[1], 10),
+      column: parseInt(m[2], 10),
+      message: m[4].trim(),
+    }),
+  },
+];
+
+/**
+ * 셰이더 info log를 진단 목록으로 파싱한다.
+ * 형식을 알 수 없는 줄은 직전 진단의 메시지에 이어 붙이고, 첫 줄이면 위치 없는 진단으로 남긴다.
+ * "N compilation errors" 같은 요약 줄은 버린다.
+ */
+export function parseShaderLog(log: string): ShaderDiagnostic[] {
+  const out: ShaderDiagnostic[] = [];
+
+  for (const rawLine of log.split(/\r?\n/)) {
+    const line = rawLine.replace(/\0/g, "").trim();
+    if (!line) continue;
+    if (/^(ERROR:\s*)?\d+ compilation errors?\./i.test(line)) continue;
+
+    let parsed: ShaderDiagnostic | null = null;
+    for (const { re, map } of LOG_PATTERNS) {
+      const m = re.exec(line);
+      if (m) {
+        parsed = map(m);
+        break;
+      }
+    }
+
+    if (parsed) {
+      out.push(parsed);
+    } else if (out.length > 0) {
+      out[out.length - 1].message += `\n${line}`;
+    } else {
+      out.push({ severity: "error", line: 0, column: null, message: line });
+    }
+  }
+
+  return out;
+}
+
+/**
+ * 개별 셰이더를 컴파일한다. 실패 시 ShaderCompileError를 throw한다.
  */
 export function compileShader(
   gl: WebGL2RenderingContext | WebGLRenderingContext,
@@ -17,8 +158,7 @@ export function compileShader(
   if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
     const log = gl.getShaderInfoLog(shader) ?? "unknown error";
     gl.deleteShader(shader);
-    const label = type === gl.VERTEX_SHADER ? "Vertex" : "Fragment";
-    throw new Error(`${label} 셰이더 컴파일 실패:\n${log}`);
+    throw new ShaderCompileError(type === gl.VERTEX_SHADER ? "vertex" : "fragment", source, log);
   }
 
   return shader;
@@ -26,14 +166,23 @@ export function compileShader(
 
 /**
  * 버텍스+프래그먼트 셰이더를 링크하여 프로그램을 만든다.
+ * attribLocations를 주면 링크 전에 bindAttribLocation으로 위치를 고정한다
+ * (layout 한정자가 없는 GLSL ES 1.00에서 WebGL2 경로와 인덱스를 맞추기 위함).
  */
 export function createProgram(
   gl: WebGL2RenderingContext | WebGLRenderingContext,
   vsSource: string,
   fsSource: string,
+  attribLocations: Record<string, number> = {},
 ): WebGLProgram {
   const vs = compileShader(gl, gl.VERTEX_SHADER, vsSource);
-  const fs = compileShader(gl, gl.FRAGMENT_SHADER, fsSource);
+  let fs: WebGLShader;
+  try {
+    fs = compileShader(gl, gl.FRAGMENT_SHADER, fsSource);
+  } catch (e: unknown) {
+    gl.deleteShader(vs);
+    throw e;
+  }
 
   const program = gl.createProgram();
   if (!program) {
@@ -42,12 +191,17 @@ export function createProgram(
 
   gl.attachShader(program, vs);
   gl.attachShader(program, fs);
+  for (const [name, loc] of Object.entries(attribLocations)) {
+    gl.bindAttribLocation(program, loc, name);
+  }
   gl.linkProgram(program);
 
   if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
     const log = gl.getProgramInfoLog(program) ?? "unknown error";
     gl.deleteProgram(program);
-    throw new Error(`프로그램 링크 실패:\n${log}`);
+    gl.deleteShader(vs);
+    gl.deleteShader(fs);
+    throw new ProgramLinkError(log);
   }
 
   // 링크 후 셰이더 객체는 분리 가능
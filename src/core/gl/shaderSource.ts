@@ -0,0 +1,152 @@
+import type { ShaderStage, SourceLocation } from "./shader";
+import { preprocess } from "./preprocess";
+import type { ShaderDefines } from "./preprocess";
+
+/**
+ * 한 번 작성한 GLSL 소스에서 WebGL1(ES 1.00) / WebGL2(ES 3.00) 변형을 생성한다.
+ *
+ * 작성 규칙 — ES 3.00 문법으로, #version과 layout 없이 쓴다:
+ *   - 입출력:   in / out              (VS의 in → attribute, out → varying / FS의 in → varying)
+ *   - 샘플링:   texture(sampler, uv)  (ES 1.00에서는 sampler 타입에 따라 texture2D / textureCube)
+ *   - FS 출력:  out vec4 이름;        (ES 1.00에서는 선언을 지우고 gl_FragColor로 치환)
+ *
+ * 변환 전에 preprocess()로 #include와 defines를 펼치며, 변형마다 source map을 함께 돌려준다.
+ * 방언 변환은 줄 수를 보존하므로(#version 한 줄 추가) source map은 전처리 결과를 한 줄 민 것이다.
+ */
+
+export type GLSLVersion = "300 es" | "100";
+
+export interface ShaderSourceSpec {
+  vertex: string;
+  fragment: string;
+  /**
+   * attribute 이름 → 위치.
+   * WebGL2는 layout(location = N)을 삽입하고, WebGL1은 링크 전에 bindAttribLocation으로 고정하여
+   * 두 경로의 attribute 인덱스가 항상 같게 한다.
+   */
+  attributes?: Record<string, number>;
+  /** 두 스테이지 모두에 주입할 #define. 예: { USE_TEXTURE: true, FLIP_UV: false } */
+  defines?: ShaderDefines;
+}
+
+export interface ShaderVariant {
+  version: GLSLVersion;
+  vertex: string;
+  fragment: string;
+  attributes: Record<string, number>;
+  /** 최종 소스 줄 → 원본(파일·조각) 위치 */
+  vertexMap: SourceLocation[];
+  fragmentMap: SourceLocation[];
+}
+
+/**
+ * 현재 컨텍스트에 맞는 셰이더 변형을 만든다.
+ */
+export function buildShaderVariant(spec: ShaderSourceSpec, isWebGL2: boolean): ShaderVariant {
+  const attributes = spec.attributes ?? {};
+  const vs = preprocess(spec.vertex, { defines: spec.defines, file: "vertex" });
+  const fs = preprocess(spec.fragment, { defines: spec.defines, file: "fragment" });
+
+  const versionLine: SourceLocation = { file: "<version>", line: 1 };
+  const vertexMap = [versionLine, ...vs.map];
+  const fragmentMap = [versionLine, ...fs.map];
+
+  if (isWebGL2) {
+    return {
+      version: "300 es",
+      vertex: toGLSL300(vs.source, "vertex", attributes),
+      fragment: toGLSL300(fs.source, "fragment", attributes),
+      attributes,
+      vertexMap,
+      fragmentMap,
+    };
+  }
+  return {
+    version: "100",
+    vertex: toGLSL100(vs.source, "vertex"),
+    fragment: toGLSL100(fs.source, "fragment"),
+    attributes,
+    vertexMap,
+    fragmentMap,
+  };
+}
+
+// 선언 줄 맨 앞의 저장 한정자. 보간 한정자(flat/smooth/centroid)는 ES 1.00에 없으므로 함께 잡는다.
+const IN_DECL = /^(\s*)(?:(?:flat|smooth|centroid)\s+)*in(\s+)/gm;
+const OUT_DECL = /^(\s*)(?:(?:flat|smooth|centroid)\s+)*out(\s+)/gm;
+const FRAG_OUT_DECL = /^[ \t]*(?:layout\s*\([^)]*\)\s*)?out\s+(?:(?:lowp|mediump|highp)\s+)?vec4\s+(\w+)\s*;[ \t]*$/m;
+
+function assertAuthored(source: string): void {
+  if (/^\s*#version\b/m.test(source)) {
+    throw new Error("단일 소스 셰이더에는 #version을 쓰지 않습니다 (컨텍스트에 맞게 자동 삽입됨)");
+  }
+}
+
+/**
+ * ES 3.00 변형. #version을 붙이고, VS attribute 선언에 layout(location)을 삽입한다.
+ */
+export function toGLSL300(
+  source: string,
+  stage: ShaderStage,
+  attributes: Record<string, number> = {},
+): string {
+  assertAuthored(source);
+  let out = source;
+
+  if (stage === "vertex") {
+    out = out.replace(
+      /^(\s*)in(\s+(?:(?:lowp|mediump|highp)\s+)?\w+\s+)(\w+)(\s*;)/gm,
+      (match, indent: string, typePart: string, name: string, end: string) => {
+        const loc = attributes[name];
+        if (loc === undefined) return match;
+        return `${indent}layout(location = ${loc}) in${typePart}${name}${end}`;
+      },
+    );
+  }
+
+  return `#version 300 es\n${out}`;
+}
+
+/**
+ * ES 1.00 변형. 한정자, texture 함수, 프래그먼트 출력 변수를 치환한다.
+ */
+export function toGLSL100(source: string, stage: ShaderStage): string {
+  assertAuthored(source);
+  let out = source;
+
+  if (stage === "vertex") {
+    out = out.replace(IN_DECL, "$1attribute$2");
+    out = out.replace(OUT_DECL, "$1varying$2");
+  } else {
+    out = out.replace(IN_DECL, "$1varying$2");
+
+    const fragOut = FRAG_OUT_DECL.exec(out);
+    if (fragOut) {
+      out = out.replace(new RegExp(`\\b${fragOut[1]}\\b`, "g"), "gl_FragColor");
+      // 줄 번호를 유지하기 위해 선언 줄은 지우지 않고 주석으로 바꾼다
+      out = out.replace(FRAG_OUT_DECL, "// fragment output -> gl_FragColor");
+    }
+  }
+
+  out = rewriteTextureCalls(out);
+
+  return `#version 100\n${out}`;
+}
+
+/**
+ * texture(s, …) → texture2D / textureCube. sampler 이름으로 선언 타입을 찾아 결정한다.
+ */
+function rewriteTextureCalls(source: string): string {
+  const samplerTypes = new Map<string, string>();
+  for (const m of source.matchAll(/\buniform\s+(?:(?:lowp|mediump|highp)\s+)?(sampler2D|samplerCube)\s+(\w+)/g)) {
+    samplerTypes.set(m[2], m[1]);
+  }
+
+  return source.replace(/\btexture(Lod)?\s*\(\s*(\w+)/g, (match, lod: string | undefined, sampler: string) => {
+    const type = samplerTypes.get(sampler);
+    const fn = type === "samplerCube" ? "textureCube" : "texture2D";
+    // texture2DLod/textureCubeLod는 ES 1.00 VS 전용 (FS는 EXT_shader_texture_lod 필요)
+    if (lod) return match.replace(/^textureLod/, `${fn}Lod`);
+    return match.replace(/^texture/, fn);
+  });
+}
@@ -12,65 +12,472 @@ export function loadImage(url: string): Promise<HTMLImageElement> {
   });
 }
 
+/**
+ * Decode an image from a Blob (a dropped File, or bytes from a glTF/GLB buffer) via a temporary object URL.
+ */
+export async function loadImageBlob(blob: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(blob);
+  try {
+    return await loadImage(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * 브라우저가 디코딩해 주는 픽셀 소스. 크기는 요소에서 읽고 RGBA8로 올린다.
+ *
+ * ImageBitmap은 UNPACK_FLIP_Y_WEBGL을 무시한다 — 뒤집으려면 createImageBitmap(…, { imageOrientation: "flipY" })로 만든다.
+ * HTMLVideoElement는 현재 프레임 하나만 올리므로 매 프레임 uploadTexture를 다시 부른다.
+ */
+export type TexturePixelSource =
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | HTMLVideoElement
+  | ImageBitmap
+  | ImageData;
+
+/** 원시 픽셀 배열. 크기와 포맷을 직접 준다. data가 null이면 내용 없이 저장 공간만 만든다. */
+export interface TextureData {
+  data: Uint8Array | Uint8ClampedArray | Uint16Array | Float32Array | null;
+  width: number;
+  height: number;
+  /** 기본 "RGBA8" */
+  format?: TextureFormat;
+}
+
+export type TextureSource = TexturePixelSource | TextureData;
+
+export type TextureFormat =
+  | "RGBA8"
+  | "RGB8"
+  | "RG8"
+  | "R8"
+  | "LUMINANCE"
+  | "LUMINANCE_ALPHA"
+  | "ALPHA"
+  | "RGBA16F"
+  | "RG16F"
+  | "R16F"
+  | "RGBA32F"
+  | "RGB32F"
+  | "RG32F"
+  | "R32F"
+  | "DEPTH_COMPONENT16";
+
+/**
+ * unorm8  — UNSIGNED_BYTE (Uint8Array)
+ * half    — HALF_FLOAT (Uint16Array에 binary16 비트) 또는 WebGL2에서 FLOAT (Float32Array)
+ * float   — FLOAT (Float32Array)
+ * depth16 — UNSIGNED_SHORT (Uint16Array)
+ */
+export type TextureFormatKind = "unorm8" | "half" | "float" | "depth16";
+
+export interface TextureFormatInfo {
+  kind: TextureFormatKind;
+  /** texel당 값 개수 */
+  channels: number;
+  /** WebGL2 texImage2D의 internalformat (sized) / format */
+  internalFormat: GLenum;
+  format: GLenum;
+  /** WebGL1 (unsized) format. internalformat도 같은 값이다. null이면 WebGL2 전용 */
+  webgl1Format: GLenum | null;
+}
+
+// 표에 쓰는 GLenum 값. WebGLRenderingContext / WebGL2RenderingContext의 같은 이름 상수와 같다
+const GL_UNSIGNED_BYTE = 0x1401;
+const GL_UNSIGNED_SHORT = 0x1403;
+const GL_FLOAT = 0x1406;
+const GL_HALF_FLOAT = 0x140b;
+const GL_DEPTH_COMPONENT = 0x1902;
+const GL_RED = 0x1903;
+const GL_ALPHA = 0x1906;
+const GL_RGB = 0x1907;
+const GL_RGBA = 0x1908;
+const GL_LUMINANCE = 0x1909;
+const GL_LUMINANCE_ALPHA = 0x190a;
+const GL_RG = 0x8227;
+const GL_RGB8 = 0x8051;
+const GL_RGBA8 = 0x8058;
+const GL_DEPTH_COMPONENT16 = 0x81a5;
+const GL_R8 = 0x8229;
+const GL_RG8 = 0x822b;
+const GL_R16F = 0x822d;
+const GL_R32F = 0x822e;
+const GL_RG16F = 0x822f;
+const GL_RG32F = 0x8230;
+const GL_RGBA32F = 0x8814;
+const GL_RGB32F = 0x8815;
+const GL_RGBA16F = 0x881a;
+
+/**
+ * 포맷 호환 표. resolveTextureFormat과 textureProblems가 이 표와 KIND_RULES로 판단한다.
+ * WebGL2는 sized internal format을, WebGL1은 unsized format + 확장(OES_texture_float / _half_float)을 쓴다.
+ */
+export const TEXTURE_FORMATS: Readonly<Record<TextureFormat, TextureFormatInfo>> = {
+  RGBA8: { kind: "unorm8", channels: 4, internalFormat: GL_RGBA8, format: GL_RGBA, webgl1Format: GL_RGBA },
+  RGB8: { kind: "unorm8", channels: 3, internalFormat: GL_RGB8, format: GL_RGB, webgl1Format: GL_RGB },
+  RG8: { kind: "unorm8", channels: 2, internalFormat: GL_RG8, format: GL_RG, webgl1Format: null },
+  R8: { kind: "unorm8", channels: 1, internalFormat: GL_R8, format: GL_RED, webgl1Format: null },
+  LUMINANCE: { kind: "unorm8", channels: 1, internalFormat: GL_LUMINANCE, format: GL_LUMINANCE, webgl1Format: GL_LUMINANCE },
+  LUMINANCE_ALPHA: { kind: "unorm8", channels: 2, internalFormat: GL_LUMINANCE_ALPHA, format: GL_LUMINANCE_ALPHA, webgl1Format: GL_LUMINANCE_ALPHA },
+  ALPHA: { kind: "unorm8", channels: 1, internalFormat: GL_ALPHA, format: GL_ALPHA, webgl1Format: GL_ALPHA },
+  RGBA16F: { kind: "half", channels: 4, internalFormat: GL_RGBA16F, format: GL_RGBA, webgl1Format: GL_RGBA },
+  RG16F: { kind: "half", channels: 2, internalFormat: GL_RG16F, format: GL_RG, webgl1Format: null },
+  R16F: { kind: "half", channels: 1, internalFormat: GL_R16F, format: GL_RED, webgl1Format: null },
+  RGBA32F: { kind: "float", channels: 4, internalFormat: GL_RGBA32F, format: GL_RGBA, webgl1Format: GL_RGBA },
+  RGB32F: { kind: "float", channels: 3, internalFormat: GL_RGB32F, format: GL_RGB, webgl1Format: GL_RGB },
+  RG32F: { kind: "float", channels: 2, internalFormat: GL_RG32F, format: GL_RG, webgl1Format: null },
+  R32F: { kind: "float", channels: 1, internalFormat: GL_R32F, format: GL_RED, webgl1Format: null },
+  DEPTH_COMPONENT16: { kind: "depth16", channels: 1, internalFormat: GL_DEPTH_COMPONENT16, format: GL_DEPTH_COMPONENT, webgl1Format: null },
+};
+
+/** 표에 없는 이름(타입 검사를 거치지 않은 JS · URL 상태 등에서 온 문자열)은 TextureFormatError. */
+function textureFormatInfo(name: TextureFormat): TextureFormatInfo {
+  if (!Object.hasOwn(TEXTURE_FORMATS, name)) {
+    throw new TextureFormatError(name, `알 수 없는 텍스처 포맷입니다 (${Object.keys(TEXTURE_FORMATS).join(" · ")} 중 하나)`);
+  }
+  return TEXTURE_FORMATS[name];
+}
+
+type ArrayName = "Uint8Array" | "Uint16Array" | "Float32Array";
+
+interface KindRules {
+  /** WebGL2에서 받는 type과 배열. 첫 항목이 data가 null일 때의 기본값 */
+  types: { type: GLenum; array: ArrayName }[];
+  /** WebGL1에서 필요한 확장과 그때의 배열. null이면 확장 없이 UNSIGNED_BYTE */
+  webgl1: { extension: string; array: ArrayName } | null;
+  /** LINEAR 필터에 필요한 확장 (null이면 항상 filterable) */
+  linear: { webgl1: string | null; webgl2: string | null };
+  /** generateMipmap 가능 여부 (WebGL2는 filterable + color-renderable 포맷만 허용) */
+  mipmaps: boolean;
+}
+
+const KIND_RULES: Record<TextureFormatKind, KindRules> = {
+  unorm8: {
+    types: [{ type: GL_UNSIGNED_BYTE, array: "Uint8Array" }],
+    webgl1: null,
+    linear: { webgl1: null, webgl2: null },
+    mipmaps: true,
+  },
+  half: {
+    types: [{ type: GL_HALF_FLOAT, array: "Uint16Array" }, { type: GL_FLOAT, array: "Float32Array" }],
+    webgl1: { extension: "OES_texture_half_float", array: "Uint16Array" },
+    linear: { webgl1: "OES_texture_half_float_linear", webgl2: null },
+    mipmaps: false,
+  },
+  float: {
+    types: [{ type: GL_FLOAT, array: "Float32Array" }],
+    webgl1: { extension: "OES_texture_float", array: "Float32Array" },
+    linear: { webgl1: "OES_texture_float_linear", webgl2: "OES_texture_float_linear" },
+    mipmaps: false,
+  },
+  depth16: {
+    types: [{ type: GL_UNSIGNED_SHORT, array: "Uint16Array" }],
+    webgl1: null,
+    linear: { webgl1: null, webgl2: null },
+    mipmaps: false,
+  },
+};
+
+/** 포맷을 이 컨텍스트에서 쓸 수 없거나 데이터가 포맷과 맞지 않을 때. */
+export class TextureFormatError extends Error {
+  readonly format: TextureFormat;
+
+  constructor(format: TextureFormat, message: string) {
+    super(`${format}: ${message}`);
+    this.name = "TextureFormatError";
+    this.format = format;
+  }
+}
+
+/** texImage2D에 넘길 상수 세 개. */
+export interface ResolvedTextureFormat {
+  internalFormat: number;
+  format: number;
+  type: number;
+}
+
+/**
+ * 포맷 이름과 데이터로 texImage2D 인자를 정한다. 필요한 확장은 여기서 켠다.
+ * 알 수 없는 포맷 이름, WebGL2 전용 포맷, 없는 확장, 배열 타입이나 길이가 맞지 않으면 TextureFormatError를 던진다.
+ */
+export function resolveTextureFormat(gl: GL, source: TextureData): ResolvedTextureFormat {
+  const name = source.format ?? "RGBA8";
+  const info = textureFormatInfo(name);
+  const rules = KIND_RULES[info.kind];
+  const data = source.data;
+  let resolved: ResolvedTextureFormat;
+  let arrays: ArrayName[];
+
+  if (isWebGL2(gl)) {
+    const match = data ? rules.types.find((t) => arrayMatches(data, t.array)) : rules.types[0];
+    arrays = rules.types.map((t) => t.array);
+    if (!match) throw new TextureFormatError(name, `${arrays.join(" 또는 ")}가 필요한데 ${data!.constructor.name}를 받았습니다`);
+    resolved = { internalFormat: info.internalFormat, format: info.format, type: match.type };
+  } else {
+    if (info.webgl1Format === null) {
+      throw new TextureFormatError(name, "WebGL2 전용 포맷입니다 (WebGL1에서는 LUMINANCE · LUMINANCE_ALPHA · RGB · RGBA 계열만 쓸 수 있습니다)");
+    }
+    let type: number = gl.UNSIGNED_BYTE;
+    arrays = ["Uint8Array"];
+    if (rules.webgl1) {
+      const ext = gl.getExtension(rules.webgl1.extension);
+      if (!ext) throw new TextureFormatError(name, `WebGL1에서는 ${rules.webgl1.extension} 확장이 필요한데 이 기기에는 없습니다`);
+      type = info.kind === "half" ? (ext as OES_texture_half_float).HALF_FLOAT_OES : gl.FLOAT;
+      arrays = [rules.webgl1.array];
+    }
+    if (data && !arrayMatches(data, arrays[0])) {
+      throw new TextureFormatError(name, `WebGL1에서는 ${arrays[0]}가 필요한데 ${data.constructor.name}를 받았습니다`);
+    }
+    resolved = { internalFormat: info.webgl1Format, format: info.webgl1Format, type };
+  }
+
+  const needed = source.width * source.height * info.channels;
+  if (data && data.length < needed) {
+    throw new TextureFormatError(name, `${source.width}×${source.height}×${info.channels}채널에는 값 ${needed}개가 필요한데 ${data.length}개뿐입니다`);
+  }
+  return resolved;
+}
+
+function arrayMatches(data: NonNullable<TextureData["data"]>, array: ArrayName): boolean {
+  switch (array) {
+    case "Uint8Array":
+      return data instanceof Uint8Array || data instanceof Uint8ClampedArray;
+    case "Uint16Array":
+      return data instanceof Uint16Array;
+    case "Float32Array":
+      return data instanceof Float32Array;
+  }
+}
+
+export function isTextureData(source: TextureSource): source is TextureData {
+  return "width" in source && "data" in source && !(typeof ImageData !== "undefined" && source instanceof ImageData);
+}
+
+/** 소스의 픽셀 크기. 이미지는 원본 크기, 비디오는 프레임 크기다. */
+export function textureSize(source: TextureSource): { width: number; height: number } {
+  if (typeof HTMLImageElement !== "undefined" && source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth, height: source.naturalHeight };
+  }
+  if (typeof HTMLVideoElement !== "undefined" && source instanceof HTMLVideoElement) {
+    return { width: source.videoWidth, height: source.videoHeight };
+  }
+  return { width: source.width, height: source.height };
+}
+
 /**
  * Options for texture creation.
+ *
+ * WebGL2 전용 필드(LOD, level, compare)는 WebGL1 컨텍스트에서 무시한다.
  */
 export interface TextureOptions {
   flipY?: boolean;
+  /** CLAMP_TO_EDGE | REPEAT | MIRRORED_REPEAT */
   wrapS?: number;
   wrapT?: number;
+  /** NEAREST | LINEAR | {NEAREST,LINEAR}_MIPMAP_{NEAREST,LINEAR} */
   minFilter?: number;
   magFilter?: number;
+  /** 업로드 후 generateMipmap을 부른다. 생략하면 minFilter가 mipmap 필터일 때만 만든다 */
+  mipmaps?: boolean;
+  /** EXT_texture_filter_anisotropic 레벨 (1이면 끔). 확장이 없으면 무시하고, 지원 최대값으로 자른다 */
+  anisotropy?: number;
+  /** TEXTURE_MIN_LOD / MAX_LOD — 샘플링할 LOD 범위 (WebGL2) */
+  minLod?: number;
+  maxLod?: number;
+  /** TEXTURE_BASE_LEVEL / MAX_LEVEL — 쓸 mip level 범위 (WebGL2) */
+  baseLevel?: number;
+  maxLevel?: number;
+  /** NONE | COMPARE_REF_TO_TEXTURE. 깊이 텍스처를 sampler2DShadow로 읽을 때 쓴다 (WebGL2) */
+  compareMode?: number;
+  /** LEQUAL, LESS, … (WebGL2) */
+  compareFunc?: number;
+}
+
+/** 텍스처 옵션을 지금 컨텍스트에서 쓸 수 없을 때. problems에 이유가 하나씩 들어 있다. */
+export class TextureOptionsError extends Error {
+  readonly problems: readonly string[];
+
+  constructor(problems: string[]) {
+    super(problems.join("\n"));
+    this.name = "TextureOptionsError";
+    this.problems = problems;
+  }
+}
+
+/** 검증에 필요한 텍스처 정보. */
+export interface TextureInfo {
+  width: number;
+  height: number;
+  /** 기본 "RGBA8" */
+  format?: TextureFormat;
+}
+
+const NEAREST_MIPMAP_NEAREST = 0x2700;
+const LINEAR_MIPMAP_LINEAR = 0x2703;
+
+/** *_MIPMAP_* 축소 필터인가. */
+export function isMipmapFilter(filter: number): boolean {
+  return filter >= NEAREST_MIPMAP_NEAREST && filter <= LINEAR_MIPMAP_LINEAR;
+}
+
+export function isPowerOfTwo(n: number): boolean {
+  return n > 0 && (n & (n - 1)) === 0;
+}
+
+const anisotropyLimits = new WeakMap<GL, number>();
+
+/** EXT_texture_filter_anisotropic의 최대 레벨. 확장이 없으면 1. 컨텍스트마다 한 번만 조회한다. */
+export function maxAnisotropy(gl: GL): number {
+  let max = anisotropyLimits.get(gl);
+  if (max === undefined) {
+    const ext = gl.getExtension("EXT_texture_filter_anisotropic");
+    max = ext ? gl.getParameter(ext.MAX_TEXTURE_MAX_ANISOTROPY_EXT) as number : 1;
+    anisotropyLimits.set(gl, max);
+  }
+  return max;
+}
+
+/**
+ * options로 만든 텍스처가 불완전(incomplete)해져 검게 그려지거나 GL 오류가 나는 이유를 모두 돌려준다.
+ * 빈 배열이면 문제가 없다.
+ *
+ *   - WebGL1 NPOT: mipmap 불가, wrap은 CLAMP_TO_EDGE만 가능
+ *   - mipmap 필터인데 mipmap을 만들지 않음
+ *   - WebGL2 base / max level: base level에 이미지가 없거나 base > max (mipmap 필터)
+ *   - half / float / depth 포맷: generateMipmap 불가, float LINEAR 필터에는 *_linear 확장 필요
+ *   - 깊이 텍스처: compare mode가 NONE이면 NEAREST 필터만 가능 (ES 3.0 §3.8.13)
+ *
+ * 포맷 자체를 쓸 수 있는지는 resolveTextureFormat이 따로 검사한다.
+ */
+export function textureProblems(gl: GL, info: TextureInfo, options: TextureOptions): string[] {
+  const problems: string[] = [];
+  const minFilter = options.minFilter ?? gl.LINEAR;
+  const magFilter = options.magFilter ?? gl.LINEAR;
+  const mipmaps = options.mipmaps ?? isMipmapFilter(minFilter);
+  const size = `${info.width}×${info.height}`;
+
+  if (!isWebGL2(gl) && !(isPowerOfTwo(info.width) && isPowerOfTwo(info.height))) {
+    if (mipmaps) {
+      problems.push(`WebGL1에서는 2의 거듭제곱이 아닌(NPOT) ${size} 텍스처에 mipmap을 만들 수 없습니다 (generateMipmap이 INVALID_OPERATION)`);
+    } else if (isMipmapFilter(minFilter)) {
+      problems.push(`WebGL1 NPOT ${size} 텍스처에 mipmap 축소 필터를 쓰면 텍스처가 불완전해져 검게 그려집니다`);
+    }
+    for (const [axis, wrap] of [["S", options.wrapS], ["T", options.wrapT]] as const) {
+      if (wrap !== undefined && wrap !== gl.CLAMP_TO_EDGE) {
+        problems.push(`WebGL1 NPOT ${size} 텍스처는 wrap${axis}로 CLAMP_TO_EDGE만 쓸 수 있습니다 (REPEAT / MIRRORED_REPEAT이면 검게 그려집니다)`);
+      }
+    }
+  }
+
+  if (isMipmapFilter(minFilter) && options.mipmaps === false) {
+    problems.push("mipmap 축소 필터인데 mipmap을 만들지 않아 level 1 이상이 없으므로 텍스처가 불완전합니다");
+  }
+
+  if (isWebGL2(gl)) {
+    const levels = mipmaps ? Math.floor(Math.log2(Math.max(info.width, info.height, 1))) + 1 : 1;
+    const base = options.baseLevel ?? 0;
+    if (base >= levels) {
+      problems.push(`TEXTURE_BASE_LEVEL ${base}에 이미지가 없습니다 (level 0…${levels - 1}만 있음)`);
+    }
+    if (isMipmapFilter(minFilter) && base > (options.maxLevel ?? 1000)) {
+      problems.push(`TEXTURE_BASE_LEVEL(${base})이 TEXTURE_MAX_LEVEL(${options.maxLevel})보다 크면 mipmap 텍스처가 불완전합니다`);
+    }
+  }
+
+  const formatName = info.format ?? "RGBA8";
+  const format = textureFormatInfo(formatName);
+  const rules = KIND_RULES[format.kind];
+  const linear = magFilter !== gl.NEAREST || (minFilter !== gl.NEAREST && minFilter !== NEAREST_MIPMAP_NEAREST);
+
+  if (mipmaps && !rules.mipmaps) {
+    problems.push(`${formatName} 텍스처에는 generateMipmap을 쓸 수 없습니다 (filterable이고 렌더 가능한 8비트 포맷만 가능)`);
+  }
+  const linearExtension = isWebGL2(gl) ? rules.linear.webgl2 : rules.linear.webgl1;
+  if (linear && linearExtension && !gl.getExtension(linearExtension)) {
+    problems.push(`${formatName}은 ${linearExtension} 확장 없이 LINEAR 필터를 쓸 수 없습니다 (NEAREST를 쓰세요)`);
+  }
+  if (format.kind === "depth16") {
+    const compare = options.compareMode !== undefined && options.compareMode !== gl.NONE;
+    if (!compare && linear) {
+      problems.push("compare mode가 NONE인 깊이 텍스처는 NEAREST 필터만 쓸 수 있습니다 (LINEAR이면 불완전)");
+    }
+  }
+
+  return problems;
 }
 
 /**
- * Create a WebGL texture from an HTMLImageElement.
+ * Create a WebGL texture from any pixel source (이미지·캔버스·비디오·ImageBitmap·ImageData·원시 배열).
+ * 옵션이 이 컨텍스트에서 불완전한 텍스처를 만들면 GL 객체를 만들기 전에 TextureOptionsError를,
+ * 원시 배열의 포맷을 쓸 수 없으면 TextureFormatError를 던진다.
  */
 export function createTexture(
   gl: GL,
-  image: HTMLImageElement,
+  source: TextureSource,
   options: TextureOptions = {},
 ): WebGLTexture {
+  const format = isTextureData(source) ? source.format : undefined;
+  const problems = textureProblems(gl, { ...textureSize(source), format }, options);
+  if (problems.length > 0) throw new TextureOptionsError(problems);
+  if (isTextureData(source)) resolveTextureFormat(gl, source);
+
   const tex = gl.createTexture();
   if (!tex) {
     throw new Error("WebGL 텍스처 객체 생성 실패");
   }
 
   gl.bindTexture(gl.TEXTURE_2D, tex);
-
-  // flipY
-  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, options.flipY ? 1 : 0);
-
-  // Upload
-  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+  uploadTexture(gl, source, options);
 
   // Params
-  gl.texParameteri(
-    gl.TEXTURE_2D,
-    gl.TEXTURE_WRAP_S,
-    options.wrapS ?? gl.CLAMP_TO_EDGE,
-  );
-  gl.texParameteri(
-    gl.TEXTURE_2D,
-    gl.TEXTURE_WRAP_T,
-    options.wrapT ?? gl.CLAMP_TO_EDGE,
-  );
-  gl.texParameteri(
-    gl.TEXTURE_2D,
-    gl.TEXTURE_MIN_FILTER,
-    options.minFilter ?? gl.LINEAR,
-  );
-  gl.texParameteri(
-    gl.TEXTURE_2D,
-    gl.TEXTURE_MAG_FILTER,
-    options.magFilter ?? gl.LINEAR,
-  );
+  applyTextureParams(gl, {
+    wrapS: gl.CLAMP_TO_EDGE,
+    wrapT: gl.CLAMP_TO_EDGE,
+    minFilter: gl.LINEAR,
+    magFilter: gl.LINEAR,
+    ...options,
+  });
 
   return tex;
 }
 
+/**
+ * 바인딩된 TEXTURE_2D의 level 0에 source를 (다시) 올린다. options에서는 flipY와 mipmaps만 쓴다.
+ * 비디오·캔버스처럼 내용이 바뀌는 소스는 매 프레임 이 함수로 올린다.
+ * 아직 프레임이 없는 비디오는 건너뛰고 false를 돌려준다.
+ */
+export function uploadTexture(
+  gl: GL,
+  source: TextureSource,
+  options: Pick<TextureOptions, "flipY" | "mipmaps" | "minFilter"> = {},
+): boolean {
+  if (typeof HTMLVideoElement !== "undefined" && source instanceof HTMLVideoElement
+    && source.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+    return false;
+  }
+
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, options.flipY ? 1 : 0);
+  if (isTextureData(source)) {
+    const f = resolveTextureFormat(gl, source);
+    // 원시 배열은 행 끝에 패딩이 없다 (기본 UNPACK_ALIGNMENT 4는 RGB8 같은 포맷에서 어긋난다)
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage2D(gl.TEXTURE_2D, 0, f.internalFormat, source.width, source.height, 0, f.format, f.type, source.data);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4);
+  } else {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+  }
+
+  if (options.mipmaps ?? isMipmapFilter(options.minFilter ?? gl.LINEAR)) {
+    gl.generateMipmap(gl.TEXTURE_2D);
+  }
+  return true;
+}
+
 /**
  * Re-apply filter/wrap parameters to the currently bound TEXTURE_2D.
+ * 지정한 필드만 바꾼다. mipmaps와 flipY는 업로드 옵션이라 여기서는 쓰지 않는다.
  */
 export function applyTextureParams(
   gl: GL,
@@ -88,16 +495,49 @@ export function applyTextureParams(
   if (options.magFilter !== undefined) {
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, options.magFilter);
   }
+  if (options.anisotropy !== undefined) {
+    // 컨텍스트를 복구하면 확장을 다시 켜야 하므로 객체는 매번 받는다 (브라우저가 캐시한다)
+    const ext = gl.getExtension("EXT_texture_filter_anisotropic");
+    if (ext) {
+      const level = Math.min(Math.max(options.anisotropy, 1), maxAnisotropy(gl));
+      gl.texParameterf(gl.TEXTURE_2D, ext.TEXTURE_MAX_ANISOTROPY_EXT, level);
+    }
+  }
+
+  if (!isWebGL2(gl)) return;
+  if (options.minLod !== undefined) {
+    gl.texParameterf(gl.TEXTURE_2D, gl.TEXTURE_MIN_LOD, options.minLod);
+  }
+  if (options.maxLod !== undefined) {
+    gl.texParameterf(gl.TEXTURE_2D, gl.TEXTURE_MAX_LOD, options.maxLod);
+  }
+  if (options.baseLevel !== undefined) {
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_BASE_LEVEL, options.baseLevel);
+  }
+  if (options.maxLevel !== undefined) {
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAX_LEVEL, options.maxLevel);
+  }
+  if (options.compareMode !== undefined) {
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_COMPARE_MODE, options.compareMode);
+  }
+  if (options.compareFunc !== undefined) {
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_COMPARE_FUNC, options.compareFunc);
+  }
 }
 
 /**
  * Re-upload an image with a new flipY setting on the currently bound TEXTURE_2D.
+ * level 0만 바뀌므로 mipmap을 쓰는 텍스처는 mipmaps를 true로 줘서 체인을 다시 만든다.
  */
 export function reuploadWithFlip(
   gl: GL,
-  image: HTMLImageElement,
+  source: TextureSource,
   flipY: boolean,
+  mipmaps: boolean = false,
 ): void {
-  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, flipY ? 1 : 0);
-  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+  uploadTexture(gl, source, { flipY, mipmaps });
+}
+
+function isWebGL2(gl: GL): gl is WebGL2RenderingContext {
+  return typeof WebGL2RenderingContext !== "undefined" && gl instanceof WebGL2RenderingContext;
 }
@@ -0,0 +1,242 @@
+/**
+ * 압축 텍스처 컨테이너(KTX2, DDS)가 공통으로 돌려주는 형태와 블록 포맷 표, BC1~3 CPU 디코더.
+ * DOM/GL에 의존하지 않는다 — GL 상수는 숫자로만 적어 두고 업로드는 gl/compressedUpload.ts가 한다.
+ *
+ * 블록 압축 포맷은 텍셀을 blockWidth × blockHeight 블록으로 묶어 블록마다 고정된 바이트를 쓴다.
+ * 그래서 level 크기는 ceil(w / bw) × ceil(h / bh) × blockBytes로 정해지고, GPU도 이 크기 그대로 들고 있는다.
+ */
+
+export type CompressedTextureFormat =
+  | "BC1_RGB"
+  | "BC1_RGBA"
+  | "BC2"
+  | "BC3"
+  | "BC7"
+  | "ETC2_RGB8"
+  | "ETC2_RGBA8"
+  | "ASTC_4x4"
+  | "ASTC_5x5"
+  | "ASTC_6x6"
+  | "ASTC_8x8";
+
+/**
+ * s3tc — WEBGL_compressed_texture_s3tc (BC1 = DXT1, BC2 = DXT3, BC3 = DXT5). 데스크톱 GPU
+ * bptc — EXT_texture_compression_bptc (BC7). 데스크톱 GPU, 비교적 최근 드라이버
+ * etc  — WEBGL_compressed_texture_etc (ETC2 / EAC). 모바일 GPU
+ * astc — WEBGL_compressed_texture_astc. 최근 모바일 GPU와 Apple 실리콘
+ */
+export type CompressedTextureFamily = "s3tc" | "bptc" | "etc" | "astc";
+
+export interface CompressedFormatInfo {
+  family: CompressedTextureFamily;
+  blockWidth: number;
+  blockHeight: number;
+  blockBytes: number;
+  /** compressedTexImage2D의 internalformat (확장 객체의 상수와 같은 값) */
+  glInternalFormat: number;
+  hasAlpha: boolean;
+}
+
+export const COMPRESSED_FORMATS: Readonly<Record<CompressedTextureFormat, CompressedFormatInfo>> = {
+  BC1_RGB: { family: "s3tc", blockWidth: 4, blockHeight: 4, blockBytes: 8, glInternalFormat: 0x83f0, hasAlpha: false },
+  BC1_RGBA: { family: "s3tc", blockWidth: 4, blockHeight: 4, blockBytes: 8, glInternalFormat: 0x83f1, hasAlpha: true },
+  BC2: { family: "s3tc", blockWidth: 4, blockHeight: 4, blockBytes: 16, glInternalFormat: 0x83f2, hasAlpha: true },
+  BC3: { family: "s3tc", blockWidth: 4, blockHeight: 4, blockBytes: 16, glInternalFormat: 0x83f3, hasAlpha: true },
+  BC7: { family: "bptc", blockWidth: 4, blockHeight: 4, blockBytes: 16, glInternalFormat: 0x8e8c, hasAlpha: true },
+  ETC2_RGB8: { family: "etc", blockWidth: 4, blockHeight: 4, blockBytes: 8, glInternalFormat: 0x9274, hasAlpha: false },
+  ETC2_RGBA8: { family: "etc", blockWidth: 4, blockHeight: 4, blockBytes: 16, glInternalFormat: 0x9278, hasAlpha: true },
+  ASTC_4x4: { family: "astc", blockWidth: 4, blockHeight: 4, blockBytes: 16, glInternalFormat: 0x93b0, hasAlpha: true },
+  ASTC_5x5: { family: "astc", blockWidth: 5, blockHeight: 5, blockBytes: 16, glInternalFormat: 0x93b2, hasAlpha: true },
+  ASTC_6x6: { family: "astc", blockWidth: 6, blockHeight: 6, blockBytes: 16, glInternalFormat: 0x93b4, hasAlpha: true },
+  ASTC_8x8: { family: "astc", blockWidth: 8, blockHeight: 8, blockBytes: 16, glInternalFormat: 0x93b7, hasAlpha: true },
+};
+
+export interface CompressedLevel {
+  width: number;
+  height: number;
+  /** 블록 데이터. 원본 파일 버퍼의 subarray라 복사하지 않는다 */
+  data: Uint8Array;
+}
+
+export interface CompressedTexture {
+  container: "KTX2" | "DDS";
+  format: CompressedTextureFormat;
+  width: number;
+  height: number;
+  /** level 0(가장 큰 것)부터. 파일에 mip이 없으면 하나뿐이다 */
+  levels: CompressedLevel[];
+  /**
+   * KTX2 key/value 데이터 (KTXorientation, KTXwriter 등). DDS는 비어 있다.
+   * 두 컨테이너 모두 첫 행이 이미지 위쪽이다 — GL로 올리면 t = 0이 위가 된다.
+   */
+  metadata: Map<string, string>;
+}
+
+/** 컨테이너가 잘못됐거나 이 파서가 지원하지 않는 내용일 때. */
+export class CompressedTextureError extends Error {
+  readonly container: "KTX2" | "DDS";
+
+  constructor(container: "KTX2" | "DDS", message: string) {
+    super(`${container}: ${message}`);
+    this.name = "CompressedTextureError";
+    this.container = container;
+  }
+}
+
+/** width × height level 하나가 차지하는 바이트. */
+export function compressedLevelByteLength(format: CompressedTextureFormat, width: number, height: number): number {
+  const info = COMPRESSED_FORMATS[format];
+  return Math.ceil(width / info.blockWidth) * Math.ceil(height / info.blockHeight) * info.blockBytes;
+}
+
+/** 1×1까지 이어지는 전체 mip chain의 level 개수. */
+export function mipChainLength(width: number, height: number): number {
+  return Math.floor(Math.log2(Math.max(width, height, 1))) + 1;
+}
+
+/** level 0부터 count개 level의 크기와 바이트 오프셋 (데이터가 level 순서로 빈틈없이 붙어 있을 때). */
+export function compressedLevelLayout(
+  format: CompressedTextureFormat,
+  width: number,
+  height: number,
+  count: number,
+): { width: number; height: number; byteLength: number }[] {
+  const layout: { width: number; height: number; byteLength: number }[] = [];
+  for (let i = 0; i < count; i++) {
+    const w = Math.max(1, width >> i);
+    const h = Math.max(1, height >> i);
+    layout.push({ width: w, height: h, byteLength: compressedLevelByteLength(format, w, h) });
+  }
+  return layout;
+}
+
+/** 모든 level 바이트의 합 — GPU가 압축 그대로 들고 있는 크기다. */
+export function compressedByteLength(texture: CompressedTexture): number {
+  return texture.levels.reduce((sum, level) => sum + level.data.byteLength, 0);
+}
+
+/** 같은 level들을 RGBA8로 풀었을 때의 바이트. */
+export function decodedByteLength(texture: CompressedTexture): number {
+  return texture.levels.reduce((sum, level) => sum + level.width * level.height * 4, 0);
+}
+
+// ── CPU decoding (fallback) ──────────────────────────────────
+
+/** decodeToRgba가 풀 수 있는 포맷. BC7 / ETC2 / ASTC는 확장이 없으면 쓸 수 없다. */
+export function canDecodeToRgba(format: CompressedTextureFormat): boolean {
+  return format === "BC1_RGB" || format === "BC1_RGBA" || format === "BC2" || format === "BC3";
+}
+
+/**
+ * 블록 level 하나를 RGBA8 (width × height × 4, 첫 행이 위)로 푼다. 확장이 없을 때 texImage2D로 올리는 용도.
+ * canDecodeToRgba가 false인 포맷이면 Error를 던진다.
+ */
+export function decodeToRgba(format: CompressedTextureFormat, level: CompressedLevel): Uint8Array {
+  if (!canDecodeToRgba(format)) throw new Error(`${format}은 CPU 디코더가 없습니다 (BC1 / BC2 / BC3만 지원)`);
+  const { width, height, data } = level;
+  const out = new Uint8Array(width * height * 4);
+  const blocksX = Math.ceil(width / 4);
+  const blocksY = Math.ceil(height / 4);
+  const blockBytes = COMPRESSED_FORMATS[format].blockBytes;
+  const texels = new Uint8Array(16 * 4);
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      const offset = (by * blocksX + bx) * blockBytes;
+      if (format === "BC1_RGB" || format === "BC1_RGBA") {
+        decodeColorBlock(data, offset, texels, format === "BC1_RGBA");
+      } else {
+        // BC2 / BC3: 앞 8바이트가 알파, 뒤 8바이트가 (항상 4색 모드인) BC1 색 블록
+        decodeColorBlock(data, offset + 8, texels, false, true);
+        if (format === "BC2") decodeExplicitAlpha(data, offset, texels);
+        else decodeInterpolatedAlpha(data, offset, texels);
+      }
+      // 가장자리 블록은 이미지 밖 텍셀을 버린다
+      for (let y = 0; y < 4; y++) {
+        const py = by * 4 + y;
+        if (py >= height) break;
+        for (let x = 0; x < 4; x++) {
+          const px = bx * 4 + x;
+          if (px >= width) break;
+          out.set(texels.subarray((y * 4 + x) * 4, (y * 4 + x) * 4 + 4), (py * width + px) * 4);
+        }
+      }
+    }
+  }
+  return out;
+}
+
+function expand565(c: number, out: number[]): void {
+  const r = (c >> 11) & 31;
+  const g = (c >> 5) & 63;
+  const b = c & 31;
+  out[0] = (r << 3) | (r >> 2);
+  out[1] = (g << 2) | (g >> 4);
+  out[2] = (b << 3) | (b >> 2);
+}
+
+/**
+ * BC1 색 블록 (c0, c1: RGB565, 텍셀당 2비트 인덱스).
+ * c0 > c1이면 4색 (2/3, 1/3 보간), 아니면 3색 + 인덱스 3은 검정 (punch-through alpha면 투명).
+ * BC2 / BC3 안의 색 블록은 대소와 상관없이 4색이다.
+ */
+function decodeColorBlock(data: Uint8Array, offset: number, texels: Uint8Array, punchThrough: boolean, alwaysFourColor = false): void {
+  const c0 = data[offset] | (data[offset + 1] << 8);
+  const c1 = data[offset + 2] | (data[offset + 3] << 8);
+  const a: number[] = [0, 0, 0];
+  const b: number[] = [0, 0, 0];
+  expand565(c0, a);
+  expand565(c1, b);
+
+  const palette = new Uint8Array(16);
+  for (let ch = 0; ch < 3; ch++) {
+    palette[ch] = a[ch];
+    palette[4 + ch] = b[ch];
+    if (c0 > c1 || alwaysFourColor) {
+      palette[8 + ch] = Math.floor((2 * a[ch] + b[ch]) / 3);
+      palette[12 + ch] = Math.floor((a[ch] + 2 * b[ch]) / 3);
+    } else {
+      palette[8 + ch] = Math.floor((a[ch] + b[ch]) / 2);
+      palette[12 + ch] = 0;
+    }
+  }
+  palette[3] = palette[7] = palette[11] = 255;
+  palette[15] = c0 > c1 || alwaysFourColor || !punchThrough ? 255 : 0;
+
+  const bits = (data[offset + 4] | (data[offset + 5] << 8) | (data[offset + 6] << 16) | (data[offset + 7] << 24)) >>> 0;
+  for (let i = 0; i < 16; i++) {
+    const index = (bits >>> (i * 2)) & 3;
+    texels.set(palette.subarray(index * 4, index * 4 + 4), i * 4);
+  }
+}
+
+/** BC2 알파: 텍셀당 4비트 그대로. */
+function decodeExplicitAlpha(data: Uint8Array, offset: number, texels: Uint8Array): void {
+  for (let i = 0; i < 16; i++) {
+    const nibble = (data[offset + (i >> 1)] >> ((i & 1) * 4)) & 15;
+    texels[i * 4 + 3] = nibble * 17;
+  }
+}
+
+/** BC3 알파: 끝점 두 개 + 텍셀당 3비트 인덱스. a0 > a1이면 8단계, 아니면 6단계 + 0 / 255. */
+function decodeInterpolatedAlpha(data: Uint8Array, offset: number, texels: Uint8Array): void {
+  const a0 = data[offset];
+  const a1 = data[offset + 1];
+  const palette = [a0, a1, 0, 0, 0, 0, 0, 0];
+  if (a0 > a1) {
+    for (let i = 1; i < 7; i++) palette[i + 1] = Math.floor(((7 - i) * a0 + i * a1) / 7);
+  } else {
+    for (let i = 1; i < 5; i++) palette[i + 1] = Math.floor(((5 - i) * a0 + i * a1) / 5);
+    palette[6] = 0;
+    palette[7] = 255;
+  }
+
+  // 48비트 인덱스를 24비트씩 두 번 읽는다 (32비트 시프트 연산 범위 안에서)
+  for (let half = 0; half < 2; half++) {
+    const p = offset + 2 + half * 3;
+    const bits = data[p] | (data[p + 1] << 8) | (data[p + 2] << 16);
+    for (let i = 0; i < 8; i++) {
+      texels[(half * 8 + i) * 4 + 3] = palette[(bits >> (i * 3)) & 7];
+    }
+  }
+}
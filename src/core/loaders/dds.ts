@@ -0,0 +1,107 @@
+import { CompressedTextureError, compressedLevelLayout, mipChainLength } from "./compressedTexture";
+import type { CompressedLevel, CompressedTexture, CompressedTextureFormat } from "./compressedTexture";
+
+/**
+ * DirectDraw Surface (.dds) 파서. DOM/GL에 의존하지 않는다.
+ *
+ * 지원 범위:
+ *   - FourCC DXT1 / DXT3 / DXT5 (= BC1 / BC2 / BC3)
+ *   - DX10 확장 헤더의 DXGI BC1 / BC2 / BC3 / BC7 _UNORM, 2D 텍스처 하나
+ *   - mip level: DDSD_MIPMAPCOUNT가 있으면 그 개수, 없으면 level 0만
+ *
+ * 큐브맵 / 볼륨 / 배열, 비압축 픽셀 포맷, _SRGB DXGI 포맷은 CompressedTextureError로 거부한다.
+ * DXT1은 1비트 알파가 있을 수 있어 BC1_RGBA로 읽는다.
+ */
+
+const DDS_MAGIC = 0x20534444; // "DDS "
+const HEADER_BYTES = 4 + 124;
+const DX10_HEADER_BYTES = 20;
+
+const DDSD_MIPMAPCOUNT = 0x20000;
+const DDPF_FOURCC = 0x4;
+const DDSCAPS2_CUBEMAP = 0x200;
+const DDSCAPS2_VOLUME = 0x200000;
+const D3D10_RESOURCE_DIMENSION_TEXTURE2D = 3;
+const D3D10_RESOURCE_MISC_TEXTURECUBE = 0x4;
+
+const FOURCC_FORMATS = new Map<string, CompressedTextureFormat>([
+  ["DXT1", "BC1_RGBA"],
+  ["DXT3", "BC2"],
+  ["DXT5", "BC3"],
+]);
+
+const DXGI_FORMATS = new Map<number, CompressedTextureFormat>([
+  [71, "BC1_RGBA"],
+  [74, "BC2"],
+  [77, "BC3"],
+  [98, "BC7"],
+]);
+
+export function isDDS(bytes: Uint8Array): boolean {
+  return bytes.byteLength >= 4 && new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true) === DDS_MAGIC;
+}
+
+export function parseDDS(bytes: Uint8Array): CompressedTexture {
+  if (!isDDS(bytes)) throw new CompressedTextureError("DDS", "매직 값이 \"DDS \"가 아닙니다");
+  if (bytes.byteLength < HEADER_BYTES) throw new CompressedTextureError("DDS", `헤더(${HEADER_BYTES}바이트)보다 파일이 짧습니다`);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const u32 = (offset: number): number => view.getUint32(offset, true);
+
+  if (u32(4) !== 124) throw new CompressedTextureError("DDS", `헤더 크기가 124가 아닙니다 (${u32(4)})`);
+  const flags = u32(8);
+  const height = u32(12);
+  const width = u32(16);
+  const mipCount = flags & DDSD_MIPMAPCOUNT ? Math.max(1, u32(28)) : 1;
+  const pixelFlags = u32(80);
+  const fourCC = String.fromCharCode(bytes[84], bytes[85], bytes[86], bytes[87]);
+  const caps2 = u32(112);
+
+  if (width === 0 || height === 0) throw new CompressedTextureError("DDS", `크기가 0입니다 (${width}×${height})`);
+  if (caps2 & DDSCAPS2_CUBEMAP) throw new CompressedTextureError("DDS", "큐브맵은 지원하지 않습니다");
+  if (caps2 & DDSCAPS2_VOLUME) throw new CompressedTextureError("DDS", "볼륨 텍스처는 지원하지 않습니다");
+  if (!(pixelFlags & DDPF_FOURCC)) {
+    throw new CompressedTextureError("DDS", "비압축 픽셀 포맷은 지원하지 않습니다 (FourCC DXT1/3/5 또는 DX10만 읽습니다)");
+  }
+
+  let format: CompressedTextureFormat | undefined;
+  let dataOffset = HEADER_BYTES;
+  if (fourCC === "DX10") {
+    if (bytes.byteLength < HEADER_BYTES + DX10_HEADER_BYTES) {
+      throw new CompressedTextureError("DDS", "DX10 확장 헤더가 잘렸습니다");
+    }
+    const dxgiFormat = u32(HEADER_BYTES);
+    const dimension = u32(HEADER_BYTES + 4);
+    const miscFlag = u32(HEADER_BYTES + 8);
+    const arraySize = u32(HEADER_BYTES + 12);
+    if (dimension !== D3D10_RESOURCE_DIMENSION_TEXTURE2D) {
+      throw new CompressedTextureError("DDS", `2D 텍스처만 지원합니다 (resourceDimension ${dimension})`);
+    }
+    if (miscFlag & D3D10_RESOURCE_MISC_TEXTURECUBE) throw new CompressedTextureError("DDS", "큐브맵은 지원하지 않습니다");
+    if (arraySize > 1) throw new CompressedTextureError("DDS", `배열 텍스처(${arraySize}장)는 지원하지 않습니다`);
+    format = DXGI_FORMATS.get(dxgiFormat);
+    if (!format) {
+      throw new CompressedTextureError("DDS", `지원하지 않는 DXGI 포맷 ${dxgiFormat} (BC1 / BC2 / BC3 / BC7 UNORM만 읽습니다)`);
+    }
+    dataOffset += DX10_HEADER_BYTES;
+  } else {
+    format = FOURCC_FORMATS.get(fourCC);
+    if (!format) throw new CompressedTextureError("DDS", `지원하지 않는 FourCC "${fourCC}" (DXT1 / DXT3 / DXT5 / DX10만 읽습니다)`);
+  }
+
+  if (mipCount > mipChainLength(width, height)) {
+    throw new CompressedTextureError("DDS", `mip level ${mipCount}개는 ${width}×${height}의 전체 chain보다 많습니다`);
+  }
+
+  // DDS는 level 데이터가 헤더 뒤에 빈틈없이 이어진다
+  const levels: CompressedLevel[] = [];
+  let offset = dataOffset;
+  for (const [i, level] of compressedLevelLayout(format, width, height, mipCount).entries()) {
+    if (offset + level.byteLength > bytes.byteLength) {
+      throw new CompressedTextureError("DDS", `level ${i} (${level.width}×${level.height}, ${level.byteLength}바이트)이 파일 끝을 넘습니다`);
+    }
+    levels.push({ width: level.width, height: level.height, data: bytes.subarray(offset, offset + level.byteLength) });
+    offset += level.byteLength;
+  }
+
+  return { container: "DDS", format, width, height, levels, metadata: new Map() };
+}
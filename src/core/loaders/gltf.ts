@@ -0,0 +1,787 @@
+import { computeNormals, createMesh } from "../mesh/mesh";
+import type { Mesh, MeshOptions } from "../mesh/mesh";
+import { compose, multiply } from "../math/mat4";
+import type { Mat4 } from "../math/mat4";
+import type { TextureOptions } from "../gl/texture";
+import { createPbrMaterial } from "../material/pbrMaterial";
+import type { AlphaMode, PbrMaterial, TextureRef } from "../material/pbrMaterial";
+
+/**
+ * glTF 2.0 로더 (.gltf + 외부 버퍼 / data URI, .glb). DOM/GL에 의존하지 않는다.
+ *
+ * 지원 범위:
+ *   - accessor: 모든 componentType, SCALAR … MAT4 (행렬 열 패딩 포함), byteStride, normalized, sparse
+ *   - mesh: primitive 여러 개, mode 0 외 전부 (strip/fan/loop는 리스트로 풀어 Mesh 하나로 만든다)
+ *   - node: 계층, TRS 또는 matrix → local / world 행렬
+ *   - material: metallic-roughness 전체 (PbrMaterial), alphaMode, doubleSided
+ *   - texture / sampler: TextureOptions로 변환 (glTF uv 원점이 왼쪽 위라 flipY는 false).
+ *     필터를 정하지 않은 sampler는 LINEAR_MIPMAP_LINEAR / LINEAR로 채운다
+ *   - image: bufferView, data URI, 외부 uri → 바이트 (디코딩은 호출하는 쪽에서 한다)
+ *
+ * 외부 파일은 readUri 콜백으로 읽는다. 상대 경로를 어디 기준으로 풀지는 호출하는 쪽이 정한다.
+ */
+
+export class GltfParseError extends Error {
+  /** 문제가 된 JSON 위치. 예: "accessors[3].count" */
+  readonly path: string;
+
+  constructor(message: string, path: string) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = "GltfParseError";
+    this.path = path;
+  }
+}
+
+export interface GltfNode {
+  name: string;
+  children: number[];
+  parent: number | null;
+  mesh: number | null;
+  /** 부모 기준 변환 */
+  localMatrix: Mat4;
+  /** 루트까지 곱한 변환 */
+  worldMatrix: Mat4;
+}
+
+export interface GltfPrimitive {
+  mesh: Mesh;
+  material: number | null;
+}
+
+export interface GltfMesh {
+  name: string;
+  primitives: GltfPrimitive[];
+}
+
+/** 텍스처 참조의 index는 GltfAsset.textures의 인덱스다. */
+export type GltfMaterial = PbrMaterial;
+
+export interface GltfTexture {
+  /** images 인덱스. 없으면 null (재질은 factor만 쓴다) */
+  image: number | null;
+  sampler: TextureOptions;
+}
+
+export interface GltfImage {
+  name: string;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+export interface GltfScene {
+  name: string;
+  nodes: number[];
+}
+
+export interface GltfAsset {
+  scenes: GltfScene[];
+  /** 기본 장면 인덱스. 장면이 없으면 -1 */
+  scene: number;
+  nodes: GltfNode[];
+  meshes: GltfMesh[];
+  materials: GltfMaterial[];
+  textures: GltfTexture[];
+  images: GltfImage[];
+}
+
+export interface GltfLoadOptions extends MeshOptions {
+  /** data URI가 아닌 buffer / image uri를 읽는다. 없는데 외부 uri가 있으면 오류 */
+  readUri?: (uri: string) => Promise<ArrayBuffer | Uint8Array>;
+}
+
+// ── Entry points ─────────────────────────────────────────────
+
+/**
+ * .gltf 텍스트(또는 그 바이트)나 .glb 바이트를 읽어 GltfAsset을 만든다.
+ * 외부 버퍼와 이미지를 모두 읽은 뒤 buildGltfAsset으로 넘긴다.
+ */
+export async function loadGltf(data: ArrayBuffer | Uint8Array | string, options: GltfLoadOptions = {}): Promise<GltfAsset> {
+  let json: unknown;
+  let bin: Uint8Array | null = null;
+
+  if (typeof data === "string") {
+    json = parseJson(data);
+  } else {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    if (isGLB(bytes)) {
+      ({ json, bin } = parseGLB(bytes));
+    } else {
+      json = parseJson(new TextDecoder().decode(bytes));
+    }
+  }
+
+  const doc = validateRoot(json);
+
+  const readExternal = async (uri: string, path: string): Promise<Uint8Array> => {
+    if (uri.startsWith("data:")) return decodeDataUri(uri, path);
+    if (!options.readUri) throw new GltfParseError(`외부 파일을 읽을 readUri가 없습니다: "${uri}"`, path);
+    const result = await options.readUri(uri);
+    return result instanceof Uint8Array ? result : new Uint8Array(result);
+  };
+
+  const buffers: Uint8Array[] = [];
+  for (const [i, buffer] of (doc.buffers ?? []).entries()) {
+    const path = `buffers[${i}]`;
+    let bytes: Uint8Array;
+    if (buffer.uri !== undefined) {
+      bytes = await readExternal(buffer.uri, path);
+    } else if (i === 0 && bin) {
+      bytes = bin;
+    } else {
+      throw new GltfParseError("uri가 없고 GLB BIN 청크도 없습니다", path);
+    }
+    if (bytes.byteLength < buffer.byteLength) {
+      throw new GltfParseError(`byteLength ${buffer.byteLength}보다 데이터가 짧습니다 (${bytes.byteLength})`, path);
+    }
+    buffers.push(bytes);
+  }
+
+  // bufferView 이미지는 buildGltfAsset에서 잘라 쓰고, uri 이미지만 여기서 읽는다
+  const externalImages: (Uint8Array | null)[] = [];
+  for (const [i, image] of (doc.images ?? []).entries()) {
+    externalImages.push(image.uri !== undefined ? await readExternal(image.uri, `images[${i}]`) : null);
+  }
+
+  return buildGltfAsset(doc, buffers, externalImages, options);
+}
+
+/** GLB 헤더(매직 "glTF")인지. */
+export function isGLB(bytes: Uint8Array): boolean {
+  return bytes.byteLength >= 12 && readU32(bytes, 0) === GLB_MAGIC;
+}
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a; // "JSON"
+const CHUNK_BIN = 0x004e4942; // "BIN\0"
+
+/** GLB 컨테이너를 JSON 청크와 BIN 청크로 나눈다. */
+export function parseGLB(bytes: Uint8Array): { json: unknown; bin: Uint8Array | null } {
+  if (!isGLB(bytes)) throw new GltfParseError("GLB 매직 값이 아닙니다", "glb");
+  const version = readU32(bytes, 4);
+  if (version !== 2) throw new GltfParseError(`지원하지 않는 GLB 버전 ${version}`, "glb");
+  const length = readU32(bytes, 8);
+  if (length > bytes.byteLength) {
+    throw new GltfParseError(`헤더 길이 ${length}가 파일 크기 ${bytes.byteLength}보다 큽니다`, "glb");
+  }
+
+  let json: unknown = undefined;
+  let bin: Uint8Array | null = null;
+  let offset = 12;
+  let index = 0;
+  while (offset + 8 <= length) {
+    const chunkLength = readU32(bytes, offset);
+    const chunkType = readU32(bytes, offset + 4);
+    const start = offset + 8;
+    if (start + chunkLength > length) {
+      throw new GltfParseError(`청크 ${index}가 파일 끝을 넘습니다`, "glb");
+    }
+    const chunk = bytes.subarray(start, start + chunkLength);
+
+    if (index === 0) {
+      if (chunkType !== CHUNK_JSON) throw new GltfParseError("첫 청크가 JSON이 아닙니다", "glb");
+      json = parseJson(new TextDecoder().decode(chunk));
+    } else if (chunkType === CHUNK_BIN && bin === null) {
+      bin = chunk;
+    }
+    // 알 수 없는 청크는 사양대로 건너뛴다
+    offset = start + align4(chunkLength);
+    index++;
+  }
+
+  if (json === undefined) throw new GltfParseError("JSON 청크가 없습니다", "glb");
+  return { json, bin };
+}
+
+// ── JSON schema (필요한 부분만) ──────────────────────────────
+
+interface GltfDoc {
+  asset: { version: string; minVersion?: string };
+  scene?: number;
+  scenes?: { name?: string; nodes?: number[] }[];
+  nodes?: {
+    name?: string;
+    children?: number[];
+    mesh?: number;
+    matrix?: number[];
+    translation?: number[];
+    rotation?: number[];
+    scale?: number[];
+  }[];
+  meshes?: { name?: string; primitives: PrimitiveDoc[] }[];
+  accessors?: AccessorDoc[];
+  bufferViews?: { buffer: number; byteOffset?: number; byteLength: number; byteStride?: number }[];
+  buffers?: { uri?: string; byteLength: number }[];
+  materials?: MaterialDoc[];
+  textures?: { source?: number; sampler?: number }[];
+  images?: { name?: string; uri?: string; mimeType?: string; bufferView?: number }[];
+  samplers?: { magFilter?: number; minFilter?: number; wrapS?: number; wrapT?: number }[];
+  extensionsRequired?: string[];
+}
+
+interface TextureInfoDoc {
+  index: number;
+  texCoord?: number;
+  scale?: number;
+  strength?: number;
+}
+
+interface MaterialDoc {
+  name?: string;
+  pbrMetallicRoughness?: {
+    baseColorFactor?: number[];
+    baseColorTexture?: TextureInfoDoc;
+    metallicFactor?: number;
+    roughnessFactor?: number;
+    metallicRoughnessTexture?: TextureInfoDoc;
+  };
+  normalTexture?: TextureInfoDoc;
+  occlusionTexture?: TextureInfoDoc;
+  emissiveTexture?: TextureInfoDoc;
+  emissiveFactor?: number[];
+  alphaMode?: string;
+  alphaCutoff?: number;
+  doubleSided?: boolean;
+}
+
+interface PrimitiveDoc {
+  attributes: Record<string, number>;
+  indices?: number;
+  material?: number;
+  mode?: number;
+}
+
+interface AccessorDoc {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  normalized?: boolean;
+  count: number;
+  type: string;
+  sparse?: {
+    count: number;
+    indices: { bufferView: number; byteOffset?: number; componentType: number };
+    values: { bufferView: number; byteOffset?: number };
+  };
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (e: unknown) {
+    throw new GltfParseError(`JSON 구문 오류 — ${e instanceof Error ? e.message : String(e)}`, "");
+  }
+}
+
+function validateRoot(json: unknown): GltfDoc {
+  if (typeof json !== "object" || json === null) throw new GltfParseError("최상위 값이 객체가 아닙니다", "");
+  const doc = json as GltfDoc;
+  const version = doc.asset?.version;
+  if (typeof version !== "string") throw new GltfParseError("asset.version이 없습니다", "asset");
+  const required = doc.asset.minVersion ?? version;
+  if (!required.startsWith("2.")) throw new GltfParseError(`지원하지 않는 glTF 버전 ${required}`, "asset");
+  if (doc.extensionsRequired?.length) {
+    throw new GltfParseError(`지원하지 않는 필수 확장: ${doc.extensionsRequired.join(", ")}`, "extensionsRequired");
+  }
+  return doc;
+}
+
+// ── Asset ────────────────────────────────────────────────────
+
+/**
+ * JSON과 이미 읽어 둔 버퍼로 GltfAsset을 만든다 (동기).
+ * externalImages[i]는 uri 이미지의 바이트, bufferView 이미지면 null.
+ */
+function buildGltfAsset(
+  doc: GltfDoc,
+  buffers: Uint8Array[],
+  externalImages: (Uint8Array | null)[],
+  options: MeshOptions = {},
+): GltfAsset {
+  const ctx: Context = { doc, buffers };
+
+  const images = (doc.images ?? []).map((image, i): GltfImage => {
+    const path = `images[${i}]`;
+    let bytes = externalImages[i] ?? null;
+    if (!bytes) {
+      if (image.bufferView === undefined) throw new GltfParseError("uri와 bufferView가 모두 없습니다", path);
+      const view = bufferViewBytes(ctx, image.bufferView, `${path}.bufferView`);
+      bytes = view.bytes;
+    }
+    return {
+      name: image.name ?? `image${i}`,
+      mimeType: image.mimeType ?? dataUriMime(image.uri) ?? sniffMime(bytes) ?? "application/octet-stream",
+      bytes,
+    };
+  });
+
+  const textures = (doc.textures ?? []).map((texture, i): GltfTexture => {
+    const path = `textures[${i}]`;
+    if (texture.source !== undefined) checkIndex(texture.source, images.length, `${path}.source`);
+    let sampler: TextureOptions = { flipY: false, wrapS: GL_REPEAT, wrapT: GL_REPEAT, minFilter: GL_LINEAR_MIPMAP_LINEAR, magFilter: GL_LINEAR };
+    if (texture.sampler !== undefined) {
+      const s = (doc.samplers ?? [])[checkIndex(texture.sampler, doc.samplers?.length ?? 0, `${path}.sampler`)];
+      sampler = {
+        flipY: false,
+        wrapS: s.wrapS ?? GL_REPEAT,
+        wrapT: s.wrapT ?? GL_REPEAT,
+        minFilter: s.minFilter ?? GL_LINEAR_MIPMAP_LINEAR,
+        magFilter: s.magFilter ?? GL_LINEAR,
+      };
+    }
+    return { image: texture.source ?? null, sampler };
+  });
+
+  const materials = (doc.materials ?? []).map((material, i) => buildMaterial(material, `materials[${i}]`, i, textures.length));
+
+  const meshes = (doc.meshes ?? []).map((mesh, i): GltfMesh => ({
+    name: mesh.name ?? `mesh${i}`,
+    primitives: mesh.primitives.map((primitive, j) => {
+      const path = `meshes[${i}].primitives[${j}]`;
+      if (primitive.material !== undefined) checkIndex(primitive.material, materials.length, `${path}.material`);
+      return { mesh: buildPrimitive(ctx, primitive, path, options), material: primitive.material ?? null };
+    }),
+  }));
+
+  const nodes = buildNodes(doc, meshes.length);
+
+  const scenes = (doc.scenes ?? []).map((scene, i): GltfScene => {
+    const roots = scene.nodes ?? [];
+    roots.forEach((n, k) => checkIndex(n, nodes.length, `scenes[${i}].nodes[${k}]`));
+    return { name: scene.name ?? `scene${i}`, nodes: roots };
+  });
+  if (doc.scene !== undefined) checkIndex(doc.scene, scenes.length, "scene");
+
+  return {
+    scenes,
+    scene: doc.scene ?? (scenes.length > 0 ? 0 : -1),
+    nodes,
+    meshes,
+    materials,
+    textures,
+    images,
+  };
+}
+
+interface Context {
+  doc: GltfDoc;
+  buffers: Uint8Array[];
+}
+
+// ── Materials ────────────────────────────────────────────────
+
+const ALPHA_MODES: AlphaMode[] = ["OPAQUE", "MASK", "BLEND"];
+
+/** 없는 필드는 createPbrMaterial의 glTF 기본값을 쓴다. */
+function buildMaterial(material: MaterialDoc, path: string, index: number, textureCount: number): GltfMaterial {
+  const pbr = material.pbrMetallicRoughness ?? {};
+  const pbrPath = `${path}.pbrMetallicRoughness`;
+
+  const ref = (info: TextureInfoDoc | undefined, infoPath: string): TextureRef | null => {
+    if (!info) return null;
+    checkIndex(info.index, textureCount, `${infoPath}.index`);
+    return { index: info.index, texCoord: info.texCoord ?? 0 };
+  };
+  const tuple = (values: number[] | undefined, length: number, fieldPath: string): number[] | undefined => {
+    if (values && values.length !== length) throw new GltfParseError(`숫자 ${length}개여야 합니다`, fieldPath);
+    return values;
+  };
+
+  const alphaMode = (material.alphaMode ?? "OPAQUE") as AlphaMode;
+  if (!ALPHA_MODES.includes(alphaMode)) throw new GltfParseError(`잘못된 alphaMode "${alphaMode}"`, `${path}.alphaMode`);
+
+  const base = tuple(pbr.baseColorFactor, 4, `${pbrPath}.baseColorFactor`) ?? [1, 1, 1, 1];
+  const emissive = tuple(material.emissiveFactor, 3, `${path}.emissiveFactor`) ?? [0, 0, 0];
+  const normal = ref(material.normalTexture, `${path}.normalTexture`);
+  const occlusion = ref(material.occlusionTexture, `${path}.occlusionTexture`);
+
+  return createPbrMaterial({
+    name: material.name ?? `material${index}`,
+    baseColorFactor: [base[0], base[1], base[2], base[3]],
+    baseColorTexture: ref(pbr.baseColorTexture, `${pbrPath}.baseColorTexture`),
+    metallicFactor: pbr.metallicFactor ?? 1,
+    roughnessFactor: pbr.roughnessFactor ?? 1,
+    metallicRoughnessTexture: ref(pbr.metallicRoughnessTexture, `${pbrPath}.metallicRoughnessTexture`),
+    normalTexture: normal && { ...normal, scale: material.normalTexture?.scale ?? 1 },
+    occlusionTexture: occlusion && { ...occlusion, strength: material.occlusionTexture?.strength ?? 1 },
+    emissiveFactor: [emissive[0], emissive[1], emissive[2]],
+    emissiveTexture: ref(material.emissiveTexture, `${path}.emissiveTexture`),
+    alphaMode,
+    alphaCutoff: material.alphaCutoff ?? 0.5,
+    doubleSided: material.doubleSided ?? false,
+  });
+}
+
+// ── Nodes ────────────────────────────────────────────────────
+
+function buildNodes(doc: GltfDoc, meshCount: number): GltfNode[] {
+  const docs = doc.nodes ?? [];
+  const nodes: GltfNode[] = docs.map((node, i) => {
+    const path = `nodes[${i}]`;
+    if (node.mesh !== undefined) checkIndex(node.mesh, meshCount, `${path}.mesh`);
+
+    let localMatrix: Mat4;
+    if (node.matrix) {
+      if (node.translation || node.rotation || node.scale) {
+        throw new GltfParseError("matrix와 TRS를 함께 쓸 수 없습니다", path);
+      }
+      if (node.matrix.length !== 16) throw new GltfParseError("matrix는 숫자 16개여야 합니다", `${path}.matrix`);
+      localMatrix = Float32Array.from(node.matrix); // glTF도 column-major
+    } else {
+      localMatrix = compose({
+        translation: Float32Array.from(node.translation ?? [0, 0, 0]),
+        rotation: Float32Array.from(node.rotation ?? [0, 0, 0, 1]),
+        scale: Float32Array.from(node.scale ?? [1, 1, 1]),
+      });
+    }
+
+    return {
+      name: node.name ?? `node${i}`,
+      children: node.children ?? [],
+      parent: null,
+      mesh: node.mesh ?? null,
+      localMatrix,
+      worldMatrix: localMatrix,
+    };
+  });
+
+  // 부모 연결. 사양상 노드는 부모가 하나뿐이고 계층에 순환이 없어야 한다
+  nodes.forEach((node, i) => {
+    node.children.forEach((child, k) => {
+      checkIndex(child, nodes.length, `nodes[${i}].children[${k}]`);
+      if (nodes[child].parent !== null) {
+        throw new GltfParseError(`노드 ${child}의 부모가 둘 이상입니다`, `nodes[${i}].children[${k}]`);
+      }
+      nodes[child].parent = i;
+    });
+  });
+
+  const resolved = new Array<boolean>(nodes.length).fill(false);
+  const resolve = (i: number, depth: number): Mat4 => {
+    const node = nodes[i];
+    if (resolved[i]) return node.worldMatrix;
+    if (depth > nodes.length) throw new GltfParseError("노드 계층에 순환이 있습니다", `nodes[${i}]`);
+    node.worldMatrix = node.parent === null
+      ? node.localMatrix
+      : multiply(resolve(node.parent, depth + 1), node.localMatrix);
+    resolved[i] = true;
+    return node.worldMatrix;
+  };
+  nodes.forEach((_, i) => resolve(i, 0));
+
+  return nodes;
+}
+
+// ── Primitives ───────────────────────────────────────────────
+
+const MODE_POINTS = 0;
+const MODE_LINES = 1;
+const MODE_LINE_LOOP = 2;
+const MODE_LINE_STRIP = 3;
+const MODE_TRIANGLES = 4;
+const MODE_TRIANGLE_STRIP = 5;
+const MODE_TRIANGLE_FAN = 6;
+
+function buildPrimitive(ctx: Context, primitive: PrimitiveDoc, path: string, options: MeshOptions): Mesh {
+  const mode = primitive.mode ?? MODE_TRIANGLES;
+  if (mode === MODE_POINTS) throw new GltfParseError("POINTS primitive는 지원하지 않습니다", `${path}.mode`);
+  if (mode < 0 || mode > MODE_TRIANGLE_FAN) throw new GltfParseError(`잘못된 mode ${mode}`, `${path}.mode`);
+
+  const attr = (name: string, types: string[]): Float32Array | null => {
+    const index = primitive.attributes[name];
+    if (index === undefined) return null;
+    const acc = readAccessor(ctx, index, `${path}.attributes.${name}`);
+    if (!types.includes(acc.type)) {
+      throw new GltfParseError(`${name}의 type은 ${types.join("/")}이어야 합니다 (${acc.type})`, `accessors[${index}]`);
+    }
+    return toFloat32(acc);
+  };
+
+  const positions = attr("POSITION", ["VEC3"]);
+  if (!positions) throw new GltfParseError("POSITION attribute가 없습니다", `${path}.attributes`);
+  const vertexCount = positions.length / 3;
+  const normals = attr("NORMAL", ["VEC3"]);
+  const tangents = attr("TANGENT", ["VEC4"]);
+  const uvs = attr("TEXCOORD_0", ["VEC2"]);
+
+  for (const [name, data, size] of [["NORMAL", normals, 3], ["TANGENT", tangents, 4], ["TEXCOORD_0", uvs, 2]] as const) {
+    if (data && data.length !== vertexCount * size) {
+      throw new GltfParseError(`${name}의 count가 POSITION과 다릅니다`, `${path}.attributes.${name}`);
+    }
+  }
+
+  let indices: ArrayLike<number>;
+  if (primitive.indices !== undefined) {
+    const acc = readAccessor(ctx, primitive.indices, `${path}.indices`);
+    if (acc.type !== "SCALAR" || !INDEX_COMPONENT_TYPES.includes(acc.componentType)) {
+      throw new GltfParseError("indices는 UNSIGNED_BYTE/SHORT/INT SCALAR여야 합니다", `accessors[${primitive.indices}]`);
+    }
+    indices = acc.data;
+    for (let k = 0; k < indices.length; k++) {
+      if (indices[k] >= vertexCount) {
+        throw new GltfParseError(`인덱스 ${indices[k]}가 정점 수 ${vertexCount}를 넘습니다`, `accessors[${primitive.indices}]`);
+      }
+    }
+  } else {
+    indices = Array.from({ length: vertexCount }, (_, k) => k);
+  }
+
+  const isLines = mode === MODE_LINES || mode === MODE_LINE_LOOP || mode === MODE_LINE_STRIP;
+  const list = toList(mode, indices);
+
+  if (!normals && !isLines) {
+    // 사양: 법선이 없으면 flat 법선. 삼각형마다 정점을 따로 두어야 하므로 인덱스를 풀어 쓴다
+    return flatMesh(positions, uvs, list, options);
+  }
+
+  return createMesh({
+    positions,
+    normals: normals ?? new Float32Array(vertexCount * 3).map((_, k) => (k % 3 === 1 ? 1 : 0)),
+    uvs: uvs ?? new Float32Array(vertexCount * 2),
+    tangents: tangents ?? undefined,
+    indices: list,
+    primitive: isLines ? "lines" : "triangles",
+  }, options);
+}
+
+/** strip / fan / loop를 리스트 인덱스로 푼다. 감김 방향은 사양의 정의를 따른다. */
+function toList(mode: number, indices: ArrayLike<number>): ArrayLike<number> {
+  const n = indices.length;
+  const out: number[] = [];
+  switch (mode) {
+    case MODE_TRIANGLE_STRIP:
+      for (let i = 0; i + 2 < n; i++) {
+        if (i % 2 === 0) out.push(indices[i], indices[i + 1], indices[i + 2]);
+        else out.push(indices[i + 1], indices[i], indices[i + 2]);
+      }
+      return out;
+    case MODE_TRIANGLE_FAN:
+      for (let i = 1; i + 1 < n; i++) out.push(indices[i], indices[i + 1], indices[0]);
+      return out;
+    case MODE_LINE_STRIP:
+    case MODE_LINE_LOOP:
+      for (let i = 0; i + 1 < n; i++) out.push(indices[i], indices[i + 1]);
+      if (mode === MODE_LINE_LOOP && n > 1) out.push(indices[n - 1], indices[0]);
+      return out;
+    default:
+      return indices;
+  }
+}
+
+function flatMesh(positions: Float32Array, uvs: Float32Array | null, list: ArrayLike<number>, options: MeshOptions): Mesh {
+  const count = list.length;
+  const p = new Float32Array(count * 3);
+  const t = new Float32Array(count * 2);
+  for (let k = 0; k < count; k++) {
+    const v = list[k];
+    p.set(positions.subarray(v * 3, v * 3 + 3), k * 3);
+    if (uvs) t.set(uvs.subarray(v * 2, v * 2 + 2), k * 2);
+  }
+  const indices = Array.from({ length: count }, (_, k) => k);
+  // 정점을 공유하지 않으므로 면적 가중 평균이 곧 면 법선이다
+  return createMesh({ positions: p, normals: computeNormals(p, indices), uvs: t, indices }, options);
+}
+
+// ── Accessors ────────────────────────────────────────────────
+
+type ComponentArray = Int8Array | Uint8Array | Int16Array | Uint16Array | Uint32Array | Float32Array;
+
+interface AccessorData {
+  /** 요소를 촘촘히 편 값 (stride, 행렬 열 패딩 제거) */
+  data: ComponentArray;
+  type: string;
+  componentType: number;
+  normalized: boolean;
+  /** 요소당 성분 수 */
+  itemSize: number;
+  count: number;
+}
+
+const COMPONENTS: Record<number, { bytes: number; array: new (n: number) => ComponentArray; read: (v: DataView, o: number) => number }> = {
+  5120: { bytes: 1, array: Int8Array, read: (v, o) => v.getInt8(o) },
+  5121: { bytes: 1, array: Uint8Array, read: (v, o) => v.getUint8(o) },
+  5122: { bytes: 2, array: Int16Array, read: (v, o) => v.getInt16(o, true) },
+  5123: { bytes: 2, array: Uint16Array, read: (v, o) => v.getUint16(o, true) },
+  5125: { bytes: 4, array: Uint32Array, read: (v, o) => v.getUint32(o, true) },
+  5126: { bytes: 4, array: Float32Array, read: (v, o) => v.getFloat32(o, true) },
+};
+
+/** type → [열 수, 행 수] */
+const TYPES: Record<string, [number, number]> = {
+  SCALAR: [1, 1],
+  VEC2: [1, 2],
+  VEC3: [1, 3],
+  VEC4: [1, 4],
+  MAT2: [2, 2],
+  MAT3: [3, 3],
+  MAT4: [4, 4],
+};
+
+const INDEX_COMPONENT_TYPES = [5121, 5123, 5125];
+
+/** accessor를 읽어 촘촘한 typed array로 만든다. sparse 값도 적용한다. */
+function readAccessor(ctx: Context, index: number, path: string): AccessorData {
+  const accessors = ctx.doc.accessors ?? [];
+  checkIndex(index, accessors.length, path);
+  const acc = accessors[index];
+  const accPath = `accessors[${index}]`;
+
+  const component = COMPONENTS[acc.componentType];
+  if (!component) throw new GltfParseError(`잘못된 componentType ${acc.componentType}`, `${accPath}.componentType`);
+  const shape = TYPES[acc.type];
+  if (!shape) throw new GltfParseError(`잘못된 type "${acc.type}"`, `${accPath}.type`);
+  if (!Number.isInteger(acc.count) || acc.count < 1) throw new GltfParseError(`잘못된 count ${acc.count}`, `${accPath}.count`);
+  if (acc.normalized && (acc.componentType === 5125 || acc.componentType === 5126)) {
+    throw new GltfParseError("FLOAT / UNSIGNED_INT는 normalized일 수 없습니다", `${accPath}.normalized`);
+  }
+
+  const itemSize = shape[0] * shape[1];
+  const data = new component.array(acc.count * itemSize);
+
+  // bufferView가 없으면 0으로 채운 값에서 시작한다 (sparse 전용 accessor)
+  if (acc.bufferView !== undefined) {
+    const viewIndex = acc.bufferView;
+    const view = bufferViewBytes(ctx, viewIndex, `${accPath}.bufferView`);
+    const stride = ctx.doc.bufferViews![viewIndex].byteStride;
+    readElements(view.bytes, acc.byteOffset ?? 0, stride, acc.count, acc.componentType, acc.type, data, 0, accPath);
+  }
+
+  if (acc.sparse) {
+    const sparse = acc.sparse;
+    const sPath = `${accPath}.sparse`;
+    if (!INDEX_COMPONENT_TYPES.includes(sparse.indices.componentType)) {
+      throw new GltfParseError(`잘못된 indices.componentType ${sparse.indices.componentType}`, `${sPath}.indices`);
+    }
+    const indexView = bufferViewBytes(ctx, sparse.indices.bufferView, `${sPath}.indices.bufferView`);
+    const targets = new Uint32Array(sparse.count);
+    readElements(indexView.bytes, sparse.indices.byteOffset ?? 0, undefined, sparse.count, sparse.indices.componentType, "SCALAR", targets, 0, `${sPath}.indices`);
+
+    const valueView = bufferViewBytes(ctx, sparse.values.bufferView, `${sPath}.values.bufferView`);
+    const values = new component.array(sparse.count * itemSize);
+    readElements(valueView.bytes, sparse.values.byteOffset ?? 0, undefined, sparse.count, acc.componentType, acc.type, values, 0, `${sPath}.values`);
+
+    targets.forEach((target, k) => {
+      if (target >= acc.count) throw new GltfParseError(`sparse 인덱스 ${target}가 count를 넘습니다`, `${sPath}.indices`);
+      data.set(values.subarray(k * itemSize, (k + 1) * itemSize), target * itemSize);
+    });
+  }
+
+  return { data, type: acc.type, componentType: acc.componentType, normalized: acc.normalized ?? false, itemSize, count: acc.count };
+}
+
+/**
+ * bytes[byteOffset...]에서 요소 count개를 읽어 out[outOffset...]에 촘촘히 쓴다.
+ * 행렬은 열마다 4바이트 경계로 맞춰져 있으므로(MAT2/MAT3의 1·2바이트 성분) 열 단위로 읽는다.
+ */
+function readElements(
+  bytes: Uint8Array,
+  byteOffset: number,
+  byteStride: number | undefined,
+  count: number,
+  componentType: number,
+  type: string,
+  out: { [k: number]: number },
+  outOffset: number,
+  path: string,
+): void {
+  const component = COMPONENTS[componentType];
+  const [columns, rows] = TYPES[type];
+  const columnBytes = columns > 1 ? align4(rows * component.bytes) : rows * component.bytes;
+  const elementBytes = columns * columnBytes;
+  const stride = byteStride ?? elementBytes;
+
+  if (stride < elementBytes) throw new GltfParseError(`byteStride ${stride}가 요소 크기 ${elementBytes}보다 작습니다`, path);
+  if (byteOffset % component.bytes !== 0) throw new GltfParseError(`byteOffset ${byteOffset}가 성분 크기에 정렬되지 않았습니다`, path);
+  const end = byteOffset + stride * (count - 1) + elementBytes;
+  if (end > bytes.byteLength) {
+    throw new GltfParseError(`데이터가 bufferView를 넘습니다 (${end} > ${bytes.byteLength})`, path);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let o = outOffset;
+  for (let i = 0; i < count; i++) {
+    const base = byteOffset + i * stride;
+    for (let c = 0; c < columns; c++) {
+      for (let r = 0; r < rows; r++) {
+        out[o++] = component.read(view, base + c * columnBytes + r * component.bytes);
+      }
+    }
+  }
+}
+
+/** normalized 정수는 사양의 공식으로 -1…1 / 0…1로 바꾸고, 그 밖에는 값 그대로 float로 바꾼다. */
+function toFloat32(acc: AccessorData): Float32Array {
+  if (acc.data instanceof Float32Array) return acc.data;
+  if (!acc.normalized) return Float32Array.from(acc.data);
+  const out = new Float32Array(acc.data.length);
+  const divisor = NORMALIZE_DIVISOR[acc.componentType];
+  // 부호 있는 정수의 최솟값(-128 등)은 -1보다 조금 작아지므로 -1로 자른다
+  for (let i = 0; i < out.length; i++) out[i] = Math.max(acc.data[i] / divisor, -1);
+  return out;
+}
+
+const NORMALIZE_DIVISOR: Record<number, number> = { 5120: 127, 5121: 255, 5122: 32767, 5123: 65535 };
+
+function bufferViewBytes(ctx: Context, index: number, path: string): { bytes: Uint8Array } {
+  const views = ctx.doc.bufferViews ?? [];
+  checkIndex(index, views.length, path);
+  const view = views[index];
+  const viewPath = `bufferViews[${index}]`;
+  checkIndex(view.buffer, ctx.buffers.length, `${viewPath}.buffer`);
+  const buffer = ctx.buffers[view.buffer];
+  const start = view.byteOffset ?? 0;
+  if (start + view.byteLength > buffer.byteLength) {
+    throw new GltfParseError(`범위 ${start}…${start + view.byteLength}가 버퍼 크기 ${buffer.byteLength}를 넘습니다`, viewPath);
+  }
+  if (view.byteStride !== undefined && (view.byteStride < 4 || view.byteStride > 252 || view.byteStride % 4 !== 0)) {
+    throw new GltfParseError(`byteStride ${view.byteStride}는 4…252 사이의 4의 배수여야 합니다`, `${viewPath}.byteStride`);
+  }
+  return { bytes: buffer.subarray(start, start + view.byteLength) };
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+const GL_LINEAR = 0x2601;
+const GL_LINEAR_MIPMAP_LINEAR = 0x2703;
+const GL_REPEAT = 0x2901;
+
+function checkIndex(index: number, length: number, path: string): number {
+  if (!Number.isInteger(index) || index < 0 || index >= length) {
+    throw new GltfParseError(`인덱스 ${index}가 범위를 벗어납니다 (항목 ${length}개)`, path);
+  }
+  return index;
+}
+
+function decodeDataUri(uri: string, path: string): Uint8Array {
+  const comma = uri.indexOf(",");
+  if (comma < 0) throw new GltfParseError("잘못된 data URI", path);
+  const header = uri.slice(5, comma);
+  const body = uri.slice(comma + 1);
+  if (header.endsWith(";base64")) {
+    try {
+      return Uint8Array.from(atob(body), (c) => c.charCodeAt(0));
+    } catch {
+      throw new GltfParseError("data URI의 base64가 올바르지 않습니다", path);
+    }
+  }
+  return new TextEncoder().encode(decodeURIComponent(body));
+}
+
+function dataUriMime(uri: string | undefined): string | null {
+  if (!uri?.startsWith("data:")) return null;
+  const mime = uri.slice(5, uri.indexOf(",")).split(";")[0];
+  return mime || null;
+}
+
+function sniffMime(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return "image/png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return "image/jpeg";
+  return null;
+}
+
+function readU32(bytes: Uint8Array, offset: number): number {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset, true);
+}
+
+function align4(n: number): number {
+  return (n + 3) & ~3;
+}
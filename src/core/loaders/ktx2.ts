@@ -0,0 +1,147 @@
+import { CompressedTextureError, compressedLevelByteLength } from "./compressedTexture";
+import type { CompressedLevel, CompressedTexture, CompressedTextureFormat } from "./compressedTexture";
+
+/**
+ * KTX 2.0 컨테이너 파서. DOM/GL에 의존하지 않는다.
+ *
+ * 지원 범위:
+ *   - 2D 텍스처 하나 (layer / face / depth 없음), level index의 모든 mip level
+ *   - vkFormat이 블록 압축 포맷 (BC1/2/3/7, ETC2, ASTC 4x4 … 8x8, UNORM)이고 supercompression이 없는 파일
+ *   - key/value 데이터 (UTF-8 문자열 값)
+ *
+ * Basis Universal (vkFormat UNDEFINED + BasisLZ, 또는 UASTC), Zstandard / zlib supercompression,
+ * sRGB · 비압축 vkFormat은 CompressedTextureError로 거부한다. DFD는 범위만 확인하고 해석하지 않는다.
+ */
+
+const KTX2_IDENTIFIER = [0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]; // «KTX 20»\r\n\x1A\n
+const HEADER_BYTES = 80;
+const LEVEL_ENTRY_BYTES = 24;
+
+/** VkFormat 값 → 포맷. 스펙 표의 *_UNORM_BLOCK만 싣는다 */
+const VK_FORMATS = new Map<number, CompressedTextureFormat>([
+  [131, "BC1_RGB"],
+  [133, "BC1_RGBA"],
+  [135, "BC2"],
+  [137, "BC3"],
+  [145, "BC7"],
+  [147, "ETC2_RGB8"],
+  [151, "ETC2_RGBA8"],
+  [157, "ASTC_4x4"],
+  [161, "ASTC_5x5"],
+  [165, "ASTC_6x6"],
+  [171, "ASTC_8x8"],
+]);
+
+const SUPERCOMPRESSION_NAMES = ["none", "BasisLZ", "Zstandard", "ZLIB"];
+
+export function isKTX2(bytes: Uint8Array): boolean {
+  return bytes.byteLength >= KTX2_IDENTIFIER.length && KTX2_IDENTIFIER.every((b, i) => bytes[i] === b);
+}
+
+export function parseKTX2(bytes: Uint8Array): CompressedTexture {
+  if (!isKTX2(bytes)) throw new CompressedTextureError("KTX2", "파일 식별자가 «KTX 20»이 아닙니다");
+  if (bytes.byteLength < HEADER_BYTES) throw new CompressedTextureError("KTX2", `헤더(${HEADER_BYTES}바이트)보다 파일이 짧습니다`);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const u32 = (offset: number): number => view.getUint32(offset, true);
+
+  const vkFormat = u32(12);
+  const width = u32(20);
+  const height = u32(24);
+  const depth = u32(28);
+  const layerCount = u32(32);
+  const faceCount = u32(36);
+  const levelCount = Math.max(1, u32(40));
+  const supercompression = u32(44);
+
+  if (supercompression !== 0) {
+    const name = SUPERCOMPRESSION_NAMES[supercompression] ?? `scheme ${supercompression}`;
+    const hint = supercompression === 1 ? " — Basis Universal 트랜스코더가 필요합니다" : "";
+    throw new CompressedTextureError("KTX2", `supercompression ${name}은 지원하지 않습니다${hint}`);
+  }
+  if (vkFormat === 0) {
+    throw new CompressedTextureError("KTX2", "vkFormat이 UNDEFINED입니다 (UASTC 등 Basis Universal 파일은 지원하지 않습니다)");
+  }
+  const format = VK_FORMATS.get(vkFormat);
+  if (!format) {
+    throw new CompressedTextureError("KTX2", `지원하지 않는 vkFormat ${vkFormat} (BC1/2/3/7 · ETC2 · ASTC의 UNORM 블록 포맷만 읽습니다)`);
+  }
+  if (width === 0 || height === 0) throw new CompressedTextureError("KTX2", `크기가 0입니다 (${width}×${height})`);
+  if (depth > 0) throw new CompressedTextureError("KTX2", "3D 텍스처는 지원하지 않습니다");
+  if (layerCount > 1) throw new CompressedTextureError("KTX2", `배열 텍스처(layer ${layerCount}개)는 지원하지 않습니다`);
+  if (faceCount !== 1) throw new CompressedTextureError("KTX2", `큐브맵(face ${faceCount}개)은 지원하지 않습니다`);
+
+  const section = (name: string, offset: number, length: number): void => {
+    if (length > 0 && offset + length > bytes.byteLength) {
+      throw new CompressedTextureError("KTX2", `${name}(${offset} + ${length})가 파일 끝을 넘습니다`);
+    }
+  };
+  section("DFD", u32(48), u32(52));
+  const kvdOffset = u32(56);
+  const kvdLength = u32(60);
+  section("key/value 데이터", kvdOffset, kvdLength);
+  section("level index", HEADER_BYTES, levelCount * LEVEL_ENTRY_BYTES);
+
+  const levels: CompressedLevel[] = [];
+  for (let i = 0; i < levelCount; i++) {
+    const entry = HEADER_BYTES + i * LEVEL_ENTRY_BYTES;
+    const offset = readU64(view, entry, i);
+    const length = readU64(view, entry + 8, i);
+    const w = Math.max(1, width >> i);
+    const h = Math.max(1, height >> i);
+    const expected = compressedLevelByteLength(format, w, h);
+    if (length !== expected) {
+      throw new CompressedTextureError("KTX2", `level ${i} (${w}×${h})는 ${expected}바이트여야 하는데 ${length}바이트입니다`);
+    }
+    if (offset + length > bytes.byteLength) {
+      throw new CompressedTextureError("KTX2", `level ${i} 데이터(${offset} + ${length})가 파일 끝을 넘습니다`);
+    }
+    levels.push({ width: w, height: h, data: bytes.subarray(offset, offset + length) });
+  }
+
+  return {
+    container: "KTX2",
+    format,
+    width,
+    height,
+    levels,
+    metadata: parseKeyValues(bytes.subarray(kvdOffset, kvdOffset + kvdLength)),
+  };
+}
+
+/** uint64 필드. 2^53을 넘는 값은 어차피 파일 안을 가리킬 수 없으므로 오류로 본다. */
+function readU64(view: DataView, offset: number, level: number): number {
+  const low = view.getUint32(offset, true);
+  const high = view.getUint32(offset + 4, true);
+  if (high > 0x1fffff) throw new CompressedTextureError("KTX2", `level ${level}의 오프셋 / 길이가 너무 큽니다`);
+  return high * 0x100000000 + low;
+}
+
+/**
+ * key/value 데이터: (uint32 길이, key\0value, 4바이트 정렬 패딩)의 반복.
+ * 값 끝의 NUL은 떼고 UTF-8로 읽는다. 이진 값도 문자열로 들어가지만 이 랩에서는 쓰지 않는다.
+ */
+function parseKeyValues(data: Uint8Array): Map<string, string> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+  const result = new Map<string, string>();
+  let offset = 0;
+  while (offset + 4 <= data.byteLength) {
+    const length = view.getUint32(offset, true);
+    const start = offset + 4;
+    if (start + length > data.byteLength) {
+      throw new CompressedTextureError("KTX2", "key/value 항목이 영역 끝을 넘습니다");
+    }
+    const pair = data.subarray(start, start + length);
+    const nul = pair.indexOf(0);
+    if (nul < 0) throw new CompressedTextureError("KTX2", "key/value 항목에 key를 끝내는 NUL이 없습니다");
+    let value = pair.subarray(nul + 1);
+    if (value.byteLength > 0 && value[value.byteLength - 1] === 0) value = value.subarray(0, value.byteLength - 1);
+    result.set(decoder.decode(pair.subarray(0, nul)), decoder.decode(value));
+    offset = start + align4(length);
+  }
+  return result;
+}
+
+function align4(n: number): number {
+  return (n + 3) & ~3;
+}
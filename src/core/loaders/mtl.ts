@@ -0,0 +1,93 @@
+import { ObjParseError, parseNumber, statements } from "./obj";
+
+/**
+ * Wavefront MTL 파서 (기본 부분만). 지원: newmtl, Kd, map_Kd.
+ * 나머지(Ka, Ks, Ns, illum, 다른 map_* 등)는 무시한다.
+ */
+
+export interface ObjMaterial {
+  name: string;
+  /** Kd (linear가 아니라 파일에 적힌 값 그대로). 기본 [0.8, 0.8, 0.8] */
+  diffuse: [number, number, number];
+  /** map_Kd 파일 이름 (MTL 파일 기준 상대 경로). 없으면 null */
+  diffuseMap: string | null;
+}
+
+/** usemtl이 없거나, MTL을 읽지 못했거나, MTL에 없는 이름을 가리키는 part에 쓰는 재질. newmtl의 기본값과 같다 */
+export const DEFAULT_OBJ_MATERIAL: Readonly<ObjMaterial> = { name: "default", diffuse: [0.8, 0.8, 0.8], diffuseMap: null };
+
+export interface MtlParseOptions {
+  /** 오류 메시지에 쓸 파일 이름. 기본 "model.mtl" */
+  file?: string;
+}
+
+/** map_* 옵션 중 뒤따르는 인자를 받는 것들. -o/-s/-t는 숫자 1~3개 */
+const MAP_OPTION_ARGS: Record<string, number> = {
+  "-blendu": 1,
+  "-blendv": 1,
+  "-bm": 1,
+  "-boost": 1,
+  "-cc": 1,
+  "-clamp": 1,
+  "-imfchan": 1,
+  "-mm": 2,
+  "-texres": 1,
+  "-o": 3,
+  "-s": 3,
+  "-t": 3,
+};
+
+export function parseMTL(text: string, options: MtlParseOptions = {}): Map<string, ObjMaterial> {
+  const file = options.file ?? "model.mtl";
+  const materials = new Map<string, ObjMaterial>();
+  let current: ObjMaterial | null = null;
+
+  for (const { line, tokens } of statements(text)) {
+    const keyword = tokens[0];
+    const args = tokens.slice(1);
+
+    if (keyword === "newmtl") {
+      if (args.length === 0) throw new ObjParseError("newmtl에 재질 이름이 없습니다", file, line);
+      current = { name: args.join(" "), diffuse: [0.8, 0.8, 0.8], diffuseMap: null };
+      materials.set(current.name, current);
+      continue;
+    }
+
+    if (keyword !== "Kd" && keyword !== "map_Kd") continue;
+    if (!current) throw new ObjParseError(`${keyword}가 newmtl보다 먼저 나왔습니다`, file, line);
+
+    if (keyword === "Kd") {
+      if (args[0] === "spectral" || args[0] === "xyz") {
+        throw new ObjParseError(`Kd ${args[0]}는 지원하지 않습니다`, file, line);
+      }
+      // g, b가 없으면 r과 같다 (사양)
+      const r = parseNumber(args[0], undefined, file, line);
+      current.diffuse = [r, parseNumber(args[1], r, file, line), parseNumber(args[2], r, file, line)];
+    } else {
+      current.diffuseMap = mapFileName(args, file, line);
+    }
+  }
+
+  return materials;
+}
+
+/** map_Kd [-옵션 인자...] 파일 이름 에서 파일 이름만 꺼낸다. 이름에 공백이 있을 수 있다. */
+function mapFileName(args: string[], file: string, line: number): string {
+  let i = 0;
+  while (i < args.length && args[i] in MAP_OPTION_ARGS) {
+    const max = MAP_OPTION_ARGS[args[i]];
+    i++;
+    // -o/-s/-t처럼 인자 개수가 가변인 옵션은 숫자가 이어지는 동안만 읽는다
+    for (let k = 0; k < max && i < args.length - 1; k++) {
+      if (k > 0 && !Number.isFinite(Number(args[i]))) break;
+      i++;
+    }
+  }
+  if (i >= args.length) throw new ObjParseError("map_Kd에 파일 이름이 없습니다", file, line);
+  return args.slice(i).join(" ");
+}
+
+/** part의 usemtl 이름에 해당하는 재질. 찾지 못하면 DEFAULT_OBJ_MATERIAL — MTL 문제로 모델을 못 그리는 일은 없다. */
+export function resolveObjMaterial(name: string | null, materials: ReadonlyMap<string, ObjMaterial>): Readonly<ObjMaterial> {
+  return (name !== null && materials.get(name)) || DEFAULT_OBJ_MATERIAL;
+}
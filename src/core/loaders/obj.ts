@@ -0,0 +1,345 @@
+import { computeNormals, createMesh } from "../mesh/mesh";
+import type { Mesh, MeshBounds, MeshOptions } from "../mesh/mesh";
+
+/**
+ * Wavefront OBJ 파서. DOM/GL에 의존하지 않는다.
+ *
+ * 지원: v, vt, vn, f (n-gon, v / v/vt / v//vn / v/vt/vn, 음수 상대 인덱스), o, g, usemtl, mtllib.
+ * 그 밖의 문장(s, l, p, 곡면 등)은 무시한다.
+ *
+ * OBJ는 위치/uv/법선 인덱스를 따로 갖지만 GPU는 정점 하나에 인덱스 하나만 쓰므로,
+ * (v, vt, vn) 조합마다 정점을 하나씩 만들어 drawElements용 Mesh로 바꾼다.
+ * o / g / usemtl이 바뀔 때마다 새 part를 시작하므로 part 하나는 재질 하나로 그릴 수 있다.
+ */
+
+export class ObjParseError extends Error {
+  readonly file: string;
+  readonly line: number;
+
+  constructor(message: string, file: string, line: number) {
+    super(`${file}:${line}: ${message}`);
+    this.name = "ObjParseError";
+    this.file = file;
+    this.line = line;
+  }
+}
+
+export interface ObjPart {
+  /** "object/group" (없는 쪽은 생략). 둘 다 없으면 "default" */
+  name: string;
+  object: string;
+  group: string;
+  /** usemtl 이름. 지정되지 않았으면 null */
+  material: string | null;
+  mesh: Mesh;
+}
+
+export interface ObjModel {
+  parts: ObjPart[];
+  /** mtllib로 참조한 파일 이름 (OBJ 파일 기준 상대 경로) */
+  materialLibraries: string[];
+  /** 모든 part를 합친 bounds. part가 없으면 원점 */
+  bounds: MeshBounds;
+  vertexCount: number;
+  triangleCount: number;
+}
+
+export interface ObjParseOptions extends MeshOptions {
+  /** 오류 메시지에 쓸 파일 이름. 기본 "model.obj" */
+  file?: string;
+}
+
+interface PartBuilder {
+  object: string;
+  group: string;
+  material: string | null;
+  positions: number[];
+  normals: number[];
+  uvs: number[];
+  /** 정점별로 vn이 있었는지. 없으면 면 법선으로 채운다 */
+  hasNormal: boolean[];
+  indices: number[];
+  lookup: Map<string, number>;
+}
+
+export function parseOBJ(text: string, options: ObjParseOptions = {}): ObjModel {
+  const file = options.file ?? "model.obj";
+  const positions: number[] = [];
+  const texcoords: number[] = [];
+  const normals: number[] = [];
+  const materialLibraries: string[] = [];
+
+  const builders: PartBuilder[] = [];
+  let object = "";
+  let group = "";
+  let material: string | null = null;
+  let current: PartBuilder | null = null;
+
+  // o / g / usemtl 뒤 첫 면에서 part를 만든다 (면 없는 part가 생기지 않도록)
+  const part = (): PartBuilder => {
+    if (!current) {
+      current = {
+        object,
+        group,
+        material,
+        positions: [],
+        normals: [],
+        uvs: [],
+        hasNormal: [],
+        indices: [],
+        lookup: new Map(),
+      };
+      builders.push(current);
+    }
+    return current;
+  };
+
+  for (const { line, tokens } of statements(text)) {
+    const keyword = tokens[0];
+    const args = tokens.slice(1);
+    const num = (i: number, fallback?: number): number => parseNumber(args[i], fallback, file, line);
+
+    switch (keyword) {
+      case "v":
+        if (args.length < 3) throw new ObjParseError("v에는 좌표 3개가 필요합니다", file, line);
+        positions.push(num(0), num(1), num(2));
+        break;
+
+      case "vt":
+        if (args.length < 1) throw new ObjParseError("vt에는 좌표가 1개 이상 필요합니다", file, line);
+        texcoords.push(num(0), num(1, 0));
+        break;
+
+      case "vn":
+        if (args.length < 3) throw new ObjParseError("vn에는 좌표 3개가 필요합니다", file, line);
+        normals.push(num(0), num(1), num(2));
+        break;
+
+      case "f": {
+        if (args.length < 3) throw new ObjParseError(`면에는 정점이 3개 이상 필요합니다 (${args.length}개)`, file, line);
+        const b = part();
+        const corners = args.map((token) => {
+          const [v, vt, vn] = token.split("/");
+          return {
+            v: resolveIndex(v, positions.length / 3, "v", file, line),
+            vt: vt ? resolveIndex(vt, texcoords.length / 2, "vt", file, line) : -1,
+            vn: vn ? resolveIndex(vn, normals.length / 3, "vn", file, line) : -1,
+          };
+        });
+
+        const local = corners.map(({ v, vt, vn }) => {
+          const key = `${v}/${vt}/${vn}`;
+          let index = b.lookup.get(key);
+          if (index === undefined) {
+            index = b.positions.length / 3;
+            b.positions.push(positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]);
+            if (vt >= 0) b.uvs.push(texcoords[vt * 2], texcoords[vt * 2 + 1]);
+            else b.uvs.push(0, 0);
+            if (vn >= 0) {
+              // 내보내는 도구에 따라 vn이 단위 길이가 아닐 수 있다
+              const nx = normals[vn * 3];
+              const ny = normals[vn * 3 + 1];
+              const nz = normals[vn * 3 + 2];
+              const len = Math.hypot(nx, ny, nz) || 1;
+              b.normals.push(nx / len, ny / len, nz / len);
+            } else {
+              b.normals.push(0, 0, 0);
+            }
+            b.hasNormal.push(vn >= 0);
+            b.lookup.set(key, index);
+          }
+          return index;
+        });
+
+        const polygon = corners.map(({ v }) => [positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]]);
+        for (const i of triangulate(polygon)) b.indices.push(local[i]);
+        break;
+      }
+
+      case "o":
+        object = args.join(" ");
+        current = null;
+        break;
+
+      case "g":
+        group = args.join(" ");
+        current = null;
+        break;
+
+      case "usemtl":
+        if (args.length === 0) throw new ObjParseError("usemtl에 재질 이름이 없습니다", file, line);
+        material = args.join(" ");
+        current = null;
+        break;
+
+      case "mtllib":
+        materialLibraries.push(...args);
+        break;
+
+      default:
+        // s, l, p, 곡면 문장 등은 무시한다
+        break;
+    }
+  }
+
+  const parts = builders.map((b) => toPart(b, options));
+  return {
+    parts,
+    materialLibraries,
+    bounds: unionBounds(parts.map((p) => p.mesh.bounds)),
+    vertexCount: parts.reduce((n, p) => n + p.mesh.vertexCount, 0),
+    triangleCount: parts.reduce((n, p) => n + p.mesh.indexCount / 3, 0),
+  };
+}
+
+// ── Tokenizing ───────────────────────────────────────────────
+
+interface Statement {
+  /** 1부터 시작. 줄 잇기(\)로 이어진 문장은 첫 줄 번호 */
+  line: number;
+  tokens: string[];
+}
+
+/** 주석과 빈 줄을 건너뛰고, 줄 끝 \로 이어진 줄을 합쳐 문장 단위로 나눈다. OBJ와 MTL이 같이 쓴다. */
+export function* statements(text: string): Generator<Statement> {
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const start = i;
+    let content = lines[i];
+    while (content.endsWith("\\") && i + 1 < lines.length) {
+      content = content.slice(0, -1) + " " + lines[++i];
+    }
+
+    const hash = content.indexOf("#");
+    if (hash >= 0) content = content.slice(0, hash);
+    const tokens = content.trim().split(/\s+/);
+    if (tokens[0] === "") continue;
+    yield { line: start + 1, tokens };
+  }
+}
+
+/** 숫자 토큰을 읽는다. 토큰이 없으면 fallback, fallback도 없으면 오류. MTL 파서도 쓴다. */
+export function parseNumber(token: string | undefined, fallback: number | undefined, file: string, line: number): number {
+  if (token === undefined) {
+    if (fallback !== undefined) return fallback;
+    throw new ObjParseError("숫자가 부족합니다", file, line);
+  }
+  const value = Number(token);
+  if (!Number.isFinite(value)) throw new ObjParseError(`숫자가 아닙니다: "${token}"`, file, line);
+  return value;
+}
+
+/** 1부터 시작하는 OBJ 인덱스(음수면 끝에서부터)를 0부터 시작하는 인덱스로 바꾼다. */
+function resolveIndex(token: string, count: number, kind: string, file: string, line: number): number {
+  const raw = Number(token);
+  if (!Number.isInteger(raw) || raw === 0) {
+    throw new ObjParseError(`잘못된 ${kind} 인덱스: "${token}"`, file, line);
+  }
+  const index = raw > 0 ? raw - 1 : count + raw;
+  if (index < 0 || index >= count) {
+    throw new ObjParseError(`범위를 벗어난 ${kind} 인덱스 ${raw} (정의된 ${kind} ${count}개)`, file, line);
+  }
+  return index;
+}
+
+// ── Triangulation ────────────────────────────────────────────
+
+/**
+ * 평면 다각형을 ear clipping으로 삼각형 분할한다. 오목한 n-gon도 처리하며 원래 감김 방향을 유지한다.
+ * 다각형 법선(Newell)의 가장 큰 성분 축을 버려 2D로 투영한 뒤 자른다.
+ * 퇴화했거나 자기 교차해서 귀를 찾지 못하면 남은 정점을 부채꼴로 나눈다.
+ */
+function triangulate(polygon: number[][]): number[] {
+  const n = polygon.length;
+  if (n === 3) return [0, 1, 2];
+
+  const normal = [0, 0, 0];
+  for (let i = 0; i < n; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % n];
+    normal[0] += (a[1] - b[1]) * (a[2] + b[2]);
+    normal[1] += (a[2] - b[2]) * (a[0] + b[0]);
+    normal[2] += (a[0] - b[0]) * (a[1] + b[1]);
+  }
+
+  const abs = normal.map(Math.abs);
+  const drop = abs[0] > abs[1] ? (abs[0] > abs[2] ? 0 : 2) : abs[1] > abs[2] ? 1 : 2;
+  if (abs[drop] < 1e-12) return fan(Array.from({ length: n }, (_, i) => i));
+
+  // 버린 축 기준 오른손 좌표계가 되도록 (x, y) 축을 고른다. sign으로 다각형의 감김을 맞춘다
+  const ax = (drop + 1) % 3;
+  const ay = (drop + 2) % 3;
+  const sign = normal[drop] > 0 ? 1 : -1;
+  const pts = polygon.map((p) => [p[ax], p[ay]]);
+  const cross = (o: number[], a: number[], b: number[]): number =>
+    ((a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0])) * sign;
+
+  const remaining = Array.from({ length: n }, (_, i) => i);
+  const out: number[] = [];
+
+  while (remaining.length > 3) {
+    let clipped = false;
+    for (let i = 0; i < remaining.length; i++) {
+      const prev = remaining[(i + remaining.length - 1) % remaining.length];
+      const cur = remaining[i];
+      const next = remaining[(i + 1) % remaining.length];
+      const a = pts[prev];
+      const b = pts[cur];
+      const c = pts[next];
+      if (cross(a, b, c) <= 1e-12) continue; // 오목한 꼭짓점
+
+      const blocked = remaining.some((j) => {
+        if (j === prev || j === cur || j === next) return false;
+        const p = pts[j];
+        return cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+      });
+      if (blocked) continue;
+
+      out.push(prev, cur, next);
+      remaining.splice(i, 1);
+      clipped = true;
+      break;
+    }
+    if (!clipped) break;
+  }
+
+  return out.concat(fan(remaining));
+}
+
+function fan(indices: number[]): number[] {
+  const out: number[] = [];
+  for (let i = 1; i + 1 < indices.length; i++) out.push(indices[0], indices[i], indices[i + 1]);
+  return out;
+}
+
+// ── Output ───────────────────────────────────────────────────
+
+function toPart(b: PartBuilder, options: MeshOptions): ObjPart {
+  // vn이 없는 정점은 같은 (v, vt) 정점을 공유하는 면들의 평균 법선으로 채운다
+  let normals = b.normals;
+  if (b.hasNormal.includes(false)) {
+    const computed = computeNormals(Float32Array.from(b.positions), b.indices);
+    normals = b.normals.map((n, i) => (b.hasNormal[Math.floor(i / 3)] ? n : computed[i]));
+  }
+
+  return {
+    name: [b.object, b.group].filter(Boolean).join("/") || "default",
+    object: b.object,
+    group: b.group,
+    material: b.material,
+    mesh: createMesh({ positions: b.positions, normals, uvs: b.uvs, indices: b.indices }, options),
+  };
+}
+
+function unionBounds(list: MeshBounds[]): MeshBounds {
+  if (list.length === 0) return { min: new Float32Array(3), max: new Float32Array(3) };
+  const min = Float32Array.from(list[0].min);
+  const max = Float32Array.from(list[0].max);
+  for (const b of list) {
+    for (let k = 0; k < 3; k++) {
+      min[k] = Math.min(min[k], b.min[k]);
+      max[k] = Math.max(max[k], b.max[k]);
+    }
+  }
+  return { min, max };
+}
@@ -0,0 +1,69 @@
+/**
+ * glTF 2.0 metallic-roughness 재질. glTF 로더가 그대로 이 형태로 돌려주고,
+ * 랩에서 직접 만드는 재질도 같은 타입을 써서 가져온 모델과 같은 셰이더 경로로 그린다.
+ *
+ * 텍스처 참조의 index는 재질을 만든 쪽이 가진 텍스처 목록의 인덱스다
+ * (glTF면 GltfAsset.textures, 랩이면 랩의 텍스처 배열).
+ *
+ * 색 공간 (glTF 사양):
+ *   - baseColorFactor, emissiveFactor는 linear
+ *   - baseColorTexture, emissiveTexture는 sRGB로 인코딩된 이미지 → 셰이더에서 linear로 바꿔 쓴다
+ *   - metallicRoughness(G=roughness, B=metallic), normal, occlusion(R)은 linear 데이터
+ */
+
+export interface TextureRef {
+  index: number;
+  /** 사용할 TEXCOORD_n. 지금은 0만 그린다 */
+  texCoord: number;
+}
+
+export interface NormalTextureRef extends TextureRef {
+  /** 접선 공간 법선의 XY에 곱하는 값 */
+  scale: number;
+}
+
+export interface OcclusionTextureRef extends TextureRef {
+  /** 0이면 차폐 없음, 1이면 텍스처 값 그대로 */
+  strength: number;
+}
+
+export type AlphaMode = "OPAQUE" | "MASK" | "BLEND";
+
+export interface PbrMaterial {
+  name: string;
+  /** linear RGBA */
+  baseColorFactor: [number, number, number, number];
+  baseColorTexture: TextureRef | null;
+  metallicFactor: number;
+  roughnessFactor: number;
+  metallicRoughnessTexture: TextureRef | null;
+  normalTexture: NormalTextureRef | null;
+  occlusionTexture: OcclusionTextureRef | null;
+  /** linear RGB */
+  emissiveFactor: [number, number, number];
+  emissiveTexture: TextureRef | null;
+  alphaMode: AlphaMode;
+  /** alphaMode가 MASK일 때 이 값보다 작은 alpha는 버린다 */
+  alphaCutoff: number;
+  doubleSided: boolean;
+}
+
+/** glTF 기본값으로 채운 재질. overrides의 필드가 우선한다. */
+export function createPbrMaterial(overrides: Partial<PbrMaterial> = {}): PbrMaterial {
+  return {
+    name: "material",
+    baseColorFactor: [1, 1, 1, 1],
+    baseColorTexture: null,
+    metallicFactor: 1,
+    roughnessFactor: 1,
+    metallicRoughnessTexture: null,
+    normalTexture: null,
+    occlusionTexture: null,
+    emissiveFactor: [0, 0, 0],
+    emissiveTexture: null,
+    alphaMode: "OPAQUE",
+    alphaCutoff: 0.5,
+    doubleSided: false,
+    ...overrides,
+  };
+}
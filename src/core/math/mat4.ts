@@ -7,75 +7,245 @@
  *   [ m1  m5  m9   m13 ]
  *   [ m2  m6  m10  m14 ]
  *   [ m3  m7  m11  m15 ]
+ *
+ * Every operation comes in two forms:
+ *   - `fooInto(out, ...)` writes into `out` and returns it (no allocation).
+ *     `out` may alias any input matrix.
+ *   - `foo(...)` allocates a new matrix. Convenient, but avoid it in per-frame code.
+ *
+ * This module has no imports so it can run directly in Node (scripts/bench-mat4.ts).
  */
 
 export type Mat4 = Float32Array;
 
+/** 3×3 matrix, column-major Float32Array(9). Used for normal matrices. */
+export type Mat3 = Float32Array;
+
+/** Below this, a direction length is treated as zero. */
+const EPSILON = 1e-8;
+
+/**
+ * A matrix is singular when |det| ≤ SINGULAR_EPSILON · s^n, s being its largest absolute entry
+ * (n = 4 for invert, 3 for normalMatrix). det scales with the n-th power of the matrix scale, so the
+ * ratio keeps uniformly small matrices such as scaling(0.001) (ratio 1e-9) invertible while rejecting
+ * nearly collinear axes or one axis squashed far below the others.
+ */
+const SINGULAR_EPSILON = 1e-12;
+
+function create(): Mat4 {
+  return new Float32Array(16);
+}
+
+// ── Identity / multiply ─────────────────────────────────────
+
+export function identityInto(out: Mat4): Mat4 {
+  out.fill(0);
+  out[0] = 1;
+  out[5] = 1;
+  out[10] = 1;
+  out[15] = 1;
+  return out;
+}
+
 /** Create a new identity matrix. */
 export function identity(): Mat4 {
-  const m = new Float32Array(16);
-  m[0] = 1;
-  m[5] = 1;
-  m[10] = 1;
-  m[15] = 1;
-  return m;
+  return identityInto(create());
 }
 
-/** Multiply two 4×4 matrices: out = a * b */
-export function multiply(a: Mat4, b: Mat4): Mat4 {
-  const out = new Float32Array(16);
+/** out = a * b */
+export function multiplyInto(out: Mat4, a: Mat4, b: Mat4): Mat4 {
+  const a00 = a[0], a01 = a[1], a02 = a[2], a03 = a[3];
+  const a10 = a[4], a11 = a[5], a12 = a[6], a13 = a[7];
+  const a20 = a[8], a21 = a[9], a22 = a[10], a23 = a[11];
+  const a30 = a[12], a31 = a[13], a32 = a[14], a33 = a[15];
+
+  // b의 열 하나를 읽은 뒤에 out의 같은 열을 쓰므로 out === b여도 안전하다
   for (let col = 0; col < 4; col++) {
-    for (let row = 0; row < 4; row++) {
-      out[col * 4 + row] =
-        a[row]      * b[col * 4]     +
-        a[4 + row]  * b[col * 4 + 1] +
-        a[8 + row]  * b[col * 4 + 2] +
-        a[12 + row] * b[col * 4 + 3];
-    }
+    const i = col * 4;
+    const b0 = b[i], b1 = b[i + 1], b2 = b[i + 2], b3 = b[i + 3];
+    out[i] = a00 * b0 + a10 * b1 + a20 * b2 + a30 * b3;
+    out[i + 1] = a01 * b0 + a11 * b1 + a21 * b2 + a31 * b3;
+    out[i + 2] = a02 * b0 + a12 * b1 + a22 * b2 + a32 * b3;
+    out[i + 3] = a03 * b0 + a13 * b1 + a23 * b2 + a33 * b3;
   }
   return out;
 }
 
+/** Multiply two 4×4 matrices: out = a * b */
+export function multiply(a: Mat4, b: Mat4): Mat4 {
+  return multiplyInto(create(), a, b);
+}
+
+export function copyInto(out: Mat4, m: Mat4): Mat4 {
+  out.set(m);
+  return out;
+}
+
+// ── Basic transforms ────────────────────────────────────────
+
+export function translationInto(out: Mat4, tx: number, ty: number, tz: number = 0): Mat4 {
+  identityInto(out);
+  out[12] = tx;
+  out[13] = ty;
+  out[14] = tz;
+  return out;
+}
+
 /** Create a translation matrix. */
 export function translation(tx: number, ty: number, tz: number = 0): Mat4 {
-  const m = identity();
-  m[12] = tx;
-  m[13] = ty;
-  m[14] = tz;
-  return m;
+  return translationInto(create(), tx, ty, tz);
 }
 
-/** Create a rotation matrix around the Z axis (angle in radians). */
-export function rotationZ(rad: number): Mat4 {
+export function rotationZInto(out: Mat4, rad: number): Mat4 {
   const c = Math.cos(rad);
   const s = Math.sin(rad);
-  const m = identity();
-  m[0] = c;
-  m[1] = s;
-  m[4] = -s;
-  m[5] = c;
-  return m;
+  identityInto(out);
+  out[0] = c;
+  out[1] = s;
+  out[4] = -s;
+  out[5] = c;
+  return out;
+}
+
+/** Create a rotation matrix around the Z axis (angle in radians). */
+export function rotationZ(rad: number): Mat4 {
+  return rotationZInto(create(), rad);
+}
+
+export function scalingInto(out: Mat4, sx: number, sy: number, sz: number = 1): Mat4 {
+  identityInto(out);
+  out[0] = sx;
+  out[5] = sy;
+  out[10] = sz;
+  return out;
 }
 
 /** Create a uniform or non-uniform scale matrix. */
 export function scaling(sx: number, sy: number, sz: number = 1): Mat4 {
-  const m = identity();
-  m[0] = sx;
-  m[5] = sy;
-  m[10] = sz;
-  return m;
+  return scalingInto(create(), sx, sy, sz);
+}
+
+export function rotationYInto(out: Mat4, rad: number): Mat4 {
+  const c = Math.cos(rad);
+  const s = Math.sin(rad);
+  identityInto(out);
+  out[0] = c;
+  out[2] = -s;
+  out[8] = s;
+  out[10] = c;
+  return out;
 }
 
 /** Create a rotation matrix around the Y axis (angle in radians). */
 export function rotationY(rad: number): Mat4 {
+  return rotationYInto(create(), rad);
+}
+
+export function rotationXInto(out: Mat4, rad: number): Mat4 {
   const c = Math.cos(rad);
   const s = Math.sin(rad);
-  const m = identity();
-  m[0] = c;
-  m[2] = -s;
-  m[8] = s;
-  m[10] = c;
-  return m;
+  identityInto(out);
+  out[5] = c;
+  out[6] = s;
+  out[9] = -s;
+  out[10] = c;
+  return out;
+}
+
+/** Create a rotation matrix around the X axis (angle in radians). */
+export function rotationX(rad: number): Mat4 {
+  return rotationXInto(create(), rad);
+}
+
+export function rotationAxisInto(out: Mat4, axis: ArrayLike<number>, rad: number): Mat4 {
+  let x = axis[0];
+  let y = axis[1];
+  let z = axis[2];
+  const len = Math.hypot(x, y, z);
+  if (len < EPSILON) return identityInto(out);
+  x /= len;
+  y /= len;
+  z /= len;
+
+  const c = Math.cos(rad);
+  const s = Math.sin(rad);
+  const t = 1 - c;
+  identityInto(out);
+
+  out[0] = x * x * t + c;
+  out[1] = y * x * t + z * s;
+  out[2] = z * x * t - y * s;
+  out[4] = x * y * t - z * s;
+  out[5] = y * y * t + c;
+  out[6] = z * y * t + x * s;
+  out[8] = x * z * t + y * s;
+  out[9] = y * z * t - x * s;
+  out[10] = z * z * t + c;
+  return out;
+}
+
+/**
+ * Create a rotation matrix around an arbitrary axis (angle in radians, right-handed).
+ * The axis does not need to be normalized. A zero-length axis yields identity.
+ */
+export function rotationAxis(axis: ArrayLike<number>, rad: number): Mat4 {
+  return rotationAxisInto(create(), axis, rad);
+}
+
+/**
+ * Euler rotation order. "XYZ" means M = Rx * Ry * Rz,
+ * i.e. Z is applied to the vertex first (intrinsic X → Y → Z).
+ */
+export type EulerOrder = "XYZ" | "XZY" | "YXZ" | "YZX" | "ZXY" | "ZYX";
+
+export function fromEulerInto(
+  out: Mat4,
+  x: number,
+  y: number,
+  z: number,
+  order: EulerOrder = "XYZ",
+): Mat4 {
+  const angles: Record<string, number> = { X: x, Y: y, Z: z };
+  const tmp = eulerScratch;
+  axisRotationInto(out, order[0], angles[order[0]]);
+  multiplyInto(out, out, axisRotationInto(tmp, order[1], angles[order[1]]));
+  multiplyInto(out, out, axisRotationInto(tmp, order[2], angles[order[2]]));
+  return out;
+}
+
+/** Compose a rotation matrix from Euler angles (radians) in the given order. */
+export function fromEuler(x: number, y: number, z: number, order: EulerOrder = "XYZ"): Mat4 {
+  return fromEulerInto(create(), x, y, z, order);
+}
+
+const eulerScratch = create();
+
+function axisRotationInto(out: Mat4, axis: string, rad: number): Mat4 {
+  if (axis === "X") return rotationXInto(out, rad);
+  if (axis === "Y") return rotationYInto(out, rad);
+  return rotationZInto(out, rad);
+}
+
+// ── Projections ─────────────────────────────────────────────
+
+export function perspectiveInto(
+  out: Mat4,
+  fovY: number,
+  aspect: number,
+  near: number,
+  far: number,
+): Mat4 {
+  const f = 1 / Math.tan(fovY / 2);
+  const nf = 1 / (near - far);
+
+  out.fill(0);
+  out[0] = f / aspect;
+  out[5] = f;
+  out[10] = (far + near) * nf;
+  out[11] = -1;
+  out[14] = 2 * far * near * nf;
+  // out[15] = 0
+  return out;
 }
 
 /**
@@ -91,17 +261,31 @@ export function perspective(
   near: number,
   far: number,
 ): Mat4 {
-  const m = new Float32Array(16);
-  const f = 1 / Math.tan(fovY / 2);
-  const nf = 1 / (near - far);
+  return perspectiveInto(create(), fovY, aspect, near, far);
+}
+
+export function orthoInto(
+  out: Mat4,
+  left: number,
+  right: number,
+  bottom: number,
+  top: number,
+  near: number = -1,
+  far: number = 1,
+): Mat4 {
+  const rl = right - left;
+  const tb = top - bottom;
+  const fn = far - near;
 
-  m[0] = f / aspect;
-  m[5] = f;
-  m[10] = (far + near) * nf;
-  m[11] = -1;
-  m[14] = 2 * far * near * nf;
-  // m[15] = 0  (already 0)
-  return m;
+  out.fill(0);
+  out[0] = 2 / rl;
+  out[5] = 2 / tb;
+  out[10] = -2 / fn;
+  out[12] = -(right + left) / rl;
+  out[13] = -(top + bottom) / tb;
+  out[14] = -(far + near) / fn;
+  out[15] = 1;
+  return out;
 }
 
 /**
@@ -116,17 +300,419 @@ export function ortho(
   near: number = -1,
   far: number = 1,
 ): Mat4 {
-  const m = new Float32Array(16);
-  const rl = right - left;
-  const tb = top - bottom;
-  const fn = far - near;
+  return orthoInto(create(), left, right, bottom, top, near, far);
+}
+
+export function frustumInto(
+  out: Mat4,
+  left: number,
+  right: number,
+  bottom: number,
+  top: number,
+  near: number,
+  far: number,
+): Mat4 {
+  const rl = 1 / (right - left);
+  const tb = 1 / (top - bottom);
+  const nf = 1 / (near - far);
+
+  out.fill(0);
+  out[0] = 2 * near * rl;
+  out[5] = 2 * near * tb;
+  out[8] = (right + left) * rl;
+  out[9] = (top + bottom) * tb;
+  out[10] = (far + near) * nf;
+  out[11] = -1;
+  out[14] = 2 * far * near * nf;
+  return out;
+}
+
+/**
+ * Create a perspective projection from an arbitrary (possibly off-center) view frustum.
+ * left/right/bottom/top are measured on the near plane.
+ */
+export function frustum(
+  left: number,
+  right: number,
+  bottom: number,
+  top: number,
+  near: number,
+  far: number,
+): Mat4 {
+  return frustumInto(create(), left, right, bottom, top, near, far);
+}
+
+// ── Transpose / determinant / inverse ───────────────────────
+
+export function transposeInto(out: Mat4, m: Mat4): Mat4 {
+  if (out === m) {
+    let t: number;
+    t = m[1]; out[1] = m[4]; out[4] = t;
+    t = m[2]; out[2] = m[8]; out[8] = t;
+    t = m[3]; out[3] = m[12]; out[12] = t;
+    t = m[6]; out[6] = m[9]; out[9] = t;
+    t = m[7]; out[7] = m[13]; out[13] = t;
+    t = m[11]; out[11] = m[14]; out[14] = t;
+    return out;
+  }
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      out[row * 4 + col] = m[col * 4 + row];
+    }
+  }
+  return out;
+}
+
+/** Transpose a 4×4 matrix. */
+export function transpose(m: Mat4): Mat4 {
+  return transposeInto(create(), m);
+}
+
+/** Determinant of a 4×4 matrix. */
+export function determinant(m: Mat4): number {
+  const a00 = m[0], a01 = m[1], a02 = m[2], a03 = m[3];
+  const a10 = m[4], a11 = m[5], a12 = m[6], a13 = m[7];
+  const a20 = m[8], a21 = m[9], a22 = m[10], a23 = m[11];
+  const a30 = m[12], a31 = m[13], a32 = m[14], a33 = m[15];
+
+  const b00 = a00 * a11 - a01 * a10;
+  const b01 = a00 * a12 - a02 * a10;
+  const b02 = a00 * a13 - a03 * a10;
+  const b03 = a01 * a12 - a02 * a11;
+  const b04 = a01 * a13 - a03 * a11;
+  const b05 = a02 * a13 - a03 * a12;
+  const b06 = a20 * a31 - a21 * a30;
+  const b07 = a20 * a32 - a22 * a30;
+  const b08 = a20 * a33 - a23 * a30;
+  const b09 = a21 * a32 - a22 * a31;
+  const b10 = a21 * a33 - a23 * a31;
+  const b11 = a22 * a33 - a23 * a32;
+
+  return b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+}
+
+/**
+ * Invert m into out (cofactor expansion).
+ * Returns null and leaves out untouched if m is singular (see SINGULAR_EPSILON).
+ */
+export function invertInto(out: Mat4, m: Mat4): Mat4 | null {
+  const a00 = m[0], a01 = m[1], a02 = m[2], a03 = m[3];
+  const a10 = m[4], a11 = m[5], a12 = m[6], a13 = m[7];
+  const a20 = m[8], a21 = m[9], a22 = m[10], a23 = m[11];
+  const a30 = m[12], a31 = m[13], a32 = m[14], a33 = m[15];
+
+  const b00 = a00 * a11 - a01 * a10;
+  const b01 = a00 * a12 - a02 * a10;
+  const b02 = a00 * a13 - a03 * a10;
+  const b03 = a01 * a12 - a02 * a11;
+  const b04 = a01 * a13 - a03 * a11;
+  const b05 = a02 * a13 - a03 * a12;
+  const b06 = a20 * a31 - a21 * a30;
+  const b07 = a20 * a32 - a22 * a30;
+  const b08 = a20 * a33 - a23 * a30;
+  const b09 = a21 * a32 - a22 * a31;
+  const b10 = a21 * a33 - a23 * a31;
+  const b11 = a22 * a33 - a23 * a32;
+
+  const det = b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+  let scale = 0;
+  for (let i = 0; i < 16; i++) scale = Math.max(scale, Math.abs(m[i]));
+  const scale2 = scale * scale;
+  if (Math.abs(det) <= SINGULAR_EPSILON * scale2 * scale2) return null;
+  const inv = 1 / det;
+
+  out[0] = (a11 * b11 - a12 * b10 + a13 * b09) * inv;
+  out[1] = (a02 * b10 - a01 * b11 - a03 * b09) * inv;
+  out[2] = (a31 * b05 - a32 * b04 + a33 * b03) * inv;
+  out[3] = (a22 * b04 - a21 * b05 - a23 * b03) * inv;
+  out[4] = (a12 * b08 - a10 * b11 - a13 * b07) * inv;
+  out[5] = (a00 * b11 - a02 * b08 + a03 * b07) * inv;
+  out[6] = (a32 * b02 - a30 * b05 - a33 * b01) * inv;
+  out[7] = (a20 * b05 - a22 * b02 + a23 * b01) * inv;
+  out[8] = (a10 * b10 - a11 * b08 + a13 * b06) * inv;
+  out[9] = (a01 * b08 - a00 * b10 - a03 * b06) * inv;
+  out[10] = (a30 * b04 - a31 * b02 + a33 * b00) * inv;
+  out[11] = (a21 * b02 - a20 * b04 - a23 * b00) * inv;
+  out[12] = (a11 * b07 - a10 * b09 - a12 * b06) * inv;
+  out[13] = (a00 * b09 - a01 * b07 + a02 * b06) * inv;
+  out[14] = (a31 * b01 - a30 * b03 - a32 * b00) * inv;
+  out[15] = (a20 * b03 - a21 * b01 + a22 * b00) * inv;
+  return out;
+}
+
+/**
+ * Invert a 4×4 matrix (cofactor expansion).
+ * Returns null if the matrix is singular.
+ */
+export function invert(m: Mat4): Mat4 | null {
+  return invertInto(create(), m);
+}
+
+/**
+ * Normal matrix into a Mat3. Returns null and leaves out untouched
+ * if the upper-left 3×3 of m is singular.
+ */
+export function normalMatrixInto(out: Mat3, m: Mat4): Mat3 | null {
+  const a00 = m[0], a01 = m[1], a02 = m[2];
+  const a10 = m[4], a11 = m[5], a12 = m[6];
+  const a20 = m[8], a21 = m[9], a22 = m[10];
+
+  const b01 = a22 * a11 - a12 * a21;
+  const b11 = -a22 * a10 + a12 * a20;
+  const b21 = a21 * a10 - a11 * a20;
+
+  const det = a00 * b01 + a01 * b11 + a02 * b21;
+  const scale = Math.max(
+    Math.abs(a00), Math.abs(a01), Math.abs(a02),
+    Math.abs(a10), Math.abs(a11), Math.abs(a12),
+    Math.abs(a20), Math.abs(a21), Math.abs(a22),
+  );
+  if (Math.abs(det) <= SINGULAR_EPSILON * scale * scale * scale) return null;
+  const inv = 1 / det;
+
+  // inverse(M3) 를 구한 뒤 전치하여 저장한다
+  out[0] = b01 * inv;
+  out[3] = (-a22 * a01 + a02 * a21) * inv;
+  out[6] = (a12 * a01 - a02 * a11) * inv;
+  out[1] = b11 * inv;
+  out[4] = (a22 * a00 - a02 * a20) * inv;
+  out[7] = (-a12 * a00 + a02 * a10) * inv;
+  out[2] = b21 * inv;
+  out[5] = (-a21 * a00 + a01 * a20) * inv;
+  out[8] = (a11 * a00 - a01 * a10) * inv;
+  return out;
+}
+
+/**
+ * Normal matrix: inverse-transpose of the upper-left 3×3 of a model(-view) matrix.
+ * Keeps normals perpendicular to surfaces under non-uniform scale.
+ * Returns null if the 3×3 part is singular.
+ */
+export function normalMatrix(m: Mat4): Mat3 | null {
+  return normalMatrixInto(new Float32Array(9), m);
+}
+
+// ── View ────────────────────────────────────────────────────
+
+export function lookAtInto(
+  out: Mat4,
+  eye: ArrayLike<number>,
+  target: ArrayLike<number>,
+  up: ArrayLike<number> = DEFAULT_UP,
+): Mat4 {
+  // z axis: target → eye
+  let zx = eye[0] - target[0];
+  let zy = eye[1] - target[1];
+  let zz = eye[2] - target[2];
+  let len = Math.hypot(zx, zy, zz);
+  if (len < EPSILON) return identityInto(out);
+  zx /= len;
+  zy /= len;
+  zz /= len;
+
+  // x axis: up × z
+  let xx = up[1] * zz - up[2] * zy;
+  let xy = up[2] * zx - up[0] * zz;
+  let xz = up[0] * zy - up[1] * zx;
+  len = Math.hypot(xx, xy, xz);
+  if (len < EPSILON) {
+    // up이 시선과 평행하면 임의의 수직 축을 고른다
+    if (Math.abs(zy) < 0.999) {
+      xx = zz;
+      xy = 0;
+      xz = -zx;
+    } else {
+      xx = 1;
+      xy = 0;
+      xz = 0;
+    }
+    len = Math.hypot(xx, xy, xz);
+  }
+  xx /= len;
+  xy /= len;
+  xz /= len;
+
+  // y axis: z × x
+  const yx = zy * xz - zz * xy;
+  const yy = zz * xx - zx * xz;
+  const yz = zx * xy - zy * xx;
+
+  const ex = eye[0], ey = eye[1], ez = eye[2];
+  out[0] = xx;
+  out[1] = yx;
+  out[2] = zx;
+  out[3] = 0;
+  out[4] = xy;
+  out[5] = yy;
+  out[6] = zy;
+  out[7] = 0;
+  out[8] = xz;
+  out[9] = yz;
+  out[10] = zz;
+  out[11] = 0;
+  out[12] = -(xx * ex + xy * ey + xz * ez);
+  out[13] = -(yx * ex + yy * ey + yz * ez);
+  out[14] = -(zx * ex + zy * ey + zz * ez);
+  out[15] = 1;
+  return out;
+}
+
+/**
+ * Create a view matrix looking from `eye` toward `target` (right-handed, camera looks down -Z).
+ * If eye and target coincide, returns identity.
+ */
+export function lookAt(
+  eye: ArrayLike<number>,
+  target: ArrayLike<number>,
+  up: ArrayLike<number> = DEFAULT_UP,
+): Mat4 {
+  return lookAtInto(create(), eye, target, up);
+}
+
+const DEFAULT_UP: readonly number[] = [0, 1, 0];
+
+// ── TRS ─────────────────────────────────────────────────────
+
+/**
+ * Translation / rotation / scale. rotation is a unit quaternion [x, y, z, w].
+ */
+export interface TRS {
+  translation: Float32Array;
+  rotation: Float32Array;
+  scale: Float32Array;
+}
+
+export function composeInto(out: Mat4, trs: TRS): Mat4 {
+  const q = trs.rotation;
+  const x = q[0], y = q[1], z = q[2], w = q[3];
+  const sx = trs.scale[0], sy = trs.scale[1], sz = trs.scale[2];
+  const x2 = x + x, y2 = y + y, z2 = z + z;
+  const xx = x * x2, xy = x * y2, xz = x * z2;
+  const yy = y * y2, yz = y * z2, zz = z * z2;
+  const wx = w * x2, wy = w * y2, wz = w * z2;
+
+  out[0] = (1 - (yy + zz)) * sx;
+  out[1] = (xy + wz) * sx;
+  out[2] = (xz - wy) * sx;
+  out[3] = 0;
+  out[4] = (xy - wz) * sy;
+  out[5] = (1 - (xx + zz)) * sy;
+  out[6] = (yz + wx) * sy;
+  out[7] = 0;
+  out[8] = (xz + wy) * sz;
+  out[9] = (yz - wx) * sz;
+  out[10] = (1 - (xx + yy)) * sz;
+  out[11] = 0;
+  out[12] = trs.translation[0];
+  out[13] = trs.translation[1];
+  out[14] = trs.translation[2];
+  out[15] = 1;
+  return out;
+}
+
+/** Compose M = T * R * S from a TRS. */
+export function compose(trs: TRS): Mat4 {
+  return composeInto(create(), trs);
+}
+
+/** decompose into an existing TRS (its three arrays are overwritten). */
+export function decomposeInto(out: TRS, m: Mat4): TRS {
+  let sx = Math.hypot(m[0], m[1], m[2]);
+  const sy = Math.hypot(m[4], m[5], m[6]);
+  const sz = Math.hypot(m[8], m[9], m[10]);
+  if (determinant(m) < 0) sx = -sx;
+
+  // 스케일을 나눈 순수 회전 행렬 → 쿼터니언
+  const isx = sx ? 1 / sx : 0;
+  const isy = sy ? 1 / sy : 0;
+  const isz = sz ? 1 / sz : 0;
+  const r00 = m[0] * isx, r01 = m[4] * isy, r02 = m[8] * isz;
+  const r10 = m[1] * isx, r11 = m[5] * isy, r12 = m[9] * isz;
+  const r20 = m[2] * isx, r21 = m[6] * isy, r22 = m[10] * isz;
+
+  const q = out.rotation;
+  const trace = r00 + r11 + r22;
+  if (trace > 0) {
+    const s = 0.5 / Math.sqrt(trace + 1);
+    q[3] = 0.25 / s;
+    q[0] = (r21 - r12) * s;
+    q[1] = (r02 - r20) * s;
+    q[2] = (r10 - r01) * s;
+  } else if (r00 > r11 && r00 > r22) {
+    const s = 2 * Math.sqrt(1 + r00 - r11 - r22);
+    q[3] = (r21 - r12) / s;
+    q[0] = 0.25 * s;
+    q[1] = (r01 + r10) / s;
+    q[2] = (r02 + r20) / s;
+  } else if (r11 > r22) {
+    const s = 2 * Math.sqrt(1 + r11 - r00 - r22);
+    q[3] = (r02 - r20) / s;
+    q[0] = (r01 + r10) / s;
+    q[1] = 0.25 * s;
+    q[2] = (r12 + r21) / s;
+  } else {
+    const s = 2 * Math.sqrt(1 + r22 - r00 - r11);
+    q[3] = (r10 - r01) / s;
+    q[0] = (r02 + r20) / s;
+    q[1] = (r12 + r21) / s;
+    q[2] = 0.25 * s;
+  }
+
+  out.translation[0] = m[12];
+  out.translation[1] = m[13];
+  out.translation[2] = m[14];
+  out.scale[0] = sx;
+  out.scale[1] = sy;
+  out.scale[2] = sz;
+  return out;
+}
+
+/**
+ * Decompose an affine matrix (no shear, no projection) into TRS.
+ * A negative determinant (mirroring) is folded into scale.x.
+ */
+export function decompose(m: Mat4): TRS {
+  return decomposeInto(
+    {
+      translation: new Float32Array(3),
+      rotation: new Float32Array(4),
+      scale: new Float32Array(3),
+    },
+    m,
+  );
+}
+
+// ── Scratch pool ────────────────────────────────────────────
+
+export interface Mat4Pool {
+  /** 다음 scratch 행렬. 내용은 이전 프레임의 값이므로 *Into로 덮어써서 쓴다. */
+  acquire(): Mat4;
+  /** 모든 scratch 행렬을 반납한다. 보통 프레임 시작 시 호출한다. */
+  reset(): void;
+  /** 지금까지 만들어진 행렬 수 (한 프레임의 최대 사용량). */
+  readonly size: number;
+}
+
+/**
+ * 프레임 안에서만 쓰는 중간 행렬을 위한 scratch pool.
+ * 부족하면 늘어나고 줄어들지 않으므로, 첫 프레임 이후에는 할당이 없다.
+ * reset() 이후에는 이전에 받은 행렬을 보관해서 쓰면 안 된다.
+ */
+export function createMat4Pool(initialSize: number = 8): Mat4Pool {
+  const items: Mat4[] = [];
+  for (let i = 0; i < initialSize; i++) items.push(create());
+  let next = 0;
 
-  m[0] = 2 / rl;
-  m[5] = 2 / tb;
-  m[10] = -2 / fn;
-  m[12] = -(right + left) / rl;
-  m[13] = -(top + bottom) / tb;
-  m[14] = -(far + near) / fn;
-  m[15] = 1;
-  return m;
+  return {
+    acquire() {
+      if (next === items.length) items.push(create());
+      return items[next++];
+    },
+    reset() {
+      next = 0;
+    },
+    get size() {
+      return items.length;
+    },
+  };
 }
@@ -0,0 +1,149 @@
+import type { Mat4, EulerOrder } from "./mat4";
+import type { Vec3 } from "./vec3";
+
+/**
+ * Unit quaternion utilities for orientation. Quaternions are Float32Array(4) laid out
+ * [x, y, z, w] (same as mat4 TRS.rotation and glTF). Every function returns a new array.
+ */
+
+export type Quat = Float32Array;
+
+export function quat(x: number = 0, y: number = 0, z: number = 0, w: number = 1): Quat {
+  const q = new Float32Array(4);
+  q[0] = x;
+  q[1] = y;
+  q[2] = z;
+  q[3] = w;
+  return q;
+}
+
+/** Identity rotation (0, 0, 0, 1). */
+export function identity(): Quat {
+  return quat();
+}
+
+/**
+ * Rotation of `rad` around `axis` (right-handed). The axis does not need to be normalized;
+ * a zero-length axis yields identity.
+ */
+export function fromAxisAngle(axis: ArrayLike<number>, rad: number): Quat {
+  const len = Math.hypot(axis[0], axis[1], axis[2]);
+  if (len === 0) return identity();
+  const s = Math.sin(rad / 2) / len;
+  return quat(axis[0] * s, axis[1] * s, axis[2] * s, Math.cos(rad / 2));
+}
+
+/**
+ * Rotation from Euler angles (radians). Order semantics match mat4.fromEuler:
+ * "XYZ" means q = qx * qy * qz, so toMat4(fromEuler(...)) == mat4.fromEuler(...).
+ */
+export function fromEuler(x: number, y: number, z: number, order: EulerOrder = "XYZ"): Quat {
+  const axes: Record<string, Quat> = {
+    X: quat(Math.sin(x / 2), 0, 0, Math.cos(x / 2)),
+    Y: quat(0, Math.sin(y / 2), 0, Math.cos(y / 2)),
+    Z: quat(0, 0, Math.sin(z / 2), Math.cos(z / 2)),
+  };
+  return multiply(multiply(axes[order[0]], axes[order[1]]), axes[order[2]]);
+}
+
+/** Hamilton product a * b: rotating by the result applies b first, then a. */
+export function multiply(a: Quat, b: Quat): Quat {
+  const [ax, ay, az, aw] = a;
+  const [bx, by, bz, bw] = b;
+  return quat(
+    aw * bx + ax * bw + ay * bz - az * by,
+    aw * by - ax * bz + ay * bw + az * bx,
+    aw * bz + ax * by - ay * bx + az * bw,
+    aw * bw - ax * bx - ay * by - az * bz,
+  );
+}
+
+/** Inverse rotation of a unit quaternion. */
+export function conjugate(q: Quat): Quat {
+  return quat(-q[0], -q[1], -q[2], q[3]);
+}
+
+export function dot(a: Quat, b: Quat): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+}
+
+/** Renormalize (accumulated multiplications drift away from unit length). */
+export function normalize(q: Quat): Quat {
+  const len = Math.hypot(q[0], q[1], q[2], q[3]);
+  if (len === 0) return identity();
+  return quat(q[0] / len, q[1] / len, q[2] / len, q[3] / len);
+}
+
+/**
+ * Spherical linear interpolation along the shortest arc.
+ * Falls back to normalized lerp when a and b are nearly parallel.
+ */
+export function slerp(a: Quat, b: Quat, t: number): Quat {
+  let [bx, by, bz, bw] = b;
+  let cos = dot(a, b);
+  // q와 -q는 같은 회전이므로 짧은 쪽 호를 택한다
+  if (cos < 0) {
+    cos = -cos;
+    bx = -bx;
+    by = -by;
+    bz = -bz;
+    bw = -bw;
+  }
+
+  let wa: number;
+  let wb: number;
+  if (cos > 0.9995) {
+    wa = 1 - t;
+    wb = t;
+  } else {
+    const theta = Math.acos(cos);
+    const sin = Math.sin(theta);
+    wa = Math.sin((1 - t) * theta) / sin;
+    wb = Math.sin(t * theta) / sin;
+  }
+
+  return normalize(quat(
+    wa * a[0] + wb * bx,
+    wa * a[1] + wb * by,
+    wa * a[2] + wb * bz,
+    wa * a[3] + wb * bw,
+  ));
+}
+
+/** Rotate a 3D vector by q (q * v * q⁻¹). */
+export function rotateVec3(q: Quat, v: Vec3): Vec3 {
+  const [qx, qy, qz, qw] = q;
+  const [vx, vy, vz] = v;
+  // t = 2 * cross(q.xyz, v)
+  const tx = 2 * (qy * vz - qz * vy);
+  const ty = 2 * (qz * vx - qx * vz);
+  const tz = 2 * (qx * vy - qy * vx);
+  // v' = v + w * t + cross(q.xyz, t)
+  const out = new Float32Array(3);
+  out[0] = vx + qw * tx + (qy * tz - qz * ty);
+  out[1] = vy + qw * ty + (qz * tx - qx * tz);
+  out[2] = vz + qw * tz + (qx * ty - qy * tx);
+  return out;
+}
+
+/** Rotation matrix (column-major Mat4) of a unit quaternion. */
+export function toMat4(q: Quat): Mat4 {
+  const [x, y, z, w] = q;
+  const x2 = x + x, y2 = y + y, z2 = z + z;
+  const xx = x * x2, xy = x * y2, xz = x * z2;
+  const yy = y * y2, yz = y * z2, zz = z * z2;
+  const wx = w * x2, wy = w * y2, wz = w * z2;
+
+  const m = new Float32Array(16);
+  m[0] = 1 - (yy + zz);
+  m[1] = xy + wz;
+  m[2] = xz - wy;
+  m[4] = xy - wz;
+  m[5] = 1 - (xx + zz);
+  m[6] = yz + wx;
+  m[8] = xz + wy;
+  m[9] = yz - wx;
+  m[10] = 1 - (xx + yy);
+  m[15] = 1;
+  return m;
+}
@@ -0,0 +1,62 @@
+import type { Mat4 } from "./mat4";
+
+/**
+ * Minimal 2D vector utilities. Vectors are Float32Array(2), same convention as mat4.ts:
+ * every function returns a new array and never mutates its arguments.
+ */
+
+export type Vec2 = Float32Array;
+
+export function vec2(x: number = 0, y: number = 0): Vec2 {
+  const v = new Float32Array(2);
+  v[0] = x;
+  v[1] = y;
+  return v;
+}
+
+export function add(a: Vec2, b: Vec2): Vec2 {
+  return vec2(a[0] + b[0], a[1] + b[1]);
+}
+
+export function sub(a: Vec2, b: Vec2): Vec2 {
+  return vec2(a[0] - b[0], a[1] - b[1]);
+}
+
+export function scale(a: Vec2, s: number): Vec2 {
+  return vec2(a[0] * s, a[1] * s);
+}
+
+export function dot(a: Vec2, b: Vec2): number {
+  return a[0] * b[0] + a[1] * b[1];
+}
+
+/** z component of the 3D cross product (a.x, a.y, 0) × (b.x, b.y, 0). */
+export function cross(a: Vec2, b: Vec2): number {
+  return a[0] * b[1] - a[1] * b[0];
+}
+
+export function length(a: Vec2): number {
+  return Math.hypot(a[0], a[1]);
+}
+
+export function distance(a: Vec2, b: Vec2): number {
+  return Math.hypot(b[0] - a[0], b[1] - a[1]);
+}
+
+/** Unit vector in the direction of a. A zero vector stays zero. */
+export function normalize(a: Vec2): Vec2 {
+  const len = length(a);
+  return len > 0 ? scale(a, 1 / len) : vec2();
+}
+
+/** a + (b - a) * t */
+export function lerp(a: Vec2, b: Vec2, t: number): Vec2 {
+  return vec2(a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t);
+}
+
+/** Transform the point (x, y, 0, 1) by m and return its xy (no perspective divide). */
+export function transformMat4(a: Vec2, m: Mat4): Vec2 {
+  const x = a[0];
+  const y = a[1];
+  return vec2(m[0] * x + m[4] * y + m[12], m[1] * x + m[5] * y + m[13]);
+}
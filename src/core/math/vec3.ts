@@ -0,0 +1,92 @@
+import type { Mat4 } from "./mat4";
+
+/**
+ * Minimal 3D vector utilities. Vectors are Float32Array(3), same convention as mat4.ts:
+ * every function returns a new array and never mutates its arguments.
+ */
+
+export type Vec3 = Float32Array;
+
+export function vec3(x: number = 0, y: number = 0, z: number = 0): Vec3 {
+  const v = new Float32Array(3);
+  v[0] = x;
+  v[1] = y;
+  v[2] = z;
+  return v;
+}
+
+export function add(a: Vec3, b: Vec3): Vec3 {
+  return vec3(a[0] + b[0], a[1] + b[1], a[2] + b[2]);
+}
+
+export function sub(a: Vec3, b: Vec3): Vec3 {
+  return vec3(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+export function scale(a: Vec3, s: number): Vec3 {
+  return vec3(a[0] * s, a[1] * s, a[2] * s);
+}
+
+export function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+/** Right-handed cross product a × b. */
+export function cross(a: Vec3, b: Vec3): Vec3 {
+  return vec3(
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  );
+}
+
+export function length(a: Vec3): number {
+  return Math.hypot(a[0], a[1], a[2]);
+}
+
+export function distance(a: Vec3, b: Vec3): number {
+  return Math.hypot(b[0] - a[0], b[1] - a[1], b[2] - a[2]);
+}
+
+/** Unit vector in the direction of a. A zero vector stays zero. */
+export function normalize(a: Vec3): Vec3 {
+  const len = length(a);
+  return len > 0 ? scale(a, 1 / len) : vec3();
+}
+
+/** a + (b - a) * t */
+export function lerp(a: Vec3, b: Vec3, t: number): Vec3 {
+  return vec3(
+    a[0] + (b[0] - a[0]) * t,
+    a[1] + (b[1] - a[1]) * t,
+    a[2] + (b[2] - a[2]) * t,
+  );
+}
+
+/**
+ * Transform the point (x, y, z, 1) by m, with perspective divide by w
+ * (so projection matrices map straight to NDC).
+ */
+export function transformMat4(a: Vec3, m: Mat4): Vec3 {
+  const x = a[0];
+  const y = a[1];
+  const z = a[2];
+  const w = m[3] * x + m[7] * y + m[11] * z + m[15] || 1;
+  return vec3(
+    (m[0] * x + m[4] * y + m[8] * z + m[12]) / w,
+    (m[1] * x + m[5] * y + m[9] * z + m[13]) / w,
+    (m[2] * x + m[6] * y + m[10] * z + m[14]) / w,
+  );
+}
+
+/** Transform the direction (x, y, z, 0) by m. Translation is ignored. */
+export function transformDirection(a: Vec3, m: Mat4): Vec3 {
+  const x = a[0];
+  const y = a[1];
+  const z = a[2];
+  return vec3(
+    m[0] * x + m[4] * y + m[8] * z,
+    m[1] * x + m[5] * y + m[9] * z,
+    m[2] * x + m[6] * y + m[10] * z,
+  );
+}
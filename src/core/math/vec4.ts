@@ -0,0 +1,67 @@
+import type { Mat4 } from "./mat4";
+
+/**
+ * Minimal 4D vector utilities. Vectors are Float32Array(4), same convention as mat4.ts:
+ * every function returns a new array and never mutates its arguments.
+ */
+
+export type Vec4 = Float32Array;
+
+export function vec4(x: number = 0, y: number = 0, z: number = 0, w: number = 0): Vec4 {
+  const v = new Float32Array(4);
+  v[0] = x;
+  v[1] = y;
+  v[2] = z;
+  v[3] = w;
+  return v;
+}
+
+export function add(a: Vec4, b: Vec4): Vec4 {
+  return vec4(a[0] + b[0], a[1] + b[1], a[2] + b[2], a[3] + b[3]);
+}
+
+export function sub(a: Vec4, b: Vec4): Vec4 {
+  return vec4(a[0] - b[0], a[1] - b[1], a[2] - b[2], a[3] - b[3]);
+}
+
+export function scale(a: Vec4, s: number): Vec4 {
+  return vec4(a[0] * s, a[1] * s, a[2] * s, a[3] * s);
+}
+
+export function dot(a: Vec4, b: Vec4): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+}
+
+export function length(a: Vec4): number {
+  return Math.hypot(a[0], a[1], a[2], a[3]);
+}
+
+/** Unit vector in the direction of a. A zero vector stays zero. */
+export function normalize(a: Vec4): Vec4 {
+  const len = length(a);
+  return len > 0 ? scale(a, 1 / len) : vec4();
+}
+
+/** a + (b - a) * t */
+export function lerp(a: Vec4, b: Vec4, t: number): Vec4 {
+  return vec4(
+    a[0] + (b[0] - a[0]) * t,
+    a[1] + (b[1] - a[1]) * t,
+    a[2] + (b[2] - a[2]) * t,
+    a[3] + (b[3] - a[3]) * t,
+  );
+}
+
+/** m * a (full homogeneous transform, no divide). */
+export function transformMat4(a: Vec4, m: Mat4): Vec4 {
+  const x = a[0];
+  const y = a[1];
+  const z = a[2];
+  const w = a[3];
+  return vec4(
+    m[0] * x + m[4] * y + m[8] * z + m[12] * w,
+    m[1] * x + m[5] * y + m[9] * z + m[13] * w,
+    m[2] * x + m[6] * y + m[10] * z + m[14] * w,
+    m[3] * x + m[7] * y + m[11] * z + m[15] * w,
+  );
+}
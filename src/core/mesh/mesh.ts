@@ -0,0 +1,308 @@
+import type { GeometryDesc, VertexBufferDesc } from "../gl/geometry";
+
+/**
+ * 모든 메쉬 생성기가 공유하는 CPU 측 메쉬 표현. GL에 의존하지 않으므로 Node에서도 그대로 쓸 수 있다.
+ *
+ * 규칙:
+ *   - 삼각형은 바깥(법선 방향)에서 볼 때 반시계(CCW)가 앞면이다.
+ *   - uv의 v축은 위쪽이 1이다 (텍스처는 flipY로 업로드한다고 가정).
+ *   - tangents는 vec4: xyz = uv의 u 방향, w = ±1 (bitangent = cross(normal, tangent) * w).
+ */
+
+export type MeshPrimitive = "triangles" | "lines";
+
+export interface MeshBounds {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+export interface Mesh {
+  /** vec3 per vertex */
+  positions: Float32Array;
+  /** vec3 per vertex, 단위 길이 */
+  normals: Float32Array;
+  /** vec2 per vertex */
+  uvs: Float32Array;
+  /** vec4 per vertex */
+  tangents: Float32Array;
+  /** 정점 수가 65535 이하면 Uint16Array, 아니면 Uint32Array */
+  indices: Uint16Array | Uint32Array;
+  /** indices에 맞는 drawElements type (gl.UNSIGNED_SHORT 또는 gl.UNSIGNED_INT) */
+  indexType: number;
+  primitive: MeshPrimitive;
+  bounds: MeshBounds;
+  vertexCount: number;
+  indexCount: number;
+}
+
+/** createMesh 입력. 생성기는 number[]로 모은 뒤 넘기면 된다. */
+export interface MeshData {
+  positions: ArrayLike<number>;
+  normals: ArrayLike<number>;
+  uvs: ArrayLike<number>;
+  indices: ArrayLike<number>;
+  primitive?: MeshPrimitive;
+  /** 해석적으로 구한 tangent(vec4). 생략하면 uv로부터 계산한다. */
+  tangents?: ArrayLike<number>;
+}
+
+export interface MeshOptions {
+  /**
+   * 정점이 65535개를 넘을 때 Uint32 인덱스를 써도 되는지 (WebGL2 또는 OES_element_index_uint).
+   * 기본 true. false인데 정점이 너무 많으면 예외를 던진다. GL 쪽 판정은 supportsUint32Indices(gl).
+   */
+  uint32Indices?: boolean;
+}
+
+/**
+ * Uint16 인덱스로 그릴 수 있는 최대 정점 수.
+ * WebGL2는 UNSIGNED_SHORT의 0xFFFF를 항상 primitive restart로 취급하므로 인덱스는 0xFFFE까지만 쓴다.
+ */
+export const MAX_UINT16_VERTICES = 65535;
+
+const GL_UNSIGNED_SHORT = 0x1403;
+const GL_UNSIGNED_INT = 0x1405;
+
+/**
+ * MeshData를 Mesh로 만든다: typed array 변환, 인덱스 타입 선택, bounds와 tangent 계산.
+ */
+export function createMesh(data: MeshData, options: MeshOptions = {}): Mesh {
+  const positions = Float32Array.from(data.positions);
+  const normals = Float32Array.from(data.normals);
+  const uvs = Float32Array.from(data.uvs);
+  const vertexCount = positions.length / 3;
+  const primitive = data.primitive ?? "triangles";
+
+  if (normals.length !== positions.length || uvs.length !== vertexCount * 2) {
+    throw new Error(
+      `메쉬 attribute 길이가 맞지 않습니다 (positions ${positions.length}, normals ${normals.length}, uvs ${uvs.length})`,
+    );
+  }
+
+  const indices = createIndexArray(data.indices, vertexCount, options.uint32Indices ?? true);
+
+  let tangents: Float32Array;
+  if (data.tangents) {
+    tangents = Float32Array.from(data.tangents);
+  } else if (primitive === "triangles") {
+    tangents = computeTangents(positions, normals, uvs, indices);
+  } else {
+    tangents = new Float32Array(vertexCount * 4);
+  }
+
+  return {
+    positions,
+    normals,
+    uvs,
+    tangents,
+    indices,
+    indexType: indices instanceof Uint32Array ? GL_UNSIGNED_INT : GL_UNSIGNED_SHORT,
+    primitive,
+    bounds: computeBounds(positions),
+    vertexCount,
+    indexCount: indices.length,
+  };
+}
+
+/**
+ * 정점 수에 맞는 가장 작은 인덱스 배열로 복사한다.
+ * Uint32가 필요한데 allowUint32가 false면 잘린 인덱스로 그리는 대신 예외를 던진다.
+ */
+export function createIndexArray(
+  indices: ArrayLike<number>,
+  vertexCount: number,
+  allowUint32: boolean = true,
+): Uint16Array | Uint32Array {
+  if (vertexCount <= MAX_UINT16_VERTICES) return Uint16Array.from(indices);
+  if (!allowUint32) {
+    throw new Error(
+      `정점 ${vertexCount}개는 Uint16 인덱스 범위(${MAX_UINT16_VERTICES})를 넘습니다. ` +
+        "Uint32 인덱스에는 WebGL2 또는 OES_element_index_uint 확장이 필요합니다",
+    );
+  }
+  return Uint32Array.from(indices);
+}
+
+export function computeBounds(positions: Float32Array): MeshBounds {
+  const min = new Float32Array([Infinity, Infinity, Infinity]);
+  const max = new Float32Array([-Infinity, -Infinity, -Infinity]);
+  if (positions.length === 0) return { min: new Float32Array(3), max: new Float32Array(3) };
+
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let k = 0; k < 3; k++) {
+      const v = positions[i + k];
+      if (v < min[k]) min[k] = v;
+      if (v > max[k]) max[k] = v;
+    }
+  }
+  return { min, max };
+}
+
+/**
+ * 인덱스를 공유하는 삼각형들의 면 법선을 면적 가중으로 평균한 부드러운 법선.
+ * 어떤 삼각형에도 속하지 않는 정점은 +Y를 쓴다.
+ */
+export function computeNormals(positions: Float32Array, indices: ArrayLike<number>): Float32Array {
+  const normals = new Float32Array(positions.length);
+
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    const a = indices[i] * 3;
+    const b = indices[i + 1] * 3;
+    const c = indices[i + 2] * 3;
+    const e1x = positions[b] - positions[a];
+    const e1y = positions[b + 1] - positions[a + 1];
+    const e1z = positions[b + 2] - positions[a + 2];
+    const e2x = positions[c] - positions[a];
+    const e2y = positions[c + 1] - positions[a + 1];
+    const e2z = positions[c + 2] - positions[a + 2];
+    // 외적의 길이 = 면적 × 2 이므로 정규화하지 않고 더하면 면적 가중이 된다
+    const nx = e1y * e2z - e1z * e2y;
+    const ny = e1z * e2x - e1x * e2z;
+    const nz = e1x * e2y - e1y * e2x;
+    for (const v of [a, b, c]) {
+      normals[v] += nx;
+      normals[v + 1] += ny;
+      normals[v + 2] += nz;
+    }
+  }
+
+  for (let i = 0; i < normals.length; i += 3) {
+    const len = Math.hypot(normals[i], normals[i + 1], normals[i + 2]);
+    if (len < 1e-12) {
+      normals[i + 1] = 1;
+      continue;
+    }
+    normals[i] /= len;
+    normals[i + 1] /= len;
+    normals[i + 2] /= len;
+  }
+  return normals;
+}
+
+/**
+ * 삼각형별 uv 미분으로 tangent를 누적한 뒤 법선에 대해 Gram-Schmidt 직교화한다 (Lengyel).
+ * uv가 퇴화한 삼각형(극점 등)은 건너뛰고, 끝내 tangent가 없는 정점은 법선에 수직인 임의의 축을 쓴다.
+ */
+export function computeTangents(
+  positions: Float32Array,
+  normals: Float32Array,
+  uvs: Float32Array,
+  indices: ArrayLike<number>,
+): Float32Array {
+  const vertexCount = positions.length / 3;
+  const tan = new Float32Array(vertexCount * 3);
+  const bit = new Float32Array(vertexCount * 3);
+
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    const a = indices[i];
+    const b = indices[i + 1];
+    const c = indices[i + 2];
+
+    const e1x = positions[b * 3] - positions[a * 3];
+    const e1y = positions[b * 3 + 1] - positions[a * 3 + 1];
+    const e1z = positions[b * 3 + 2] - positions[a * 3 + 2];
+    const e2x = positions[c * 3] - positions[a * 3];
+    const e2y = positions[c * 3 + 1] - positions[a * 3 + 1];
+    const e2z = positions[c * 3 + 2] - positions[a * 3 + 2];
+
+    const du1 = uvs[b * 2] - uvs[a * 2];
+    const dv1 = uvs[b * 2 + 1] - uvs[a * 2 + 1];
+    const du2 = uvs[c * 2] - uvs[a * 2];
+    const dv2 = uvs[c * 2 + 1] - uvs[a * 2 + 1];
+
+    const det = du1 * dv2 - du2 * dv1;
+    if (Math.abs(det) < 1e-12) continue;
+    const r = 1 / det;
+
+    const tx = (e1x * dv2 - e2x * dv1) * r;
+    const ty = (e1y * dv2 - e2y * dv1) * r;
+    const tz = (e1z * dv2 - e2z * dv1) * r;
+    const bx = (e2x * du1 - e1x * du2) * r;
+    const by = (e2y * du1 - e1y * du2) * r;
+    const bz = (e2z * du1 - e1z * du2) * r;
+
+    for (const v of [a, b, c]) {
+      tan[v * 3] += tx;
+      tan[v * 3 + 1] += ty;
+      tan[v * 3 + 2] += tz;
+      bit[v * 3] += bx;
+      bit[v * 3 + 1] += by;
+      bit[v * 3 + 2] += bz;
+    }
+  }
+
+  const out = new Float32Array(vertexCount * 4);
+  for (let v = 0; v < vertexCount; v++) {
+    const nx = normals[v * 3];
+    const ny = normals[v * 3 + 1];
+    const nz = normals[v * 3 + 2];
+    let tx = tan[v * 3];
+    let ty = tan[v * 3 + 1];
+    let tz = tan[v * 3 + 2];
+
+    // t' = normalize(t - n·dot(n, t))
+    const d = nx * tx + ny * ty + nz * tz;
+    tx -= nx * d;
+    ty -= ny * d;
+    tz -= nz * d;
+    let len = Math.hypot(tx, ty, tz);
+    if (len < 1e-8) {
+      // 법선과 가장 덜 평행한 축으로 대체한다
+      [tx, ty, tz] = Math.abs(nx) < 0.9 ? [1 - nx * nx, -nx * ny, -nx * nz] : [-ny * nx, 1 - ny * ny, -ny * nz];
+      len = Math.hypot(tx, ty, tz);
+    }
+    tx /= len;
+    ty /= len;
+    tz /= len;
+
+    // handedness: cross(n, t)가 누적 bitangent와 같은 쪽이면 +1
+    const cx = ny * tz - nz * ty;
+    const cy = nz * tx - nx * tz;
+    const cz = nx * ty - ny * tx;
+    const w = cx * bit[v * 3] + cy * bit[v * 3 + 1] + cz * bit[v * 3 + 2] < 0 ? -1 : 1;
+
+    out[v * 4] = tx;
+    out[v * 4 + 1] = ty;
+    out[v * 4 + 2] = tz;
+    out[v * 4 + 3] = w;
+  }
+  return out;
+}
+
+// ── GL 연결 ──────────────────────────────────────────────────
+
+/** 메쉬 attribute의 표준 이름. 셰이더와 ATTRIBS 표도 이 이름을 쓴다. */
+export const MESH_ATTRIBUTES = {
+  position: "a_position",
+  normal: "a_normal",
+  uv: "a_uv",
+  tangent: "a_tangent",
+} as const;
+
+const GL_LINES = 0x0001;
+const GL_TRIANGLES = 0x0004;
+
+/**
+ * Geometry 생성용 GeometryDesc를 만든다.
+ * locations에 이름이 있는 attribute만 버퍼로 올린다 (셰이더가 쓰지 않는 데이터는 올리지 않는다).
+ */
+export function toGeometryDesc(mesh: Mesh, locations: Record<string, number>): GeometryDesc {
+  const sources: [string, Float32Array, 2 | 3 | 4][] = [
+    [MESH_ATTRIBUTES.position, mesh.positions, 3],
+    [MESH_ATTRIBUTES.normal, mesh.normals, 3],
+    [MESH_ATTRIBUTES.uv, mesh.uvs, 2],
+    [MESH_ATTRIBUTES.tangent, mesh.tangents, 4],
+  ];
+
+  const buffers: VertexBufferDesc[] = [];
+  for (const [name, data, size] of sources) {
+    if (locations[name] === undefined) continue;
+    buffers.push({ data, attributes: [{ name, size }] });
+  }
+
+  return {
+    buffers,
+    indices: mesh.indices,
+    mode: mesh.primitive === "lines" ? GL_LINES : GL_TRIANGLES,
+  };
+}
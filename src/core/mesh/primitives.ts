@@ -0,0 +1,427 @@
+import { createMesh } from "./mesh";
+import type { Mesh } from "./mesh";
+
+/**
+ * 기본 도형 메쉬 생성기. 모두 원점 중심, +Y가 위, 바깥에서 볼 때 CCW 감김이다.
+ * uv 이음매가 필요한 곳(원기둥 둘레, 토러스 등)은 정점을 중복해서 만든다.
+ */
+
+// ── Plane / grid ─────────────────────────────────────────────
+
+/**
+ * XZ 평면 위의 격자. 법선은 +Y.
+ * u는 +X 방향, v는 -Z 방향(화면 안쪽)으로 증가한다.
+ */
+export function createPlaneMesh(
+  width: number = 1,
+  depth: number = 1,
+  segmentsX: number = 1,
+  segmentsZ: number = 1,
+): Mesh {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  const indices: number[] = [];
+
+  for (let iz = 0; iz <= segmentsZ; iz++) {
+    const tz = iz / segmentsZ;
+    for (let ix = 0; ix <= segmentsX; ix++) {
+      const tx = ix / segmentsX;
+      positions.push((tx - 0.5) * width, 0, (tz - 0.5) * depth);
+      normals.push(0, 1, 0);
+      uvs.push(tx, 1 - tz);
+    }
+  }
+
+  const row = segmentsX + 1;
+  for (let iz = 0; iz < segmentsZ; iz++) {
+    for (let ix = 0; ix < segmentsX; ix++) {
+      const a = iz * row + ix;
+      const b = a + row;
+      indices.push(a, b, b + 1, a, b + 1, a + 1);
+    }
+  }
+
+  return createMesh({ positions, normals, uvs, indices });
+}
+
+// ── Box ──────────────────────────────────────────────────────
+
+/** 면마다 [normal, u축, v축]. u × v = normal이 되도록 골라 CCW를 보장한다. */
+const BOX_FACES: [number[], number[], number[]][] = [
+  [[1, 0, 0], [0, 0, -1], [0, 1, 0]],
+  [[-1, 0, 0], [0, 0, 1], [0, 1, 0]],
+  [[0, 1, 0], [1, 0, 0], [0, 0, -1]],
+  [[0, -1, 0], [1, 0, 0], [0, 0, 1]],
+  [[0, 0, 1], [1, 0, 0], [0, 1, 0]],
+  [[0, 0, -1], [-1, 0, 0], [0, 1, 0]],
+];
+
+/** 직육면체. 면마다 정점 4개를 따로 두어 면 법선과 면별 0..1 uv를 갖는다. */
+export function createBoxMesh(width: number = 1, height: number = 1, depth: number = 1): Mesh {
+  const half = [width / 2, height / 2, depth / 2];
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  const indices: number[] = [];
+
+  for (const [n, u, v] of BOX_FACES) {
+    const base = positions.length / 3;
+    for (const [su, sv] of [[-1, -1], [1, -1], [1, 1], [-1, 1]]) {
+      for (let k = 0; k < 3; k++) positions.push((n[k] + su * u[k] + sv * v[k]) * half[k]);
+      normals.push(n[0], n[1], n[2]);
+      uvs.push((su + 1) / 2, (sv + 1) / 2);
+    }
+    indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+  }
+
+  return createMesh({ positions, normals, uvs, indices });
+}
+
+// ── Surfaces of revolution ───────────────────────────────────
+
+/** Y축 회전체의 단면 한 점: 반지름, 높이, 단면상의 법선 (nr, ny), v 좌표. */
+interface ProfilePoint {
+  r: number;
+  y: number;
+  nr: number;
+  ny: number;
+  v: number;
+}
+
+/**
+ * 위에서 아래로 나열한 단면을 Y축 둘레로 회전시켜 옆면을 만든다.
+ * θ = 0이 +Z이고 +X 쪽으로 증가한다 (x = r·sinθ, z = r·cosθ). u = θ / 2π.
+ */
+function pushLathe(
+  profile: ProfilePoint[],
+  radialSegments: number,
+  positions: number[],
+  normals: number[],
+  uvs: number[],
+  indices: number[],
+): void {
+  const base = positions.length / 3;
+  const row = radialSegments + 1;
+
+  for (const p of profile) {
+    for (let i = 0; i <= radialSegments; i++) {
+      const u = i / radialSegments;
+      const theta = u * Math.PI * 2;
+      const s = Math.sin(theta);
+      const c = Math.cos(theta);
+      positions.push(p.r * s, p.y, p.r * c);
+      normals.push(p.nr * s, p.ny, p.nr * c);
+      uvs.push(u, p.v);
+    }
+  }
+
+  // 반지름이 0인 고리(원뿔 꼭짓점, 캡슐 극점)에서는 사각형의 절반이 면적 0이 되므로 만들지 않는다
+  for (let j = 0; j < profile.length - 1; j++) {
+    const topPole = profile[j].r === 0;
+    const bottomPole = profile[j + 1].r === 0;
+    for (let i = 0; i < radialSegments; i++) {
+      const a = base + j * row + i;
+      const b = a + row;
+      if (!bottomPole) indices.push(a, b, b + 1);
+      if (!topPole) indices.push(a, b + 1, a + 1);
+    }
+  }
+}
+
+/** y 높이의 원판. up이면 +Y를 향한다. */
+function pushCap(
+  radius: number,
+  y: number,
+  up: boolean,
+  radialSegments: number,
+  positions: number[],
+  normals: number[],
+  uvs: number[],
+  indices: number[],
+): void {
+  const ny = up ? 1 : -1;
+  const center = positions.length / 3;
+  positions.push(0, y, 0);
+  normals.push(0, ny, 0);
+  uvs.push(0.5, 0.5);
+
+  for (let i = 0; i <= radialSegments; i++) {
+    const theta = (i / radialSegments) * Math.PI * 2;
+    const s = Math.sin(theta);
+    const c = Math.cos(theta);
+    positions.push(radius * s, y, radius * c);
+    normals.push(0, ny, 0);
+    // 위에서 내려다본 모양 그대로 매핑한다 (아래 뚜껑은 아래에서 본 모양)
+    uvs.push(0.5 + 0.5 * s, 0.5 - 0.5 * c * ny);
+  }
+
+  for (let i = 0; i < radialSegments; i++) {
+    const a = center + 1 + i;
+    if (up) indices.push(center, a, a + 1);
+    else indices.push(center, a + 1, a);
+  }
+}
+
+/**
+ * 원기둥 (radiusTop ≠ radiusBottom이면 원뿔대). 옆면 법선은 기울기를 반영한다.
+ * 반지름이 0인 쪽에는 뚜껑을 만들지 않는다.
+ */
+export function createCylinderMesh(
+  radiusTop: number = 0.5,
+  radiusBottom: number = 0.5,
+  height: number = 1,
+  radialSegments: number = 32,
+  heightSegments: number = 1,
+  capped: boolean = true,
+): Mesh {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  const indices: number[] = [];
+
+  // 옆면 법선 (단면상): 옆선 (dr, -h)에 수직인 (h, dr)을 정규화
+  const slope = radiusBottom - radiusTop;
+  const len = Math.hypot(height, slope);
+  const nr = height / len;
+  const ny = slope / len;
+
+  const profile: ProfilePoint[] = [];
+  for (let j = 0; j <= heightSegments; j++) {
+    const t = j / heightSegments;
+    profile.push({
+      r: radiusTop + (radiusBottom - radiusTop) * t,
+      y: height / 2 - height * t,
+      nr,
+      ny,
+      v: 1 - t,
+    });
+  }
+  pushLathe(profile, radialSegments, positions, normals, uvs, indices);
+
+  if (capped) {
+    if (radiusTop > 0) pushCap(radiusTop, height / 2, true, radialSegments, positions, normals, uvs, indices);
+    if (radiusBottom > 0) pushCap(radiusBottom, -height / 2, false, radialSegments, positions, normals, uvs, indices);
+  }
+
+  return createMesh({ positions, normals, uvs, indices });
+}
+
+/** 원뿔. 꼭짓점이 +Y. */
+export function createConeMesh(
+  radius: number = 0.5,
+  height: number = 1,
+  radialSegments: number = 32,
+  heightSegments: number = 1,
+  capped: boolean = true,
+): Mesh {
+  return createCylinderMesh(0, radius, height, radialSegments, heightSegments, capped);
+}
+
+/**
+ * 캡슐: 길이 length의 원기둥 양 끝에 반구를 붙인다. 전체 높이 = length + 2·radius.
+ * capSegments는 반구 하나의 위도 분할 수. v는 높이에 비례한다.
+ */
+export function createCapsuleMesh(
+  radius: number = 0.5,
+  length: number = 1,
+  capSegments: number = 8,
+  radialSegments: number = 32,
+): Mesh {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  const indices: number[] = [];
+
+  const halfLength = length / 2;
+  const total = length + 2 * radius;
+  const profile: ProfilePoint[] = [];
+
+  // 위 반구: 극점(φ = 0) → 적도(φ = π/2)
+  for (let i = 0; i <= capSegments; i++) {
+    const phi = (i / capSegments) * (Math.PI / 2);
+    const y = halfLength + radius * Math.cos(phi);
+    profile.push({ r: radius * Math.sin(phi), y, nr: Math.sin(phi), ny: Math.cos(phi), v: (y + total / 2) / total });
+  }
+  // 아래 반구: 적도 → 극점. 첫 고리와 위 반구의 마지막 고리 사이가 원기둥 부분이 된다
+  for (let i = 0; i <= capSegments; i++) {
+    const phi = Math.PI / 2 + (i / capSegments) * (Math.PI / 2);
+    const y = -halfLength + radius * Math.cos(phi);
+    // 부동소수점에서 sin(π)는 0이 아니므로 극점 고리는 반지름을 0으로 못박는다 (pushLathe가 r === 0으로 극점을 알아본다)
+    const sinPhi = i === capSegments ? 0 : Math.sin(phi);
+    profile.push({ r: radius * sinPhi, y, nr: sinPhi, ny: Math.cos(phi), v: (y + total / 2) / total });
+  }
+
+  pushLathe(profile, radialSegments, positions, normals, uvs, indices);
+  return createMesh({ positions, normals, uvs, indices });
+}
+
+// ── Torus ────────────────────────────────────────────────────
+
+/**
+ * XZ 평면에 누운 토러스. radius = 중심에서 관 중심까지, tube = 관 반지름.
+ * u는 큰 고리를, v는 관 둘레를 따라 증가한다.
+ */
+export function createTorusMesh(
+  radius: number = 0.5,
+  tube: number = 0.2,
+  radialSegments: number = 48,
+  tubularSegments: number = 24,
+): Mesh {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  const indices: number[] = [];
+
+  for (let i = 0; i <= radialSegments; i++) {
+    const u = i / radialSegments;
+    const theta = u * Math.PI * 2;
+    const dx = Math.sin(theta);
+    const dz = Math.cos(theta);
+
+    for (let j = 0; j <= tubularSegments; j++) {
+      const v = j / tubularSegments;
+      const phi = v * Math.PI * 2;
+      const c = Math.cos(phi);
+      const s = Math.sin(phi);
+      // 관 단면상의 법선: 바깥 방향(dx, 0, dz)과 +Y의 조합
+      const nx = c * dx;
+      const ny = s;
+      const nz = c * dz;
+      positions.push(radius * dx + tube * nx, tube * ny, radius * dz + tube * nz);
+      normals.push(nx, ny, nz);
+      uvs.push(u, v);
+    }
+  }
+
+  const row = tubularSegments + 1;
+  for (let i = 0; i < radialSegments; i++) {
+    for (let j = 0; j < tubularSegments; j++) {
+      const a = i * row + j;
+      const b = a + row; // 다음 θ
+      indices.push(a, b, b + 1, a, b + 1, a + 1);
+    }
+  }
+
+  return createMesh({ positions, normals, uvs, indices });
+}
+
+// ── Icosphere ────────────────────────────────────────────────
+
+/**
+ * 정이십면체를 subdivisions번 4분할해 만든 구. 삼각형 크기가 고르다.
+ * 면 수 = 20 · 4^subdivisions.
+ *
+ * uv는 lat/lon 구와 같은 구면 매핑이다. 이음매를 가로지르는 삼각형은 정점을 u + 1로 복제하고,
+ * 극점 정점은 삼각형마다 복제해 나머지 두 정점의 u 평균을 쓴다.
+ */
+export function createIcosphereMesh(radius: number = 1, subdivisions: number = 2): Mesh {
+  const t = (1 + Math.sqrt(5)) / 2;
+  const verts: number[][] = [
+    [-1, t, 0], [1, t, 0], [-1, -t, 0], [1, -t, 0],
+    [0, -1, t], [0, 1, t], [0, -1, -t], [0, 1, -t],
+    [t, 0, -1], [t, 0, 1], [-t, 0, -1], [-t, 0, 1],
+  ].map(normalize3);
+
+  let faces: number[][] = [
+    [0, 11, 5], [0, 5, 1], [0, 1, 7], [0, 7, 10], [0, 10, 11],
+    [1, 5, 9], [5, 11, 4], [11, 10, 2], [10, 7, 6], [7, 1, 8],
+    [3, 9, 4], [3, 4, 2], [3, 2, 6], [3, 6, 8], [3, 8, 9],
+    [4, 9, 5], [2, 4, 11], [6, 2, 10], [8, 6, 7], [9, 8, 1],
+  ];
+
+  // ── Subdivide (공유 모서리의 중점은 한 번만 만든다) ──
+  for (let level = 0; level < subdivisions; level++) {
+    const midpoints = new Map<string, number>();
+    const midpoint = (a: number, b: number): number => {
+      const key = a < b ? `${a}_${b}` : `${b}_${a}`;
+      let index = midpoints.get(key);
+      if (index === undefined) {
+        const pa = verts[a];
+        const pb = verts[b];
+        index = verts.push(normalize3([pa[0] + pb[0], pa[1] + pb[1], pa[2] + pb[2]])) - 1;
+        midpoints.set(key, index);
+      }
+      return index;
+    };
+
+    const next: number[][] = [];
+    for (const [a, b, c] of faces) {
+      const ab = midpoint(a, b);
+      const bc = midpoint(b, c);
+      const ca = midpoint(c, a);
+      next.push([a, ab, ca], [b, bc, ab], [c, ca, bc], [ab, bc, ca]);
+    }
+    faces = next;
+  }
+
+  // ── UV + seam fix ──
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  const indices: number[] = [];
+
+  const sphericalUV = (p: number[]): [number, number] => [
+    0.5 + Math.atan2(p[0], p[2]) / (2 * Math.PI),
+    0.5 + Math.asin(Math.max(-1, Math.min(1, p[1]))) / Math.PI,
+  ];
+  const isPole = (p: number[]): boolean => Math.abs(p[1]) > 1 - 1e-9;
+
+  // 같은 (원래 정점, u) 조합은 공유한다
+  const emitted = new Map<string, number>();
+  const emit = (vi: number, u: number, v: number): number => {
+    const key = `${vi}_${u}`;
+    let index = emitted.get(key);
+    if (index === undefined) {
+      const p = verts[vi];
+      index = positions.length / 3;
+      positions.push(p[0] * radius, p[1] * radius, p[2] * radius);
+      normals.push(p[0], p[1], p[2]);
+      uvs.push(u, v);
+      emitted.set(key, index);
+    }
+    return index;
+  };
+
+  for (const face of faces) {
+    const uv = face.map((vi) => sphericalUV(verts[vi]));
+    const regular = face.filter((vi) => !isPole(verts[vi]));
+
+    // 이음매를 넘는 삼각형: 작은 u를 +1 해서 연속으로 만든다
+    const us = regular.map((vi) => sphericalUV(verts[vi])[0]);
+    if (Math.max(...us) - Math.min(...us) > 0.5) {
+      for (let k = 0; k < 3; k++) if (uv[k][0] < 0.5 && !isPole(verts[face[k]])) uv[k][0] += 1;
+    }
+
+    // 극점: 나머지 정점 u의 평균
+    if (regular.length < 3) {
+      const avg = face.reduce((sum, vi, k) => (isPole(verts[vi]) ? sum : sum + uv[k][0]), 0) / regular.length;
+      for (let k = 0; k < 3; k++) if (isPole(verts[face[k]])) uv[k][0] = avg;
+    }
+
+    for (let k = 0; k < 3; k++) indices.push(emit(face[k], uv[k][0], uv[k][1]));
+  }
+
+  return createMesh({ positions, normals, uvs, indices });
+}
+
+function normalize3(p: number[]): number[] {
+  const len = Math.hypot(p[0], p[1], p[2]);
+  return [p[0] / len, p[1] / len, p[2] / len];
+}
+
+// ── Fullscreen triangle ──────────────────────────────────────
+
+/**
+ * 클립 공간 전체를 덮는 삼각형 하나 ((-1,-1), (3,-1), (-1,3)).
+ * 사각형 두 개와 달리 대각선 이음매에서 픽셀이 두 번 셰이딩되지 않는다.
+ * 화면 안쪽의 uv는 0..1이 된다. u_mvp 없이 position을 그대로 gl_Position으로 쓴다.
+ */
+export function createFullscreenTriangle(): Mesh {
+  return createMesh({
+    positions: [-1, -1, 0, 3, -1, 0, -1, 3, 0],
+    normals: [0, 0, 1, 0, 0, 1, 0, 0, 1],
+    uvs: [0, 0, 2, 0, 0, 2],
+    indices: [0, 1, 2],
+  });
+}
@@ -1,87 +1,104 @@
+import { createMesh } from "./mesh";
+import type { Mesh, MeshOptions } from "./mesh";
+
 /**
  * Lat/Lon 방식으로 구(Sphere) 메쉬를 생성한다.
  *
  * - stacks: 위도 방향 분할 수 (세로)
  * - slices: 경도 방향 분할 수 (가로)
  *
- * 반환값:
- *   positions  — Float32Array (x, y, z) per vertex
- *   uvs        — Float32Array (u, v) per vertex
- *   indices    — Uint16Array   (WebGL1 호환: 정점 수 ≤ 65535)
+ * 법선은 위치 / radius, tangent는 경도(u)가 증가하는 방향으로 해석적으로 구한다.
+ * 바깥에서 볼 때 u는 동쪽(오른쪽), v는 북쪽(위)으로 증가한다.
+ *
+ * 정점 수가 65535를 넘으면 Uint32 인덱스를 쓴다. WebGL1에서 확장이 없으면
+ * uint32Indices: supportsUint32Indices(gl)을 넘겨 잘린 인덱스 대신 예외를 받는다.
+ */
+
+export type SphereMesh = Mesh;
+
+/**
+ * duplicated — uv가 달라야 하는 위치마다 정점을 따로 둔다. 텍스처가 끊김 없이 입혀진다.
+ * shared     — 같은 위치의 정점을 하나로 합친다. 정점이 적지만 uv가 연속이지 않다
+ *              (이음매: 마지막 열이 u = 1 대신 0으로 보간됨, 극점: u가 한 값으로 고정됨).
  */
+export type SphereVertexSharing = "duplicated" | "shared";
 
-export interface SphereMesh {
-  positions: Float32Array;
-  uvs: Float32Array;
-  indices: Uint16Array;
-  vertexCount: number;
-  indexCount: number;
+export interface SphereMeshOptions extends MeshOptions {
+  /** 극점 정점. 기본 "duplicated" (경도마다 하나) */
+  poles?: SphereVertexSharing;
+  /** u = 0/1 이음매 정점. 기본 "duplicated" */
+  seam?: SphereVertexSharing;
 }
 
 export function createSphereMesh(
   radius: number = 1,
   stacks: number = 32,
   slices: number = 64,
+  options: SphereMeshOptions = {},
 ): SphereMesh {
-  const vertexCount = (stacks + 1) * (slices + 1);
+  const sharedPoles = options.poles === "shared";
+  const sharedSeam = options.seam === "shared";
 
-  if (vertexCount > 65535) {
-    console.warn(
-      `[createSphereMesh] vertexCount(${vertexCount}) > 65535. Clamping for WebGL1 Uint16 index compatibility.`,
-    );
-  }
+  // 고리 하나의 정점 수, 극점 행의 정점 수
+  const ringSize = sharedSeam ? slices : slices + 1;
+  const poleSize = sharedPoles ? 1 : ringSize;
 
-  const positions = new Float32Array(vertexCount * 3);
-  const uvs = new Float32Array(vertexCount * 2);
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const tangents: number[] = [];
+  const uvs: number[] = [];
 
-  let vi = 0; // vertex index cursor
   for (let stack = 0; stack <= stacks; stack++) {
     const phi = (stack / stacks) * Math.PI; // 0 → π (top → bottom)
     const sinPhi = Math.sin(phi);
     const cosPhi = Math.cos(phi);
+    const isPole = stack === 0 || stack === stacks;
+    const count = isPole ? poleSize : ringSize;
 
-    for (let slice = 0; slice <= slices; slice++) {
-      const theta = (slice / slices) * 2 * Math.PI; // 0 → 2π
+    for (let slice = 0; slice < count; slice++) {
+      // 공유 극점은 u = 0.5 하나로 대표한다
+      const u = isPole && sharedPoles ? 0.5 : slice / slices;
+      const theta = u * 2 * Math.PI; // 0 → 2π
       const sinTheta = Math.sin(theta);
       const cosTheta = Math.cos(theta);
 
-      const x = radius * sinPhi * cosTheta;
-      const y = radius * cosPhi;
-      const z = radius * sinPhi * sinTheta;
-
-      positions[vi * 3] = x;
-      positions[vi * 3 + 1] = y;
-      positions[vi * 3 + 2] = z;
+      // θ가 증가할 때 바깥에서 보아 오른쪽으로 돌도록 z에 부호를 준다
+      const nx = sinPhi * cosTheta;
+      const ny = cosPhi;
+      const nz = -sinPhi * sinTheta;
 
-      // UV: u wraps around longitude, v goes top→bottom
-      uvs[vi * 2] = slice / slices;
-      uvs[vi * 2 + 1] = stack / stacks;
-
-      vi++;
+      positions.push(radius * nx, radius * ny, radius * nz);
+      normals.push(nx, ny, nz);
+      // dP/dθ 방향. 극점에서도 θ로 정의되므로 0이 되지 않는다
+      tangents.push(-sinTheta, 0, -cosTheta, 1);
+      // UV: u wraps around longitude, v goes bottom→top (north pole = 1)
+      uvs.push(u, 1 - stack / stacks);
     }
   }
 
-  // ── Indices (two triangles per cell) ──
-  const indexCount = stacks * slices * 6;
-  const indices = new Uint16Array(indexCount);
+  // (stack, slice) → 정점 인덱스
+  const bottomStart = poleSize + (stacks - 1) * ringSize;
+  const vertex = (stack: number, slice: number): number => {
+    const s = sharedSeam ? slice % slices : slice;
+    if (stack === 0) return sharedPoles ? 0 : s;
+    if (stack === stacks) return bottomStart + (sharedPoles ? 0 : s);
+    return poleSize + (stack - 1) * ringSize + s;
+  };
 
-  let ii = 0;
+  // ── Indices (two CCW triangles per cell, seen from outside) ──
+  // 극점 행에서 면적이 0인 삼각형은 만들지 않는다
+  const indices: number[] = [];
   for (let stack = 0; stack < stacks; stack++) {
     for (let slice = 0; slice < slices; slice++) {
-      const first = stack * (slices + 1) + slice;
-      const second = first + slices + 1;
-
-      // Triangle 1
-      indices[ii++] = first;
-      indices[ii++] = second;
-      indices[ii++] = first + 1;
+      const a = vertex(stack, slice);
+      const b = vertex(stack + 1, slice);
+      const c = vertex(stack, slice + 1);
+      const d = vertex(stack + 1, slice + 1);
 
-      // Triangle 2
-      indices[ii++] = first + 1;
-      indices[ii++] = second;
-      indices[ii++] = second + 1;
+      if (stack !== 0) indices.push(a, b, c);
+      if (stack !== stacks - 1) indices.push(c, b, d);
     }
   }
 
-  return { positions, uvs, indices, vertexCount, indexCount };
+  return createMesh({ positions, normals, uvs, indices, tangents }, options);
 }
@@ -0,0 +1,181 @@
+import { composeInto, copyInto, multiplyInto } from "../math/mat4";
+import type { Mat4, TRS } from "../math/mat4";
+import type { Mesh } from "../mesh/mesh";
+
+/**
+ * 장면 그래프의 노드. 부모 기준 TRS(local)를 갖고, world = parent.world × local을 캐시한다.
+ * GL에 의존하지 않으므로 Node에서 그대로 돌릴 수 있다. 그리는 것은 SceneRenderer가 한다.
+ *
+ *   const planet = new SceneNode("planet", { mesh: sphere });
+ *   sun.add(planet);
+ *   planet.setTranslation(4, 0, 0);
+ *   planet.worldMatrix; // sun.worldMatrix × planet.localMatrix
+ *
+ * Dirty flag:
+ *   - TRS를 바꾸면 local과 자신·모든 자손의 world가 dirty가 된다.
+ *   - 행렬은 읽을 때(localMatrix / worldMatrix) 필요한 만큼만 다시 계산한다.
+ *   - 노드의 world가 dirty이면 자손도 모두 dirty다. world를 계산하려면 조상을 먼저 계산해야 하기 때문이다.
+ *     그래서 이미 dirty인 노드에서 전파를 멈춰도 된다.
+ */
+
+export interface SceneMaterial {
+  /** 기본 색 (RGB 0…1) */
+  color: [number, number, number];
+  /** 조명과 무관하게 더해지는 색. 태양처럼 스스로 빛나는 물체. 기본 검정 */
+  emissive?: [number, number, number];
+}
+
+export interface SceneNodeOptions {
+  mesh?: Mesh | null;
+  material?: SceneMaterial | null;
+  translation?: ArrayLike<number>;
+  /** 단위 쿼터니언 [x, y, z, w] */
+  rotation?: ArrayLike<number>;
+  scale?: ArrayLike<number>;
+}
+
+export class SceneNode {
+  name: string;
+  mesh: Mesh | null;
+  material: SceneMaterial | null;
+  /** false면 자신과 자손을 그리지 않는다. 행렬 계산에는 영향이 없다 */
+  visible = true;
+
+  /**
+   * 부모 기준 TRS. 배열을 직접 고쳤다면 invalidate()를 불러야 한다.
+   * set*() 메서드는 알아서 부른다.
+   */
+  readonly trs: TRS;
+
+  private readonly local: Mat4 = new Float32Array(16);
+  private readonly world: Mat4 = new Float32Array(16);
+  private localDirty = true;
+  private worldDirty = true;
+  private parentNode: SceneNode | null = null;
+  private readonly childNodes: SceneNode[] = [];
+
+  constructor(name: string, options: SceneNodeOptions = {}) {
+    this.name = name;
+    this.mesh = options.mesh ?? null;
+    this.material = options.material ?? null;
+    this.trs = {
+      translation: Float32Array.from(options.translation ?? [0, 0, 0]),
+      rotation: Float32Array.from(options.rotation ?? [0, 0, 0, 1]),
+      scale: Float32Array.from(options.scale ?? [1, 1, 1]),
+    };
+  }
+
+  get parent(): SceneNode | null {
+    return this.parentNode;
+  }
+
+  get children(): readonly SceneNode[] {
+    return this.childNodes;
+  }
+
+  // ── Hierarchy ─────────────────────────────────────────────
+
+  /**
+   * child를 자식으로 붙인다. 다른 부모에 붙어 있었다면 거기서 뗀다.
+   * child의 local TRS는 그대로이므로 world 위치는 새 부모를 따라 바뀐다.
+   */
+  add(child: SceneNode): this {
+    for (let n: SceneNode | null = this; n; n = n.parentNode) {
+      if (n === child) throw new Error(`"${child.name}"를 자기 자손 "${this.name}" 아래에 붙일 수 없습니다`);
+    }
+    child.parentNode?.remove(child);
+    child.parentNode = this;
+    this.childNodes.push(child);
+    child.markWorldDirty();
+    return this;
+  }
+
+  remove(child: SceneNode): this {
+    const i = this.childNodes.indexOf(child);
+    if (i < 0) return this;
+    this.childNodes.splice(i, 1);
+    child.parentNode = null;
+    child.markWorldDirty();
+    return this;
+  }
+
+  /** 자신부터 깊이 우선(pre-order)으로 방문한다. 부모가 항상 자식보다 먼저다. */
+  traverse(visit: (node: SceneNode) => void): void {
+    visit(this);
+    for (const child of this.childNodes) child.traverse(visit);
+  }
+
+  /** 자신과 자손 중 이름이 같은 첫 노드. */
+  find(name: string): SceneNode | null {
+    if (this.name === name) return this;
+    for (const child of this.childNodes) {
+      const found = child.find(name);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  // ── Transform ─────────────────────────────────────────────
+
+  setTranslation(x: number, y: number, z: number): this {
+    this.trs.translation.set([x, y, z]);
+    return this.invalidate();
+  }
+
+  setRotation(q: ArrayLike<number>): this {
+    this.trs.rotation.set([q[0], q[1], q[2], q[3]]);
+    return this.invalidate();
+  }
+
+  setScale(x: number, y: number = x, z: number = x): this {
+    this.trs.scale.set([x, y, z]);
+    return this.invalidate();
+  }
+
+  /** trs를 바꿨다고 알린다. local과 자신·자손의 world가 다시 계산된다. */
+  invalidate(): this {
+    this.localDirty = true;
+    this.markWorldDirty();
+    return this;
+  }
+
+  /** world 행렬을 다시 계산해야 하는지. 다음 worldMatrix 읽기에서 계산된다. */
+  get needsUpdate(): boolean {
+    return this.worldDirty;
+  }
+
+  /** T × R × S. 반환된 배열은 내부 캐시이므로 고치지 말 것. */
+  get localMatrix(): Mat4 {
+    if (this.localDirty) {
+      composeInto(this.local, this.trs);
+      this.localDirty = false;
+    }
+    return this.local;
+  }
+
+  /** parent.worldMatrix × localMatrix. 반환된 배열은 내부 캐시이므로 고치지 말 것. */
+  get worldMatrix(): Mat4 {
+    if (this.worldDirty) {
+      if (this.parentNode) multiplyInto(this.world, this.parentNode.worldMatrix, this.localMatrix);
+      else copyInto(this.world, this.localMatrix);
+      this.worldDirty = false;
+    }
+    return this.world;
+  }
+
+  /** world 좌표의 원점 위치 (worldMatrix의 translation 열). */
+  worldPosition(out: Float32Array = new Float32Array(3)): Float32Array {
+    const m = this.worldMatrix;
+    out[0] = m[12];
+    out[1] = m[13];
+    out[2] = m[14];
+    return out;
+  }
+
+  private markWorldDirty(): void {
+    // 이미 dirty면 자손도 dirty다 (클래스 주석의 불변식)
+    if (this.worldDirty) return;
+    this.worldDirty = true;
+    for (const child of this.childNodes) child.markWorldDirty();
+  }
+}
@@ -0,0 +1,91 @@
+import type { GLResourceManager, GLResource } from "../gl/resources";
+import type { ShaderProgram } from "../gl/program";
+import type { Geometry } from "../gl/geometry";
+import { toGeometryDesc } from "../mesh/mesh";
+import type { Mesh } from "../mesh/mesh";
+import { normalMatrixInto } from "../math/mat4";
+import type { Mat4 } from "../math/mat4";
+import type { SceneNode } from "./sceneNode";
+
+/**
+ * SceneNode 트리를 그린다. 노드를 pre-order로 돌며 worldMatrix를 모델 행렬로 넘기고 draw한다.
+ *
+ * 프로그램이 쓰는 이름 (없는 uniform은 건너뛴다):
+ *   attributes  a_position, a_normal, a_uv, a_tangent (MESH_ATTRIBUTES 기준, attributes에 준 것만)
+ *   uniforms    u_viewProj, u_model, u_normalMatrix(mat3), u_color, u_emissive
+ *
+ * 같은 Mesh 객체를 쓰는 노드들은 GPU geometry 하나를 공유한다.
+ */
+export class SceneRenderer {
+  private readonly resources: GLResourceManager;
+  private readonly program: GLResource<ShaderProgram>;
+  private readonly attributes: Record<string, number>;
+  private readonly geometries = new Map<Mesh, GLResource<Geometry>>();
+  private readonly normalMatrix = new Float32Array(9);
+  private drawCount = 0;
+
+  constructor(resources: GLResourceManager, program: GLResource<ShaderProgram>, attributes: Record<string, number>) {
+    this.resources = resources;
+    this.program = program;
+    this.attributes = attributes;
+  }
+
+  /** 직전 render()에서 그린 노드 수. */
+  get lastDrawCount(): number {
+    return this.drawCount;
+  }
+
+  /** root와 자손 중 visible이고 mesh가 있는 노드를 모두 그린다. */
+  render(root: SceneNode, viewProjection: Mat4): void {
+    const p = this.program.value;
+    p.use();
+    p.setMat4("u_viewProj", viewProjection);
+    this.drawCount = 0;
+    this.drawNode(p, root);
+  }
+
+  /** 다시 쓰지 않을 Mesh의 GPU geometry를 해제한다. */
+  releaseMesh(mesh: Mesh): void {
+    this.geometries.get(mesh)?.release();
+    this.geometries.delete(mesh);
+  }
+
+  /** 만든 geometry를 모두 해제한다. 프로그램은 호출한 쪽 소유이므로 그대로 둔다. */
+  dispose(): void {
+    for (const g of this.geometries.values()) g.release();
+    this.geometries.clear();
+  }
+
+  private drawNode(p: ShaderProgram, node: SceneNode): void {
+    if (!node.visible) return;
+
+    if (node.mesh) {
+      const world = node.worldMatrix;
+      p.setMat4("u_model", world);
+      if (p.hasUniform("u_normalMatrix")) {
+        // scale이 0인 축이 있으면 역행렬이 없다. 이전 값이 남지만 어차피 납작해서 보이지 않는다
+        normalMatrixInto(this.normalMatrix, world);
+        p.setMat3("u_normalMatrix", this.normalMatrix);
+      }
+      const material = node.material;
+      if (p.hasUniform("u_color")) p.setVec3("u_color", material?.color ?? WHITE);
+      if (p.hasUniform("u_emissive")) p.setVec3("u_emissive", material?.emissive ?? BLACK);
+      this.geometryFor(node.mesh).value.draw();
+      this.drawCount++;
+    }
+
+    for (const child of node.children) this.drawNode(p, child);
+  }
+
+  private geometryFor(mesh: Mesh): GLResource<Geometry> {
+    let geometry = this.geometries.get(mesh);
+    if (!geometry) {
+      geometry = this.resources.geometry(toGeometryDesc(mesh, this.attributes), this.attributes);
+      this.geometries.set(mesh, geometry);
+    }
+    return geometry;
+  }
+}
+
+const WHITE: [number, number, number] = [1, 1, 1];
+const BLACK: [number, number, number] = [0, 0, 0];
@@ -1,12 +1,9 @@
 import "./styles.css";
 import { createLayout } from "./app/layout";
 import { registerRoutes, startRouter } from "./router";
+import type { Disposer, RouteMatch } from "./router";
 import { renderHome } from "./pages/home";
-import { renderTriangle01 } from "./pages/triangle01";
-import { renderTransform01 } from "./pages/transform01";
-import { renderTexture01 } from "./pages/texture01";
-import { renderProjection01 } from "./pages/projection01";
-import { renderSphere01 } from "./pages/sphere01";
+import { buildLabRoutes, findLab } from "./app/registry";
 
 function renderNotFound(container: HTMLElement): void {
   container.innerHTML = `
@@ -17,6 +14,16 @@ function renderNotFound(container: HTMLElement): void {
     </div>`;
 }
 
+/** "#/lab/:id" 패턴 라우트. 레지스트리에서 id로 랩을 찾는다. */
+function renderLab(container: HTMLElement, route: RouteMatch): Disposer | void {
+  const lab = findLab(route.params.id);
+  if (!lab) {
+    renderNotFound(container);
+    return;
+  }
+  return lab.render(container, route);
+}
+
 function bootstrap(): void {
   const app = document.getElementById("app");
   if (!app) return;
@@ -27,11 +34,8 @@ function bootstrap(): void {
   registerRoutes(
     [
       { path: "#/", render: renderHome },
-      { path: "#/triangle01", render: renderTriangle01 },
-      { path: "#/transform01", render: renderTransform01 },
-      { path: "#/texture01", render: renderTexture01 },
-      { path: "#/projection01", render: renderProjection01 },
-      { path: "#/sphere01", render: renderSphere01 },
+      ...buildLabRoutes(),
+      { path: "#/lab/:id", render: renderLab },
     ],
     outlet,
     renderNotFound,
@@ -1,18 +1,168 @@
-import { labs } from "../app/registry";
+import { labs, labPath, allTags } from "../app/registry";
+import type { LabMeta, LabDifficulty } from "../app/registry";
+import type { Disposer, RouteMatch } from "../router";
+import {
+  stringField,
+  listField,
+  readState,
+  createStateSync,
+} from "../app/urlState";
+import type { StateSchema } from "../app/urlState";
 
-export function renderHome(container: HTMLElement): void {
+// ── Filter state ────────────────────────────────────────────
+
+interface HomeState {
+  query: string;
+  tags: string[];
+}
+
+const DEFAULT_STATE: Readonly<HomeState> = {
+  query: "",
+  tags: [],
+};
+
+/** URL query ↔ HomeState 매핑. 예: #/?q=sphere&tags=texture,3d */
+const STATE_SCHEMA: StateSchema<HomeState> = {
+  query: stringField("q"),
+  tags: listField("tags"),
+};
+
+const DIFFICULTY_LABEL: Record<LabDifficulty, string> = {
+  beginner: "입문",
+  intermediate: "중급",
+  advanced: "고급",
+};
+
+/**
+ * 검색어는 제목·설명·태그에 대해 대소문자 구분 없이 부분 일치,
+ * 선택한 태그는 모두 포함해야(AND) 통과한다.
+ */
+function matchesFilter(lab: LabMeta, state: HomeState): boolean {
+  const q = state.query.trim().toLowerCase();
+  if (q) {
+    const haystack = [lab.title, lab.description, ...lab.tags]
+      .join(" ")
+      .toLowerCase();
+    if (!haystack.includes(q)) return false;
+  }
+  return state.tags.every((tag) => lab.tags.includes(tag));
+}
+
+function createCard(lab: LabMeta): HTMLElement {
+  const card = document.createElement("div");
+  card.className = "card";
+  if (lab.status === "coming-soon") card.classList.add("card--soon");
+
+  const head = document.createElement("div");
+  head.className = "card-head";
+
+  const title = document.createElement("h2");
+  title.textContent = lab.title;
+  head.appendChild(title);
+
+  if (lab.status === "coming-soon") {
+    const badge = document.createElement("span");
+    badge.className = "badge badge--soon";
+    badge.textContent = "Coming soon";
+    head.appendChild(badge);
+  }
+
+  const desc = document.createElement("p");
+  desc.textContent = lab.description;
+
+  const meta = document.createElement("div");
+  meta.className = "card-meta";
+
+  const level = document.createElement("span");
+  level.className = `badge badge--${lab.difficulty}`;
+  level.textContent = DIFFICULTY_LABEL[lab.difficulty];
+  meta.appendChild(level);
+
+  for (const tag of lab.tags) {
+    const chip = document.createElement("span");
+    chip.className = "tag";
+    chip.textContent = `#${tag}`;
+    meta.appendChild(chip);
+  }
+
+  card.append(head, desc, meta);
+  card.addEventListener("click", () => {
+    location.hash = labPath(lab).replace(/^#/, "");
+  });
+  return card;
+}
+
+export function renderHome(
+  container: HTMLElement,
+  route: RouteMatch,
+): Disposer {
+  const state: HomeState = readState(route.query, STATE_SCHEMA, DEFAULT_STATE);
+  const urlSync = createStateSync(STATE_SCHEMA, DEFAULT_STATE);
+
+  // ── Toolbar: search + tag chips ──
+  const toolbar = document.createElement("div");
+  toolbar.className = "home-toolbar";
+
+  const search = document.createElement("input");
+  search.type = "search";
+  search.className = "home-search";
+  search.placeholder = "랩 검색 (제목, 설명, 태그)";
+  search.value = state.query;
+  search.addEventListener("input", () => {
+    state.query = search.value;
+    urlSync.write(state);
+    update();
+  });
+
+  const tagBar = document.createElement("div");
+  tagBar.className = "tag-bar";
+
+  const tagButtons: HTMLButtonElement[] = [];
+  for (const tag of allTags()) {
+    const btn = document.createElement("button");
+    btn.type = "button";
+    btn.className = "tag tag--toggle";
+    btn.textContent = `#${tag}`;
+    btn.dataset.tag = tag;
+    btn.addEventListener("click", () => {
+      state.tags = state.tags.includes(tag)
+        ? state.tags.filter((t) => t !== tag)
+        : [...state.tags, tag];
+      urlSync.write(state);
+      update();
+    });
+    tagButtons.push(btn);
+    tagBar.appendChild(btn);
+  }
+
+  toolbar.append(search, tagBar);
+
+  // ── Card grid ──
   const grid = document.createElement("div");
   grid.className = "card-grid";
 
-  for (const lab of labs) {
-    const card = document.createElement("div");
-    card.className = "card";
-    card.innerHTML = `<h2>${lab.title}</h2><p>${lab.description}</p>`;
-    card.addEventListener("click", () => {
-      location.hash = lab.path.replace(/^#/, "");
-    });
-    grid.appendChild(card);
+  const cards = labs.map((lab) => ({ lab, el: createCard(lab) }));
+  for (const { el } of cards) grid.appendChild(el);
+
+  const empty = document.createElement("div");
+  empty.className = "placeholder";
+  empty.textContent = "조건에 맞는 랩이 없습니다.";
+
+  function update(): void {
+    let visible = 0;
+    for (const { lab, el } of cards) {
+      const show = matchesFilter(lab, state);
+      el.style.display = show ? "" : "none";
+      if (show) visible++;
+    }
+    for (const btn of tagButtons) {
+      btn.classList.toggle("is-active", state.tags.includes(btn.dataset.tag ?? ""));
+    }
+    empty.style.display = visible > 0 ? "none" : "";
   }
 
-  container.appendChild(grid);
+  update();
+  container.append(toolbar, grid, empty);
+
+  return () => urlSync.cancel();
 }
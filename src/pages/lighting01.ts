@@ -0,0 +1,736 @@
+import { createGLCanvas, resizeCanvas, destroyGLCanvas } from "../core/gl/context";
+import type { ShaderProgram } from "../core/gl/program";
+import type { ShaderSourceSpec } from "../core/gl/shaderSource";
+import { registerShaderChunk } from "../core/gl/chunks";
+import { GLResourceManager } from "../core/gl/resources";
+import type { GLResource } from "../core/gl/resources";
+import type { Geometry } from "../core/gl/geometry";
+import { showShaderError } from "../app/errorOverlay";
+import { mountContextLossUI } from "../app/contextLoss";
+import type { Disposer, RouteMatch } from "../router";
+import {
+  numberField,
+  boolField,
+  enumField,
+  colorField,
+  readState,
+  createStateSync,
+} from "../app/urlState";
+import type { StateSchema } from "../app/urlState";
+import { Camera } from "../core/camera/camera";
+import { OrbitControls } from "../core/camera/orbitControls";
+import { createSphereMesh } from "../core/mesh/sphere";
+import {
+  createBoxMesh,
+  createCylinderMesh,
+  createIcosphereMesh,
+  createPlaneMesh,
+  createTorusMesh,
+} from "../core/mesh/primitives";
+import { toGeometryDesc } from "../core/mesh/mesh";
+import type { Mesh } from "../core/mesh/mesh";
+import {
+  identity,
+  multiplyInto,
+  normalMatrixInto,
+  rotationYInto,
+  scalingInto,
+  translationInto,
+} from "../core/math/mat4";
+import type { Mat3, Mat4 } from "../core/math/mat4";
+
+// ── Shader sources ──────────────────────────────────────────
+
+const ATTRIBS = { a_position: 0, a_normal: 1 };
+
+/**
+ * 조명 계산. Gouraud는 VS에서, Phong은 FS에서 include하므로 uniform은 그 스테이지에만 선언된다.
+ * (두 스테이지가 같은 uniform을 다른 precision으로 선언하면 WebGL1에서 링크가 실패한다)
+ */
+registerShaderChunk("lights01", `
+#include <lighting>
+
+// All positions and directions are in world space.
+struct DirLight {
+  vec3 direction; // from the surface toward the light
+  vec3 color;     // color * intensity
+};
+
+struct PointLight {
+  vec3 position;
+  vec3 color;
+  vec3 clq;       // constant, linear, quadratic attenuation
+};
+
+struct SpotLight {
+  vec3 position;
+  vec3 direction; // cone axis, from the light outward
+  vec3 color;
+  vec3 clq;
+  float cosInner; // full intensity inside this angle
+  float cosOuter; // zero outside this angle
+};
+
+uniform vec3 u_ambient;
+uniform DirLight u_dirLight;
+uniform PointLight u_pointLight;
+uniform SpotLight u_spotLight;
+uniform vec3 u_eye;
+uniform vec3 u_diffuse;
+uniform vec3 u_specular;
+uniform float u_shininess;
+uniform int u_blinn;
+
+struct Shading {
+  vec3 diffuseLight;  // sum of radiance * N.L
+  vec3 specularLight; // sum of radiance * specular term
+};
+
+void addLight(inout Shading s, vec3 n, vec3 v, vec3 l, vec3 radiance) {
+  float ndotl = lambert(n, l);
+  float spec = u_blinn == 1
+    ? blinnPhongSpecular(n, l, v, u_shininess)
+    : phongSpecular(n, l, v, u_shininess);
+  // No highlight on the side facing away from the light
+  if (ndotl <= 0.0) spec = 0.0;
+  s.diffuseLight += radiance * ndotl;
+  s.specularLight += radiance * spec;
+}
+
+Shading shade(vec3 p, vec3 n, vec3 v) {
+  Shading s = Shading(vec3(0.0), vec3(0.0));
+
+  addLight(s, n, v, normalize(u_dirLight.direction), u_dirLight.color);
+
+  vec3 toPoint = u_pointLight.position - p;
+  float dPoint = length(toPoint);
+  addLight(s, n, v, toPoint / dPoint, u_pointLight.color * attenuation(dPoint, u_pointLight.clq));
+
+  vec3 toSpot = u_spotLight.position - p;
+  float dSpot = length(toSpot);
+  vec3 lSpot = toSpot / dSpot;
+  float cone = smoothstep(u_spotLight.cosOuter, u_spotLight.cosInner, dot(-lSpot, normalize(u_spotLight.direction)));
+  addLight(s, n, v, lSpot, u_spotLight.color * cone * attenuation(dSpot, u_spotLight.clq));
+
+  return s;
+}
+
+vec3 combine(Shading s) {
+  return u_diffuse * (u_ambient + s.diffuseLight) + u_specular * s.specularLight;
+}`);
+
+const SHADER: ShaderSourceSpec = {
+  vertex: `
+in vec3 a_position;
+in vec3 a_normal;
+uniform mat4 u_viewProj;
+uniform mat4 u_model;
+uniform mat3 u_normalMatrix;
+out vec3 v_normal;
+out vec3 v_worldPos;
+
+#ifdef PER_VERTEX
+#include <lights01>
+out vec3 v_color;
+out vec3 v_diffuseLight;
+out vec3 v_specularLight;
+#endif
+
+void main() {
+  vec4 world = u_model * vec4(a_position, 1.0);
+  v_worldPos = world.xyz;
+  v_normal = u_normalMatrix * a_normal;
+#ifdef PER_VERTEX
+  // Gouraud: light once per vertex, the rasterizer interpolates the result
+  Shading s = shade(world.xyz, normalize(v_normal), normalize(u_eye - world.xyz));
+  v_color = combine(s);
+  v_diffuseLight = s.diffuseLight;
+  v_specularLight = s.specularLight;
+#endif
+  gl_Position = u_viewProj * world;
+}`,
+  fragment: `
+precision mediump float;
+in vec3 v_normal;
+in vec3 v_worldPos;
+
+#ifdef PER_VERTEX
+in vec3 v_color;
+in vec3 v_diffuseLight;
+in vec3 v_specularLight;
+#else
+#include <lights01>
+#endif
+
+uniform int u_debug;     // 0 lit, 1 normals, 2 N.L, 3 specular
+uniform vec3 u_emissive;
+out vec4 fragColor;
+
+void main() {
+  // Interpolated normals are no longer unit length
+  vec3 n = normalize(v_normal);
+#ifdef PER_VERTEX
+  vec3 color = v_color;
+  vec3 diffuseLight = v_diffuseLight;
+  vec3 specularLight = v_specularLight;
+#else
+  // Phong: interpolate the normal, light once per pixel
+  Shading s = shade(v_worldPos, n, normalize(u_eye - v_worldPos));
+  vec3 color = combine(s);
+  vec3 diffuseLight = s.diffuseLight;
+  vec3 specularLight = s.specularLight;
+#endif
+
+  if (u_debug == 1) fragColor = vec4(n * 0.5 + 0.5, 1.0);
+  else if (u_debug == 2) fragColor = vec4(diffuseLight, 1.0);
+  else if (u_debug == 3) fragColor = vec4(specularLight, 1.0);
+  else fragColor = vec4(color + u_emissive, 1.0);
+}`,
+  attributes: ATTRIBS,
+};
+
+// ── Lab state ───────────────────────────────────────────────
+
+type ShapeId = "sphere" | "sphere-low" | "icosphere" | "box" | "cylinder" | "torus";
+type ShadingMode = "gouraud" | "phong";
+type SpecularModel = "phong" | "blinn";
+type DebugView = "lit" | "normals" | "ndotl" | "specular";
+
+const SHAPES: Record<ShapeId, { label: string; create: () => Mesh }> = {
+  sphere: { label: "Sphere (32×64)", create: () => createSphereMesh(1, 32, 64) },
+  "sphere-low": { label: "Sphere (8×16) — Gouraud 비교용", create: () => createSphereMesh(1, 8, 16) },
+  icosphere: { label: "Icosphere (subdiv 1)", create: () => createIcosphereMesh(1, 1) },
+  box: { label: "Box", create: () => createBoxMesh(1.5, 1.5, 1.5) },
+  cylinder: { label: "Cylinder", create: () => createCylinderMesh(0.8, 0.8, 1.8, 48) },
+  torus: { label: "Torus", create: () => createTorusMesh(0.8, 0.35, 64, 32) },
+};
+const SHAPE_IDS = Object.keys(SHAPES) as ShapeId[];
+const SHADING_MODES: ShadingMode[] = ["gouraud", "phong"];
+const SPECULAR_MODELS: SpecularModel[] = ["phong", "blinn"];
+const DEBUG_VIEWS: DebugView[] = ["lit", "normals", "ndotl", "specular"];
+const DEBUG_INDEX: Record<DebugView, number> = { lit: 0, normals: 1, ndotl: 2, specular: 3 };
+
+interface LightingState {
+  shape: ShapeId;
+  shading: ShadingMode;
+  specularModel: SpecularModel;
+  debug: DebugView;
+  /** false면 normal matrix 대신 model 행렬의 3×3을 그대로 법선에 곱한다 */
+  normalMatrix: boolean;
+  /** 물체의 Y축 scale. 1이 아니면 normal matrix의 역할이 드러난다 */
+  scaleY: number;
+  animate: boolean;
+
+  diffuse: string;
+  specular: string;
+  shininess: number;
+
+  ambientColor: string;
+  ambient: number;
+  dirColor: string;
+  dirIntensity: number;
+  /** 방향광의 수평 각도 (degrees). 고도는 45°로 고정 */
+  dirAzimuth: number;
+  pointColor: string;
+  pointIntensity: number;
+  /** 점광원 감쇠의 2차 계수 */
+  pointFalloff: number;
+  spotColor: string;
+  spotIntensity: number;
+  /** 원뿔 반각 (degrees) */
+  spotAngle: number;
+  /** 0이면 경계가 딱 떨어지고, 1이면 중심부터 서서히 어두워진다 */
+  spotSoftness: number;
+}
+
+const DEFAULT_STATE: Readonly<LightingState> = {
+  shape: "sphere",
+  shading: "phong",
+  specularModel: "blinn",
+  debug: "lit",
+  normalMatrix: true,
+  scaleY: 1,
+  animate: true,
+
+  diffuse: "#d9774a",
+  specular: "#ffffff",
+  shininess: 64,
+
+  ambientColor: "#8899bb",
+  ambient: 0.15,
+  dirColor: "#fff2dd",
+  dirIntensity: 0.6,
+  dirAzimuth: 35,
+  pointColor: "#66aaff",
+  pointIntensity: 1.5,
+  pointFalloff: 0.3,
+  spotColor: "#ff4d6a",
+  spotIntensity: 2,
+  spotAngle: 25,
+  spotSoftness: 0.3,
+};
+
+/** URL query ↔ LightingState 매핑. 범위는 컨트롤과 동일하다. */
+const STATE_SCHEMA: StateSchema<LightingState> = {
+  shape: enumField("shape", SHAPE_IDS),
+  shading: enumField("shading", SHADING_MODES),
+  specularModel: enumField("spec", SPECULAR_MODELS),
+  debug: enumField("debug", DEBUG_VIEWS),
+  normalMatrix: boolField("nm"),
+  scaleY: numberField("sy", 0.25, 2),
+  animate: boolField("animate"),
+
+  diffuse: colorField("kd"),
+  specular: colorField("ks"),
+  shininess: numberField("shininess", 1, 256),
+
+  ambientColor: colorField("ambc"),
+  ambient: numberField("amb", 0, 1),
+  dirColor: colorField("dirc"),
+  dirIntensity: numberField("dir", 0, 3),
+  dirAzimuth: numberField("diraz", 0, 360),
+  pointColor: colorField("ptc"),
+  pointIntensity: numberField("pt", 0, 5),
+  pointFalloff: numberField("ptfall", 0, 2),
+  spotColor: colorField("spc"),
+  spotIntensity: numberField("sp", 0, 5),
+  spotAngle: numberField("spangle", 5, 60),
+  spotSoftness: numberField("spsoft", 0, 1),
+};
+
+const POINT_ORBIT_RADIUS = 2.4;
+const POINT_HEIGHT = 1.2;
+const SPOT_POSITION = [0, 4, 0];
+const SPOT_DIRECTION = [0, -1, 0];
+const SPOT_CLQ = [1, 0, 0.02];
+const FLOOR_Y = -1.3;
+const DIR_ELEVATION = Math.PI / 4;
+
+// ── Helpers ─────────────────────────────────────────────────
+
+function showError(container: HTMLElement, message: string): void {
+  const el = document.createElement("div");
+  el.className = "gl-error";
+  el.textContent = message;
+  container.appendChild(el);
+}
+
+/** "#rrggbb" → [r, g, b] (0…1). intensity를 곱해 돌려준다. */
+function hexToRgb(hex: string, intensity: number = 1): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16);
+  return [
+    (((n >> 16) & 255) / 255) * intensity,
+    (((n >> 8) & 255) / 255) * intensity,
+    ((n & 255) / 255) * intensity,
+  ];
+}
+
+/** model 행렬의 왼쪽 위 3×3. normal matrix를 끈 "틀린" 경로를 보여줄 때 쓴다. */
+function upperLeft3x3Into(out: Mat3, m: Mat4): Mat3 {
+  out[0] = m[0]; out[1] = m[1]; out[2] = m[2];
+  out[3] = m[4]; out[4] = m[5]; out[5] = m[6];
+  out[6] = m[8]; out[7] = m[9]; out[8] = m[10];
+  return out;
+}
+
+// ── Control builders ────────────────────────────────────────
+
+function createSlider(
+  label: string,
+  min: number,
+  max: number,
+  step: number,
+  value: number,
+  onChange: (v: number) => void,
+): { row: HTMLElement; input: HTMLInputElement; valueSpan: HTMLSpanElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const input = document.createElement("input");
+  input.type = "range";
+  input.min = String(min);
+  input.max = String(max);
+  input.step = String(step);
+  input.value = String(value);
+  input.style.cssText = "flex:1;accent-color:#6c8cff;";
+
+  const valueSpan = document.createElement("span");
+  valueSpan.className = "ctrl-value";
+  valueSpan.textContent = String(value);
+
+  input.addEventListener("input", () => {
+    const v = parseFloat(input.value);
+    valueSpan.textContent = String(v);
+    onChange(v);
+  });
+
+  row.append(lbl, input, valueSpan);
+  return { row, input, valueSpan };
+}
+
+function createCheckbox(
+  label: string,
+  checked: boolean,
+  onChange: (v: boolean) => void,
+): { row: HTMLElement; input: HTMLInputElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const input = document.createElement("input");
+  input.type = "checkbox";
+  input.checked = checked;
+  input.style.cssText = "accent-color:#6c8cff;width:18px;height:18px;cursor:pointer;";
+  input.addEventListener("change", () => onChange(input.checked));
+
+  row.append(lbl, input);
+  return { row, input };
+}
+
+function createSelect<T extends string>(
+  label: string,
+  options: { value: T; label: string }[],
+  value: T,
+  onChange: (v: T) => void,
+): { row: HTMLElement; select: HTMLSelectElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const select = document.createElement("select");
+  select.className = "ctrl-select";
+  for (const opt of options) {
+    const o = document.createElement("option");
+    o.value = opt.value;
+    o.textContent = opt.label;
+    if (opt.value === value) o.selected = true;
+    select.appendChild(o);
+  }
+  select.addEventListener("change", () => onChange(select.value as T));
+
+  row.append(lbl, select);
+  return { row, select };
+}
+
+function createColorPicker(
+  label: string,
+  value: string,
+  onChange: (v: string) => void,
+): { row: HTMLElement; input: HTMLInputElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const input = document.createElement("input");
+  input.type = "color";
+  input.className = "ctrl-color";
+  input.value = value;
+  input.addEventListener("input", () => onChange(input.value));
+
+  row.append(lbl, input);
+  return { row, input };
+}
+
+/** 제목이 붙은 컨트롤 묶음. */
+function createGroup(title: string, ...rows: HTMLElement[]): HTMLElement {
+  const group = document.createElement("div");
+  const heading = document.createElement("div");
+  heading.className = "ctrl-group-title";
+  heading.textContent = title;
+  group.append(heading, ...rows);
+  return group;
+}
+
+// ── Main export ─────────────────────────────────────────────
+
+export function renderLighting01(
+  container: HTMLElement,
+  route: RouteMatch,
+): Disposer | void {
+  // ── Header ──
+  const title = document.createElement("h1");
+  title.className = "page-title";
+  title.textContent = "Lighting01";
+
+  const desc = document.createElement("p");
+  desc.className = "page-desc";
+  desc.innerHTML = [
+    "Ambient · Directional · Point · Spot 광원과 Phong / Blinn-Phong 반사 모델입니다. 조명은 world 공간에서 계산합니다.",
+    "<b>Gouraud</b>는 정점마다 조명을 계산해 색을 보간하고, <b>Phong shading</b>은 법선을 보간해 픽셀마다 계산합니다. 저해상도 구에서 하이라이트 차이가 잘 보입니다.",
+    "<b>Blinn-Phong</b>은 반사 벡터 대신 half vector를 써서 같은 하이라이트 크기에 대략 4배의 shininess가 필요합니다.",
+    "<b>Normal matrix</b>: 법선은 model 행렬의 역전치(inverse-transpose)로 옮겨야 합니다. Scale Y를 바꾸고 Normal matrix를 끄면 법선이 표면에 수직이 아니게 되어 음영이 틀어집니다 (Debug: normals).",
+  ].join("<br>");
+
+  container.append(title, desc);
+
+  // ── Canvas ──
+  const canvasWrap = document.createElement("div");
+  container.appendChild(canvasWrap);
+
+  let ctx;
+  try {
+    ctx = createGLCanvas(canvasWrap);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("[Lighting01]", msg);
+    showError(canvasWrap, msg);
+    return;
+  }
+
+  const { canvas, gl } = ctx;
+  const resources = new GLResourceManager(ctx);
+  const unmountLossUI = mountContextLossUI(canvasWrap, resources);
+
+  // ── Shader programs (정점 / 픽셀 조명 두 변형) ──
+  let programs: Record<ShadingMode, GLResource<ShaderProgram>>;
+  try {
+    programs = {
+      gouraud: resources.program({ ...SHADER, defines: { PER_VERTEX: true } }, "Lighting01 (Gouraud)"),
+      phong: resources.program(SHADER, "Lighting01 (Phong)"),
+    };
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("[Lighting01]", msg);
+    showShaderError(canvasWrap, e);
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+    return;
+  }
+
+  // ── Geometry ──
+  const shapes = {} as Record<ShapeId, GLResource<Geometry>>;
+  for (const id of SHAPE_IDS) {
+    shapes[id] = resources.geometry(toGeometryDesc(SHAPES[id].create(), ATTRIBS), ATTRIBS);
+  }
+  const floor = resources.geometry(toGeometryDesc(createPlaneMesh(8, 8, 32, 32), ATTRIBS), ATTRIBS);
+  const marker = resources.geometry(toGeometryDesc(createSphereMesh(0.08, 8, 16), ATTRIBS), ATTRIBS);
+
+  // ── Camera ──
+  const camera = new Camera({ position: [0, 2.5, 6], target: [0, 0, 0] });
+  const orbit = new OrbitControls(camera, canvas, { minDistance: 1.5, maxDistance: 30 });
+
+  // ── State ──
+  const state: LightingState = readState(route.query, STATE_SCHEMA, DEFAULT_STATE);
+  const urlSync = createStateSync(STATE_SCHEMA, DEFAULT_STATE);
+  const update = (): void => urlSync.write(state);
+
+  const model: Mat4 = identity();
+  const scratch: Mat4 = identity();
+  const normalMat: Mat3 = new Float32Array(9);
+  const floorModel: Mat4 = translationInto(identity(), 0, FLOOR_Y, 0);
+  const floorNormal: Mat3 = new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+  const markerModel: Mat4 = identity();
+  const pointPos = new Float32Array(3);
+  const black: [number, number, number] = [0, 0, 0];
+
+  let angle = 0;
+  let pointAngle = 0;
+  let lastNow = 0;
+
+  function setLights(p: ShaderProgram): void {
+    const el = DIR_ELEVATION;
+    const az = (state.dirAzimuth * Math.PI) / 180;
+    p.setVec3("u_ambient", hexToRgb(state.ambientColor, state.ambient));
+    p.setVec3("u_dirLight.direction", [Math.cos(el) * Math.sin(az), Math.sin(el), Math.cos(el) * Math.cos(az)]);
+    p.setVec3("u_dirLight.color", hexToRgb(state.dirColor, state.dirIntensity));
+
+    p.setVec3("u_pointLight.position", pointPos);
+    p.setVec3("u_pointLight.color", hexToRgb(state.pointColor, state.pointIntensity));
+    p.setVec3("u_pointLight.clq", [1, 0, state.pointFalloff]);
+
+    const outer = (state.spotAngle * Math.PI) / 180;
+    p.setVec3("u_spotLight.position", SPOT_POSITION);
+    p.setVec3("u_spotLight.direction", SPOT_DIRECTION);
+    p.setVec3("u_spotLight.color", hexToRgb(state.spotColor, state.spotIntensity));
+    p.setVec3("u_spotLight.clq", SPOT_CLQ);
+    p.setFloat("u_spotLight.cosOuter", Math.cos(outer));
+    p.setFloat("u_spotLight.cosInner", Math.cos(outer * (1 - state.spotSoftness)));
+
+    p.setVec3("u_eye", camera.position);
+    p.setFloat("u_shininess", state.shininess);
+    p.setInt("u_blinn", state.specularModel === "blinn" ? 1 : 0);
+    p.setInt("u_debug", DEBUG_INDEX[state.debug]);
+  }
+
+  function setMaterial(p: ShaderProgram, diffuse: ArrayLike<number>, specular: ArrayLike<number>, emissive: ArrayLike<number>): void {
+    p.setVec3("u_diffuse", diffuse);
+    p.setVec3("u_specular", specular);
+    p.setVec3("u_emissive", emissive);
+  }
+
+  function frame(now: number): void {
+    const dt = lastNow ? Math.min((now - lastNow) / 1000, 0.1) : 0;
+    lastNow = now;
+    if (state.animate) {
+      angle += dt * 0.4;
+      pointAngle += dt * 0.8;
+    }
+    pointPos[0] = POINT_ORBIT_RADIUS * Math.cos(pointAngle);
+    pointPos[1] = POINT_HEIGHT;
+    pointPos[2] = POINT_ORBIT_RADIUS * Math.sin(pointAngle);
+
+    resizeCanvas(gl, canvas);
+    gl.clearColor(0.05, 0.05, 0.07, 1.0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+
+    orbit.update();
+    camera.updateAspect(canvas);
+    camera.update();
+
+    const p = programs[state.shading].value;
+    p.use();
+    p.setMat4("u_viewProj", camera.viewProjection);
+    setLights(p);
+
+    // 물체: rotationY × scale(1, scaleY, 1)
+    rotationYInto(model, angle);
+    multiplyInto(model, model, scalingInto(scratch, 1, state.scaleY, 1));
+    if (state.normalMatrix) {
+      // scale이 0이 될 수는 없으므로(최소 0.25) 역행렬이 항상 있다
+      normalMatrixInto(normalMat, model);
+    } else {
+      upperLeft3x3Into(normalMat, model);
+    }
+    p.setMat4("u_model", model);
+    p.setMat3("u_normalMatrix", normalMat);
+    setMaterial(p, hexToRgb(state.diffuse), hexToRgb(state.specular), black);
+    shapes[state.shape].value.draw();
+
+    // 바닥
+    p.setMat4("u_model", floorModel);
+    p.setMat3("u_normalMatrix", floorNormal);
+    setMaterial(p, [0.55, 0.55, 0.55], [0.15, 0.15, 0.15], black);
+    floor.value.draw();
+
+    // 광원 위치 표시: 조명을 받지 않고 광원 색으로 빛난다
+    for (const [pos, color] of [
+      [pointPos, hexToRgb(state.pointColor)],
+      [SPOT_POSITION, hexToRgb(state.spotColor)],
+    ] as const) {
+      translationInto(markerModel, pos[0], pos[1], pos[2]);
+      p.setMat4("u_model", markerModel);
+      setMaterial(p, black, black, color);
+      marker.value.draw();
+    }
+  }
+
+  // ── Controls ──
+  const panel = document.createElement("div");
+  panel.className = "ctrl-panel ctrl-groups";
+
+  const shapeSel = createSelect<ShapeId>(
+    "Shape",
+    SHAPE_IDS.map((id) => ({ value: id, label: SHAPES[id].label })),
+    state.shape,
+    (v) => { state.shape = v; update(); },
+  );
+  const shadingSel = createSelect<ShadingMode>(
+    "Shading",
+    [
+      { value: "gouraud", label: "Gouraud (per-vertex)" },
+      { value: "phong", label: "Phong (per-pixel)" },
+    ],
+    state.shading,
+    (v) => { state.shading = v; update(); },
+  );
+  const specularSel = createSelect<SpecularModel>(
+    "Specular",
+    [
+      { value: "phong", label: "Phong — R·V" },
+      { value: "blinn", label: "Blinn-Phong — N·H" },
+    ],
+    state.specularModel,
+    (v) => { state.specularModel = v; update(); },
+  );
+  const debugSel = createSelect<DebugView>(
+    "Debug",
+    [
+      { value: "lit", label: "Lit" },
+      { value: "normals", label: "Normals (world)" },
+      { value: "ndotl", label: "N·L (diffuse light)" },
+      { value: "specular", label: "Specular term" },
+    ],
+    state.debug,
+    (v) => { state.debug = v; update(); },
+  );
+  const normalMatrixCheck = createCheckbox("Normal matrix", state.normalMatrix, (v) => { state.normalMatrix = v; update(); });
+  const scaleYSlider = createSlider("Scale Y", 0.25, 2, 0.05, state.scaleY, (v) => { state.scaleY = v; update(); });
+  const animateCheck = createCheckbox("Animate", state.animate, (v) => { state.animate = v; update(); });
+
+  const diffusePicker = createColorPicker("Diffuse", state.diffuse, (v) => { state.diffuse = v; update(); });
+  const specularPicker = createColorPicker("Specular", state.specular, (v) => { state.specular = v; update(); });
+  const shininessSlider = createSlider("Shininess", 1, 256, 1, state.shininess, (v) => { state.shininess = v; update(); });
+
+  const ambientPicker = createColorPicker("Color", state.ambientColor, (v) => { state.ambientColor = v; update(); });
+  const ambientSlider = createSlider("Intensity", 0, 1, 0.01, state.ambient, (v) => { state.ambient = v; update(); });
+
+  const dirPicker = createColorPicker("Color", state.dirColor, (v) => { state.dirColor = v; update(); });
+  const dirSlider = createSlider("Intensity", 0, 3, 0.05, state.dirIntensity, (v) => { state.dirIntensity = v; update(); });
+  const dirAzSlider = createSlider("Azimuth°", 0, 360, 1, state.dirAzimuth, (v) => { state.dirAzimuth = v; update(); });
+
+  const pointPicker = createColorPicker("Color", state.pointColor, (v) => { state.pointColor = v; update(); });
+  const pointSlider = createSlider("Intensity", 0, 5, 0.05, state.pointIntensity, (v) => { state.pointIntensity = v; update(); });
+  const pointFallSlider = createSlider("Falloff (q)", 0, 2, 0.01, state.pointFalloff, (v) => { state.pointFalloff = v; update(); });
+
+  const spotPicker = createColorPicker("Color", state.spotColor, (v) => { state.spotColor = v; update(); });
+  const spotSlider = createSlider("Intensity", 0, 5, 0.05, state.spotIntensity, (v) => { state.spotIntensity = v; update(); });
+  const spotAngleSlider = createSlider("Cone°", 5, 60, 1, state.spotAngle, (v) => { state.spotAngle = v; update(); });
+  const spotSoftSlider = createSlider("Softness", 0, 1, 0.01, state.spotSoftness, (v) => { state.spotSoftness = v; update(); });
+
+  const resetViewBtn = document.createElement("button");
+  resetViewBtn.className = "btn";
+  resetViewBtn.textContent = "Reset view";
+  resetViewBtn.addEventListener("click", () => orbit.reset());
+
+  panel.append(
+    createGroup(
+      "Shading",
+      shapeSel.row,
+      shadingSel.row,
+      specularSel.row,
+      debugSel.row,
+      normalMatrixCheck.row,
+      scaleYSlider.row,
+      animateCheck.row,
+      resetViewBtn,
+    ),
+    createGroup("Material", diffusePicker.row, specularPicker.row, shininessSlider.row),
+    createGroup("Ambient", ambientPicker.row, ambientSlider.row),
+    createGroup("Directional", dirPicker.row, dirSlider.row, dirAzSlider.row),
+    createGroup("Point (1 / (1 + q·d²))", pointPicker.row, pointSlider.row, pointFallSlider.row),
+    createGroup("Spot", spotPicker.row, spotSlider.row, spotAngleSlider.row, spotSoftSlider.row),
+  );
+  container.appendChild(panel);
+
+  // ── Start ──
+  gl.enable(gl.DEPTH_TEST);
+  gl.enable(gl.CULL_FACE);
+  resources.onRestored(() => {
+    gl.enable(gl.DEPTH_TEST);
+    gl.enable(gl.CULL_FACE);
+  });
+  resources.startLoop(frame);
+
+  // ── Cleanup (router calls this before the next route) ──
+  return () => {
+    urlSync.cancel();
+    orbit.dispose();
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+  };
+}
@@ -0,0 +1,614 @@
+import { createGLCanvas, resizeCanvas, destroyGLCanvas } from "../core/gl/context";
+import type { ShaderProgram } from "../core/gl/program";
+import type { ShaderSourceSpec } from "../core/gl/shaderSource";
+import type { Geometry } from "../core/gl/geometry";
+import { supportsUint32Indices } from "../core/gl/geometry";
+import { GLResourceManager } from "../core/gl/resources";
+import type { GLResource } from "../core/gl/resources";
+import { loadImage, loadImageBlob, createTexture } from "../core/gl/texture";
+import type { TextureOptions } from "../core/gl/texture";
+import { showShaderError } from "../app/errorOverlay";
+import { mountContextLossUI } from "../app/contextLoss";
+import type { Disposer, RouteMatch } from "../router";
+import { enumField, readState, createStateSync } from "../app/urlState";
+import type { StateSchema } from "../app/urlState";
+import { Camera } from "../core/camera/camera";
+import { OrbitControls } from "../core/camera/orbitControls";
+import { parseOBJ } from "../core/loaders/obj";
+import { parseMTL, resolveObjMaterial } from "../core/loaders/mtl";
+import type { ObjMaterial } from "../core/loaders/mtl";
+import { loadGltf } from "../core/loaders/gltf";
+import type { GltfImage } from "../core/loaders/gltf";
+import { toGeometryDesc } from "../core/mesh/mesh";
+import type { Mesh, MeshBounds } from "../core/mesh/mesh";
+import { identity, normalMatrix } from "../core/math/mat4";
+import type { Mat3, Mat4 } from "../core/math/mat4";
+
+// ── Shader sources ──────────────────────────────────────────
+
+const ATTRIBS = { a_position: 0, a_normal: 1, a_uv: 2 };
+
+const SHADER: ShaderSourceSpec = {
+  vertex: `
+in vec3 a_position;
+in vec3 a_normal;
+in vec2 a_uv;
+uniform mat4 u_viewProj;
+uniform mat4 u_model;
+uniform mat3 u_normalMatrix;
+out vec3 v_normal;
+out vec2 v_uv;
+void main() {
+  v_normal = u_normalMatrix * a_normal;
+  v_uv = a_uv;
+  gl_Position = u_viewProj * u_model * vec4(a_position, 1.0);
+}`,
+  fragment: `
+precision mediump float;
+in vec3 v_normal;
+in vec2 v_uv;
+uniform vec3 u_color;
+uniform sampler2D u_tex;
+uniform float u_useTexture;
+out vec4 fragColor;
+
+#include <lighting>
+
+void main() {
+  // Two-sided: single-sided planes (roofs, leaves) are lit from both sides
+  vec3 n = normalize(v_normal);
+  if (!gl_FrontFacing) n = -n;
+  vec3 base = u_color * mix(vec3(1.0), texture(u_tex, v_uv).rgb, u_useTexture);
+  float diffuse = lambert(n, normalize(vec3(0.4, 0.8, 0.5)));
+  fragColor = vec4(base * (0.25 + 0.75 * diffuse), 1.0);
+}`,
+  attributes: ATTRIBS,
+};
+
+// ── Bundled models (public/models) ──────────────────────────
+
+type ModelId = "house" | "cube" | "star" | "boxes" | "boxes-glb";
+
+const MODELS: Record<ModelId, { label: string; url: string }> = {
+  house: { label: "House — n-gon, 음수 인덱스, 재질 3개", url: "/models/house.obj" },
+  cube: { label: "Cube — map_Kd 텍스처", url: "/models/cube.obj" },
+  star: { label: "Star — 오목 다각형, MTL 없음", url: "/models/star.obj" },
+  boxes: { label: "Boxes — glTF, data URI 버퍼, 노드 계층, sparse", url: "/models/boxes.gltf" },
+  "boxes-glb": { label: "Boxes — GLB, interleaved 정점, 정규화 uv, 내장 PNG", url: "/models/boxes.glb" },
+};
+const MODEL_IDS = Object.keys(MODELS) as ModelId[];
+
+interface ModelState {
+  model: ModelId;
+}
+
+const DEFAULT_STATE: Readonly<ModelState> = { model: "house" };
+
+/** URL query ↔ ModelState. 드롭한 파일은 URL에 남기지 않는다. */
+const STATE_SCHEMA: StateSchema<ModelState> = {
+  model: enumField("model", MODEL_IDS),
+};
+
+// ── Loading ─────────────────────────────────────────────────
+
+/**
+ * 모델 파일과 그 파일이 참조하는 MTL·버퍼·텍스처를 읽는 곳. URL(번들 모델)과 드롭한 파일 묶음 두 가지가 있다.
+ * 참조는 항상 참조한 파일 기준 상대 경로로 풀린다.
+ */
+interface ModelSource {
+  resolve(from: string, ref: string): string;
+  text(path: string): Promise<string>;
+  bytes(path: string): Promise<ArrayBuffer>;
+  image(path: string): Promise<HTMLImageElement>;
+}
+
+async function fetchOk(path: string): Promise<Response> {
+  const res = await fetch(path);
+  if (!res.ok) throw new Error(`${path}: HTTP ${res.status}`);
+  return res;
+}
+
+const urlSource: ModelSource = {
+  resolve: (from, ref) => new URL(ref, new URL(from, location.href)).pathname,
+  text: async (path) => (await fetchOk(path)).text(),
+  bytes: async (path) => (await fetchOk(path)).arrayBuffer(),
+  image: (path) => loadImage(path),
+};
+
+/** 드롭한 파일들. 폴더 구조가 없으므로 참조는 파일 이름(대소문자 무시)으로 찾는다. */
+function fileSource(files: File[]): ModelSource {
+  const byName = new Map(files.map((f) => [f.name.toLowerCase(), f]));
+  const find = (path: string): File => {
+    const file = byName.get(basename(path).toLowerCase());
+    if (!file) throw new Error(`${basename(path)}: 함께 드롭한 파일에 없습니다`);
+    return file;
+  };
+  return {
+    resolve: (_from, ref) => ref,
+    text: async (path) => find(path).text(),
+    bytes: async (path) => find(path).arrayBuffer(),
+    image: (path) => loadImageBlob(find(path)),
+  };
+}
+
+/** 그릴 단위 하나. OBJ는 part, glTF는 (노드, primitive) 쌍마다 하나씩 생긴다. */
+interface LoadedPart {
+  name: string;
+  material: string;
+  mesh: Mesh;
+  color: [number, number, number];
+  /** LoadedModel.textures의 키. 없으면 null */
+  texture: string | null;
+  /** 모델 좌표 → 월드. OBJ는 항등 행렬 */
+  matrix: Mat4;
+}
+
+interface LoadedTexture {
+  image: HTMLImageElement;
+  options: TextureOptions;
+}
+
+interface LoadedModel {
+  name: string;
+  parts: LoadedPart[];
+  textures: Map<string, LoadedTexture>;
+  /** 월드 좌표 bounds (part 행렬 적용 후) */
+  bounds: MeshBounds;
+  /** MTL이나 텍스처를 찾지 못해도 모델은 그린다. 그런 문제를 모아 보여준다 */
+  warnings: string[];
+}
+
+const GLTF_EXTENSIONS = [".gltf", ".glb"];
+
+function loadModel(source: ModelSource, path: string, uint32Indices: boolean): Promise<LoadedModel> {
+  const isGltf = GLTF_EXTENSIONS.some((ext) => path.toLowerCase().endsWith(ext));
+  return isGltf ? loadGltfModel(source, path, uint32Indices) : loadObjModel(source, path, uint32Indices);
+}
+
+async function loadObjModel(source: ModelSource, objPath: string, uint32Indices: boolean): Promise<LoadedModel> {
+  // 구문 오류(ObjParseError)는 그대로 올려 줄 번호를 보여준다
+  const model = parseOBJ(await source.text(objPath), { file: basename(objPath), uint32Indices });
+  const materials = new Map<string, ObjMaterial>();
+  const textures = new Map<string, LoadedTexture>();
+  const warnings: string[] = [];
+  // OBJ uv는 원점이 왼쪽 아래라 뒤집어 올린다. 타일링하는 모델이 많아 REPEAT
+  const options: TextureOptions = {
+    flipY: true,
+    minFilter: WebGL2RenderingContext.LINEAR,
+    magFilter: WebGL2RenderingContext.LINEAR,
+    wrapS: WebGL2RenderingContext.REPEAT,
+    wrapT: WebGL2RenderingContext.REPEAT,
+  };
+
+  for (const lib of model.materialLibraries) {
+    const mtlPath = source.resolve(objPath, lib);
+    let text: string;
+    try {
+      text = await source.text(mtlPath);
+    } catch (e: unknown) {
+      warnings.push(`MTL을 읽지 못했습니다 — ${e instanceof Error ? e.message : String(e)}`);
+      continue;
+    }
+
+    for (const mat of parseMTL(text, { file: basename(mtlPath) }).values()) {
+      if (mat.diffuseMap) {
+        const texPath = source.resolve(mtlPath, mat.diffuseMap);
+        try {
+          textures.set(texPath, { image: await source.image(texPath), options });
+          mat.diffuseMap = texPath;
+        } catch (e: unknown) {
+          warnings.push(`텍스처를 읽지 못했습니다 — ${e instanceof Error ? e.message : String(e)}`);
+          mat.diffuseMap = null;
+        }
+      }
+      materials.set(mat.name, mat);
+    }
+  }
+
+  const parts = model.parts.map((part): LoadedPart => {
+    if (part.material && !materials.has(part.material)) {
+      warnings.push(`재질 "${part.material}"이 MTL에 없습니다 (${part.name})`);
+    }
+    const mat = resolveObjMaterial(part.material, materials);
+    return {
+      name: part.name,
+      material: part.material ?? "no material",
+      mesh: part.mesh,
+      color: mat.diffuse,
+      texture: mat.diffuseMap,
+      matrix: identity(),
+    };
+  });
+
+  return { name: basename(objPath), parts, textures, bounds: model.bounds, warnings };
+}
+
+async function loadGltfModel(source: ModelSource, path: string, uint32Indices: boolean): Promise<LoadedModel> {
+  // 검증 오류(GltfParseError)는 그대로 올려 JSON 위치를 보여준다
+  const asset = await loadGltf(await source.bytes(path), {
+    uint32Indices,
+    // glTF uri는 퍼센트 인코딩되어 있다
+    readUri: (uri) => source.bytes(source.resolve(path, decodeURIComponent(uri))),
+  });
+  const textures = new Map<string, LoadedTexture>();
+  const warnings: string[] = [];
+
+  for (const [i, tex] of asset.textures.entries()) {
+    if (tex.image === null) continue;
+    const image = asset.images[tex.image];
+    try {
+      textures.set(`texture${i}`, { image: await decodeImage(image), options: tex.sampler });
+    } catch (e: unknown) {
+      warnings.push(`이미지 "${image.name}"을 디코딩하지 못했습니다 — ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  // 기본 장면의 루트부터 내려가며 메시가 달린 노드마다 primitive를 part로 만든다
+  const parts: LoadedPart[] = [];
+  const visit = (index: number): void => {
+    const node = asset.nodes[index];
+    if (node.mesh !== null) {
+      const mesh = asset.meshes[node.mesh];
+      mesh.primitives.forEach((primitive, k) => {
+        const mat = primitive.material !== null ? asset.materials[primitive.material] : null;
+        const key = mat?.baseColorTexture ? `texture${mat.baseColorTexture.index}` : null;
+        parts.push({
+          name: mesh.primitives.length > 1 ? `${node.name} / ${mesh.name}#${k}` : `${node.name} / ${mesh.name}`,
+          material: mat?.name ?? "no material",
+          mesh: primitive.mesh,
+          color: mat ? [mat.baseColorFactor[0], mat.baseColorFactor[1], mat.baseColorFactor[2]] : [1, 1, 1],
+          texture: key !== null && textures.has(key) ? key : null,
+          matrix: node.worldMatrix,
+        });
+      });
+    }
+    node.children.forEach(visit);
+  };
+  const roots = asset.scene >= 0
+    ? asset.scenes[asset.scene].nodes
+    : asset.nodes.flatMap((node, i) => (node.parent === null ? [i] : []));
+  roots.forEach(visit);
+
+  return { name: basename(path), parts, textures, bounds: worldBounds(parts), warnings };
+}
+
+function decodeImage(image: GltfImage): Promise<HTMLImageElement> {
+  // slice: Blob은 SharedArrayBuffer 뷰를 받지 않는다
+  return loadImageBlob(new Blob([image.bytes.slice()], { type: image.mimeType }));
+}
+
+/** part마다 mesh bounds의 꼭짓점 8개를 행렬로 옮겨 합친다. */
+function worldBounds(parts: LoadedPart[]): MeshBounds {
+  const min = new Float32Array([Infinity, Infinity, Infinity]);
+  const max = new Float32Array([-Infinity, -Infinity, -Infinity]);
+  for (const { mesh, matrix: m } of parts) {
+    const b = mesh.bounds;
+    for (let corner = 0; corner < 8; corner++) {
+      const x = corner & 1 ? b.max[0] : b.min[0];
+      const y = corner & 2 ? b.max[1] : b.min[1];
+      const z = corner & 4 ? b.max[2] : b.min[2];
+      for (let k = 0; k < 3; k++) {
+        const v = m[k] * x + m[4 + k] * y + m[8 + k] * z + m[12 + k];
+        min[k] = Math.min(min[k], v);
+        max[k] = Math.max(max[k], v);
+      }
+    }
+  }
+  if (parts.length === 0) {
+    min.fill(0);
+    max.fill(0);
+  }
+  return { min, max };
+}
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+// ── UI helpers ──────────────────────────────────────────────
+
+function showError(container: HTMLElement, message: string): void {
+  const el = document.createElement("div");
+  el.className = "gl-error";
+  el.textContent = message;
+  container.appendChild(el);
+}
+
+function createSelect<T extends string>(
+  label: string,
+  options: { value: T; label: string }[],
+  value: T,
+  onChange: (v: T) => void,
+): { row: HTMLElement; select: HTMLSelectElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const select = document.createElement("select");
+  select.className = "ctrl-select";
+  for (const opt of options) {
+    const o = document.createElement("option");
+    o.value = opt.value;
+    o.textContent = opt.label;
+    if (opt.value === value) o.selected = true;
+    select.appendChild(o);
+  }
+  select.addEventListener("change", () => onChange(select.value as T));
+
+  row.append(lbl, select);
+  return { row, select };
+}
+
+// ── Main export ─────────────────────────────────────────────
+
+/** GPU에 올린 part 하나. texture는 같은 모델의 다른 part와 공유될 수 있다. */
+interface Drawable {
+  geometry: GLResource<Geometry>;
+  color: [number, number, number];
+  texture: GLResource<WebGLTexture> | null;
+  model: Mat4;
+  normalMatrix: Mat3;
+}
+
+export function renderModel01(
+  container: HTMLElement,
+  route: RouteMatch,
+): Disposer | void {
+  // ── Header ──
+  const title = document.createElement("h1");
+  title.className = "page-title";
+  title.textContent = "Model01";
+
+  const desc = document.createElement("p");
+  desc.className = "page-desc";
+  desc.innerHTML = [
+    "Wavefront OBJ/MTL과 glTF 2.0 파일을 읽어 렌더링합니다.",
+    "<b>De-indexing</b>: OBJ는 위치·uv·법선 인덱스를 따로 갖지만 GPU 정점은 인덱스 하나만 쓰므로, (v, vt, vn) 조합마다 정점을 새로 만들어 drawElements로 그립니다.",
+    "<b>n-gon</b>: 사각형 이상의 면은 ear clipping으로 삼각형 분할합니다 (오목한 면 포함). vn이 없으면 면 법선을 평균해 채웁니다.",
+    "<b>Part</b>: o / g / usemtl이 바뀔 때마다 part를 나누고, part마다 MTL의 Kd·map_Kd로 그립니다.",
+    "<b>glTF 2.0</b>: .gltf(외부 버퍼·data URI)와 .glb를 읽습니다. accessor를 풀어 같은 Mesh로 만들고, 노드 계층의 월드 행렬을 u_model로 넘깁니다. 텍스처는 glTF sampler 설정으로 올립니다.",
+    "OBJ 파일(필요하면 MTL과 텍스처도 함께)이나 glTF 파일(.bin과 이미지도 함께)을 캔버스 아래 영역에 드롭해 보세요. OBJ 구문 오류는 줄 번호, glTF 검증 오류는 JSON 위치와 함께 표시됩니다.",
+  ].join("<br>");
+
+  container.append(title, desc);
+
+  // ── Canvas ──
+  const canvasWrap = document.createElement("div");
+  container.appendChild(canvasWrap);
+
+  let ctx;
+  try {
+    ctx = createGLCanvas(canvasWrap);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("[Model01]", msg);
+    showError(canvasWrap, msg);
+    return;
+  }
+
+  const { canvas, gl } = ctx;
+  const resources = new GLResourceManager(ctx);
+  const unmountLossUI = mountContextLossUI(canvasWrap, resources);
+
+  // ── Shader program ──
+  let program: GLResource<ShaderProgram>;
+  try {
+    program = resources.program(SHADER, "Model01");
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("[Model01]", msg);
+    showShaderError(canvasWrap, e);
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+    return;
+  }
+
+  // map_Kd가 없는 part에 묶어 둘 1×1 흰색 텍스처
+  const white = resources.texture((g) => {
+    const tex = g.createTexture();
+    if (!tex) throw new Error("WebGL 텍스처 객체 생성 실패");
+    g.bindTexture(g.TEXTURE_2D, tex);
+    g.texImage2D(g.TEXTURE_2D, 0, g.RGBA, 1, 1, 0, g.RGBA, g.UNSIGNED_BYTE, new Uint8Array([255, 255, 255, 255]));
+    g.bindTexture(g.TEXTURE_2D, null);
+    return tex;
+  });
+
+  // ── Camera ──
+  const camera = new Camera({ position: [0, 1, 4], target: [0, 0.5, 0] });
+  const orbit = new OrbitControls(camera, canvas, { minDistance: 0.05, maxDistance: 1000 });
+
+  /** bounds를 감싸는 구가 화면에 들어오도록 카메라를 옮기고, 그 상태를 Reset view 기준으로 삼는다. */
+  function frameModel(bounds: MeshBounds): void {
+    const { min, max } = bounds;
+    const radius = Math.max(Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]) / 2, 1e-3);
+    const proj = camera.projection;
+    const fovY = proj.kind === "perspective" ? proj.fovY : Math.PI / 4;
+
+    camera.target.set([(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2]);
+    orbit.distance = (radius / Math.sin(fovY / 2)) * 1.1;
+    orbit.azimuth = Math.PI / 6;
+    orbit.polar = Math.PI / 2.6;
+    proj.near = orbit.distance / 100;
+    proj.far = orbit.distance * 20;
+    orbit.saveState();
+  }
+
+  // ── Model state ──
+  const state: ModelState = readState(route.query, STATE_SCHEMA, DEFAULT_STATE);
+  const urlSync = createStateSync(STATE_SCHEMA, DEFAULT_STATE);
+  const uint32Indices = supportsUint32Indices(gl);
+
+  let drawables: Drawable[] = [];
+  // 여러 재질이 같은 텍스처를 참조할 수 있으므로 텍스처는 part가 아니라 여기서 한 번씩 해제한다
+  let textures: GLResource<WebGLTexture>[] = [];
+  let disposed = false;
+  let loadSeq = 0;
+
+  function releaseModel(): void {
+    for (const d of drawables) d.geometry.release();
+    for (const t of textures) t.release();
+    drawables = [];
+    textures = [];
+  }
+
+  function upload(loaded: LoadedModel): void {
+    const byKey = new Map<string, GLResource<WebGLTexture>>();
+    for (const [key, tex] of loaded.textures) {
+      try {
+        byKey.set(key, resources.texture((g) => createTexture(g, tex.image, tex.options)));
+      } catch (e: unknown) {
+        // WebGL1의 NPOT 제약 등. 이유를 보여 주고 텍스처 없이 그린다
+        loaded.warnings.push(`텍스처 ${key}를 만들 수 없습니다 — ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    textures = [...byKey.values()];
+
+    drawables = loaded.parts.map((part) => ({
+      geometry: resources.geometry(toGeometryDesc(part.mesh, ATTRIBS), ATTRIBS),
+      color: part.color,
+      texture: part.texture ? byKey.get(part.texture) ?? null : null,
+      model: part.matrix,
+      // 축 하나의 scale이 0이면 역행렬이 없다. 어차피 납작해서 안 보이므로 항등으로 둔다
+      normalMatrix: normalMatrix(part.matrix) ?? new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1]),
+    }));
+
+    frameModel(loaded.bounds);
+    showInfo(loaded);
+  }
+
+  function frame(): void {
+    resizeCanvas(gl, canvas);
+
+    gl.clearColor(0.08, 0.09, 0.12, 1.0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+
+    orbit.update();
+    camera.updateAspect(canvas);
+    camera.update();
+
+    const p = program.value;
+    p.use();
+    p.setMat4("u_viewProj", camera.viewProjection);
+    p.setSampler("u_tex", 0);
+    gl.activeTexture(gl.TEXTURE0);
+
+    for (const d of drawables) {
+      gl.bindTexture(gl.TEXTURE_2D, (d.texture ?? white).value);
+      p.setFloat("u_useTexture", d.texture ? 1 : 0);
+      p.setVec3("u_color", d.color);
+      p.setMat4("u_model", d.model);
+      p.setMat3("u_normalMatrix", d.normalMatrix);
+      d.geometry.value.draw();
+    }
+  }
+
+  // ── Controls ──
+  const panel = document.createElement("div");
+  panel.className = "ctrl-panel";
+
+  const modelSel = createSelect<ModelId>(
+    "Model",
+    MODEL_IDS.map((id) => ({ value: id, label: MODELS[id].label })),
+    state.model,
+    (v) => {
+      state.model = v;
+      urlSync.write(state);
+      void load(urlSource, MODELS[v].url);
+    },
+  );
+
+  const resetViewBtn = document.createElement("button");
+  resetViewBtn.className = "btn";
+  resetViewBtn.textContent = "Reset view";
+  resetViewBtn.addEventListener("click", () => orbit.reset());
+
+  const dropZone = document.createElement("div");
+  dropZone.className = "drop-zone";
+  dropZone.textContent = "여기에 .obj / .gltf / .glb 파일을 드롭하세요 (.mtl·.bin·텍스처 파일도 함께 드롭할 수 있습니다)";
+
+  const info = document.createElement("div");
+  info.className = "readout model-info";
+
+  panel.append(modelSel.row, resetViewBtn, dropZone, info);
+  container.appendChild(panel);
+
+  function showInfo(loaded: LoadedModel): void {
+    const { parts } = loaded;
+    const vertices = parts.reduce((n, p) => n + p.mesh.vertexCount, 0);
+    const triangles = parts.reduce((n, p) => n + (p.mesh.primitive === "triangles" ? p.mesh.indexCount / 3 : 0), 0);
+    const lines = [
+      `${loaded.name}: ${parts.length} parts · ${vertices.toLocaleString()} vertices · ${triangles.toLocaleString()} triangles`,
+      ...parts.map((p) => {
+        const elements = p.mesh.primitive === "triangles" ? `${p.mesh.indexCount / 3} tris` : `${p.mesh.indexCount / 2} lines`;
+        return `  ${p.name}  [${p.material}]  ${p.mesh.vertexCount} v / ${elements}`;
+      }),
+      ...loaded.warnings.map((w) => `⚠ ${w}`),
+    ];
+    if (parts.length === 0) lines.push("⚠ 그릴 메시가 없습니다");
+    info.classList.remove("model-info--error");
+    info.textContent = lines.join("\n");
+  }
+
+  function showLoadError(e: unknown): void {
+    info.classList.add("model-info--error");
+    info.textContent = e instanceof Error ? e.message : String(e);
+  }
+
+  async function load(source: ModelSource, path: string): Promise<void> {
+    const seq = ++loadSeq;
+    info.classList.remove("model-info--error");
+    info.textContent = `Loading ${basename(path)}...`;
+    try {
+      const loaded = await loadModel(source, path, uint32Indices);
+      // 로딩 중에 다른 모델을 고르거나 라우트를 떠났으면 버린다
+      if (disposed || seq !== loadSeq) return;
+      releaseModel();
+      upload(loaded);
+    } catch (e: unknown) {
+      if (disposed || seq !== loadSeq) return;
+      console.error("[Model01]", e);
+      showLoadError(e);
+    }
+  }
+
+  // ── Drag & drop ──
+  const onDragOver = (e: DragEvent): void => {
+    e.preventDefault();
+    dropZone.classList.add("drop-zone--active");
+  };
+  const onDragLeave = (): void => dropZone.classList.remove("drop-zone--active");
+  const onDrop = (e: DragEvent): void => {
+    e.preventDefault();
+    dropZone.classList.remove("drop-zone--active");
+    const files = [...(e.dataTransfer?.files ?? [])];
+    const main = files.find((f) => [".obj", ...GLTF_EXTENSIONS].some((ext) => f.name.toLowerCase().endsWith(ext)));
+    if (!main) {
+      showLoadError(new Error("드롭한 파일 중에 .obj / .gltf / .glb 파일이 없습니다"));
+      return;
+    }
+    void load(fileSource(files), main.name);
+  };
+  dropZone.addEventListener("dragover", onDragOver);
+  dropZone.addEventListener("dragleave", onDragLeave);
+  dropZone.addEventListener("drop", onDrop);
+
+  // ── Start ──
+  gl.enable(gl.DEPTH_TEST);
+  resources.onRestored(() => gl.enable(gl.DEPTH_TEST));
+  resources.startLoop(frame);
+  void load(urlSource, MODELS[state.model].url);
+
+  // ── Cleanup (router calls this before the next route) ──
+  return () => {
+    disposed = true;
+    urlSync.cancel();
+    orbit.dispose();
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+  };
+}
@@ -0,0 +1,818 @@
+import { createGLCanvas, resizeCanvas, destroyGLCanvas } from "../core/gl/context";
+import type { ShaderProgram } from "../core/gl/program";
+import type { ShaderSourceSpec } from "../core/gl/shaderSource";
+import { GLResourceManager } from "../core/gl/resources";
+import type { GLResource } from "../core/gl/resources";
+import type { Geometry } from "../core/gl/geometry";
+import { supportsUint32Indices } from "../core/gl/geometry";
+import { loadImage, loadImageBlob, createTexture } from "../core/gl/texture";
+import { showShaderError } from "../app/errorOverlay";
+import { mountContextLossUI } from "../app/contextLoss";
+import type { Disposer, RouteMatch } from "../router";
+import {
+  numberField,
+  boolField,
+  enumField,
+  colorField,
+  readState,
+  createStateSync,
+} from "../app/urlState";
+import type { StateSchema } from "../app/urlState";
+import { Camera } from "../core/camera/camera";
+import { OrbitControls } from "../core/camera/orbitControls";
+import { createSphereMesh } from "../core/mesh/sphere";
+import { createBoxMesh } from "../core/mesh/primitives";
+import { toGeometryDesc } from "../core/mesh/mesh";
+import type { Mesh } from "../core/mesh/mesh";
+import { loadGltf } from "../core/loaders/gltf";
+import { createPbrMaterial } from "../core/material/pbrMaterial";
+import type { PbrMaterial, TextureRef } from "../core/material/pbrMaterial";
+import { identity, normalMatrix, translationInto } from "../core/math/mat4";
+import type { Mat3, Mat4 } from "../core/math/mat4";
+
+// ── Shader sources ──────────────────────────────────────────
+
+const ATTRIBS = { a_position: 0, a_normal: 1, a_uv: 2, a_tangent: 3 };
+const LIGHT_COUNT = 4;
+
+/** 재질 텍스처의 유닛 번호. 셰이더의 sampler 이름과 짝을 이룬다. */
+const TEXTURE_UNITS = {
+  u_baseColorTex: 0,
+  u_metallicRoughnessTex: 1,
+  u_normalTex: 2,
+  u_occlusionTex: 3,
+  u_emissiveTex: 4,
+} as const;
+
+const SHADER: ShaderSourceSpec = {
+  vertex: `
+in vec3 a_position;
+in vec3 a_normal;
+in vec2 a_uv;
+in vec4 a_tangent;
+uniform mat4 u_viewProj;
+uniform mat4 u_model;
+uniform mat3 u_normalMatrix;
+out vec3 v_worldPos;
+out vec3 v_normal;
+out vec2 v_uv;
+out vec4 v_tangent;
+
+void main() {
+  vec4 world = u_model * vec4(a_position, 1.0);
+  v_worldPos = world.xyz;
+  v_normal = u_normalMatrix * a_normal;
+  // Tangents lie in the surface, so they follow the model matrix (not the normal matrix)
+  v_tangent = vec4((u_model * vec4(a_tangent.xyz, 0.0)).xyz, a_tangent.w);
+  v_uv = a_uv;
+  gl_Position = u_viewProj * world;
+}`,
+  fragment: `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+#include <colorspace>
+#include <pbr>
+#include <tonemap>
+
+in vec3 v_worldPos;
+in vec3 v_normal;
+in vec2 v_uv;
+in vec4 v_tangent;
+
+// Material (glTF metallic-roughness). Factors are linear.
+uniform vec4 u_baseColorFactor;
+uniform float u_metallicFactor;
+uniform float u_roughnessFactor;
+uniform vec3 u_emissiveFactor;
+uniform float u_normalScale;
+uniform float u_occlusionStrength;
+uniform int u_hasNormalTex;
+uniform float u_alphaCutoff; // < 0 disables alpha testing
+uniform int u_doubleSided;
+
+uniform sampler2D u_baseColorTex;         // sRGB
+uniform sampler2D u_metallicRoughnessTex; // linear, G = roughness, B = metallic
+uniform sampler2D u_normalTex;            // linear, tangent space
+uniform sampler2D u_occlusionTex;         // linear, R
+uniform sampler2D u_emissiveTex;          // sRGB
+
+// Point lights: radiance = color / d^2
+uniform vec3 u_lightPositions[${LIGHT_COUNT}];
+uniform vec3 u_lightColors[${LIGHT_COUNT}];
+uniform vec3 u_ambient;
+uniform vec3 u_eye;
+uniform float u_exposure;  // linear multiplier (2^EV)
+uniform int u_toneMap;     // 0 none (clamp), 1 Reinhard, 2 ACES
+uniform int u_debug;       // 0 final, 1 base color, 2 metallic, 3 roughness, 4 normal, 5 occlusion, 6 emissive
+
+out vec4 fragColor;
+
+vec3 surfaceNormal() {
+  vec3 n = normalize(v_normal);
+  // Back faces of double-sided materials are lit from their own side
+  if (u_doubleSided == 1 && !gl_FrontFacing) n = -n;
+  if (u_hasNormalTex == 0) return n;
+
+  vec3 t = normalize(v_tangent.xyz - n * dot(n, v_tangent.xyz));
+  vec3 b = cross(n, t) * v_tangent.w;
+  vec3 tn = texture(u_normalTex, v_uv).xyz * 2.0 - 1.0;
+  tn.xy *= u_normalScale;
+  return normalize(mat3(t, b, n) * tn);
+}
+
+void main() {
+  vec4 baseSample = texture(u_baseColorTex, v_uv);
+  vec4 base = u_baseColorFactor * vec4(srgbToLinear(baseSample.rgb), baseSample.a);
+  if (base.a < u_alphaCutoff) discard;
+
+  vec4 mr = texture(u_metallicRoughnessTex, v_uv);
+  float metallic = clamp(u_metallicFactor * mr.b, 0.0, 1.0);
+  // Very low roughness makes the GGX lobe a sub-pixel spike
+  float roughness = clamp(u_roughnessFactor * mr.g, 0.04, 1.0);
+  float ao = 1.0 + u_occlusionStrength * (texture(u_occlusionTex, v_uv).r - 1.0);
+  vec3 emissive = u_emissiveFactor * srgbToLinear(texture(u_emissiveTex, v_uv).rgb);
+
+  vec3 n = surfaceNormal();
+  vec3 v = normalize(u_eye - v_worldPos);
+
+  vec3 color = u_ambient * base.rgb * ao;
+  for (int i = 0; i < ${LIGHT_COUNT}; i++) {
+    vec3 toLight = u_lightPositions[i] - v_worldPos;
+    float d2 = max(dot(toLight, toLight), 1e-4);
+    color += cookTorrance(n, v, toLight * inversesqrt(d2), u_lightColors[i] / d2, base.rgb, metallic, roughness);
+  }
+  color += emissive;
+
+  if (u_debug == 1) color = base.rgb;
+  else if (u_debug == 2) color = srgbToLinear(vec3(metallic));
+  else if (u_debug == 3) color = srgbToLinear(vec3(roughness));
+  else if (u_debug == 4) color = srgbToLinear(n * 0.5 + 0.5);
+  else if (u_debug == 5) color = srgbToLinear(vec3(ao));
+  else if (u_debug == 6) color = emissive;
+  else {
+    color *= u_exposure;
+    if (u_toneMap == 1) color = tonemapReinhard(color);
+    else if (u_toneMap == 2) color = tonemapACES(color);
+  }
+
+  // Data views are converted to linear above so they show their raw value after gamma
+  fragColor = vec4(linearToSrgb(clamp(color, 0.0, 1.0)), 1.0);
+}`,
+  attributes: ATTRIBS,
+};
+
+// ── Lab state ───────────────────────────────────────────────
+
+type SceneId = "grid" | "tiles" | "gltf";
+type ToneMap = "none" | "reinhard" | "aces";
+type DebugView = "final" | "basecolor" | "metallic" | "roughness" | "normal" | "occlusion" | "emissive";
+
+const SCENE_IDS: SceneId[] = ["grid", "tiles", "gltf"];
+const TONE_MAPS: ToneMap[] = ["none", "reinhard", "aces"];
+const TONE_MAP_INDEX: Record<ToneMap, number> = { none: 0, reinhard: 1, aces: 2 };
+const DEBUG_VIEWS: DebugView[] = ["final", "basecolor", "metallic", "roughness", "normal", "occlusion", "emissive"];
+
+interface PbrState {
+  scene: SceneId;
+  debug: DebugView;
+  toneMap: ToneMap;
+  /** 노출 (EV). 톤 매핑 전에 2^exposure를 곱한다 */
+  exposure: number;
+  /** Grid 씬의 base color (sRGB). 셰이더에는 linear로 바꿔 넘긴다 */
+  baseColor: string;
+  lightColor: string;
+  lightIntensity: number;
+  ambient: number;
+  normalMap: boolean;
+  occlusionMap: boolean;
+  emissiveMap: boolean;
+  animate: boolean;
+}
+
+const DEFAULT_STATE: Readonly<PbrState> = {
+  scene: "grid",
+  debug: "final",
+  toneMap: "aces",
+  exposure: 0,
+  baseColor: "#c0392b",
+  lightColor: "#ffffff",
+  lightIntensity: 15,
+  ambient: 0.03,
+  normalMap: true,
+  occlusionMap: true,
+  emissiveMap: true,
+  animate: false,
+};
+
+/** URL query ↔ PbrState 매핑. 범위는 컨트롤과 동일하다. */
+const STATE_SCHEMA: StateSchema<PbrState> = {
+  scene: enumField("scene", SCENE_IDS),
+  debug: enumField("debug", DEBUG_VIEWS),
+  toneMap: enumField("tone", TONE_MAPS),
+  exposure: numberField("ev", -4, 4),
+  baseColor: colorField("base"),
+  lightColor: colorField("lightc"),
+  lightIntensity: numberField("light", 0, 50),
+  ambient: numberField("amb", 0, 0.3),
+  normalMap: boolField("nmap"),
+  occlusionMap: boolField("ao"),
+  emissiveMap: boolField("emissive"),
+  animate: boolField("animate"),
+};
+
+/** 광원 4개의 기준 위치. 씬마다 lightScale을 곱해 씬 크기에 맞춘다. */
+const LIGHT_POSITIONS: [number, number, number][] = [
+  [-1, 1, 1.3],
+  [1, 1, 1.3],
+  [-1, -1, 1.3],
+  [1, -1, 1.3],
+];
+
+const GRID_SIZE = 5;
+const GRID_SPACING = 2.2;
+const MIN_GRID_ROUGHNESS = 0.05;
+
+const TILE_TEXTURES = ["basecolor", "metallic-roughness", "normal", "occlusion", "emissive"] as const;
+
+// ── Scenes ──────────────────────────────────────────────────
+
+/** 그릴 단위 하나. textures는 material의 TextureRef.index가 가리키는 표다. */
+interface Drawable {
+  geometry: GLResource<Geometry>;
+  model: Mat4;
+  normalMatrix: Mat3;
+  material: PbrMaterial;
+  textures: ReadonlyArray<GLResource<WebGLTexture> | null>;
+}
+
+interface LoadedScene {
+  drawables: Drawable[];
+  /** 씬이 만든 GPU 리소스. 씬을 바꿀 때 한꺼번에 해제한다 */
+  owned: { release(): void }[];
+  eye: [number, number, number];
+  target: [number, number, number];
+  /**
+   * 광원 위치에 곱하는 값. 세기에는 제곱을 곱해 씬 중심에서 받는 조도가 씬 크기와 무관하게 같다.
+   */
+  lightScale: number;
+  info: string[];
+}
+
+const IDENTITY3: Mat3 = new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+
+/** "#rrggbb" (sRGB) → linear [r, g, b]. 셰이더의 srgbToLinear와 같은 2.2 근사. */
+function hexToLinear(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255].map((c) => Math.pow(c / 255, 2.2)) as [number, number, number];
+}
+
+async function fetchOk(path: string): Promise<Response> {
+  const res = await fetch(path);
+  if (!res.ok) throw new Error(`${path}: HTTP ${res.status}`);
+  return res;
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+function showError(container: HTMLElement, message: string): void {
+  const el = document.createElement("div");
+  el.className = "gl-error";
+  el.textContent = message;
+  container.appendChild(el);
+}
+
+// ── Control builders ────────────────────────────────────────
+
+function createSlider(
+  label: string,
+  min: number,
+  max: number,
+  step: number,
+  value: number,
+  onChange: (v: number) => void,
+): { row: HTMLElement; input: HTMLInputElement; valueSpan: HTMLSpanElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const input = document.createElement("input");
+  input.type = "range";
+  input.min = String(min);
+  input.max = String(max);
+  input.step = String(step);
+  input.value = String(value);
+  input.style.cssText = "flex:1;accent-color:#6c8cff;";
+
+  const valueSpan = document.createElement("span");
+  valueSpan.className = "ctrl-value";
+  valueSpan.textContent = String(value);
+
+  input.addEventListener("input", () => {
+    const v = parseFloat(input.value);
+    valueSpan.textContent = String(v);
+    onChange(v);
+  });
+
+  row.append(lbl, input, valueSpan);
+  return { row, input, valueSpan };
+}
+
+function createCheckbox(
+  label: string,
+  checked: boolean,
+  onChange: (v: boolean) => void,
+): { row: HTMLElement; input: HTMLInputElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const input = document.createElement("input");
+  input.type = "checkbox";
+  input.checked = checked;
+  input.style.cssText = "accent-color:#6c8cff;width:18px;height:18px;cursor:pointer;";
+  input.addEventListener("change", () => onChange(input.checked));
+
+  row.append(lbl, input);
+  return { row, input };
+}
+
+function createSelect<T extends string>(
+  label: string,
+  options: { value: T; label: string }[],
+  value: T,
+  onChange: (v: T) => void,
+): { row: HTMLElement; select: HTMLSelectElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const select = document.createElement("select");
+  select.className = "ctrl-select";
+  for (const opt of options) {
+    const o = document.createElement("option");
+    o.value = opt.value;
+    o.textContent = opt.label;
+    if (opt.value === value) o.selected = true;
+    select.appendChild(o);
+  }
+  select.addEventListener("change", () => onChange(select.value as T));
+
+  row.append(lbl, select);
+  return { row, select };
+}
+
+function createColorPicker(
+  label: string,
+  value: string,
+  onChange: (v: string) => void,
+): { row: HTMLElement; input: HTMLInputElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const input = document.createElement("input");
+  input.type = "color";
+  input.className = "ctrl-color";
+  input.value = value;
+  input.addEventListener("input", () => onChange(input.value));
+
+  row.append(lbl, input);
+  return { row, input };
+}
+
+/** 제목이 붙은 컨트롤 묶음. */
+function createGroup(title: string, ...rows: HTMLElement[]): HTMLElement {
+  const group = document.createElement("div");
+  const heading = document.createElement("div");
+  heading.className = "ctrl-group-title";
+  heading.textContent = title;
+  group.append(heading, ...rows);
+  return group;
+}
+
+// ── Main export ─────────────────────────────────────────────
+
+export function renderPbr01(
+  container: HTMLElement,
+  route: RouteMatch,
+): Disposer | void {
+  // ── Header ──
+  const title = document.createElement("h1");
+  title.className = "page-title";
+  title.textContent = "Pbr01";
+
+  const desc = document.createElement("p");
+  desc.className = "page-desc";
+  desc.innerHTML = [
+    "glTF 2.0의 <b>metallic-roughness</b> 재질을 Cook-Torrance BRDF(GGX 분포 · Smith 기하 · Schlick Fresnel)와 점광원 4개로 그립니다.",
+    "<b>Grid</b>: 가로로 metallic 0→1, 세로로 roughness 0.05→1. 금속은 diffuse가 없고 base color가 반사색(F0)이 됩니다.",
+    "조명은 <b>linear</b> 공간에서 더한 뒤 노출 → 톤 매핑(Reinhard / ACES) → 감마 순으로 화면 값을 만듭니다. base color·emissive 텍스처는 sRGB라 셰이더에서 linear로 바꿔 씁니다.",
+    "<b>Tiles</b>는 baseColor · metallicRoughness · normal · occlusion · emissive 텍스처를 모두 쓰고, <b>glTF</b>는 Boxes 모델의 재질을 로더가 돌려준 그대로 씁니다.",
+  ].join("<br>");
+
+  container.append(title, desc);
+
+  // ── Canvas ──
+  const canvasWrap = document.createElement("div");
+  container.appendChild(canvasWrap);
+
+  let ctx;
+  try {
+    ctx = createGLCanvas(canvasWrap);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("[Pbr01]", msg);
+    showError(canvasWrap, msg);
+    return;
+  }
+
+  const { canvas, gl } = ctx;
+  const resources = new GLResourceManager(ctx);
+  const unmountLossUI = mountContextLossUI(canvasWrap, resources);
+
+  // ── Shader program ──
+  let program: GLResource<ShaderProgram>;
+  try {
+    program = resources.program(SHADER, "Pbr01");
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("[Pbr01]", msg);
+    showShaderError(canvasWrap, e);
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+    return;
+  }
+
+  // 텍스처가 없는 슬롯에 묶어 둘 1×1 흰색 텍스처. factor만 남는다 (glTF 규칙과 같다)
+  const white = resources.texture((g) => {
+    const tex = g.createTexture();
+    if (!tex) throw new Error("WebGL 텍스처 객체 생성 실패");
+    g.bindTexture(g.TEXTURE_2D, tex);
+    g.texImage2D(g.TEXTURE_2D, 0, g.RGBA, 1, 1, 0, g.RGBA, g.UNSIGNED_BYTE, new Uint8Array([255, 255, 255, 255]));
+    g.bindTexture(g.TEXTURE_2D, null);
+    return tex;
+  });
+
+  // ── Camera ──
+  const camera = new Camera({ position: [0, 0, 14], target: [0, 0, 0] });
+  const orbit = new OrbitControls(camera, canvas, { minDistance: 1, maxDistance: 60 });
+
+  // ── State ──
+  const state: PbrState = readState(route.query, STATE_SCHEMA, DEFAULT_STATE);
+  const urlSync = createStateSync(STATE_SCHEMA, DEFAULT_STATE);
+  const update = (): void => urlSync.write(state);
+  const uint32Indices = supportsUint32Indices(gl);
+
+  let scene: LoadedScene | null = null;
+  let disposed = false;
+  let loadSeq = 0;
+  let lightAngle = 0;
+  let lastNow = 0;
+  const lightPos = new Float32Array(3);
+
+  function geometry(mesh: Mesh): GLResource<Geometry> {
+    return resources.geometry(toGeometryDesc(mesh, ATTRIBS), ATTRIBS);
+  }
+
+  function gridScene(): LoadedScene {
+    const sphere = geometry(createSphereMesh(0.8, 32, 64));
+    const drawables: Drawable[] = [];
+    const half = ((GRID_SIZE - 1) * GRID_SPACING) / 2;
+    const t = 1 / (GRID_SIZE - 1);
+    for (let row = 0; row < GRID_SIZE; row++) {
+      for (let col = 0; col < GRID_SIZE; col++) {
+        drawables.push({
+          geometry: sphere,
+          model: translationInto(identity(), col * GRID_SPACING - half, half - row * GRID_SPACING, 0),
+          normalMatrix: IDENTITY3,
+          // baseColorFactor는 매 프레임 state.baseColor로 덮어쓴다
+          material: createPbrMaterial({
+            name: `m${col} r${row}`,
+            metallicFactor: col * t,
+            roughnessFactor: Math.max(row * t, MIN_GRID_ROUGHNESS),
+          }),
+          textures: [],
+        });
+      }
+    }
+    return {
+      drawables,
+      owned: [sphere],
+      eye: [0, 0, 14],
+      target: [0, 0, 0],
+      lightScale: 8,
+      info: [
+        `${GRID_SIZE}×${GRID_SIZE} spheres — metallic 0 → 1 (왼쪽 → 오른쪽), roughness ${MIN_GRID_ROUGHNESS} → 1 (위 → 아래)`,
+      ],
+    };
+  }
+
+  async function tilesScene(): Promise<LoadedScene> {
+    const images = await Promise.all(TILE_TEXTURES.map((name) => loadImage(`/textures/tiles/${name}.png`)));
+    // 메쉬의 uv는 v가 위쪽이므로 flipY로 올린다. 이미지 순서가 곧 TextureRef.index다
+    const textures = images.map((image) =>
+      resources.texture((g) => createTexture(g, image, { flipY: true, wrapS: g.REPEAT, wrapT: g.REPEAT, minFilter: g.LINEAR_MIPMAP_LINEAR })),
+    );
+    const ref = (index: number): TextureRef => ({ index, texCoord: 0 });
+    const material = createPbrMaterial({
+      name: "tiles",
+      baseColorTexture: ref(0),
+      metallicRoughnessTexture: ref(1),
+      normalTexture: { ...ref(2), scale: 1 },
+      occlusionTexture: { ...ref(3), strength: 1 },
+      emissiveFactor: [2, 2, 2],
+      emissiveTexture: ref(4),
+    });
+    const sphere = geometry(createSphereMesh(1, 48, 96));
+    const box = geometry(createBoxMesh(1.6, 1.6, 1.6));
+    return {
+      drawables: [
+        { geometry: sphere, model: translationInto(identity(), -1.4, 0, 0), normalMatrix: IDENTITY3, material, textures },
+        { geometry: box, model: translationInto(identity(), 1.4, 0, 0), normalMatrix: IDENTITY3, material, textures },
+      ],
+      owned: [...textures, sphere, box],
+      eye: [0, 1.2, 5.5],
+      target: [0, 0, 0],
+      lightScale: 3,
+      info: [`textures: ${TILE_TEXTURES.join(", ")} (256×256)`],
+    };
+  }
+
+  async function gltfScene(): Promise<LoadedScene> {
+    const path = "/models/boxes.glb";
+    const asset = await loadGltf(await (await fetchOk(path)).arrayBuffer(), { uint32Indices });
+    const info: string[] = [];
+    const owned: { release(): void }[] = [];
+
+    const textures: (GLResource<WebGLTexture> | null)[] = [];
+    for (const tex of asset.textures) {
+      if (tex.image === null) {
+        textures.push(null);
+        continue;
+      }
+      const image = asset.images[tex.image];
+      try {
+        // slice: Blob은 SharedArrayBuffer 뷰를 받지 않는다
+        const decoded = await loadImageBlob(new Blob([image.bytes.slice()], { type: image.mimeType }));
+        const resource = resources.texture((g) => createTexture(g, decoded, tex.sampler));
+        owned.push(resource);
+        textures.push(resource);
+      } catch (e: unknown) {
+        // 디코딩 실패, 또는 WebGL1의 NPOT 제약으로 sampler를 쓸 수 없는 경우
+        textures.push(null);
+        info.push(`⚠ 이미지 "${image.name}"으로 텍스처를 만들지 못했습니다 — ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+
+    // primitive에 재질이 없으면 glTF 기본 재질(흰색, metallic 1, roughness 1)을 쓴다
+    const defaultMaterial = createPbrMaterial({ name: "default" });
+    const drawables: Drawable[] = [];
+    for (const node of asset.nodes) {
+      if (node.mesh === null) continue;
+      for (const primitive of asset.meshes[node.mesh].primitives) {
+        if (primitive.mesh.primitive !== "triangles") continue;
+        const geo = geometry(primitive.mesh);
+        owned.push(geo);
+        drawables.push({
+          geometry: geo,
+          model: node.worldMatrix,
+          normalMatrix: normalMatrix(node.worldMatrix) ?? IDENTITY3,
+          material: primitive.material !== null ? asset.materials[primitive.material] : defaultMaterial,
+          textures,
+        });
+      }
+    }
+
+    for (const m of asset.materials) {
+      const [r, g, b] = m.baseColorFactor;
+      info.push(
+        `${m.name}: base (${r.toFixed(2)}, ${g.toFixed(2)}, ${b.toFixed(2)}) · metallic ${m.metallicFactor} · roughness ${m.roughnessFactor}` +
+          (m.baseColorTexture ? ` · baseColorTexture #${m.baseColorTexture.index}` : "") +
+          (m.doubleSided ? " · doubleSided" : "") +
+          (m.alphaMode !== "OPAQUE" ? ` · ${m.alphaMode}` : ""),
+      );
+    }
+    return { drawables, owned, eye: [4, 3.5, 5], target: [0, 0.6, 0], lightScale: 4, info };
+  }
+
+  function releaseScene(): void {
+    for (const r of scene?.owned ?? []) r.release();
+    scene = null;
+  }
+
+  async function loadScene(id: SceneId): Promise<void> {
+    const seq = ++loadSeq;
+    releaseScene();
+    readout.textContent = "loading…";
+    try {
+      const loaded = id === "grid" ? gridScene() : id === "tiles" ? await tilesScene() : await gltfScene();
+      // 로딩 중에 다른 씬을 골랐거나 페이지를 떠났으면 버린다
+      if (disposed || seq !== loadSeq) {
+        for (const r of loaded.owned) r.release();
+        return;
+      }
+      scene = loaded;
+      camera.position.set(loaded.eye);
+      camera.target.set(loaded.target);
+      orbit.syncFromCamera();
+      orbit.saveState();
+      readout.textContent = [`${loaded.drawables.length} draws`, ...loaded.info].join("\n");
+    } catch (e: unknown) {
+      if (disposed || seq !== loadSeq) return;
+      const msg = e instanceof Error ? e.message : String(e);
+      console.error("[Pbr01]", msg);
+      readout.textContent = `⚠ ${msg}`;
+    }
+  }
+
+  function bindTexture(
+    p: ShaderProgram,
+    sampler: keyof typeof TEXTURE_UNITS,
+    ref: TextureRef | null,
+    table: Drawable["textures"],
+  ): boolean {
+    const tex = ref ? table[ref.index] ?? null : null;
+    gl.activeTexture(gl.TEXTURE0 + TEXTURE_UNITS[sampler]);
+    gl.bindTexture(gl.TEXTURE_2D, (tex ?? white).value);
+    p.setSampler(sampler, TEXTURE_UNITS[sampler]);
+    return tex !== null;
+  }
+
+  function setMaterial(p: ShaderProgram, d: Drawable): void {
+    const m = d.material;
+    const gridBase = state.scene === "grid" ? hexToLinear(state.baseColor) : null;
+    p.setVec4("u_baseColorFactor", gridBase ? [...gridBase, 1] : m.baseColorFactor);
+    p.setFloat("u_metallicFactor", m.metallicFactor);
+    p.setFloat("u_roughnessFactor", m.roughnessFactor);
+    p.setVec3("u_emissiveFactor", state.emissiveMap ? m.emissiveFactor : [0, 0, 0]);
+    p.setFloat("u_normalScale", m.normalTexture?.scale ?? 1);
+    p.setFloat("u_occlusionStrength", state.occlusionMap && m.occlusionTexture ? m.occlusionTexture.strength : 0);
+    // BLEND는 정렬 없이 불투명하게 그린다
+    p.setFloat("u_alphaCutoff", m.alphaMode === "MASK" ? m.alphaCutoff : -1);
+    p.setInt("u_doubleSided", m.doubleSided ? 1 : 0);
+
+    bindTexture(p, "u_baseColorTex", m.baseColorTexture, d.textures);
+    bindTexture(p, "u_metallicRoughnessTex", m.metallicRoughnessTexture, d.textures);
+    const hasNormal = bindTexture(p, "u_normalTex", m.normalTexture, d.textures);
+    p.setInt("u_hasNormalTex", hasNormal && state.normalMap ? 1 : 0);
+    bindTexture(p, "u_occlusionTex", m.occlusionTexture, d.textures);
+    bindTexture(p, "u_emissiveTex", m.emissiveTexture, d.textures);
+
+    if (m.doubleSided) gl.disable(gl.CULL_FACE);
+    else gl.enable(gl.CULL_FACE);
+  }
+
+  function setLights(p: ShaderProgram, lightScale: number): void {
+    const [r, g, b] = hexToLinear(state.lightColor);
+    const intensity = state.lightIntensity * lightScale * lightScale;
+    const cos = Math.cos(lightAngle);
+    const sin = Math.sin(lightAngle);
+    LIGHT_POSITIONS.forEach(([x, y, z], i) => {
+      // Y축 회전
+      lightPos[0] = (x * cos + z * sin) * lightScale;
+      lightPos[1] = y * lightScale;
+      lightPos[2] = (-x * sin + z * cos) * lightScale;
+      p.setVec3(`u_lightPositions[${i}]`, lightPos);
+      p.setVec3(`u_lightColors[${i}]`, [r * intensity, g * intensity, b * intensity]);
+    });
+    p.setVec3("u_ambient", [state.ambient, state.ambient, state.ambient]);
+    p.setVec3("u_eye", camera.position);
+    p.setFloat("u_exposure", Math.pow(2, state.exposure));
+    p.setInt("u_toneMap", TONE_MAP_INDEX[state.toneMap]);
+    p.setInt("u_debug", DEBUG_VIEWS.indexOf(state.debug));
+  }
+
+  function frame(now: number): void {
+    const dt = lastNow ? Math.min((now - lastNow) / 1000, 0.1) : 0;
+    lastNow = now;
+    if (state.animate) lightAngle += dt * 0.6;
+
+    resizeCanvas(gl, canvas);
+    gl.clearColor(0.02, 0.02, 0.03, 1.0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+
+    orbit.update();
+    camera.updateAspect(canvas);
+    camera.update();
+    if (!scene) return;
+
+    const p = program.value;
+    p.use();
+    p.setMat4("u_viewProj", camera.viewProjection);
+    setLights(p, scene.lightScale);
+
+    for (const d of scene.drawables) {
+      p.setMat4("u_model", d.model);
+      p.setMat3("u_normalMatrix", d.normalMatrix);
+      setMaterial(p, d);
+      d.geometry.value.draw();
+    }
+  }
+
+  // ── Controls ──
+  const panel = document.createElement("div");
+  panel.className = "ctrl-panel ctrl-groups";
+
+  const sceneSel = createSelect<SceneId>(
+    "Scene",
+    [
+      { value: "grid", label: "Grid — metallic × roughness" },
+      { value: "tiles", label: "Tiles — 재질 텍스처 5종" },
+      { value: "gltf", label: "glTF — boxes.glb" },
+    ],
+    state.scene,
+    (v) => { state.scene = v; update(); void loadScene(v); },
+  );
+  const debugSel = createSelect<DebugView>(
+    "Debug",
+    [
+      { value: "final", label: "Final" },
+      { value: "basecolor", label: "Base color" },
+      { value: "metallic", label: "Metallic" },
+      { value: "roughness", label: "Roughness" },
+      { value: "normal", label: "Normal (world)" },
+      { value: "occlusion", label: "Occlusion" },
+      { value: "emissive", label: "Emissive" },
+    ],
+    state.debug,
+    (v) => { state.debug = v; update(); },
+  );
+  const animateCheck = createCheckbox("Animate lights", state.animate, (v) => { state.animate = v; update(); });
+
+  const toneSel = createSelect<ToneMap>(
+    "Tone map",
+    [
+      { value: "none", label: "None (clamp)" },
+      { value: "reinhard", label: "Reinhard" },
+      { value: "aces", label: "ACES (filmic)" },
+    ],
+    state.toneMap,
+    (v) => { state.toneMap = v; update(); },
+  );
+  const exposureSlider = createSlider("Exposure EV", -4, 4, 0.1, state.exposure, (v) => { state.exposure = v; update(); });
+
+  const basePicker = createColorPicker("Base (Grid)", state.baseColor, (v) => { state.baseColor = v; update(); });
+  const normalCheck = createCheckbox("Normal map", state.normalMap, (v) => { state.normalMap = v; update(); });
+  const occlusionCheck = createCheckbox("Occlusion", state.occlusionMap, (v) => { state.occlusionMap = v; update(); });
+  const emissiveCheck = createCheckbox("Emissive", state.emissiveMap, (v) => { state.emissiveMap = v; update(); });
+
+  const lightPicker = createColorPicker("Color", state.lightColor, (v) => { state.lightColor = v; update(); });
+  const lightSlider = createSlider("Intensity", 0, 50, 0.5, state.lightIntensity, (v) => { state.lightIntensity = v; update(); });
+  const ambientSlider = createSlider("Ambient", 0, 0.3, 0.005, state.ambient, (v) => { state.ambient = v; update(); });
+
+  const resetViewBtn = document.createElement("button");
+  resetViewBtn.className = "btn";
+  resetViewBtn.textContent = "Reset view";
+  resetViewBtn.addEventListener("click", () => orbit.reset());
+
+  panel.append(
+    createGroup("Scene", sceneSel.row, debugSel.row, animateCheck.row, resetViewBtn),
+    createGroup("Output", toneSel.row, exposureSlider.row),
+    createGroup("Material", basePicker.row, normalCheck.row, occlusionCheck.row, emissiveCheck.row),
+    createGroup("Lights (4 × point, 1 / d²)", lightPicker.row, lightSlider.row, ambientSlider.row),
+  );
+
+  const readoutTitle = document.createElement("div");
+  readoutTitle.className = "readout-title";
+  readoutTitle.textContent = "Scene";
+  const readout = document.createElement("pre");
+  readout.className = "readout";
+
+  container.append(panel, readoutTitle, readout);
+
+  // ── Start ──
+  gl.enable(gl.DEPTH_TEST);
+  gl.enable(gl.CULL_FACE);
+  resources.onRestored(() => {
+    gl.enable(gl.DEPTH_TEST);
+    gl.enable(gl.CULL_FACE);
+  });
+  void loadScene(state.scene);
+  resources.startLoop(frame);
+
+  // ── Cleanup (router calls this before the next route) ──
+  return () => {
+    disposed = true;
+    urlSync.cancel();
+    orbit.dispose();
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+  };
+}
@@ -1,15 +1,661 @@
-export function renderProjection01(container: HTMLElement): void {
+import { createGLCanvas, resizeCanvas, destroyGLCanvas } from "../core/gl/context";
+import type { ShaderProgram } from "../core/gl/program";
+import type { ShaderSourceSpec } from "../core/gl/shaderSource";
+import type { GeometryDesc } from "../core/gl/geometry";
+import { GLResourceManager } from "../core/gl/resources";
+import type { GLResource } from "../core/gl/resources";
+import { showShaderError } from "../app/errorOverlay";
+import { mountContextLossUI } from "../app/contextLoss";
+import type { Disposer, RouteMatch } from "../router";
+import {
+  numberField,
+  enumField,
+  readState,
+  createStateSync,
+} from "../app/urlState";
+import type { StateSchema } from "../app/urlState";
+import {
+  multiplyInto,
+  invertInto,
+  perspectiveInto,
+  orthoInto,
+  translationInto,
+  scalingInto,
+} from "../core/math/mat4";
+import type { Mat4 } from "../core/math/mat4";
+import { Camera } from "../core/camera/camera";
+import type { CameraController } from "../core/camera/camera";
+import { OrbitControls } from "../core/camera/orbitControls";
+import { createBoxMesh } from "../core/mesh/primitives";
+import { toGeometryDesc } from "../core/mesh/mesh";
+
+// ── Shader sources ──────────────────────────────────────────
+
+const ATTRIBS = { a_position: 0, a_normal: 1 };
+
+const SOLID_SHADER: ShaderSourceSpec = {
+  vertex: `
+in vec3 a_position;
+in vec3 a_normal;
+uniform mat4 u_mvp;
+out vec3 v_normal;
+void main() {
+  v_normal = a_normal;
+  gl_Position = u_mvp * vec4(a_position, 1.0);
+}`,
+  fragment: `
+precision mediump float;
+in vec3 v_normal;
+uniform vec3 u_color;
+out vec4 fragColor;
+
+#include <lighting>
+
+void main() {
+  float diffuse = lambert(normalize(v_normal), normalize(vec3(0.4, 0.8, 0.5)));
+  fragColor = vec4(u_color * (0.25 + 0.75 * diffuse), 1.0);
+}`,
+  attributes: ATTRIBS,
+};
+
+const LINE_SHADER: ShaderSourceSpec = {
+  vertex: `
+in vec3 a_position;
+uniform mat4 u_mvp;
+void main() {
+  gl_Position = u_mvp * vec4(a_position, 1.0);
+}`,
+  fragment: `
+precision mediump float;
+uniform vec4 u_color;
+out vec4 fragColor;
+void main() {
+  fragColor = u_color;
+}`,
+  attributes: ATTRIBS,
+};
+
+// ── Scene ───────────────────────────────────────────────────
+//
+// 렌더링 대상 카메라는 원점에서 -Z를 바라본다 (view = identity).
+// 따라서 아래 readout의 행렬이 곧 투영 행렬이고, 물체의 -z가 곧 눈으로부터의 거리다.
+
+interface SceneObject {
+  position: [number, number, number];
+  size: number;
+  color: [number, number, number];
+}
+
+const OBJECTS: SceneObject[] = [
+  { position: [-1.5, -0.4, -3], size: 0.8, color: [0.93, 0.42, 0.45] },
+  { position: [1.2, 0.1, -5], size: 1.0, color: [0.98, 0.72, 0.35] },
+  { position: [-0.6, 0.6, -8], size: 1.2, color: [0.55, 0.85, 0.45] },
+  { position: [2.2, -0.2, -11], size: 1.4, color: [0.4, 0.75, 0.95] },
+  { position: [-2.8, 0.3, -14], size: 1.6, color: [0.6, 0.55, 0.98] },
+  { position: [0.6, -0.3, -18], size: 1.8, color: [0.92, 0.55, 0.85] },
+];
+
+const GROUND_Y = -1.2;
+
+const GRID_COLOR = [0.35, 0.37, 0.45, 1];
+const FRUSTUM_COLOR = [1, 0.85, 0.3, 1];
+
+/** 바닥 격자 (y = GROUND_Y 평면의 선분들). */
+function gridGeometry(gl: WebGLRenderingContext | WebGL2RenderingContext): GeometryDesc {
+  const lines: number[] = [];
+  for (let x = -8; x <= 8; x += 1) lines.push(x, GROUND_Y, 2, x, GROUND_Y, -24);
+  for (let z = 2; z >= -24; z -= 1) lines.push(-8, GROUND_Y, z, 8, GROUND_Y, z);
+  return {
+    buffers: [{ data: new Float32Array(lines), attributes: [{ name: "a_position", size: 3 }] }],
+    mode: gl.LINES,
+  };
+}
+
+/** 절두체의 NDC 꼭짓점. 순서: near(-1) 4개 → far(+1) 4개, 각각 반시계. */
+const NDC_CORNERS = [
+  [-1, -1, -1], [1, -1, -1], [1, 1, -1], [-1, 1, -1],
+  [-1, -1, 1], [1, -1, 1], [1, 1, 1], [-1, 1, 1],
+];
+
+/** 12개 모서리 + 눈에서 near 꼭짓점으로 가는 4개 선 (꼭짓점 인덱스, 8 = 눈). */
+const FRUSTUM_EDGES = [
+  [0, 1], [1, 2], [2, 3], [3, 0],
+  [4, 5], [5, 6], [6, 7], [7, 4],
+  [0, 4], [1, 5], [2, 6], [3, 7],
+  [8, 0], [8, 1], [8, 2], [8, 3],
+];
+
+// ── State ───────────────────────────────────────────────────
+
+type ProjectionMode = "perspective" | "orthographic";
+
+interface ProjectionState {
+  mode: ProjectionMode;
+  fovDeg: number;
+  aspect: number;
+  near: number;
+  far: number;
+  /** 직교 투영의 세로 절반 높이. 가로는 × aspect */
+  orthoHeight: number;
+}
+
+const DEFAULT_STATE: Readonly<ProjectionState> = {
+  mode: "perspective",
+  fovDeg: 60,
+  aspect: 1.5,
+  near: 0.5,
+  far: 20,
+  orthoHeight: 3,
+};
+
+/** URL query ↔ ProjectionState 매핑. 범위는 슬라이더와 동일하다. */
+const STATE_SCHEMA: StateSchema<ProjectionState> = {
+  mode: enumField("mode", ["perspective", "orthographic"]),
+  fovDeg: numberField("fov", 10, 150),
+  aspect: numberField("aspect", 0.5, 3),
+  near: numberField("near", 0.001, 10),
+  far: numberField("far", 1, 100),
+  orthoHeight: numberField("h", 0.5, 10),
+};
+
+/** near 슬라이더는 0 근처를 세밀하게 다룰 수 있도록 log10 눈금을 쓴다. */
+const NEAR_LOG_MIN = -3;
+const NEAR_LOG_MAX = 1;
+
+// ── Projection math ─────────────────────────────────────────
+
+function projectionInto(out: Mat4, s: ProjectionState): Mat4 {
+  // far가 near보다 가까우면 행렬이 뒤집히므로 최소 간격을 둔다
+  const far = Math.max(s.far, s.near + 0.01);
+  if (s.mode === "perspective") {
+    return perspectiveInto(out, (s.fovDeg * Math.PI) / 180, s.aspect, s.near, far);
+  }
+  const h = s.orthoHeight;
+  const w = h * s.aspect;
+  return orthoInto(out, -w, w, -h, h, s.near, far);
+}
+
+interface DepthSample {
+  distance: number;
+  ndcZ: number;
+  /** 이 거리에서 24-bit depth buffer 한 단계에 해당하는 눈 공간 거리 */
+  step: number;
+}
+
+const DEPTH_BITS = 24;
+
+/**
+ * 눈으로부터의 거리 d(> 0)에 대한 NDC z와 depth 해상도.
+ *
+ *   perspective: z_ndc = (f+n)/(f-n) - 2fn / ((f-n)·d)   → 한 단계 ≈ d²(f-n) / (fn·2^24)
+ *   orthographic: z_ndc = (2d - f - n) / (f-n)          → 한 단계 = (f-n) / 2^24 (일정)
+ *
+ * depth buffer 값은 (z_ndc + 1) / 2 이므로 한 단계는 NDC로 2 / 2^24 이다.
+ */
+function depthSample(mode: ProjectionMode, n: number, f: number, d: number): DepthSample {
+  const levels = 2 ** DEPTH_BITS;
+  if (mode === "perspective") {
+    return {
+      distance: d,
+      ndcZ: (f + n) / (f - n) - (2 * f * n) / ((f - n) * d),
+      step: (d * d * (f - n)) / (f * n * levels),
+    };
+  }
+  return {
+    distance: d,
+    ndcZ: (2 * d - f - n) / (f - n),
+    step: (f - n) / levels,
+  };
+}
+
+function formatMatrix(m: Mat4): string {
+  const rows: string[] = [];
+  for (let r = 0; r < 4; r++) {
+    const cells: string[] = [];
+    for (let c = 0; c < 4; c++) cells.push(m[c * 4 + r].toFixed(3).padStart(9));
+    rows.push(`[${cells.join(" ")} ]`);
+  }
+  return rows.join("\n");
+}
+
+function formatLength(v: number): string {
+  return v >= 0.01 ? v.toFixed(4) : v.toExponential(2);
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+function showError(container: HTMLElement, message: string): void {
+  const el = document.createElement("div");
+  el.className = "gl-error";
+  el.textContent = message;
+  container.appendChild(el);
+}
+
+// ── Control builders ────────────────────────────────────────
+
+interface Slider {
+  row: HTMLElement;
+  input: HTMLInputElement;
+  valueSpan: HTMLSpanElement;
+  set(v: number): void;
+}
+
+/**
+ * log가 true면 슬라이더 위치는 log10(value)이다.
+ */
+function createSlider(
+  label: string,
+  min: number,
+  max: number,
+  step: number,
+  value: number,
+  onChange: (v: number) => void,
+  log: boolean = false,
+): Slider {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const input = document.createElement("input");
+  input.type = "range";
+  input.min = String(min);
+  input.max = String(max);
+  input.step = String(step);
+  input.style.cssText = "flex:1;accent-color:#6c8cff;";
+
+  const valueSpan = document.createElement("span");
+  valueSpan.className = "ctrl-value";
+
+  const format = (v: number): string => (log && v < 0.1 ? v.toFixed(3) : v.toFixed(2));
+  const set = (v: number): void => {
+    input.value = String(log ? Math.log10(v) : v);
+    valueSpan.textContent = format(v);
+  };
+  set(value);
+
+  input.addEventListener("input", () => {
+    const raw = parseFloat(input.value);
+    const v = log ? 10 ** raw : raw;
+    valueSpan.textContent = format(v);
+    onChange(v);
+  });
+
+  row.append(lbl, input, valueSpan);
+  return { row, input, valueSpan, set };
+}
+
+function createSelect<T extends string>(
+  label: string,
+  options: T[],
+  value: T,
+  onChange: (v: T) => void,
+): { row: HTMLElement; select: HTMLSelectElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const select = document.createElement("select");
+  select.className = "ctrl-select";
+  for (const opt of options) {
+    const o = document.createElement("option");
+    o.value = opt;
+    o.textContent = opt;
+    if (opt === value) o.selected = true;
+    select.appendChild(o);
+  }
+  select.addEventListener("change", () => onChange(select.value as T));
+
+  row.append(lbl, select);
+  return { row, select };
+}
+
+// ── Main export ─────────────────────────────────────────────
+
+export function renderProjection01(
+  container: HTMLElement,
+  route: RouteMatch,
+): Disposer | void {
+  // ── Header ──
   const title = document.createElement("h1");
   title.className = "page-title";
   title.textContent = "Projection01";
 
   const desc = document.createElement("p");
   desc.className = "page-desc";
-  desc.textContent = "직교·투영 행렬을 사용한 카메라 투영 기초.";
+  desc.innerHTML = [
+    "직교(orthographic)·원근(perspective) 투영 행렬을 비교합니다.",
+    "<b>왼쪽</b>: 카메라 시점. 투영 행렬이 절두체(frustum)를 NDC 큐브(-1 … 1)로 옮긴 결과입니다.",
+    "Aspect를 캔버스 비율과 다르게 두면 화면이 늘어나는 것을 확인하세요.",
+    "<b>오른쪽</b>: 관찰자 시점. 카메라 절두체를 와이어프레임으로 그립니다 (드래그로 회전, 휠로 확대/축소).",
+    "<b>Depth 정밀도</b>: 원근 투영에서 near를 0에 가깝게 하면 NDC z 대부분이 near 근처에 몰려 먼 곳의 depth 해상도가 급격히 나빠집니다.",
+  ].join("<br>");
+
+  container.append(title, desc);
+
+  // ── Canvas ──
+  const canvasWrap = document.createElement("div");
+  container.appendChild(canvasWrap);
+
+  let ctx;
+  try {
+    ctx = createGLCanvas(canvasWrap);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("[Projection01]", msg);
+    showError(canvasWrap, msg);
+    return;
+  }
+
+  const { canvas, gl } = ctx;
+  const resources = new GLResourceManager(ctx);
+  const unmountLossUI = mountContextLossUI(canvasWrap, resources);
+
+  // ── Shader programs ──
+  let solid: GLResource<ShaderProgram>;
+  let line: GLResource<ShaderProgram>;
+  try {
+    solid = resources.program(SOLID_SHADER, "Projection01/solid");
+    line = resources.program(LINE_SHADER, "Projection01/line");
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("[Projection01]", msg);
+    showShaderError(canvasWrap, e);
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+    return;
+  }
+
+  // ── Geometry ──
+  const cube = resources.geometry(toGeometryDesc(createBoxMesh(), ATTRIBS), ATTRIBS);
+  const grid = resources.geometry(gridGeometry(gl), ATTRIBS);
+
+  // 절두체 선분은 매 프레임 CPU에서 계산해 덮어쓴다 (복구 시에도 같은 배열로 다시 만든다)
+  const frustumVerts = new Float32Array(FRUSTUM_EDGES.length * 2 * 3);
+  const frustum = resources.geometry(
+    {
+      buffers: [{
+        data: frustumVerts,
+        attributes: [{ name: "a_position", size: 3 }],
+        usage: gl.DYNAMIC_DRAW,
+      }],
+      mode: gl.LINES,
+    },
+    ATTRIBS,
+  );
+
+  // ── Viewport labels ──
+  const labelMain = document.createElement("span");
+  labelMain.className = "viewport-label";
+  labelMain.textContent = "Camera view";
+  const labelObserver = document.createElement("span");
+  labelObserver.className = "viewport-label viewport-label--right";
+  labelObserver.textContent = "Observer view";
+  canvasWrap.append(labelMain, labelObserver);
+
+  // ── State ──
+  const state: ProjectionState = readState(route.query, STATE_SCHEMA, DEFAULT_STATE);
+  const urlSync = createStateSync(STATE_SCHEMA, DEFAULT_STATE);
+  const update = (): void => {
+    urlSync.write(state);
+    syncControls();
+  };
+
+  // ── Controls ──
+  const panel = document.createElement("div");
+  panel.className = "ctrl-panel projection-panel";
+
+  const modeSel = createSelect<ProjectionMode>(
+    "Projection",
+    ["perspective", "orthographic"],
+    state.mode,
+    (v) => { state.mode = v; update(); },
+  );
+  const fovSlider = createSlider("FOV Y (°)", 10, 150, 1, state.fovDeg, (v) => { state.fovDeg = v; update(); });
+  const aspectSlider = createSlider("Aspect", 0.5, 3, 0.01, state.aspect, (v) => { state.aspect = v; update(); });
+  const nearSlider = createSlider(
+    "Near",
+    NEAR_LOG_MIN, NEAR_LOG_MAX, 0.01,
+    state.near,
+    (v) => { state.near = v; update(); },
+    true,
+  );
+  const farSlider = createSlider("Far", 1, 100, 0.5, state.far, (v) => { state.far = v; update(); });
+  const orthoSlider = createSlider(
+    "Ortho height",
+    0.5, 10, 0.1,
+    state.orthoHeight,
+    (v) => { state.orthoHeight = v; update(); },
+  );
+
+  const fitAspectBtn = document.createElement("button");
+  fitAspectBtn.className = "btn";
+  fitAspectBtn.textContent = "Match viewport aspect";
+  fitAspectBtn.addEventListener("click", () => {
+    state.aspect = Math.min(3, Math.max(0.5, canvas.clientWidth / 2 / (canvas.clientHeight || 1)));
+    aspectSlider.set(state.aspect);
+    update();
+  });
+
+  const resetBtn = document.createElement("button");
+  resetBtn.className = "btn";
+  resetBtn.textContent = "Reset";
+  resetBtn.style.marginLeft = "8px";
+  resetBtn.addEventListener("click", () => {
+    Object.assign(state, DEFAULT_STATE);
+    modeSel.select.value = state.mode;
+    fovSlider.set(state.fovDeg);
+    aspectSlider.set(state.aspect);
+    nearSlider.set(state.near);
+    farSlider.set(state.far);
+    orthoSlider.set(state.orthoHeight);
+    observer.reset();
+    update();
+  });
+
+  // ── Readouts ──
+  const readouts = document.createElement("div");
+  readouts.className = "projection-readouts";
+
+  const matrixBox = document.createElement("div");
+  const matrixTitle = document.createElement("div");
+  matrixTitle.className = "readout-title";
+  matrixTitle.textContent = "Projection matrix (row-major 표기)";
+  const matrixPre = document.createElement("pre");
+  matrixPre.className = "readout";
+  matrixBox.append(matrixTitle, matrixPre);
+
+  const depthBox = document.createElement("div");
+  const depthTitle = document.createElement("div");
+  depthTitle.className = "readout-title";
+  depthTitle.textContent = `NDC depth (${DEPTH_BITS}-bit depth buffer)`;
+  const depthTable = document.createElement("table");
+  depthTable.className = "readout readout-table";
+  depthBox.append(depthTitle, depthTable);
+
+  readouts.append(matrixBox, depthBox);
+
+  panel.append(
+    modeSel.row,
+    fovSlider.row,
+    aspectSlider.row,
+    nearSlider.row,
+    farSlider.row,
+    orthoSlider.row,
+    fitAspectBtn,
+    resetBtn,
+  );
+  container.append(panel, readouts);
+
+  /** 현재 모드에 맞는 슬라이더만 활성화하고 readout을 갱신한다. */
+  function syncControls(): void {
+    const persp = state.mode === "perspective";
+    fovSlider.input.disabled = !persp;
+    orthoSlider.input.disabled = persp;
+    fovSlider.row.style.opacity = persp ? "" : "0.45";
+    orthoSlider.row.style.opacity = persp ? "0.45" : "";
+
+    matrixPre.textContent = formatMatrix(projectionInto(projection, state));
+    renderDepthTable();
+  }
+
+  function renderDepthTable(): void {
+    const n = state.near;
+    const f = Math.max(state.far, n + 0.01);
+    const distances = [n, n * 2, 1, 2, 5, 10, f / 2, f]
+      .filter((d) => d >= n && d <= f)
+      .sort((a, b) => a - b)
+      .filter((d, i, arr) => i === 0 || d - arr[i - 1] > 1e-6);
+
+    depthTable.innerHTML = "";
+    const head = depthTable.insertRow();
+    for (const h of ["eye 거리", "NDC z", "NDC z 분포", "depth 한 단계"]) {
+      const th = document.createElement("th");
+      th.textContent = h;
+      head.appendChild(th);
+    }
+
+    for (const d of distances) {
+      const s = depthSample(state.mode, n, f, d);
+      const row = depthTable.insertRow();
+      row.insertCell().textContent = d.toFixed(3);
+      row.insertCell().textContent = s.ndcZ.toFixed(5);
+
+      // NDC z(-1 … 1)에서의 위치를 막대로 보여 준다
+      const barCell = row.insertCell();
+      const bar = document.createElement("div");
+      bar.className = "depth-bar";
+      const fill = document.createElement("div");
+      fill.className = "depth-bar__fill";
+      fill.style.width = `${((s.ndcZ + 1) / 2) * 100}%`;
+      bar.appendChild(fill);
+      barCell.appendChild(bar);
+
+      row.insertCell().textContent = formatLength(s.step);
+    }
+  }
+
+  // ── Cameras ──
+  const projection = new Float32Array(16);
+  const inverseProjection = new Float32Array(16);
+  const model = new Float32Array(16);
+  const scaleM = new Float32Array(16);
+  const mvp = new Float32Array(16);
+
+  const observerCamera = new Camera({
+    projection: { kind: "perspective", fovY: Math.PI / 4, near: 0.1, far: 200 },
+    position: [16, 12, 8],
+    target: [0, 0, -8],
+  });
+  const observer: CameraController = new OrbitControls(observerCamera, canvas, {
+    minDistance: 2,
+    maxDistance: 80,
+  });
+
+  /** 투영 역행렬로 NDC 꼭짓점을 눈 공간(= world, view가 identity)으로 되돌려 선분 배열을 채운다. */
+  function updateFrustumLines(): void {
+    if (!invertInto(inverseProjection, projection)) return;
+    const m = inverseProjection;
+    const corners: number[][] = NDC_CORNERS.map(([x, y, z]) => {
+      const w = m[3] * x + m[7] * y + m[11] * z + m[15];
+      return [
+        (m[0] * x + m[4] * y + m[8] * z + m[12]) / w,
+        (m[1] * x + m[5] * y + m[9] * z + m[13]) / w,
+        (m[2] * x + m[6] * y + m[10] * z + m[14]) / w,
+      ];
+    });
+    corners.push([0, 0, 0]); // 눈
+
+    // 직교 투영에는 한 점으로 모이는 눈이 없으므로 눈 → near 선분은 길이 0으로 만든다
+    let i = 0;
+    for (const [a, b] of FRUSTUM_EDGES) {
+      const pa = a === 8 && state.mode === "orthographic" ? corners[b] : corners[a];
+      frustumVerts.set(pa, i);
+      frustumVerts.set(corners[b], i + 3);
+      i += 6;
+    }
+    frustum.value.updateBuffer(0, frustumVerts);
+  }
+
+  /** viewProjection으로 장면(큐브 + 바닥)을 그린다. */
+  function drawScene(viewProjection: Mat4): void {
+    const s = solid.value;
+    s.use();
+    for (const obj of OBJECTS) {
+      translationInto(model, obj.position[0], obj.position[1], obj.position[2]);
+      multiplyInto(model, model, scalingInto(scaleM, obj.size, obj.size, obj.size));
+      s.setMat4("u_mvp", multiplyInto(mvp, viewProjection, model));
+      s.setVec3("u_color", obj.color);
+      cube.value.draw();
+    }
+
+    const l = line.value;
+    l.use();
+    l.setMat4("u_mvp", viewProjection);
+    l.setVec4("u_color", GRID_COLOR);
+    grid.value.draw();
+  }
+
+  // ── Render loop ──
+  let lastTime = 0;
+
+  function frame(now: number): void {
+    const dt = lastTime ? (now - lastTime) / 1000 : 0;
+    lastTime = now;
+
+    resizeCanvas(gl, canvas);
+    const halfW = Math.floor(canvas.width / 2);
+    const h = canvas.height;
+
+    projectionInto(projection, state);
+    updateFrustumLines();
+
+    gl.enable(gl.DEPTH_TEST);
+    gl.enable(gl.SCISSOR_TEST);
+
+    // ── Left: camera view ──
+    gl.viewport(0, 0, halfW, h);
+    gl.scissor(0, 0, halfW, h);
+    gl.clearColor(0.08, 0.09, 0.12, 1.0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+    // view가 identity이므로 viewProjection = projection
+    drawScene(projection);
+
+    // ── Right: observer view ──
+    gl.viewport(halfW, 0, canvas.width - halfW, h);
+    gl.scissor(halfW, 0, canvas.width - halfW, h);
+    gl.clearColor(0.05, 0.06, 0.08, 1.0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+
+    observer.update(dt);
+    observerCamera.aspect = (canvas.width - halfW) / (h || 1);
+    observerCamera.update();
+    drawScene(observerCamera.viewProjection);
+
+    const l = line.value;
+    l.use();
+    l.setMat4("u_mvp", observerCamera.viewProjection);
+    l.setVec4("u_color", FRUSTUM_COLOR);
+    frustum.value.draw();
+
+    gl.disable(gl.SCISSOR_TEST);
+  }
 
-  const placeholder = document.createElement("div");
-  placeholder.className = "placeholder";
-  placeholder.textContent = "🚧 준비 중입니다";
+  syncControls();
+  resources.startLoop(frame);
 
-  container.append(title, desc, placeholder);
+  // ── Cleanup (router calls this before the next route) ──
+  return () => {
+    urlSync.cancel();
+    observer.dispose();
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+  };
 }
@@ -0,0 +1,454 @@
+import { createGLCanvas, resizeCanvas, destroyGLCanvas } from "../core/gl/context";
+import type { ShaderProgram } from "../core/gl/program";
+import type { ShaderSourceSpec } from "../core/gl/shaderSource";
+import { GLResourceManager } from "../core/gl/resources";
+import type { GLResource } from "../core/gl/resources";
+import { showShaderError } from "../app/errorOverlay";
+import { mountContextLossUI } from "../app/contextLoss";
+import type { Disposer, RouteMatch } from "../router";
+import { numberField, boolField, enumField, readState, createStateSync } from "../app/urlState";
+import type { StateSchema } from "../app/urlState";
+import { Camera } from "../core/camera/camera";
+import { OrbitControls } from "../core/camera/orbitControls";
+import { createSphereMesh } from "../core/mesh/sphere";
+import { createMesh } from "../core/mesh/mesh";
+import type { Mesh } from "../core/mesh/mesh";
+import { fromAxisAngle, multiply } from "../core/math/quat";
+import { SceneNode } from "../core/scene/sceneNode";
+import { SceneRenderer } from "../core/scene/sceneRenderer";
+
+// ── Shader sources ──────────────────────────────────────────
+
+const ATTRIBS = { a_position: 0, a_normal: 1 };
+
+const SHADER: ShaderSourceSpec = {
+  vertex: `
+in vec3 a_position;
+in vec3 a_normal;
+uniform mat4 u_viewProj;
+uniform mat4 u_model;
+uniform mat3 u_normalMatrix;
+out vec3 v_normal;
+out vec3 v_worldPos;
+void main() {
+  vec4 world = u_model * vec4(a_position, 1.0);
+  v_worldPos = world.xyz;
+  v_normal = u_normalMatrix * a_normal;
+  gl_Position = u_viewProj * world;
+}`,
+  fragment: `
+precision mediump float;
+in vec3 v_normal;
+in vec3 v_worldPos;
+uniform vec3 u_color;
+uniform vec3 u_emissive;
+out vec4 fragColor;
+
+#include <lighting>
+
+void main() {
+  // Point light at the sun (world origin)
+  vec3 l = normalize(-v_worldPos);
+  float diffuse = lambert(normalize(v_normal), l);
+  fragColor = vec4(u_color * (0.06 + 0.94 * diffuse) + u_emissive, 1.0);
+}`,
+  attributes: ATTRIBS,
+};
+
+// ── Scene state ─────────────────────────────────────────────
+
+type FocusId = "sun" | "earth" | "moon";
+
+const FOCUS_IDS: FocusId[] = ["sun", "earth", "moon"];
+
+interface SceneState {
+  /** 시뮬레이션 속도 배율. 0이면 멈춘다 */
+  speed: number;
+  orbits: boolean;
+  focus: FocusId;
+}
+
+const DEFAULT_STATE: Readonly<SceneState> = { speed: 1, orbits: true, focus: "sun" };
+
+/** URL query ↔ SceneState 매핑. 범위는 슬라이더와 동일하다. */
+const STATE_SCHEMA: StateSchema<SceneState> = {
+  speed: numberField("speed", 0, 5),
+  orbits: boolField("orbits"),
+  focus: enumField("focus", FOCUS_IDS),
+};
+
+// 공전·자전 각속도 (rad / 시뮬레이션 초). 실제 비율이 아니라 보기 좋은 값
+const EARTH_ORBIT = 0.4;
+const EARTH_SPIN = 2.0;
+const MOON_ORBIT = 1.6;
+const SUN_SPIN = 0.15;
+const EARTH_DISTANCE = 4;
+const MOON_DISTANCE = 1.1;
+const EARTH_TILT = (23.4 * Math.PI) / 180;
+
+const Y_AXIS = [0, 1, 0];
+
+/** XZ 평면의 원. lines primitive라 조명 대신 emissive로 그린다. */
+function createRingMesh(radius: number, segments: number = 96): Mesh {
+  const positions: number[] = [];
+  const indices: number[] = [];
+  for (let i = 0; i < segments; i++) {
+    const a = (i / segments) * Math.PI * 2;
+    positions.push(radius * Math.cos(a), 0, radius * Math.sin(a));
+    indices.push(i, (i + 1) % segments);
+  }
+  return createMesh({
+    positions,
+    normals: positions.map((_, k) => (k % 3 === 1 ? 1 : 0)),
+    uvs: new Array<number>((positions.length / 3) * 2).fill(0),
+    indices,
+    primitive: "lines",
+  });
+}
+
+/**
+ * 태양계 트리. 공전은 "pivot" 노드의 회전으로, 궤도 반지름은 그 자식의 이동으로 표현한다.
+ * 자전(spin)은 메시 노드에만 걸어서 자식에게 전달되지 않게 한다.
+ *
+ *   Solar system
+ *   ├─ Sun              (spin)
+ *   ├─ Earth orbit ring
+ *   └─ Earth pivot      (공전: rotation)
+ *      └─ Earth system  (translation = 공전 반지름)
+ *         ├─ Earth      (기울기 × spin, scale)
+ *         ├─ Moon orbit ring
+ *         └─ Moon pivot (공전: rotation)
+ *            └─ Moon    (translation, scale)
+ */
+function buildSolarSystem(): SceneNode {
+  const sphere = createSphereMesh(1, 32, 64);
+
+  const root = new SceneNode("Solar system");
+  const sun = new SceneNode("Sun", {
+    mesh: sphere,
+    material: { color: [0, 0, 0], emissive: [1.0, 0.78, 0.35] },
+  });
+  const earthRing = new SceneNode("Earth orbit ring", {
+    mesh: createRingMesh(EARTH_DISTANCE),
+    material: { color: [0, 0, 0], emissive: [0.25, 0.27, 0.32] },
+  });
+  const earthPivot = new SceneNode("Earth pivot");
+  const earthSystem = new SceneNode("Earth system", { translation: [EARTH_DISTANCE, 0, 0] });
+  const earth = new SceneNode("Earth", {
+    mesh: sphere,
+    material: { color: [0.25, 0.45, 0.95] },
+    scale: [0.4, 0.4, 0.4],
+  });
+  const moonRing = new SceneNode("Moon orbit ring", {
+    mesh: createRingMesh(MOON_DISTANCE),
+    material: { color: [0, 0, 0], emissive: [0.2, 0.21, 0.25] },
+  });
+  const moonPivot = new SceneNode("Moon pivot");
+  const moon = new SceneNode("Moon", {
+    mesh: sphere,
+    material: { color: [0.75, 0.74, 0.7] },
+    translation: [MOON_DISTANCE, 0, 0],
+    scale: [0.12, 0.12, 0.12],
+  });
+
+  moonPivot.add(moon);
+  earthSystem.add(earth).add(moonRing).add(moonPivot);
+  earthPivot.add(earthSystem);
+  root.add(sun).add(earthRing).add(earthPivot);
+  return root;
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+function showError(container: HTMLElement, message: string): void {
+  const el = document.createElement("div");
+  el.className = "gl-error";
+  el.textContent = message;
+  container.appendChild(el);
+}
+
+function formatVec3(v: ArrayLike<number>): string {
+  return `(${[v[0], v[1], v[2]].map((x) => x.toFixed(2).padStart(6)).join(", ")})`;
+}
+
+// ── Control builders ────────────────────────────────────────
+
+function createSlider(
+  label: string,
+  min: number,
+  max: number,
+  step: number,
+  value: number,
+  onChange: (v: number) => void,
+): { row: HTMLElement; input: HTMLInputElement; valueSpan: HTMLSpanElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const input = document.createElement("input");
+  input.type = "range";
+  input.min = String(min);
+  input.max = String(max);
+  input.step = String(step);
+  input.value = String(value);
+  input.style.cssText = "flex:1;accent-color:#6c8cff;";
+
+  const valueSpan = document.createElement("span");
+  valueSpan.className = "ctrl-value";
+  valueSpan.textContent = String(value);
+
+  input.addEventListener("input", () => {
+    const v = parseFloat(input.value);
+    valueSpan.textContent = String(v);
+    onChange(v);
+  });
+
+  row.append(lbl, input, valueSpan);
+  return { row, input, valueSpan };
+}
+
+function createCheckbox(
+  label: string,
+  checked: boolean,
+  onChange: (v: boolean) => void,
+): { row: HTMLElement; input: HTMLInputElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const input = document.createElement("input");
+  input.type = "checkbox";
+  input.checked = checked;
+  input.style.cssText = "accent-color:#6c8cff;width:18px;height:18px;cursor:pointer;";
+  input.addEventListener("change", () => onChange(input.checked));
+
+  row.append(lbl, input);
+  return { row, input };
+}
+
+function createSelect<T extends string>(
+  label: string,
+  options: T[],
+  value: T,
+  onChange: (v: T) => void,
+): { row: HTMLElement; select: HTMLSelectElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const select = document.createElement("select");
+  select.className = "ctrl-select";
+  for (const opt of options) {
+    const o = document.createElement("option");
+    o.value = opt;
+    o.textContent = opt;
+    if (opt === value) o.selected = true;
+    select.appendChild(o);
+  }
+  select.addEventListener("change", () => onChange(select.value as T));
+
+  row.append(lbl, select);
+  return { row, select };
+}
+
+// ── Main export ─────────────────────────────────────────────
+
+export function renderScene01(
+  container: HTMLElement,
+  route: RouteMatch,
+): Disposer | void {
+  // ── Header ──
+  const title = document.createElement("h1");
+  title.className = "page-title";
+  title.textContent = "Scene01";
+
+  const desc = document.createElement("p");
+  desc.className = "page-desc";
+  desc.innerHTML = [
+    "장면 그래프(scene graph)로 태양–지구–달을 그립니다. 각 노드는 부모 기준의 TRS만 갖고,",
+    "<b>world = parent.world × local</b>을 루트부터 곱해 모델 행렬을 얻습니다. Transform01의 2D 합성을 트리로 확장한 것입니다.",
+    "<b>공전</b>은 회전만 하는 pivot 노드의 자식을 궤도 반지름만큼 옮겨서, <b>자전</b>은 메시 노드에만 걸어서 자식(달)에게 전달되지 않게 합니다.",
+    "<b>Dirty flag</b>: TRS가 바뀐 노드와 그 자손만 world 행렬을 다시 계산합니다. Speed를 0으로 두면 재계산 수가 0이 됩니다.",
+  ].join("<br>");
+
+  container.append(title, desc);
+
+  // ── Canvas ──
+  const canvasWrap = document.createElement("div");
+  container.appendChild(canvasWrap);
+
+  let ctx;
+  try {
+    ctx = createGLCanvas(canvasWrap);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("[Scene01]", msg);
+    showError(canvasWrap, msg);
+    return;
+  }
+
+  const { canvas, gl } = ctx;
+  const resources = new GLResourceManager(ctx);
+  const unmountLossUI = mountContextLossUI(canvasWrap, resources);
+
+  // ── Shader program ──
+  let program: GLResource<ShaderProgram>;
+  try {
+    program = resources.program(SHADER, "Scene01");
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("[Scene01]", msg);
+    showShaderError(canvasWrap, e);
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+    return;
+  }
+
+  // ── Scene ──
+  const root = buildSolarSystem();
+  const renderer = new SceneRenderer(resources, program, ATTRIBS);
+  const node = (name: string): SceneNode => {
+    const found = root.find(name);
+    if (!found) throw new Error(`노드 "${name}"가 없습니다`);
+    return found;
+  };
+  const sun = node("Sun");
+  const earth = node("Earth");
+  const earthPivot = node("Earth pivot");
+  const moonPivot = node("Moon pivot");
+  const moon = node("Moon");
+  const rings = [node("Earth orbit ring"), node("Moon orbit ring")];
+  const focusNodes: Record<FocusId, SceneNode> = { sun, earth, moon };
+
+  const tilt = fromAxisAngle([0, 0, 1], EARTH_TILT);
+
+  /** 시뮬레이션 시각 t에 맞춰 움직이는 노드의 TRS를 바꾼다 (dirty 표시는 set*가 한다). */
+  function pose(t: number): void {
+    sun.setRotation(fromAxisAngle(Y_AXIS, t * SUN_SPIN));
+    earthPivot.setRotation(fromAxisAngle(Y_AXIS, t * EARTH_ORBIT));
+    // 기울인 축을 중심으로 자전: tilt × spin (spin을 먼저 적용)
+    earth.setRotation(multiply(tilt, fromAxisAngle(Y_AXIS, t * EARTH_SPIN)));
+    moonPivot.setRotation(fromAxisAngle(Y_AXIS, t * MOON_ORBIT));
+  }
+
+  // ── Camera ──
+  const camera = new Camera({ position: [0, 5, 9], target: [0, 0, 0] });
+  const orbit = new OrbitControls(camera, canvas, { minDistance: 0.5, maxDistance: 50 });
+
+  // ── State ──
+  const state: SceneState = readState(route.query, STATE_SCHEMA, DEFAULT_STATE);
+  const urlSync = createStateSync(STATE_SCHEMA, DEFAULT_STATE);
+
+  let simTime = 0;
+  let lastNow = 0;
+  let lastReadout = 0;
+  pose(simTime);
+
+  function frame(now: number): void {
+    // 탭 전환 등으로 프레임이 길게 비면 한 번에 건너뛰지 않도록 자른다
+    const dt = lastNow ? Math.min((now - lastNow) / 1000, 0.1) : 0;
+    lastNow = now;
+    if (state.speed > 0 && dt > 0) {
+      simTime += dt * state.speed;
+      pose(simTime);
+    }
+
+    // 렌더링이 worldMatrix를 읽으며 dirty 노드를 다시 계산하므로, 그 전에 센다
+    let dirty = 0;
+    let total = 0;
+    root.traverse((n) => {
+      total++;
+      if (n.needsUpdate) dirty++;
+    });
+
+    resizeCanvas(gl, canvas);
+    gl.clearColor(0.02, 0.02, 0.05, 1.0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+
+    // 따라갈 천체의 world 위치를 orbit 중심으로 삼는다
+    focusNodes[state.focus].worldPosition(camera.target);
+    orbit.update();
+    camera.updateAspect(canvas);
+    camera.update();
+
+    renderer.render(root, camera.viewProjection);
+
+    if (now - lastReadout > 200) {
+      lastReadout = now;
+      updateReadout(dirty, total);
+    }
+  }
+
+  // ── Controls ──
+  const panel = document.createElement("div");
+  panel.className = "ctrl-panel";
+
+  const speedSlider = createSlider("Speed", 0, 5, 0.1, state.speed, (v) => {
+    state.speed = v;
+    urlSync.write(state);
+  });
+
+  const orbitsCheck = createCheckbox("Show orbits", state.orbits, (v) => {
+    state.orbits = v;
+    for (const ring of rings) ring.visible = v;
+    urlSync.write(state);
+  });
+  for (const ring of rings) ring.visible = state.orbits;
+
+  const focusSel = createSelect<FocusId>("Focus", FOCUS_IDS, state.focus, (v) => {
+    state.focus = v;
+    urlSync.write(state);
+  });
+
+  const resetViewBtn = document.createElement("button");
+  resetViewBtn.className = "btn";
+  resetViewBtn.textContent = "Reset view";
+  resetViewBtn.addEventListener("click", () => orbit.reset());
+
+  panel.append(speedSlider.row, orbitsCheck.row, focusSel.row, resetViewBtn);
+
+  const readoutTitle = document.createElement("div");
+  readoutTitle.className = "readout-title";
+  readoutTitle.textContent = "Scene graph (world 위치)";
+  const readout = document.createElement("pre");
+  readout.className = "readout";
+
+  container.append(panel, readoutTitle, readout);
+
+  function updateReadout(dirty: number, total: number): void {
+    const lines: string[] = [];
+    const walk = (n: SceneNode, depth: number): void => {
+      const label = `${"  ".repeat(depth)}${n.name}`;
+      lines.push(`${label.padEnd(24)} ${formatVec3(n.worldMatrix.subarray(12, 15))}${n.mesh ? "" : "  (no mesh)"}`);
+      for (const child of n.children) walk(child, depth + 1);
+    };
+    walk(root, 0);
+    lines.push("", `이번 프레임 world 재계산: ${dirty} / ${total} 노드 · draw ${renderer.lastDrawCount}회`);
+    readout.textContent = lines.join("\n");
+  }
+
+  // ── Start ──
+  gl.enable(gl.DEPTH_TEST);
+  resources.onRestored(() => gl.enable(gl.DEPTH_TEST));
+  resources.startLoop(frame);
+
+  // ── Cleanup (router calls this before the next route) ──
+  return () => {
+    urlSync.cancel();
+    orbit.dispose();
+    unmountLossUI();
+    renderer.dispose();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+  };
+}
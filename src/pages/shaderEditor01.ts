@@ -0,0 +1,551 @@
+import { createGLCanvas, resizeCanvas, destroyGLCanvas } from "../core/gl/context";
+import { ShaderProgram } from "../core/gl/program";
+import { ShaderCompileError, ProgramLinkError } from "../core/gl/shader";
+import type { ShaderStage } from "../core/gl/shader";
+import { ShaderPreprocessError } from "../core/gl/preprocess";
+import { Geometry } from "../core/gl/geometry";
+import { GLResourceManager } from "../core/gl/resources";
+import type { GLResource } from "../core/gl/resources";
+import { mountContextLossUI } from "../app/contextLoss";
+import { loadImage, createTexture } from "../core/gl/texture";
+import { createSphereMesh } from "../core/mesh/sphere";
+import { createFullscreenTriangle } from "../core/mesh/primitives";
+import { createMesh, toGeometryDesc } from "../core/mesh/mesh";
+import type { Mesh } from "../core/mesh/mesh";
+import {
+  identity,
+  multiply,
+  translation,
+  rotationY,
+  perspective,
+} from "../core/math/mat4";
+import type { Disposer, RouteMatch } from "../router";
+import { enumField, readState, createStateSync } from "../app/urlState";
+import type { StateSchema } from "../app/urlState";
+
+// ── Scenes ──────────────────────────────────────────────────
+//
+// 모든 장면은 같은 attribute 위치를 사용한다. 위치가 bindAttribLocation / layout으로
+// 고정되므로 셰이더를 다시 컴파일해도 Geometry는 그대로 재사용된다.
+
+const ATTRIBS = { a_position: 0, a_uv: 1, a_normal: 2 };
+
+type SceneId = "fullscreen" | "quad" | "sphere";
+
+interface SceneDef {
+  label: string;
+  geometry: () => Mesh;
+  /** 장면이 3D면 u_mvp에 회전하는 perspective 카메라를, 아니면 identity를 넣는다. */
+  perspective: boolean;
+  vertex: string;
+  fragment: string;
+}
+
+function quadGeometry(extent: number): Mesh {
+  const e = extent;
+  return createMesh({
+    positions: [-e, -e, 0, e, -e, 0, e, e, 0, -e, e, 0],
+    normals: [0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1],
+    uvs: [0, 0, 1, 0, 1, 1, 0, 1],
+    indices: [0, 1, 2, 0, 2, 3],
+  });
+}
+
+const PASS_UV_VS = `
+in vec3 a_position;
+in vec2 a_uv;
+uniform mat4 u_mvp;
+out vec2 v_uv;
+void main() {
+  v_uv = a_uv;
+  gl_Position = u_mvp * vec4(a_position, 1.0);
+}`;
+
+const SCENES: Record<SceneId, SceneDef> = {
+  fullscreen: {
+    label: "Fullscreen triangle",
+    geometry: createFullscreenTriangle,
+    perspective: false,
+    vertex: PASS_UV_VS,
+    fragment: `
+precision mediump float;
+in vec2 v_uv;
+uniform float u_time;
+uniform vec2 u_resolution;
+uniform vec2 u_mouse;
+out vec4 fragColor;
+
+#include <noise>
+
+void main() {
+  vec2 p = gl_FragCoord.xy / u_resolution;
+  float n = fbm(p * 4.0 + vec2(u_time * 0.2, 0.0));
+  float d = distance(gl_FragCoord.xy, u_mouse) / u_resolution.y;
+  vec3 col = 0.5 + 0.5 * cos(u_time + v_uv.xyx * 3.0 + vec3(0.0, 2.0, 4.0));
+  col *= 0.6 + 0.4 * n;
+  col += vec3(0.3) * smoothstep(0.1, 0.0, d);
+  fragColor = vec4(col, 1.0);
+}`,
+  },
+  quad: {
+    label: "Texture01 quad",
+    geometry: () => quadGeometry(0.8),
+    perspective: false,
+    vertex: PASS_UV_VS,
+    fragment: `
+precision mediump float;
+in vec2 v_uv;
+uniform sampler2D u_tex;
+uniform float u_time;
+out vec4 fragColor;
+void main() {
+  vec2 uv = v_uv + 0.02 * vec2(sin(u_time + v_uv.y * 10.0), 0.0);
+  fragColor = texture(u_tex, uv);
+}`,
+  },
+  sphere: {
+    label: "Sphere01 mesh",
+    geometry: () => createSphereMesh(1, 32, 64),
+    perspective: true,
+    vertex: `
+in vec3 a_position;
+in vec2 a_uv;
+in vec3 a_normal;
+uniform mat4 u_mvp;
+out vec2 v_uv;
+out vec3 v_normal;
+void main() {
+  v_uv = a_uv;
+  v_normal = a_normal;
+  gl_Position = u_mvp * vec4(a_position, 1.0);
+}`,
+    fragment: `
+precision mediump float;
+in vec2 v_uv;
+in vec3 v_normal;
+uniform sampler2D u_tex;
+out vec4 fragColor;
+
+#include <lighting>
+
+void main() {
+  vec3 n = normalize(v_normal);
+  float diffuse = lambert(n, normalize(vec3(0.5, 0.8, 0.6)));
+  vec3 base = texture(u_tex, v_uv).rgb;
+  fragColor = vec4(base * (0.2 + 0.8 * diffuse), 1.0);
+}`,
+  },
+};
+
+const SCENE_IDS = Object.keys(SCENES) as SceneId[];
+
+interface EditorState {
+  scene: SceneId;
+}
+
+const DEFAULT_STATE: Readonly<EditorState> = {
+  scene: "fullscreen",
+};
+
+const STATE_SCHEMA: StateSchema<EditorState> = {
+  scene: enumField("scene", SCENE_IDS),
+};
+
+/** 입력이 멈춘 뒤 재컴파일까지 기다리는 시간. */
+const RECOMPILE_DELAY_MS = 400;
+
+// ── Code editor (textarea + 하이라이트 backdrop) ────────────
+
+interface LineMark {
+  line: number;
+  message: string;
+}
+
+interface CodeEditor {
+  root: HTMLElement;
+  textarea: HTMLTextAreaElement;
+  setMarks: (marks: LineMark[]) => void;
+}
+
+/**
+ * textarea 뒤에 같은 글꼴의 backdrop을 두어 줄 번호, 오류 줄 배경, 줄 끝 메시지를 그린다.
+ * backdrop의 코드 텍스트는 투명하게 두고 위치 맞춤에만 쓴다.
+ */
+function createCodeEditor(label: string, onInput: () => void): CodeEditor {
+  const root = document.createElement("div");
+  root.className = "code-editor";
+
+  const title = document.createElement("div");
+  title.className = "code-editor__title";
+  title.textContent = label;
+
+  const body = document.createElement("div");
+  body.className = "code-editor__body";
+
+  const backdrop = document.createElement("div");
+  backdrop.className = "code-editor__backdrop";
+
+  const textarea = document.createElement("textarea");
+  textarea.className = "code-editor__input";
+  textarea.spellcheck = false;
+  textarea.wrap = "off";
+
+  let marks: LineMark[] = [];
+
+  function renderBackdrop(): void {
+    const lines = textarea.value.split("\n");
+    const byLine = new Map<number, string[]>();
+    for (const m of marks) {
+      byLine.set(m.line, [...(byLine.get(m.line) ?? []), m.message]);
+    }
+
+    backdrop.innerHTML = "";
+    lines.forEach((text, i) => {
+      const row = document.createElement("div");
+      row.className = "code-editor__line";
+
+      const ln = document.createElement("span");
+      ln.className = "code-editor__ln";
+      ln.textContent = String(i + 1);
+
+      const code = document.createElement("span");
+      code.className = "code-editor__code";
+      code.textContent = text || " ";
+
+      row.append(ln, code);
+
+      const msgs = byLine.get(i + 1);
+      if (msgs) {
+        row.classList.add("is-error");
+        const msg = document.createElement("span");
+        msg.className = "code-editor__msg";
+        msg.textContent = msgs.join(" · ");
+        row.appendChild(msg);
+      }
+      backdrop.appendChild(row);
+    });
+
+    syncScroll();
+  }
+
+  function syncScroll(): void {
+    backdrop.scrollTop = textarea.scrollTop;
+    backdrop.scrollLeft = textarea.scrollLeft;
+  }
+
+  textarea.addEventListener("input", () => {
+    renderBackdrop();
+    onInput();
+  });
+  textarea.addEventListener("scroll", syncScroll);
+
+  // Tab은 포커스 이동 대신 공백 두 칸
+  textarea.addEventListener("keydown", (e) => {
+    if (e.key !== "Tab") return;
+    e.preventDefault();
+    textarea.setRangeText("  ", textarea.selectionStart, textarea.selectionEnd, "end");
+    textarea.dispatchEvent(new Event("input"));
+  });
+
+  body.append(backdrop, textarea);
+  root.append(title, body);
+
+  return {
+    root,
+    textarea,
+    setMarks: (next) => {
+      marks = next;
+      renderBackdrop();
+    },
+  };
+}
+
+// ── Main export ─────────────────────────────────────────────
+
+export function renderShaderEditor01(
+  container: HTMLElement,
+  route: RouteMatch,
+): Disposer | void {
+  // ── Header ──
+  const title = document.createElement("h1");
+  title.className = "page-title";
+  title.textContent = "ShaderEditor01";
+
+  const desc = document.createElement("p");
+  desc.className = "page-desc";
+  desc.innerHTML = [
+    "버텍스/프래그먼트 셰이더를 페이지에서 직접 수정하고 결과를 바로 확인합니다.",
+    "입력을 멈추면 자동으로 재컴파일되며, 실패하면 <b>마지막으로 성공한 프로그램</b>을 계속 사용합니다.",
+    "소스는 ES 3.00 문법으로 <code>#version</code> 없이 작성하고, <code>#include &lt;noise&gt;</code> 같은 조각을 쓸 수 있습니다.",
+    "내장 uniform: <code>u_time</code>, <code>u_resolution</code>, <code>u_mouse</code>, <code>u_mvp</code>, <code>u_tex</code>",
+    "내장 attribute: <code>a_position</code>(vec3), <code>a_uv</code>(vec2), <code>a_normal</code>(vec3)",
+  ].join("<br>");
+
+  container.append(title, desc);
+
+  // ── Canvas ──
+  const canvasWrap = document.createElement("div");
+  container.appendChild(canvasWrap);
+
+  let ctx;
+  try {
+    ctx = createGLCanvas(canvasWrap);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("[ShaderEditor01]", msg);
+    const el = document.createElement("div");
+    el.className = "gl-error";
+    el.textContent = msg;
+    canvasWrap.appendChild(el);
+    return;
+  }
+
+  const { canvas, gl, isWebGL2 } = ctx;
+  const resources = new GLResourceManager(ctx);
+  const unmountLossUI = mountContextLossUI(canvasWrap, resources);
+
+  // ── State ──
+  const state: EditorState = readState(route.query, STATE_SCHEMA, DEFAULT_STATE);
+  const urlSync = createStateSync(STATE_SCHEMA, DEFAULT_STATE);
+
+  // ── Controls ──
+  const panel = document.createElement("div");
+  panel.className = "ctrl-panel";
+
+  const sceneRow = document.createElement("div");
+  sceneRow.className = "ctrl-row";
+  const sceneLbl = document.createElement("label");
+  sceneLbl.className = "ctrl-label";
+  sceneLbl.textContent = "Scene";
+  const sceneSel = document.createElement("select");
+  sceneSel.className = "ctrl-select";
+  for (const id of SCENE_IDS) {
+    const o = document.createElement("option");
+    o.value = id;
+    o.textContent = SCENES[id].label;
+    if (id === state.scene) o.selected = true;
+    sceneSel.appendChild(o);
+  }
+  sceneRow.append(sceneLbl, sceneSel);
+
+  const statusEl = document.createElement("div");
+  statusEl.className = "shader-editor__status";
+
+  const resetBtn = document.createElement("button");
+  resetBtn.className = "btn";
+  resetBtn.textContent = "Reset shaders";
+
+  panel.append(sceneRow, statusEl);
+  container.appendChild(panel);
+
+  // ── Editors ──
+  let recompileTimer = 0;
+  const scheduleCompile = (): void => {
+    clearTimeout(recompileTimer);
+    recompileTimer = window.setTimeout(compile, RECOMPILE_DELAY_MS);
+  };
+
+  const editors: Record<ShaderStage, CodeEditor> = {
+    vertex: createCodeEditor("Vertex shader", scheduleCompile),
+    fragment: createCodeEditor("Fragment shader", scheduleCompile),
+  };
+
+  const editorGrid = document.createElement("div");
+  editorGrid.className = "shader-editor";
+  editorGrid.append(editors.vertex.root, editors.fragment.root);
+
+  const generalErrors = document.createElement("div");
+  generalErrors.className = "shader-editor__errors";
+
+  container.append(editorGrid, generalErrors, resetBtn);
+
+  // ── Geometry (장면 전환 시 교체) ──
+  let geometry: GLResource<Geometry> | null = null;
+
+  function uploadGeometry(mesh: Mesh): void {
+    const desc = toGeometryDesc(mesh, ATTRIBS);
+    if (geometry) {
+      geometry.replace((g) => new Geometry(g, desc, ATTRIBS));
+    } else {
+      geometry = resources.geometry(desc, ATTRIBS);
+    }
+  }
+
+  // ── Compile ──
+  // 복구 시에는 마지막으로 컴파일에 성공한 소스로 다시 만든다
+  let program: GLResource<ShaderProgram> | null = null;
+
+  function clearErrors(): void {
+    editors.vertex.setMarks([]);
+    editors.fragment.setMarks([]);
+    generalErrors.innerHTML = "";
+  }
+
+  function addGeneralError(text: string): void {
+    const el = document.createElement("div");
+    el.className = "gl-error";
+    el.textContent = text;
+    generalErrors.appendChild(el);
+  }
+
+  /**
+   * 오류를 원본 위치에 배치한다. #include 조각 안의 오류나 위치가 없는 오류는 에디터 아래 목록으로 보낸다.
+   */
+  function reportError(e: unknown): void {
+    if (e instanceof ShaderCompileError) {
+      const marks: LineMark[] = [];
+      for (const d of e.diagnostics) {
+        if (d.origin && d.origin.file === e.stage) {
+          marks.push({ line: d.origin.line, message: d.message });
+        } else {
+          const where = d.origin ? `${d.origin.file}:${d.origin.line}` : `${e.stage}`;
+          addGeneralError(`${where}: ${d.message}`);
+        }
+      }
+      editors[e.stage].setMarks(marks);
+    } else if (e instanceof ShaderPreprocessError) {
+      const { file, line } = e.location;
+      if (file === "vertex" || file === "fragment") {
+        editors[file].setMarks([{ line, message: e.message.replace(/^[^:]+:\d+: /, "") }]);
+      } else {
+        addGeneralError(e.message);
+      }
+    } else if (e instanceof ProgramLinkError) {
+      addGeneralError(e.message);
+    } else {
+      addGeneralError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  function compile(): void {
+    clearTimeout(recompileTimer);
+    const started = performance.now();
+    const spec = {
+      vertex: editors.vertex.textarea.value,
+      fragment: editors.fragment.textarea.value,
+      attributes: ATTRIBS,
+    };
+    try {
+      if (program) {
+        program.replace((g) => ShaderProgram.fromSource(g, isWebGL2, spec, "ShaderEditor01"));
+      } else {
+        program = resources.program(spec, "ShaderEditor01");
+      }
+    } catch (e: unknown) {
+      clearErrors();
+      reportError(e);
+      statusEl.className = "shader-editor__status is-error";
+      statusEl.textContent = program
+        ? "컴파일 실패 — 이전 프로그램으로 계속 렌더링합니다"
+        : "컴파일 실패";
+      return;
+    }
+
+    clearErrors();
+    statusEl.className = "shader-editor__status is-ok";
+    statusEl.textContent = `컴파일 성공 (${(performance.now() - started).toFixed(1)} ms)`;
+  }
+
+  function loadScene(id: SceneId): void {
+    const scene = SCENES[id];
+    uploadGeometry(scene.geometry());
+    editors.vertex.textarea.value = scene.vertex.replace(/^\n/, "");
+    editors.fragment.textarea.value = scene.fragment.replace(/^\n/, "");
+    compile();
+  }
+
+  sceneSel.addEventListener("change", () => {
+    state.scene = sceneSel.value as SceneId;
+    urlSync.write(state);
+    loadScene(state.scene);
+  });
+
+  resetBtn.addEventListener("click", () => loadScene(state.scene));
+
+  // ── Built-in inputs ──
+  const mouse = new Float32Array(2);
+  const onPointerMove = (e: PointerEvent): void => {
+    const rect = canvas.getBoundingClientRect();
+    const dpr = canvas.width / (rect.width || 1);
+    // gl_FragCoord와 같은 좌하단 원점, drawingBuffer 픽셀 단위
+    mouse[0] = (e.clientX - rect.left) * dpr;
+    mouse[1] = (rect.height - (e.clientY - rect.top)) * dpr;
+  };
+  canvas.addEventListener("pointermove", onPointerMove);
+
+  let texture: GLResource<WebGLTexture> | null = null;
+  let disposed = false;
+  loadImage("/checker.png")
+    .then((img) => {
+      if (disposed) return;
+      texture = resources.texture(() => createTexture(gl, img, {
+        flipY: true,
+        wrapS: gl.REPEAT,
+        wrapT: gl.REPEAT,
+      }));
+    })
+    .catch((err: unknown) => {
+      if (disposed) return;
+      addGeneralError(err instanceof Error ? err.message : String(err));
+    });
+
+  // ── Render loop ──
+  const resolution = new Float32Array(2);
+  const startTime = performance.now();
+  function setBuiltins(p: ShaderProgram, time: number): void {
+    const scene = SCENES[state.scene];
+
+    if (p.hasUniform("u_time")) p.setFloat("u_time", time);
+    if (p.hasUniform("u_resolution")) {
+      resolution[0] = canvas.width;
+      resolution[1] = canvas.height;
+      p.setVec2("u_resolution", resolution);
+    }
+    if (p.hasUniform("u_mouse")) p.setVec2("u_mouse", mouse);
+    if (p.hasUniform("u_mvp")) {
+      if (scene.perspective) {
+        const aspect = canvas.clientWidth / canvas.clientHeight || 1;
+        const proj = perspective(Math.PI / 4, aspect, 0.1, 100);
+        const view = translation(0, 0, -3);
+        p.setMat4("u_mvp", multiply(proj, multiply(view, rotationY(time * 0.5))));
+      } else {
+        p.setMat4("u_mvp", identity());
+      }
+    }
+    if (p.hasUniform("u_tex")) {
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, texture?.value ?? null);
+      p.setSampler("u_tex", 0);
+    }
+  }
+
+  function frame(now: number): void {
+    resizeCanvas(gl, canvas);
+
+    gl.clearColor(0.08, 0.09, 0.12, 1.0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+
+    if (program) {
+      const p = program.value;
+      p.use();
+      setBuiltins(p, (now - startTime) / 1000);
+      geometry?.value.draw();
+    }
+  }
+
+  gl.enable(gl.DEPTH_TEST);
+  resources.onRestored(() => gl.enable(gl.DEPTH_TEST));
+  loadScene(state.scene);
+  resources.startLoop(frame);
+
+  // ── Cleanup (router calls this before the next route) ──
+  return () => {
+    disposed = true;
+    urlSync.cancel();
+    clearTimeout(recompileTimer);
+    canvas.removeEventListener("pointermove", onPointerMove);
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+  };
+}
@@ -1,54 +1,77 @@
-import { createGLCanvas, resizeCanvas } from "../core/gl/context";
-import { createProgram } from "../core/gl/shader";
+import { createGLCanvas, resizeCanvas, destroyGLCanvas } from "../core/gl/context";
+import type { ShaderProgram } from "../core/gl/program";
+import type { ShaderSourceSpec } from "../core/gl/shaderSource";
+import { GLResourceManager } from "../core/gl/resources";
+import type { GLResource } from "../core/gl/resources";
+import { Geometry, supportsUint32Indices } from "../core/gl/geometry";
+import { showShaderError } from "../app/errorOverlay";
+import { mountContextLossUI } from "../app/contextLoss";
+import type { Disposer, RouteMatch } from "../router";
+import { intField, enumField, readState, createStateSync } from "../app/urlState";
+import type { StateSchema } from "../app/urlState";
 import { loadImage, createTexture } from "../core/gl/texture";
 import { createSphereMesh } from "../core/mesh/sphere";
-import type { SphereMesh } from "../core/mesh/sphere";
-import {
-  multiply,
-  translation,
-  rotationY,
-  perspective,
-} from "../core/math/mat4";
-import type { Mat4 } from "../core/math/mat4";
+import type { SphereMesh, SphereVertexSharing } from "../core/mesh/sphere";
+import { toGeometryDesc } from "../core/mesh/mesh";
+import { Camera } from "../core/camera/camera";
+import type { CameraController } from "../core/camera/camera";
+import { OrbitControls } from "../core/camera/orbitControls";
+import { FlyControls } from "../core/camera/flyControls";
 
 // ── Shader sources ──────────────────────────────────────────
 
-const VS_GLSL300 = `#version 300 es
-layout(location = 0) in vec3 a_position;
-layout(location = 1) in vec2 a_uv;
+const ATTRIBS = { a_position: 0, a_uv: 1 };
+
+const SHADER: ShaderSourceSpec = {
+  vertex: `
+in vec3 a_position;
+in vec2 a_uv;
 uniform mat4 u_mvp;
 out vec2 v_uv;
 void main() {
   v_uv = a_uv;
   gl_Position = u_mvp * vec4(a_position, 1.0);
-}`;
-
-const FS_GLSL300 = `#version 300 es
+}`,
+  fragment: `
 precision mediump float;
 in vec2 v_uv;
 uniform sampler2D u_tex;
 out vec4 fragColor;
 void main() {
   fragColor = texture(u_tex, v_uv);
-}`;
+}`,
+  attributes: ATTRIBS,
+};
 
-const VS_GLSL100 = `
-attribute vec3 a_position;
-attribute vec2 a_uv;
-uniform mat4 u_mvp;
-varying vec2 v_uv;
-void main() {
-  v_uv = a_uv;
-  gl_Position = u_mvp * vec4(a_position, 1.0);
-}`;
+// ── Mesh state ──────────────────────────────────────────────
 
-const FS_GLSL100 = `
-precision mediump float;
-varying vec2 v_uv;
-uniform sampler2D u_tex;
-void main() {
-  gl_FragColor = texture2D(u_tex, v_uv);
-}`;
+interface SphereState {
+  stacks: number;
+  slices: number;
+  poles: SphereVertexSharing;
+  seam: SphereVertexSharing;
+}
+
+const DEFAULT_STATE: Readonly<SphereState> = {
+  stacks: 32,
+  slices: 64,
+  poles: "duplicated",
+  seam: "duplicated",
+};
+
+const SHARING: SphereVertexSharing[] = ["duplicated", "shared"];
+
+type CameraMode = "orbit" | "fly";
+
+const CAMERA_MODES: CameraMode[] = ["orbit", "fly"];
+
+/** URL query ↔ SphereState 매핑. 범위는 슬라이더와 동일하다. */
+const STATE_SCHEMA: StateSchema<SphereState> = {
+  stacks: intField("stacks", 4, 256),
+  slices: intField("slices", 4, 512),
+  poles: enumField("poles", SHARING),
+  seam: enumField("seam", SHARING),
+};
 
 // ── Helpers ─────────────────────────────────────────────────
 
@@ -98,9 +121,47 @@ function createSlider(
   return { row, input, valueSpan };
 }
 
+// ── Select builder ──────────────────────────────────────────
+
+function createSelect<T extends string>(
+  label: string,
+  options: T[],
+  value: T,
+  onChange: (v: T) => void,
+): { row: HTMLElement; select: HTMLSelectElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const select = document.createElement("select");
+  select.className = "ctrl-select";
+  for (const opt of options) {
+    const o = document.createElement("option");
+    o.value = opt;
+    o.textContent = opt;
+    if (opt === value) o.selected = true;
+    select.appendChild(o);
+  }
+  select.addEventListener("change", () => onChange(select.value as T));
+
+  row.append(lbl, select);
+  return { row, select };
+}
+
+function describeMesh(m: SphereMesh): string {
+  const type = m.indices instanceof Uint32Array ? "UNSIGNED_INT" : "UNSIGNED_SHORT";
+  return `${m.vertexCount.toLocaleString()} vertices · ${(m.indexCount / 3).toLocaleString()} triangles · ${type}`;
+}
+
 // ── Main export ─────────────────────────────────────────────
 
-export function renderSphere01(container: HTMLElement): void {
+export function renderSphere01(
+  container: HTMLElement,
+  route: RouteMatch,
+): Disposer | void {
   // ── Header ──
   const title = document.createElement("h1");
   title.className = "page-title";
@@ -112,8 +173,12 @@ export function renderSphere01(container: HTMLElement): void {
     "Lat/Lon 방식으로 구(Sphere) 메쉬를 생성하고 텍스처를 입혀 렌더링합니다.",
     "<b>UV 매핑</b>: 경도→u, 위도→v 로 구면 좌표를 텍스처 좌표에 대응시킵니다.",
     "<b>인덱스 드로우</b>: 공유 정점을 인덱스 버퍼(EBO)로 참조하여 drawElements로 그립니다.",
-    "<b>MVP 행렬</b>: perspective × view(translation) × model(rotationY) 으로 최종 변환합니다.",
+    "<b>MVP 행렬</b>: perspective × view(lookAt) 으로 변환합니다. 모델은 원점에 고정되어 있습니다.",
+    "<b>Orbit 카메라</b>: 드래그로 회전, 휠·핀치로 확대/축소, 오른쪽 드래그(또는 Shift+드래그)로 이동. 극점과 이음매(seam)를 직접 살펴보세요.",
+    "<b>Fly 카메라</b>: Camera를 fly로 바꾸고 캔버스를 클릭하면 마우스로 시선, WASD로 이동, Q/E로 상하 이동(Shift는 빠르게). Esc로 마우스를 풀어 줍니다.",
     "Stacks/Slices 슬라이더로 메쉬 해상도를 조절하고 Rebuild 버튼을 눌러 재생성하세요.",
+    "<b>Poles/Seam</b>: 극점과 이음매 정점을 uv마다 복제(duplicated)하거나 하나로 공유(shared)합니다. shared에서는 정점이 줄어드는 대신 텍스처가 이음매와 극점에서 어긋납니다.",
+    "<b>인덱스 타입</b>: 정점이 65535개를 넘으면 Uint32 인덱스(UNSIGNED_INT)를 씁니다. WebGL1에서는 OES_element_index_uint 확장이 필요합니다.",
   ].join("<br>");
 
   container.append(title, desc);
@@ -147,190 +212,181 @@ export function renderSphere01(container: HTMLElement): void {
     return;
   }
 
-  const { canvas, gl, isWebGL2 } = ctx;
+  const { canvas, gl } = ctx;
+  const resources = new GLResourceManager(ctx);
+  const unmountLossUI = mountContextLossUI(canvasWrap, resources);
 
   // ── Shader program ──
-  let program: WebGLProgram;
+  let program: GLResource<ShaderProgram>;
   try {
-    program = createProgram(
-      gl,
-      isWebGL2 ? VS_GLSL300 : VS_GLSL100,
-      isWebGL2 ? FS_GLSL300 : FS_GLSL100,
-    );
+    program = resources.program(SHADER, "Sphere01");
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : String(e);
     console.error("[Sphere01]", msg);
     statusEl.textContent = "";
-    showError(container, msg);
+    showShaderError(container, e);
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
     return;
   }
 
-  gl.useProgram(program);
-
-  const posLoc = isWebGL2 ? 0 : gl.getAttribLocation(program, "a_position");
-  const uvLoc = isWebGL2 ? 1 : gl.getAttribLocation(program, "a_uv");
-  const uMvpLoc = gl.getUniformLocation(program, "u_mvp");
-  const uTexLoc = gl.getUniformLocation(program, "u_tex");
 
   // ── Mesh state ──
-  let currentStacks = 32;
-  let currentSlices = 64;
-  let mesh: SphereMesh = createSphereMesh(1, currentStacks, currentSlices);
-
-  // ── Buffer objects ──
-  let posBuffer = gl.createBuffer()!;
-  let uvBuffer = gl.createBuffer()!;
-  let idxBuffer = gl.createBuffer()!;
-  let vao: WebGLVertexArrayObject | null = null;
-
-  function uploadMesh(): void {
-    if (isWebGL2) {
-      const gl2 = gl as WebGL2RenderingContext;
-      if (vao) gl2.deleteVertexArray(vao);
-      vao = gl2.createVertexArray();
-      gl2.bindVertexArray(vao);
-
-      // positions
-      posBuffer = gl2.createBuffer()!;
-      gl2.bindBuffer(gl2.ARRAY_BUFFER, posBuffer);
-      gl2.bufferData(gl2.ARRAY_BUFFER, mesh.positions, gl2.STATIC_DRAW);
-      gl2.enableVertexAttribArray(posLoc);
-      gl2.vertexAttribPointer(posLoc, 3, gl2.FLOAT, false, 0, 0);
-
-      // uvs
-      uvBuffer = gl2.createBuffer()!;
-      gl2.bindBuffer(gl2.ARRAY_BUFFER, uvBuffer);
-      gl2.bufferData(gl2.ARRAY_BUFFER, mesh.uvs, gl2.STATIC_DRAW);
-      gl2.enableVertexAttribArray(uvLoc);
-      gl2.vertexAttribPointer(uvLoc, 2, gl2.FLOAT, false, 0, 0);
-
-      // indices
-      idxBuffer = gl2.createBuffer()!;
-      gl2.bindBuffer(gl2.ELEMENT_ARRAY_BUFFER, idxBuffer);
-      gl2.bufferData(gl2.ELEMENT_ARRAY_BUFFER, mesh.indices, gl2.STATIC_DRAW);
-
-      gl2.bindVertexArray(null);
-    } else {
-      // positions
-      gl.bindBuffer(gl.ARRAY_BUFFER, posBuffer);
-      gl.bufferData(gl.ARRAY_BUFFER, mesh.positions, gl.STATIC_DRAW);
-
-      // uvs
-      gl.bindBuffer(gl.ARRAY_BUFFER, uvBuffer);
-      gl.bufferData(gl.ARRAY_BUFFER, mesh.uvs, gl.STATIC_DRAW);
-
-      // indices
-      gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, idxBuffer);
-      gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, mesh.indices, gl.STATIC_DRAW);
-    }
+  // 슬라이더 값(pending)과 실제로 빌드된 메쉬 상태(built)를 분리한다.
+  // URL에는 Rebuild로 반영된 상태만 기록한다.
+  const built: SphereState = readState(route.query, STATE_SCHEMA, DEFAULT_STATE);
+  const urlSync = createStateSync(STATE_SCHEMA, DEFAULT_STATE);
+  const pending: SphereState = { ...built };
+  const uint32Indices = supportsUint32Indices(gl);
+
+  function buildMesh(s: SphereState): SphereMesh {
+    return createSphereMesh(1, s.stacks, s.slices, { poles: s.poles, seam: s.seam, uint32Indices });
+  }
+
+  // URL의 해상도가 이 환경의 인덱스 범위를 넘으면 기본값으로 되돌린다
+  let mesh: SphereMesh;
+  try {
+    mesh = buildMesh(built);
+  } catch (e: unknown) {
+    console.warn("[Sphere01]", e instanceof Error ? e.message : String(e));
+    Object.assign(built, DEFAULT_STATE);
+    Object.assign(pending, DEFAULT_STATE);
+    mesh = buildMesh(built);
   }
 
-  uploadMesh();
+  // ── Geometry (Rebuild 때마다 교체) ──
+  const geometry = resources.geometry(toGeometryDesc(mesh, ATTRIBS), ATTRIBS);
+
+  // ── Camera ──
+  const camera = new Camera({ position: [0, 0.8, 3], target: [0, 0, 0] });
+
+  function createController(mode: CameraMode): CameraController {
+    if (mode === "fly") return new FlyControls(camera, canvas, { speed: 1.5 });
+    // fly로 움직인 위치에서 다시 구를 바라보며 돈다
+    camera.target.set([0, 0, 0]);
+    return new OrbitControls(camera, canvas, { minDistance: 1.2, maxDistance: 20 });
+  }
+
+  let controller = createController("orbit");
 
   // ── Render loop state ──
-  let angle = 0;
   let lastTime = 0;
-  let rafId = 0;
-  let texture: WebGLTexture | null = null;
+  let disposed = false;
+  let texture: GLResource<WebGLTexture> | null = null;
 
   function frame(now: number): void {
     const dt = lastTime ? (now - lastTime) / 1000 : 0;
     lastTime = now;
-    angle += dt * 0.5; // ~0.5 rad/s rotation
 
     resizeCanvas(gl, canvas);
 
     gl.clearColor(0.08, 0.09, 0.12, 1.0);
     gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
 
-    if (!texture) {
-      rafId = requestAnimationFrame(frame);
-      return;
-    }
+    if (!texture) return;
 
-    gl.useProgram(program);
+    const p = program.value;
+    p.use();
 
-    // ── MVP ──
-    const aspect = canvas.clientWidth / canvas.clientHeight || 1;
-    const proj = perspective(Math.PI / 4, aspect, 0.1, 100); // fov 45°
-    const view = translation(0, 0, -3);
-    const model: Mat4 = rotationY(angle);
-    const mvp = multiply(proj, multiply(view, model));
+    // ── MVP (model = identity) ──
+    controller.update(dt);
+    camera.updateAspect(canvas);
+    camera.update();
 
-    gl.uniformMatrix4fv(uMvpLoc, false, mvp);
+    p.setMat4("u_mvp", camera.viewProjection);
 
     // ── Texture ──
     gl.activeTexture(gl.TEXTURE0);
-    gl.bindTexture(gl.TEXTURE_2D, texture);
-    gl.uniform1i(uTexLoc, 0);
+    gl.bindTexture(gl.TEXTURE_2D, texture.value);
+    p.setSampler("u_tex", 0);
 
     // ── Draw ──
-    if (isWebGL2) {
-      const gl2 = gl as WebGL2RenderingContext;
-      gl2.bindVertexArray(vao);
-      gl2.drawElements(gl2.TRIANGLES, mesh.indexCount, gl2.UNSIGNED_SHORT, 0);
-      gl2.bindVertexArray(null);
-    } else {
-      // Bind attributes manually for WebGL1
-      gl.bindBuffer(gl.ARRAY_BUFFER, posBuffer);
-      gl.enableVertexAttribArray(posLoc);
-      gl.vertexAttribPointer(posLoc, 3, gl.FLOAT, false, 0, 0);
-
-      gl.bindBuffer(gl.ARRAY_BUFFER, uvBuffer);
-      gl.enableVertexAttribArray(uvLoc);
-      gl.vertexAttribPointer(uvLoc, 2, gl.FLOAT, false, 0, 0);
-
-      gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, idxBuffer);
-      gl.drawElements(gl.TRIANGLES, mesh.indexCount, gl.UNSIGNED_SHORT, 0);
-    }
-
-    rafId = requestAnimationFrame(frame);
+    geometry.value.draw();
   }
 
-  // ── Cleanup observer ──
-  const observer = new MutationObserver(() => {
-    if (!container.contains(canvas)) {
-      cancelAnimationFrame(rafId);
-      observer.disconnect();
-    }
+  // ── Controls ──
+  const stacksSlider = createSlider("Stacks", 4, 256, 1, pending.stacks, (v) => {
+    pending.stacks = v;
   });
-  observer.observe(container.parentElement ?? container, {
-    childList: true,
-    subtree: true,
+  const slicesSlider = createSlider("Slices", 4, 512, 1, pending.slices, (v) => {
+    pending.slices = v;
   });
-
-  // ── Controls ──
-  const stacksSlider = createSlider("Stacks", 4, 64, 1, currentStacks, (v) => {
-    currentStacks = v;
+  const polesSelect = createSelect("Poles", SHARING, pending.poles, (v) => {
+    pending.poles = v;
   });
-  const slicesSlider = createSlider("Slices", 4, 128, 1, currentSlices, (v) => {
-    currentSlices = v;
+  const seamSelect = createSelect("Seam", SHARING, pending.seam, (v) => {
+    pending.seam = v;
   });
+  const cameraSelect = createSelect("Camera", CAMERA_MODES, "orbit", (v) => {
+    controller.dispose();
+    controller = createController(v);
+  });
+
+  const infoRow = document.createElement("div");
+  infoRow.className = "ctrl-row";
+  const infoLabel = document.createElement("span");
+  infoLabel.className = "ctrl-label";
+  infoLabel.textContent = "Mesh";
+  const info = document.createElement("span");
+  info.className = "ctrl-value";
+  info.textContent = describeMesh(mesh);
+  infoRow.append(infoLabel, info);
 
   const rebuildBtn = document.createElement("button");
   rebuildBtn.className = "btn";
   rebuildBtn.textContent = "Rebuild";
   rebuildBtn.addEventListener("click", () => {
-    mesh = createSphereMesh(1, currentStacks, currentSlices);
-    uploadMesh();
+    // 인덱스 범위를 넘는 등 실패하면 이전 메쉬를 그대로 둔다
+    let next: SphereMesh;
+    try {
+      next = buildMesh(pending);
+    } catch (e: unknown) {
+      info.textContent = e instanceof Error ? e.message : String(e);
+      return;
+    }
+    mesh = next;
+    const desc = toGeometryDesc(mesh, ATTRIBS);
+    geometry.replace((g) => new Geometry(g, desc, ATTRIBS));
+    info.textContent = describeMesh(mesh);
+    Object.assign(built, pending);
+    urlSync.write(built);
   });
 
-  panel.append(stacksSlider.row, slicesSlider.row, rebuildBtn);
-
-  // ── Enable depth test ──
+  const resetViewBtn = document.createElement("button");
+  resetViewBtn.className = "btn";
+  resetViewBtn.textContent = "Reset view";
+  resetViewBtn.style.marginLeft = "8px";
+  resetViewBtn.addEventListener("click", () => controller.reset());
+
+  panel.append(
+    stacksSlider.row,
+    slicesSlider.row,
+    polesSelect.row,
+    seamSelect.row,
+    cameraSelect.row,
+    infoRow,
+    rebuildBtn,
+    resetViewBtn,
+  );
+
+  // ── Enable depth test (GL 상태도 손실되므로 복구 후 다시 켠다) ──
   gl.enable(gl.DEPTH_TEST);
+  resources.onRestored(() => gl.enable(gl.DEPTH_TEST));
 
   // ── Load texture & start ──
   loadImage("/checker.png")
     .then((img) => {
+      // 로딩 도중 다른 라우트로 이동했다면 GL 객체를 만들지 않는다
+      if (disposed) return;
       try {
-        texture = createTexture(gl, img, {
+        texture = resources.texture(() => createTexture(gl, img, {
           flipY: true,
           minFilter: gl.LINEAR,
           magFilter: gl.LINEAR,
           wrapS: gl.REPEAT,
           wrapT: gl.REPEAT,
-        });
+        }));
       } catch (e: unknown) {
         const msg = e instanceof Error ? e.message : String(e);
         console.error("[Sphere01]", msg);
@@ -345,12 +401,23 @@ export function renderSphere01(container: HTMLElement): void {
       panel.style.display = "";
 
       // Start render loop
-      rafId = requestAnimationFrame(frame);
+      resources.startLoop(frame);
     })
     .catch((err: unknown) => {
+      if (disposed) return;
       const msg = err instanceof Error ? err.message : String(err);
       console.error("[Sphere01]", msg);
       statusEl.textContent = "";
       showError(container, msg);
     });
+
+  // ── Cleanup (router calls this before the next route) ──
+  return () => {
+    disposed = true;
+    urlSync.cancel();
+    controller.dispose();
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+  };
 }
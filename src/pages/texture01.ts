@@ -1,50 +1,90 @@
-import { createGLCanvas, resizeCanvas } from "../core/gl/context";
-import { createProgram } from "../core/gl/shader";
+import { createGLCanvas, resizeCanvas, destroyGLCanvas } from "../core/gl/context";
+import type { ShaderProgram } from "../core/gl/program";
+import type { ShaderSourceSpec } from "../core/gl/shaderSource";
+import { GLResourceManager } from "../core/gl/resources";
+import type { GLResource } from "../core/gl/resources";
+import { showShaderError } from "../app/errorOverlay";
+import { mountContextLossUI } from "../app/contextLoss";
+import type { Disposer, RouteMatch } from "../router";
+import {
+  intField,
+  numberField,
+  boolField,
+  enumField,
+  readState,
+  createStateSync,
+} from "../app/urlState";
+import type { StateSchema } from "../app/urlState";
 import {
   loadImage,
   createTexture,
   applyTextureParams,
   reuploadWithFlip,
+  uploadTexture,
+  textureProblems,
+  textureSize,
+  resolveTextureFormat,
+  isTextureData,
+  maxAnisotropy,
+  TextureFormatError,
 } from "../core/gl/texture";
+import type { TextureOptions, TextureSource } from "../core/gl/texture";
+import {
+  identity,
+  lookAtInto,
+  multiplyInto,
+  perspectiveInto,
+  rotationXInto,
+  scalingInto,
+} from "../core/math/mat4";
+import type { Mat4 } from "../core/math/mat4";
 
 // ── Shader sources ──────────────────────────────────────────
 
-const VS_GLSL300 = `#version 300 es
-layout(location = 0) in vec2 a_position;
-layout(location = 1) in vec2 a_uv;
+const ATTRIBS = { a_position: 0, a_uv: 1 };
+
+const SHADER: ShaderSourceSpec = {
+  vertex: `
+in vec2 a_position;
+in vec2 a_uv;
+uniform mat4 u_mvp;
 uniform float u_uvScale;
 out vec2 v_uv;
 void main() {
   v_uv = a_uv * u_uvScale;
-  gl_Position = vec4(a_position, 0.0, 1.0);
-}`;
-
-const FS_GLSL300 = `#version 300 es
+  gl_Position = u_mvp * vec4(a_position, 0.0, 1.0);
+}`,
+  fragment: `
 precision mediump float;
 in vec2 v_uv;
 uniform sampler2D u_tex;
+uniform int u_depthView; // 1: depth texture read without comparison, depth is in .r
 out vec4 fragColor;
 void main() {
-  fragColor = texture(u_tex, v_uv);
-}`;
-
-const VS_GLSL100 = `
-attribute vec2 a_position;
-attribute vec2 a_uv;
-uniform float u_uvScale;
-varying vec2 v_uv;
-void main() {
-  v_uv = a_uv * u_uvScale;
-  gl_Position = vec4(a_position, 0.0, 1.0);
-}`;
+  vec4 c = texture(u_tex, v_uv);
+  fragColor = u_depthView == 1 ? vec4(c.rrr, 1.0) : c;
+}`,
+  attributes: ATTRIBS,
+};
 
-const FS_GLSL100 = `
+/**
+ * 깊이 텍스처를 비교 모드로 읽는다 (WebGL2 전용). 결과는 비교가 통과한 비율 0…1이고,
+ * LINEAR 필터면 주변 2×2 texel의 비교 결과를 섞는다 (하드웨어 PCF).
+ */
+const SHADOW_SHADER: ShaderSourceSpec = {
+  vertex: SHADER.vertex,
+  fragment: `
 precision mediump float;
-varying vec2 v_uv;
-uniform sampler2D u_tex;
+in vec2 v_uv;
+uniform mediump sampler2DShadow u_depthTex;
+uniform float u_ref;
+out vec4 fragColor;
 void main() {
-  gl_FragColor = texture2D(u_tex, v_uv);
-}`;
+  float pass = texture(u_depthTex, vec3(v_uv, u_ref));
+  fragColor = vec4(mix(vec3(0.15, 0.1, 0.3), vec3(1.0, 0.85, 0.4), pass), 1.0);
+}`,
+  attributes: ATTRIBS,
+};
 
 // ── Geometry: full-screen-ish quad (‑0.8 … 0.8) with UVs ───
 //  position(x,y) + uv(s,t)  — interleaved
@@ -61,22 +101,105 @@ const VERTICES = new Float32Array([
 
 const STRIDE = 4 * Float32Array.BYTES_PER_ELEMENT; // 16 bytes per vertex
 
+/** Tilted 뷰: 사각형을 바닥으로 눕혀 멀리까지 이어지게 한다. uv도 이만큼 더 반복한다 */
+const TILTED_SCALE = 12;
+const TILTED_REPEAT = 8;
+
 // ── State ───────────────────────────────────────────────────
 
+const MIN_FILTERS = [
+  "NEAREST",
+  "LINEAR",
+  "NEAREST_MIPMAP_NEAREST",
+  "LINEAR_MIPMAP_NEAREST",
+  "NEAREST_MIPMAP_LINEAR",
+  "LINEAR_MIPMAP_LINEAR",
+] as const;
+const MAG_FILTERS = ["NEAREST", "LINEAR"] as const;
+const WRAPS = ["CLAMP_TO_EDGE", "REPEAT", "MIRRORED_REPEAT"] as const;
+const COMPARE_MODES = ["NONE", "COMPARE_REF_TO_TEXTURE"] as const;
+const COMPARE_FUNCS = ["LEQUAL", "GEQUAL", "LESS", "GREATER", "EQUAL", "NOTEQUAL", "ALWAYS", "NEVER"] as const;
+const SOURCES = ["checker", "checker-npot", "canvas", "float", "depth"] as const;
+const VIEWS = ["flat", "tilted"] as const;
+
+type TexSource = (typeof SOURCES)[number];
+
+const SOURCE_LABELS: Record<TexSource, string> = {
+  checker: "checker.png (256×256)",
+  "checker-npot": "checker-npot.png (300×200, NPOT)",
+  canvas: "Canvas 2D (매 프레임 업로드)",
+  float: "Float data (RGBA32F, 128×128)",
+  depth: "Depth ramp (DEPTH_COMPONENT16, WebGL2)",
+};
+
 interface TexState {
-  filter: "NEAREST" | "LINEAR";
-  wrap: "CLAMP_TO_EDGE" | "REPEAT";
+  source: TexSource;
+  view: (typeof VIEWS)[number];
+  minFilter: (typeof MIN_FILTERS)[number];
+  magFilter: (typeof MAG_FILTERS)[number];
+  wrapS: (typeof WRAPS)[number];
+  wrapT: (typeof WRAPS)[number];
+  /** 업로드할 때 generateMipmap을 부른다 */
+  mipmaps: boolean;
+  anisotropy: number;
   flipY: boolean;
   uvScale: number;
+  // WebGL2 전용
+  minLod: number;
+  maxLod: number;
+  baseLevel: number;
+  maxLevel: number;
+  compareMode: (typeof COMPARE_MODES)[number];
+  compareFunc: (typeof COMPARE_FUNCS)[number];
+  /** 비교 기준값 (sampler2DShadow의 세 번째 좌표) */
+  compareRef: number;
 }
 
 const DEFAULT_STATE: Readonly<TexState> = {
-  filter: "LINEAR",
-  wrap: "CLAMP_TO_EDGE",
+  source: "checker",
+  view: "flat",
+  minFilter: "LINEAR",
+  magFilter: "LINEAR",
+  wrapS: "CLAMP_TO_EDGE",
+  wrapT: "CLAMP_TO_EDGE",
+  mipmaps: true,
+  anisotropy: 1,
   flipY: true,
   uvScale: 1.0,
+  minLod: 0,
+  maxLod: 12,
+  baseLevel: 0,
+  maxLevel: 12,
+  compareMode: "NONE",
+  compareFunc: "LEQUAL",
+  compareRef: 0.5,
+};
+
+/** URL query ↔ TexState 매핑. 예: #/texture01?view=tilted&min=LINEAR_MIPMAP_LINEAR&wrapS=REPEAT&wrapT=REPEAT&aniso=8 */
+const STATE_SCHEMA: StateSchema<TexState> = {
+  source: enumField("src", SOURCES),
+  view: enumField("view", VIEWS),
+  minFilter: enumField("min", MIN_FILTERS),
+  magFilter: enumField("mag", MAG_FILTERS),
+  wrapS: enumField("wrapS", WRAPS),
+  wrapT: enumField("wrapT", WRAPS),
+  mipmaps: boolField("mips"),
+  anisotropy: numberField("aniso", 1, 16),
+  flipY: boolField("flipY"),
+  uvScale: numberField("uv", 1, 8),
+  minLod: numberField("minLod", 0, 12),
+  maxLod: numberField("maxLod", 0, 12),
+  baseLevel: intField("base", 0, 12),
+  maxLevel: intField("maxLevel", 0, 12),
+  compareMode: enumField("cmp", COMPARE_MODES),
+  compareFunc: enumField("cmpFunc", COMPARE_FUNCS),
+  compareRef: numberField("ref", 0, 1),
 };
 
+const DEPTH_SIZE = 256;
+const FLOAT_SIZE = 128;
+const CANVAS_SIZE = 256;
+
 // ── Helpers ─────────────────────────────────────────────────
 
 function showError(container: HTMLElement, message: string): void {
@@ -86,27 +209,72 @@ function showError(container: HTMLElement, message: string): void {
   container.appendChild(el);
 }
 
-function glFilterConst(
-  gl: WebGL2RenderingContext | WebGLRenderingContext,
-  name: TexState["filter"],
-): number {
-  return name === "NEAREST" ? gl.NEAREST : gl.LINEAR;
+/** "LINEAR_MIPMAP_LINEAR" 같은 이름 → GL 상수. */
+function glConst(gl: WebGL2RenderingContext | WebGLRenderingContext, name: string): number {
+  return (gl as unknown as Record<string, number>)[name];
+}
+
+/**
+ * 가운데가 0, 모서리가 1인 동심원 깊이. Compare ref를 움직이면 통과 영역의 경계가 원으로 번진다.
+ */
+function createDepthRamp(): TextureSource {
+  const data = new Uint16Array(DEPTH_SIZE * DEPTH_SIZE);
+  const c = (DEPTH_SIZE - 1) / 2;
+  for (let y = 0; y < DEPTH_SIZE; y++) {
+    for (let x = 0; x < DEPTH_SIZE; x++) {
+      const d = Math.min(Math.hypot(x - c, y - c) / (c * Math.SQRT2), 1);
+      data[y * DEPTH_SIZE + x] = Math.round(d * 65535);
+    }
+  }
+  return { data, width: DEPTH_SIZE, height: DEPTH_SIZE, format: "DEPTH_COMPONENT16" };
+}
+
+/**
+ * RGBA32F 데이터 텍스처. 8비트로는 계단이 생기는 부드러운 간섭 무늬라 NEAREST / LINEAR 차이가 잘 보인다.
+ */
+function createFloatField(): TextureSource {
+  const data = new Float32Array(FLOAT_SIZE * FLOAT_SIZE * 4);
+  for (let y = 0; y < FLOAT_SIZE; y++) {
+    for (let x = 0; x < FLOAT_SIZE; x++) {
+      const u = x / FLOAT_SIZE;
+      const v = y / FLOAT_SIZE;
+      const i = (y * FLOAT_SIZE + x) * 4;
+      data[i] = 0.5 + 0.5 * Math.sin(u * 12.0 + Math.cos(v * 9.0));
+      data[i + 1] = 0.5 + 0.5 * Math.sin(v * 10.0 + u * 4.0);
+      data[i + 2] = 0.5 + 0.5 * Math.cos(Math.hypot(u - 0.5, v - 0.5) * 30.0);
+      data[i + 3] = 1;
+    }
+  }
+  return { data, width: FLOAT_SIZE, height: FLOAT_SIZE, format: "RGBA32F" };
 }
 
-function glWrapConst(
-  gl: WebGL2RenderingContext | WebGLRenderingContext,
-  name: TexState["wrap"],
-): number {
-  return name === "REPEAT" ? gl.REPEAT : gl.CLAMP_TO_EDGE;
+/** 움직이는 줄무늬와 시각. 비디오처럼 내용이 계속 바뀌는 소스의 예. */
+function drawCanvasFrame(ctx2d: CanvasRenderingContext2D, now: number): void {
+  const t = now / 1000;
+  ctx2d.fillStyle = "#1d2740";
+  ctx2d.fillRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
+  ctx2d.fillStyle = "#6c8cff";
+  for (let i = -2; i < 10; i++) {
+    const x = ((i * 32 + t * 40) % (CANVAS_SIZE + 64)) - 32;
+    ctx2d.fillRect(x, 0, 14, CANVAS_SIZE);
+  }
+  ctx2d.fillStyle = "#ffd166";
+  ctx2d.beginPath();
+  ctx2d.arc(CANVAS_SIZE / 2 + Math.cos(t) * 70, CANVAS_SIZE / 2 + Math.sin(t) * 70, 28, 0, Math.PI * 2);
+  ctx2d.fill();
+  ctx2d.fillStyle = "#ffffff";
+  ctx2d.font = "bold 28px sans-serif";
+  ctx2d.fillText(`${t.toFixed(1)} s`, 12, 36);
 }
 
 // ── Select builder ──────────────────────────────────────────
 
 function createSelect<T extends string>(
   label: string,
-  options: T[],
+  options: readonly T[],
   value: T,
   onChange: (v: T) => void,
+  optionLabel: (v: T) => string = (v) => v,
 ): { row: HTMLElement; select: HTMLSelectElement } {
   const row = document.createElement("div");
   row.className = "ctrl-row";
@@ -120,7 +288,7 @@ function createSelect<T extends string>(
   for (const opt of options) {
     const o = document.createElement("option");
     o.value = opt;
-    o.textContent = opt;
+    o.textContent = optionLabel(opt);
     if (opt === value) o.selected = true;
     select.appendChild(o);
   }
@@ -195,7 +363,10 @@ function createSlider(
 
 // ── Main export ─────────────────────────────────────────────
 
-export function renderTexture01(container: HTMLElement): void {
+export function renderTexture01(
+  container: HTMLElement,
+  route: RouteMatch,
+): Disposer | void {
   // ── Header ──
   const title = document.createElement("h1");
   title.className = "page-title";
@@ -206,9 +377,11 @@ export function renderTexture01(container: HTMLElement): void {
   desc.innerHTML = [
     "WebGL 텍스처 매핑의 기초를 실습합니다.",
     "이미지를 GPU에 업로드하고 사각형(2 triangles)에 입힙니다.",
-    "<b>Filter</b>: NEAREST(픽셀 그대로) vs LINEAR(보간) 차이를 확인하세요.",
-    "<b>Wrap</b>: CLAMP_TO_EDGE vs REPEAT(타일링). UV Scale을 올려 타일링을 관찰하세요.",
+    "<b>Filter</b>: NEAREST(픽셀 그대로) vs LINEAR(보간). 축소 필터의 <b>*_MIPMAP_*</b>은 화면 크기에 맞는 mip level을 골라 멀리서 생기는 모아레를 없앱니다.",
+    "<b>View: tilted</b>로 바닥처럼 눕히면 차이가 잘 보입니다. 비스듬한 면은 한 방향으로만 축소되므로 <b>Anisotropy</b>를 올리면 mipmap의 뿌연 부분이 선명해집니다.",
+    "<b>Wrap</b>: CLAMP_TO_EDGE · REPEAT · MIRRORED_REPEAT. UV Scale을 올려 타일링을 관찰하세요.",
     "<b>Flip Y</b>: 이미지 좌표(top-left 원점)와 텍스처 좌표(bottom-left 원점)의 차이를 확인합니다.",
+    "WebGL1에서 NPOT 이미지는 mipmap과 REPEAT을 쓸 수 없습니다. 쓸 수 없는 조합은 적용하지 않고 이유를 아래에 보여 줍니다.",
   ].join("<br>");
 
   container.append(title, desc);
@@ -243,171 +416,371 @@ export function renderTexture01(container: HTMLElement): void {
   }
 
   const { canvas, gl, isWebGL2 } = ctx;
+  const resources = new GLResourceManager(ctx);
+  const unmountLossUI = mountContextLossUI(canvasWrap, resources);
 
-  // ── Shader program ──
-  let program: WebGLProgram;
+  // ── Shader programs (비교 샘플링은 sampler2DShadow가 필요해 WebGL2에서만 만든다) ──
+  let program: GLResource<ShaderProgram>;
+  let shadowProgram: GLResource<ShaderProgram> | null = null;
   try {
-    program = createProgram(
-      gl,
-      isWebGL2 ? VS_GLSL300 : VS_GLSL100,
-      isWebGL2 ? FS_GLSL300 : FS_GLSL100,
-    );
+    program = resources.program(SHADER, "Texture01");
+    if (isWebGL2) shadowProgram = resources.program(SHADOW_SHADER, "Texture01 (shadow)");
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : String(e);
     console.error("[Texture01]", msg);
     statusEl.textContent = "";
-    showError(container, msg);
+    showShaderError(container, e);
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
     return;
   }
 
-  // ── VBO + attributes ──
-  const posLoc = isWebGL2 ? 0 : gl.getAttribLocation(program, "a_position");
-  const uvLoc = isWebGL2 ? 1 : gl.getAttribLocation(program, "a_uv");
-
-  if (isWebGL2) {
-    const gl2 = gl as WebGL2RenderingContext;
-    const vao = gl2.createVertexArray();
-    gl2.bindVertexArray(vao);
-
-    const vbo = gl2.createBuffer();
-    gl2.bindBuffer(gl2.ARRAY_BUFFER, vbo);
-    gl2.bufferData(gl2.ARRAY_BUFFER, VERTICES, gl2.STATIC_DRAW);
-
-    gl2.enableVertexAttribArray(posLoc);
-    gl2.vertexAttribPointer(posLoc, 2, gl2.FLOAT, false, STRIDE, 0);
-    gl2.enableVertexAttribArray(uvLoc);
-    gl2.vertexAttribPointer(uvLoc, 2, gl2.FLOAT, false, STRIDE, 8);
-  } else {
-    const vbo = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, vbo);
-    gl.bufferData(gl.ARRAY_BUFFER, VERTICES, gl.STATIC_DRAW);
-
-    gl.enableVertexAttribArray(posLoc);
-    gl.vertexAttribPointer(posLoc, 2, gl.FLOAT, false, STRIDE, 0);
-    gl.enableVertexAttribArray(uvLoc);
-    gl.vertexAttribPointer(uvLoc, 2, gl.FLOAT, false, STRIDE, 8);
-  }
-
-  // ── Uniforms ──
-  gl.useProgram(program);
-  const uTexLoc = gl.getUniformLocation(program, "u_tex");
-  const uUvScaleLoc = gl.getUniformLocation(program, "u_uvScale");
+  // ── VBO + attribute layout (interleaved) ──
+  const geometry = resources.geometry(
+    {
+      buffers: [{
+        data: VERTICES,
+        stride: STRIDE,
+        attributes: [
+          { name: "a_position", size: 2, offset: 0 },
+          { name: "a_uv", size: 2, offset: 8 },
+        ],
+      }],
+    },
+    ATTRIBS,
+  );
 
   // ── State ──
-  const state: TexState = { ...DEFAULT_STATE };
-  let texture: WebGLTexture | null = null;
-  let loadedImage: HTMLImageElement | null = null;
+  const state: TexState = readState(route.query, STATE_SCHEMA, DEFAULT_STATE);
+  const urlSync = createStateSync(STATE_SCHEMA, DEFAULT_STATE);
+  if (!isWebGL2 && state.source === "depth") state.source = DEFAULT_STATE.source;
+
+  const anisotropyMax = maxAnisotropy(gl);
+  // 소스마다 TextureSource 하나. 이미지는 로딩이 끝나면 채운다
+  const sources = new Map<TexSource, TextureSource>([
+    ["float", createFloatField()],
+    ["depth", createDepthRamp()],
+  ]);
+  const sourceCanvas = document.createElement("canvas");
+  sourceCanvas.width = CANVAS_SIZE;
+  sourceCanvas.height = CANVAS_SIZE;
+  const sourceCtx = sourceCanvas.getContext("2d");
+  if (sourceCtx) {
+    drawCanvasFrame(sourceCtx, 0);
+    sources.set("canvas", sourceCanvas);
+  }
+
+  let texture: GLResource<WebGLTexture> | null = null;
+  /** 지금 텍스처를 만든 업로드 설정. 바뀌면 새로 만든다 */
+  let uploadKey = "";
+  /** 검증을 통과한 마지막 옵션. 매 프레임 바인딩된 텍스처에 다시 적용한다 */
+  let applied: TextureOptions | null = null;
   let needsReupload = false;
-  let rafId = 0;
+  let disposed = false;
+
+  const mvp: Mat4 = identity();
+  const proj: Mat4 = identity();
+  const view: Mat4 = identity();
+  const model: Mat4 = identity();
+  const scratch: Mat4 = identity();
+  const FLAT: Mat4 = identity();
+
+  function currentOptions(): TextureOptions {
+    const options: TextureOptions = {
+      flipY: state.flipY,
+      wrapS: glConst(gl, state.wrapS),
+      wrapT: glConst(gl, state.wrapT),
+      minFilter: glConst(gl, state.minFilter),
+      magFilter: glConst(gl, state.magFilter),
+      mipmaps: state.mipmaps,
+      anisotropy: state.anisotropy,
+    };
+    if (isWebGL2) {
+      Object.assign(options, {
+        minLod: state.minLod,
+        maxLod: state.maxLod,
+        baseLevel: state.baseLevel,
+        maxLevel: state.maxLevel,
+        compareMode: glConst(gl, state.compareMode),
+        compareFunc: glConst(gl, state.compareFunc),
+      });
+    }
+    return options;
+  }
 
-  // ── Render loop ──
-  function frame(): void {
+  /**
+   * state를 검증해 적용한다. 문제가 있으면 텍스처를 그리지 않고 이유를 보여 준다
+   * (WebGL은 불완전한 텍스처를 오류 없이 검게 샘플링하기 때문에 그대로 두면 원인을 알 수 없다).
+   */
+  function refresh(): void {
+    const options = currentOptions();
+    const source = sources.get(state.source);
+    const problems: string[] = [];
+    if (!source) {
+      problems.push(`${SOURCE_LABELS[state.source]}을 이 브라우저에서 만들 수 없습니다`);
+    } else if (isTextureData(source)) {
+      try {
+        resolveTextureFormat(gl, source);
+      } catch (e: unknown) {
+        if (!(e instanceof TextureFormatError)) throw e;
+        problems.push(e.message);
+      }
+    }
+    if (source) {
+      const format = isTextureData(source) ? source.format : undefined;
+      problems.push(...textureProblems(gl, { ...textureSize(source), format }, options));
+    }
+
+    problemsEl.textContent = problems.map((p) => `⚠ ${p}`).join("\n");
+    problemsEl.style.display = problems.length > 0 ? "" : "none";
+    if (problems.length > 0) {
+      applied = null;
+      return;
+    }
+
+    const key = `${state.source}|${state.mipmaps}`;
+    if (key !== uploadKey) {
+      texture?.release();
+      texture = resources.texture((g) => createTexture(g, source!, { ...options, flipY: state.flipY }));
+      uploadKey = key;
+      needsReupload = false;
+    }
+    applied = options;
+  }
+
+  // ── Render loop (컨텍스트 손실 중에는 resources가 멈춘다) ──
+  function frame(now: number): void {
     resizeCanvas(gl, canvas);
 
     gl.clearColor(0.08, 0.09, 0.12, 1.0);
     gl.clear(gl.COLOR_BUFFER_BIT);
+    if (!texture || !applied) return;
+
+    const depth = state.source === "depth";
+    const compare = depth && state.compareMode !== "NONE" && shadowProgram !== null;
+    const p = compare ? shadowProgram!.value : program.value;
+    p.use();
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, texture.value);
+
+    // Re-upload if flipY changed (mipmap 체인도 다시 만든다)
+    const source = sources.get(state.source);
+    if (state.source === "canvas" && sourceCtx) {
+      // 캔버스 / 비디오는 내용이 바뀔 때마다 level 0을 다시 올려야 한다
+      drawCanvasFrame(sourceCtx, now);
+      uploadTexture(gl, sourceCanvas, { flipY: state.flipY, mipmaps: state.mipmaps });
+    } else if (needsReupload && source) {
+      reuploadWithFlip(gl, source, state.flipY, state.mipmaps);
+    }
+    needsReupload = false;
+
+    // Apply current params
+    applyTextureParams(gl, applied);
+
+    if (state.view === "tilted") {
+      // 바닥에 눕힌 사각형을 낮은 눈높이에서 지평선 쪽으로 바라본다
+      perspectiveInto(proj, Math.PI / 3, canvas.width / Math.max(canvas.height, 1), 0.05, 100);
+      lookAtInto(view, [0, 0.6, TILTED_SCALE * 0.8], [0, 0, -TILTED_SCALE * 0.8]);
+      rotationXInto(model, -Math.PI / 2);
+      multiplyInto(model, scalingInto(scratch, TILTED_SCALE, TILTED_SCALE, TILTED_SCALE), model);
+      multiplyInto(mvp, view, model);
+      multiplyInto(mvp, proj, mvp);
+    }
+    p.setMat4("u_mvp", state.view === "tilted" ? mvp : FLAT);
+    p.setFloat("u_uvScale", state.uvScale * (state.view === "tilted" ? TILTED_REPEAT : 1));
+    if (compare) {
+      p.setSampler("u_depthTex", 0);
+      p.setFloat("u_ref", state.compareRef);
+    } else {
+      p.setSampler("u_tex", 0);
+      p.setInt("u_depthView", depth ? 1 : 0);
+    }
 
-    if (texture && loadedImage) {
-      gl.useProgram(program);
-
-      gl.activeTexture(gl.TEXTURE0);
-      gl.bindTexture(gl.TEXTURE_2D, texture);
-
-      // Re-upload if flipY changed
-      if (needsReupload) {
-        reuploadWithFlip(gl, loadedImage, state.flipY);
-        needsReupload = false;
-      }
+    geometry.value.draw();
+  }
 
-      // Apply current params
-      applyTextureParams(gl, {
-        wrapS: glWrapConst(gl, state.wrap),
-        wrapT: glWrapConst(gl, state.wrap),
-        minFilter: glFilterConst(gl, state.filter),
-        magFilter: glFilterConst(gl, state.filter),
-      });
+  // ── Build controls (wired up, but hidden until load) ──
+  const write = (): void => {
+    refresh();
+    urlSync.write(state);
+  };
+
+  const sourceSel = createSelect<TexSource>(
+    "Source",
+    isWebGL2 ? SOURCES : SOURCES.filter((s) => s !== "depth"),
+    state.source,
+    (v) => { state.source = v; write(); },
+    (v) => SOURCE_LABELS[v],
+  );
 
-      gl.uniform1i(uTexLoc, 0);
-      gl.uniform1f(uUvScaleLoc, state.uvScale);
+  const viewSel = createSelect<TexState["view"]>(
+    "View",
+    VIEWS,
+    state.view,
+    (v) => { state.view = v; write(); },
+  );
 
-      gl.drawArrays(gl.TRIANGLES, 0, 6);
-    }
+  const minSel = createSelect<TexState["minFilter"]>(
+    "Min filter",
+    MIN_FILTERS,
+    state.minFilter,
+    (v) => { state.minFilter = v; write(); },
+  );
 
-    rafId = requestAnimationFrame(frame);
-  }
+  const magSel = createSelect<TexState["magFilter"]>(
+    "Mag filter",
+    MAG_FILTERS,
+    state.magFilter,
+    (v) => { state.magFilter = v; write(); },
+  );
 
-  // ── Cleanup observer ──
-  const observer = new MutationObserver(() => {
-    if (!container.contains(canvas)) {
-      cancelAnimationFrame(rafId);
-      observer.disconnect();
-    }
-  });
-  observer.observe(container.parentElement ?? container, {
-    childList: true,
-    subtree: true,
-  });
+  const wrapSSel = createSelect<TexState["wrapS"]>(
+    "Wrap S",
+    WRAPS,
+    state.wrapS,
+    (v) => { state.wrapS = v; write(); },
+  );
 
-  // ── Build controls (wired up, but hidden until load) ──
-  const filterSel = createSelect<TexState["filter"]>(
-    "Filter",
-    ["NEAREST", "LINEAR"],
-    state.filter,
-    (v) => { state.filter = v; },
+  const wrapTSel = createSelect<TexState["wrapT"]>(
+    "Wrap T",
+    WRAPS,
+    state.wrapT,
+    (v) => { state.wrapT = v; write(); },
   );
 
-  const wrapSel = createSelect<TexState["wrap"]>(
-    "Wrap",
-    ["CLAMP_TO_EDGE", "REPEAT"],
-    state.wrap,
-    (v) => { state.wrap = v; },
+  const mipChk = createCheckbox("Generate mipmaps", state.mipmaps, (v) => { state.mipmaps = v; write(); });
+
+  const anisoSlider = createSlider(
+    anisotropyMax > 1 ? `Anisotropy (≤${anisotropyMax})` : "Anisotropy (미지원)",
+    1, Math.max(anisotropyMax, 1), 1,
+    Math.min(state.anisotropy, anisotropyMax),
+    (v) => { state.anisotropy = v; write(); },
   );
+  anisoSlider.input.disabled = anisotropyMax <= 1;
 
   const flipChk = createCheckbox("Flip Y", state.flipY, (v) => {
     state.flipY = v;
     needsReupload = true;
+    write();
   });
 
   const uvSlider = createSlider(
     "UV Scale",
     1, 8, 0.1,
     state.uvScale,
-    (v) => { state.uvScale = v; },
+    (v) => { state.uvScale = v; write(); },
   );
 
+  // WebGL2 전용 컨트롤
+  const minLodSlider = createSlider("Min LOD", 0, 12, 0.25, state.minLod, (v) => { state.minLod = v; write(); });
+  const maxLodSlider = createSlider("Max LOD", 0, 12, 0.25, state.maxLod, (v) => { state.maxLod = v; write(); });
+  const baseLevelSlider = createSlider("Base level", 0, 12, 1, state.baseLevel, (v) => { state.baseLevel = v; write(); });
+  const maxLevelSlider = createSlider("Max level", 0, 12, 1, state.maxLevel, (v) => { state.maxLevel = v; write(); });
+  const compareSel = createSelect<TexState["compareMode"]>(
+    "Compare mode",
+    COMPARE_MODES,
+    state.compareMode,
+    (v) => { state.compareMode = v; write(); },
+  );
+  const compareFuncSel = createSelect<TexState["compareFunc"]>(
+    "Compare func",
+    COMPARE_FUNCS,
+    state.compareFunc,
+    (v) => { state.compareFunc = v; write(); },
+  );
+  const compareRefSlider = createSlider("Compare ref", 0, 1, 0.01, state.compareRef, (v) => { state.compareRef = v; write(); });
+
+  const webgl2Rows = [
+    minLodSlider.row,
+    maxLodSlider.row,
+    baseLevelSlider.row,
+    maxLevelSlider.row,
+    compareSel.row,
+    compareFuncSel.row,
+    compareRefSlider.row,
+  ];
+  if (!isWebGL2) {
+    for (const el of [minLodSlider.input, maxLodSlider.input, baseLevelSlider.input, maxLevelSlider.input, compareRefSlider.input]) {
+      el.disabled = true;
+    }
+    compareSel.select.disabled = true;
+    compareFuncSel.select.disabled = true;
+  }
+
+  const webgl2Note = document.createElement("div");
+  webgl2Note.className = "ctrl-label";
+  webgl2Note.textContent = isWebGL2
+    ? "WebGL2 — LOD / level / compare (compare는 Depth ramp 소스에서만 의미가 있습니다)"
+    : "WebGL1 컨텍스트 — 아래 항목은 WebGL2 전용입니다";
+
+  const problemsEl = document.createElement("pre");
+  problemsEl.className = "readout";
+  problemsEl.style.display = "none";
+
   const resetBtn = document.createElement("button");
   resetBtn.className = "btn";
   resetBtn.textContent = "Reset";
   resetBtn.addEventListener("click", () => {
     Object.assign(state, DEFAULT_STATE);
-    filterSel.select.value = state.filter;
-    wrapSel.select.value = state.wrap;
+    for (const [sel, v] of [
+      [sourceSel, state.source],
+      [viewSel, state.view],
+      [minSel, state.minFilter],
+      [magSel, state.magFilter],
+      [wrapSSel, state.wrapS],
+      [wrapTSel, state.wrapT],
+      [compareSel, state.compareMode],
+      [compareFuncSel, state.compareFunc],
+    ] as const) {
+      sel.select.value = v;
+    }
+    for (const [slider, v] of [
+      [anisoSlider, state.anisotropy],
+      [uvSlider, state.uvScale],
+      [minLodSlider, state.minLod],
+      [maxLodSlider, state.maxLod],
+      [baseLevelSlider, state.baseLevel],
+      [maxLevelSlider, state.maxLevel],
+      [compareRefSlider, state.compareRef],
+    ] as const) {
+      slider.input.value = String(v);
+      slider.valueSpan.textContent = v.toFixed(2);
+    }
+    mipChk.input.checked = state.mipmaps;
     flipChk.input.checked = state.flipY;
-    uvSlider.input.value = String(state.uvScale);
-    uvSlider.valueSpan.textContent = state.uvScale.toFixed(2);
     needsReupload = true;
+    write();
   });
 
   panel.append(
-    filterSel.row,
-    wrapSel.row,
+    sourceSel.row,
+    viewSel.row,
+    minSel.row,
+    magSel.row,
+    wrapSSel.row,
+    wrapTSel.row,
+    mipChk.row,
+    anisoSlider.row,
     flipChk.row,
     uvSlider.row,
+    webgl2Note,
+    ...webgl2Rows,
     resetBtn,
+    problemsEl,
   );
 
-  // ── Load texture ──
-  loadImage("/checker.png")
-    .then((img) => {
-      loadedImage = img;
+  // ── Load textures ──
+  Promise.all([loadImage("/checker.png"), loadImage("/checker-npot.png")])
+    .then(([checker, npot]) => {
+      // 로딩 도중 다른 라우트로 이동했다면 GL 객체를 만들지 않는다
+      if (disposed) return;
+      sources.set("checker", checker);
+      sources.set("checker-npot", npot);
       try {
-        texture = createTexture(gl, img, {
-          flipY: state.flipY,
-          wrapS: glWrapConst(gl, state.wrap),
-          wrapT: glWrapConst(gl, state.wrap),
-          minFilter: glFilterConst(gl, state.filter),
-          magFilter: glFilterConst(gl, state.filter),
-        });
+        // 복구 시에는 텍스처를 만든 옵션과 현재 flipY로 다시 업로드된다
+        refresh();
       } catch (e: unknown) {
         const msg = e instanceof Error ? e.message : String(e);
         console.error("[Texture01]", msg);
@@ -422,12 +795,22 @@ export function renderTexture01(container: HTMLElement): void {
       panel.style.display = "";
 
       // Start render loop
-      rafId = requestAnimationFrame(frame);
+      resources.startLoop(frame);
     })
     .catch((err: unknown) => {
+      if (disposed) return;
       const msg = err instanceof Error ? err.message : String(err);
       console.error("[Texture01]", msg);
       statusEl.textContent = "";
       showError(container, msg);
     });
+
+  // ── Cleanup (router calls this before the next route) ──
+  return () => {
+    disposed = true;
+    urlSync.cancel();
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+  };
 }
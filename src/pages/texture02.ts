@@ -0,0 +1,644 @@
+import { createGLCanvas, resizeCanvas, destroyGLCanvas } from "../core/gl/context";
+import type { ShaderProgram } from "../core/gl/program";
+import type { ShaderSourceSpec } from "../core/gl/shaderSource";
+import { GLResourceManager } from "../core/gl/resources";
+import type { GLResource } from "../core/gl/resources";
+import { showShaderError } from "../app/errorOverlay";
+import { mountContextLossUI } from "../app/contextLoss";
+import type { Disposer, RouteMatch } from "../router";
+import {
+  boolField,
+  enumField,
+  numberField,
+  readState,
+  createStateSync,
+} from "../app/urlState";
+import type { StateSchema } from "../app/urlState";
+import { applyTextureParams, createTexture, loadImageBlob } from "../core/gl/texture";
+import type { TextureOptions } from "../core/gl/texture";
+import {
+  COMPRESSED_EXTENSIONS,
+  compressedTextureProblems,
+  compressedTextureSupport,
+  compressedUploadPath,
+  createCompressedTexture,
+} from "../core/gl/compressedUpload";
+import {
+  canDecodeToRgba,
+  compressedByteLength,
+  decodeToRgba,
+  decodedByteLength,
+} from "../core/loaders/compressedTexture";
+import type { CompressedTexture, CompressedTextureFamily } from "../core/loaders/compressedTexture";
+import { isKTX2, parseKTX2 } from "../core/loaders/ktx2";
+import { isDDS, parseDDS } from "../core/loaders/dds";
+
+// ── Shader sources ──────────────────────────────────────────
+
+const ATTRIBS = { a_position: 0, a_uv: 1 };
+
+/**
+ * 왼쪽은 PNG, 오른쪽은 압축 텍스처. 같은 uv로 둘 다 샘플링해 split 또는 |차이| × gain으로 보여 준다.
+ * 두 텍스처 모두 첫 행(이미지 위쪽)을 t = 0에 올렸으므로 uv.y를 뒤집어 읽는다.
+ */
+const SHADER: ShaderSourceSpec = {
+  vertex: `
+in vec2 a_position;
+in vec2 a_uv;
+uniform vec2 u_scale;
+out vec2 v_uv;
+void main() {
+  v_uv = a_uv;
+  gl_Position = vec4(a_position * u_scale, 0.0, 1.0);
+}`,
+  fragment: `
+precision mediump float;
+#include <uv>
+in vec2 v_uv;
+uniform sampler2D u_png;
+uniform sampler2D u_compressed;
+uniform int u_hasCompressed;
+uniform int u_view;       // 0: split, 1: |png - compressed| * gain
+uniform float u_split;
+uniform float u_lineWidth; // split line half width in uv units
+uniform float u_zoom;
+uniform float u_gain;
+out vec4 fragColor;
+void main() {
+  vec2 uv = uvFlipY((v_uv - 0.5) / u_zoom + 0.5);
+  vec3 png = texture(u_png, uv).rgb;
+  // Without a usable compressed texture, show a grey checker on that side
+  vec3 cmp = u_hasCompressed == 1
+    ? texture(u_compressed, uv).rgb
+    : vec3(0.25 + 0.1 * uvChecker(uv, 16.0));
+
+  if (u_view == 1) {
+    fragColor = vec4(abs(png - cmp) * u_gain, 1.0);
+    return;
+  }
+  vec3 c = v_uv.x < u_split ? png : cmp;
+  float line = step(abs(v_uv.x - u_split), u_lineWidth);
+  fragColor = vec4(mix(c, vec3(1.0, 0.85, 0.3), line), 1.0);
+}`,
+  attributes: ATTRIBS,
+};
+
+// ── Geometry: unit quad, scaled to a square in the vertex shader ──
+const VERTICES = new Float32Array([
+  -1, -1,   0, 0,
+   1, -1,   1, 0,
+   1,  1,   1, 1,
+  -1, -1,   0, 0,
+   1,  1,   1, 1,
+  -1,  1,   0, 1,
+]);
+
+const STRIDE = 4 * Float32Array.BYTES_PER_ELEMENT;
+
+/** 캔버스의 짧은 변 대비 사각형 크기 */
+const QUAD_FILL = 0.95;
+
+const PNG_PATH = "/textures/tiles/basecolor.png";
+
+// ── State ───────────────────────────────────────────────────
+
+const FILES = ["dxt1-dds", "dxt5-dds", "bc7-dds", "bc1-ktx2", "bc7-ktx2"] as const;
+const VIEWS = ["split", "diff"] as const;
+const FILTERS = ["NEAREST", "LINEAR", "LINEAR_MIPMAP_LINEAR"] as const;
+
+type FileId = (typeof FILES)[number];
+
+/** public/textures/compressed 아래 fixture. 모두 basecolor.png에서 mip chain을 만들어 인코딩했다 */
+const FILE_INFO: Record<FileId, { path: string; label: string }> = {
+  "dxt1-dds": { path: "/textures/compressed/tiles-dxt1.dds", label: "tiles-dxt1.dds — BC1 (DXT1)" },
+  "dxt5-dds": { path: "/textures/compressed/tiles-dxt5.dds", label: "tiles-dxt5.dds — BC3 (DXT5)" },
+  "bc7-dds": { path: "/textures/compressed/tiles-bc7.dds", label: "tiles-bc7.dds — BC7 (DX10 헤더)" },
+  "bc1-ktx2": { path: "/textures/compressed/tiles-bc1.ktx2", label: "tiles-bc1.ktx2 — BC1" },
+  "bc7-ktx2": { path: "/textures/compressed/tiles-bc7.ktx2", label: "tiles-bc7.ktx2 — BC7" },
+};
+
+interface CompressState {
+  file: FileId;
+  view: (typeof VIEWS)[number];
+  /** split 뷰에서 PNG가 차지하는 왼쪽 비율 */
+  split: number;
+  zoom: number;
+  /** diff 뷰 증폭 */
+  gain: number;
+  filter: (typeof FILTERS)[number];
+  /** 확장이 있어도 CPU로 풀어 RGBA8로 올린다 */
+  decode: boolean;
+}
+
+const DEFAULT_STATE: Readonly<CompressState> = {
+  file: "dxt1-dds",
+  view: "split",
+  split: 0.5,
+  zoom: 1,
+  gain: 8,
+  filter: "LINEAR_MIPMAP_LINEAR",
+  decode: false,
+};
+
+/** URL query ↔ CompressState 매핑. 예: #/texture02?file=bc7-ktx2&view=diff&zoom=4 */
+const STATE_SCHEMA: StateSchema<CompressState> = {
+  file: enumField("file", FILES),
+  view: enumField("view", VIEWS),
+  split: numberField("split", 0, 1),
+  zoom: numberField("zoom", 1, 16),
+  gain: numberField("gain", 1, 32),
+  filter: enumField("filter", FILTERS),
+  decode: boolField("decode"),
+};
+
+/** 로딩이 끝난 압축 파일 하나. */
+interface LoadedFile {
+  texture: CompressedTexture;
+  fileBytes: number;
+  /** level 0 PSNR (dB). CPU 디코더가 없는 포맷이면 null */
+  psnr: number | null;
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+function showError(container: HTMLElement, message: string): void {
+  const el = document.createElement("div");
+  el.className = "gl-error";
+  el.textContent = message;
+  container.appendChild(el);
+}
+
+async function fetchOk(path: string): Promise<Response> {
+  const res = await fetch(path);
+  if (!res.ok) throw new Error(`${path}: HTTP ${res.status}`);
+  return res;
+}
+
+/** 바이트 앞부분으로 컨테이너를 고른다 (확장자는 믿지 않는다). */
+function parseContainer(bytes: Uint8Array, path: string): CompressedTexture {
+  if (isKTX2(bytes)) return parseKTX2(bytes);
+  if (isDDS(bytes)) return parseDDS(bytes);
+  throw new Error(`${path}: KTX2도 DDS도 아닙니다`);
+}
+
+/** 이미지의 RGBA8 픽셀 (첫 행이 위). PSNR 기준으로 쓴다. */
+function imagePixels(image: HTMLImageElement): Uint8ClampedArray | null {
+  const canvas = document.createElement("canvas");
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx2d = canvas.getContext("2d");
+  if (!ctx2d) return null;
+  ctx2d.drawImage(image, 0, 0);
+  return ctx2d.getImageData(0, 0, canvas.width, canvas.height).data;
+}
+
+/** RGB 채널의 PSNR (dB). 같은 크기의 RGBA8 두 장을 비교한다. */
+function psnr(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const d = a[i + c] - b[i + c];
+      sum += d * d;
+    }
+    count += 3;
+  }
+  const mse = sum / Math.max(count, 1);
+  return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+}
+
+/** RGBA8로 1×1까지 mipmap을 만든 텍스처의 바이트 (level 0의 약 4/3). */
+function rgbaChainBytes(width: number, height: number): number {
+  let bytes = 0;
+  for (let w = width, h = height; ; w = Math.max(1, w >> 1), h = Math.max(1, h >> 1)) {
+    bytes += w * h * 4;
+    if (w === 1 && h === 1) break;
+  }
+  return bytes;
+}
+
+function formatKiB(bytes: number): string {
+  return `${(bytes / 1024).toFixed(1)} KiB`;
+}
+
+/** "LINEAR_MIPMAP_LINEAR" 같은 이름 → GL 상수. */
+function glConst(gl: WebGL2RenderingContext | WebGLRenderingContext, name: string): number {
+  return (gl as unknown as Record<string, number>)[name];
+}
+
+// ── Control builders ────────────────────────────────────────
+
+function createSlider(
+  label: string,
+  min: number,
+  max: number,
+  step: number,
+  value: number,
+  onChange: (v: number) => void,
+): { row: HTMLElement; input: HTMLInputElement; valueSpan: HTMLSpanElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const input = document.createElement("input");
+  input.type = "range";
+  input.min = String(min);
+  input.max = String(max);
+  input.step = String(step);
+  input.value = String(value);
+  input.style.cssText = "flex:1;accent-color:#6c8cff;";
+
+  const valueSpan = document.createElement("span");
+  valueSpan.className = "ctrl-value";
+  valueSpan.textContent = String(value);
+
+  input.addEventListener("input", () => {
+    const v = parseFloat(input.value);
+    valueSpan.textContent = String(v);
+    onChange(v);
+  });
+
+  row.append(lbl, input, valueSpan);
+  return { row, input, valueSpan };
+}
+
+function createCheckbox(
+  label: string,
+  checked: boolean,
+  onChange: (v: boolean) => void,
+): { row: HTMLElement; input: HTMLInputElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const input = document.createElement("input");
+  input.type = "checkbox";
+  input.checked = checked;
+  input.style.cssText = "accent-color:#6c8cff;width:18px;height:18px;cursor:pointer;";
+  input.addEventListener("change", () => onChange(input.checked));
+
+  row.append(lbl, input);
+  return { row, input };
+}
+
+function createSelect<T extends string>(
+  label: string,
+  options: { value: T; label: string }[],
+  value: T,
+  onChange: (v: T) => void,
+): { row: HTMLElement; select: HTMLSelectElement } {
+  const row = document.createElement("div");
+  row.className = "ctrl-row";
+
+  const lbl = document.createElement("label");
+  lbl.className = "ctrl-label";
+  lbl.textContent = label;
+
+  const select = document.createElement("select");
+  select.className = "ctrl-select";
+  for (const opt of options) {
+    const o = document.createElement("option");
+    o.value = opt.value;
+    o.textContent = opt.label;
+    if (opt.value === value) o.selected = true;
+    select.appendChild(o);
+  }
+  select.addEventListener("change", () => onChange(select.value as T));
+
+  row.append(lbl, select);
+  return { row, select };
+}
+
+/** 제목이 붙은 컨트롤 묶음. */
+function createGroup(title: string, ...rows: HTMLElement[]): HTMLElement {
+  const group = document.createElement("div");
+  const heading = document.createElement("div");
+  heading.className = "ctrl-group-title";
+  heading.textContent = title;
+  group.append(heading, ...rows);
+  return group;
+}
+
+// ── Main export ─────────────────────────────────────────────
+
+export function renderTexture02(
+  container: HTMLElement,
+  route: RouteMatch,
+): Disposer | void {
+  // ── Header ──
+  const title = document.createElement("h1");
+  title.className = "page-title";
+  title.textContent = "Texture02";
+
+  const desc = document.createElement("p");
+  desc.className = "page-desc";
+  desc.innerHTML = [
+    "GPU 압축 텍스처(<b>KTX2</b> · <b>DDS</b> 컨테이너)를 읽어 Texture01의 PNG 경로와 나란히 비교합니다. 왼쪽이 PNG(RGBA8 + generateMipmap), 오른쪽이 압축 파일입니다.",
+    "블록 압축은 4×4 텍셀을 8바이트(BC1) 또는 16바이트(BC3 · BC7)로 저장하고 GPU가 그대로 샘플링하므로, 파일 크기뿐 아니라 <b>GPU 메모리</b>도 1/8 · 1/4로 줄어듭니다.",
+    "포맷마다 확장(<b>s3tc</b> · <b>bptc</b> · <b>etc</b> · <b>astc</b>)이 있어야 compressedTexImage2D로 올릴 수 있습니다. 확장이 없으면 BC1 · BC2 · BC3는 CPU에서 RGBA8로 풀어 올리고(메모리 이점은 사라집니다), BC7은 그릴 수 없습니다.",
+    "<b>Diff</b> 뷰는 |PNG − 압축| × gain입니다. Zoom을 올리고 NEAREST로 보면 4×4 블록 경계와 끝점 두 색 사이로 양자화된 색이 보입니다.",
+  ].join("<br>");
+
+  container.append(title, desc);
+
+  // ── Canvas ──
+  const canvasWrap = document.createElement("div");
+  container.appendChild(canvasWrap);
+
+  let ctx;
+  try {
+    ctx = createGLCanvas(canvasWrap);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("[Texture02]", msg);
+    showError(canvasWrap, msg);
+    return;
+  }
+
+  const { canvas, gl } = ctx;
+  const resources = new GLResourceManager(ctx);
+  const unmountLossUI = mountContextLossUI(canvasWrap, resources);
+
+  // ── Shader program ──
+  let program: GLResource<ShaderProgram>;
+  try {
+    program = resources.program(SHADER, "Texture02");
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("[Texture02]", msg);
+    showShaderError(canvasWrap, e);
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+    return;
+  }
+
+  const geometry = resources.geometry(
+    {
+      buffers: [{
+        data: VERTICES,
+        stride: STRIDE,
+        attributes: [
+          { name: "a_position", size: 2, offset: 0 },
+          { name: "a_uv", size: 2, offset: 8 },
+        ],
+      }],
+    },
+    ATTRIBS,
+  );
+
+  // ── State ──
+  const state: CompressState = readState(route.query, STATE_SCHEMA, DEFAULT_STATE);
+  const urlSync = createStateSync(STATE_SCHEMA, DEFAULT_STATE);
+
+  let pngTexture: GLResource<WebGLTexture> | null = null;
+  let pngSize = { width: 0, height: 0, fileBytes: 0 };
+  let pngPixels: Uint8ClampedArray | null = null;
+  let compressed: GLResource<WebGLTexture> | null = null;
+  let loaded: LoadedFile | null = null;
+  let disposed = false;
+  let loadSeq = 0;
+  const scale = new Float32Array(2);
+
+  function filterOptions(): TextureOptions {
+    return {
+      minFilter: glConst(gl, state.filter),
+      magFilter: state.filter === "NEAREST" ? gl.NEAREST : gl.LINEAR,
+    };
+  }
+
+  /** 지금 파일과 decode 설정으로 압축 텍스처를 (다시) 만들고 readout을 갱신한다. */
+  function rebuildCompressed(): void {
+    compressed?.release();
+    compressed = null;
+    if (!loaded) return;
+
+    const file = loaded;
+    const options = { ...filterOptions(), decode: state.decode };
+    const problems = compressedTextureProblems(gl, file.texture, options);
+    if (problems.length === 0) {
+      compressed = resources.texture((g) => createCompressedTexture(g, file.texture, options));
+    }
+    updateReadout(problems);
+  }
+
+  function updateReadout(problems: string[]): void {
+    const support = compressedTextureSupport(gl);
+    const families = Object.keys(COMPRESSED_EXTENSIONS) as CompressedTextureFamily[];
+    const lines = [
+      `확장: ${families.map((f) => `${f} ${support[f] ? "✓" : "✗"}`).join("  ")}`,
+    ];
+
+    if (loaded) {
+      const t = loaded.texture;
+      const path = compressedUploadPath(gl, t.format, state.decode);
+      const pngGpu = rgbaChainBytes(pngSize.width, pngSize.height);
+      const packed = compressedByteLength(t);
+      const gpu = path === "compressed" ? packed : decodedByteLength(t);
+      lines.push(
+        `${FILE_INFO[state.file].path.split("/").pop()}: ${t.container} · ${t.format} · ${t.width}×${t.height} · mip ${t.levels.length}개`,
+        `업로드: ${path === "compressed" ? "compressedTexImage2D" : path === "decoded" ? "CPU 디코딩 → RGBA8 texImage2D" : "불가"}`,
+        "",
+        "GPU 메모리 (모든 level)",
+        `  PNG → RGBA8     ${formatKiB(pngGpu)}`,
+        `  ${t.format.padEnd(15)} ${path === "unsupported" ? "—" : `${formatKiB(gpu)} (${(gpu / pngGpu * 100).toFixed(1)}%)`}`,
+        `  블록 데이터      ${formatKiB(packed)}`,
+        "파일 크기",
+        `  PNG             ${formatKiB(pngSize.fileBytes)}`,
+        `  ${t.container.padEnd(15)} ${formatKiB(loaded.fileBytes)}`,
+        `PSNR (level 0, RGB): ${loaded.psnr === null ? `— (${t.format}은 CPU 디코더가 없습니다)` : `${loaded.psnr.toFixed(2)} dB`}`,
+      );
+      for (const [key, value] of t.metadata) lines.push(`${key}: ${value}`);
+    }
+
+    for (const p of problems) lines.push(`⚠ ${p}`);
+    readout.textContent = lines.join("\n");
+  }
+
+  async function loadFile(id: FileId): Promise<void> {
+    const seq = ++loadSeq;
+    const { path } = FILE_INFO[id];
+    readout.textContent = "loading…";
+    try {
+      const bytes = new Uint8Array(await (await fetchOk(path)).arrayBuffer());
+      const texture = parseContainer(bytes, path);
+      // 로딩 중에 다른 파일을 골랐거나 페이지를 떠났으면 버린다
+      if (disposed || seq !== loadSeq) return;
+
+      let quality: number | null = null;
+      if (canDecodeToRgba(texture.format) && pngPixels
+        && texture.width === pngSize.width && texture.height === pngSize.height) {
+        quality = psnr(decodeToRgba(texture.format, texture.levels[0]), pngPixels);
+      }
+      loaded = { texture, fileBytes: bytes.byteLength, psnr: quality };
+      rebuildCompressed();
+    } catch (e: unknown) {
+      if (disposed || seq !== loadSeq) return;
+      const msg = e instanceof Error ? e.message : String(e);
+      console.error("[Texture02]", msg);
+      loaded = null;
+      rebuildCompressed();
+      readout.textContent = `⚠ ${msg}`;
+    }
+  }
+
+  async function loadPng(): Promise<void> {
+    const blob = await (await fetchOk(PNG_PATH)).blob();
+    const image = await loadImageBlob(blob);
+    if (disposed) return;
+    pngSize = { width: image.naturalWidth, height: image.naturalHeight, fileBytes: blob.size };
+    pngPixels = imagePixels(image);
+    // 압축 파일과 같은 방향(첫 행이 t = 0)으로 올리고, mipmap은 항상 만들어 필터만 바꿔 본다
+    pngTexture = resources.texture((g) => createTexture(g, image, { flipY: false, mipmaps: true, ...filterOptions() }));
+  }
+
+  // ── Render loop ──
+  function frame(): void {
+    resizeCanvas(gl, canvas);
+
+    gl.clearColor(0.08, 0.09, 0.12, 1.0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    if (!pngTexture) return;
+
+    const aspect = canvas.width / Math.max(canvas.height, 1);
+    scale[0] = aspect > 1 ? QUAD_FILL / aspect : QUAD_FILL;
+    scale[1] = aspect > 1 ? QUAD_FILL : QUAD_FILL * aspect;
+    const quadPixels = scale[0] * canvas.width;
+
+    const p = program.value;
+    p.use();
+    const filter = filterOptions();
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, pngTexture.value);
+    applyTextureParams(gl, filter);
+    p.setSampler("u_png", 0);
+
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, compressed?.value ?? null);
+    if (compressed) applyTextureParams(gl, filter);
+    p.setSampler("u_compressed", 1);
+    p.setInt("u_hasCompressed", compressed ? 1 : 0);
+
+    p.setVec2("u_scale", scale);
+    p.setInt("u_view", state.view === "diff" ? 1 : 0);
+    p.setFloat("u_split", state.split);
+    p.setFloat("u_lineWidth", 1 / Math.max(quadPixels, 1));
+    p.setFloat("u_zoom", state.zoom);
+    p.setFloat("u_gain", state.gain);
+
+    geometry.value.draw();
+  }
+
+  // ── Controls ──
+  const update = (): void => urlSync.write(state);
+
+  const panel = document.createElement("div");
+  panel.className = "ctrl-panel ctrl-groups";
+
+  const fileSel = createSelect<FileId>(
+    "File",
+    FILES.map((f) => ({ value: f, label: FILE_INFO[f].label })),
+    state.file,
+    (v) => { state.file = v; update(); void loadFile(v); },
+  );
+  const decodeCheck = createCheckbox("Decode to RGBA", state.decode, (v) => {
+    state.decode = v;
+    update();
+    rebuildCompressed();
+  });
+  const filterSel = createSelect<CompressState["filter"]>(
+    "Filter",
+    [
+      { value: "NEAREST", label: "NEAREST" },
+      { value: "LINEAR", label: "LINEAR" },
+      { value: "LINEAR_MIPMAP_LINEAR", label: "LINEAR_MIPMAP_LINEAR (파일의 mip)" },
+    ],
+    state.filter,
+    (v) => {
+      state.filter = v;
+      update();
+      // WebGL1에서는 mip chain 조건이 필터에 달려 있어 다시 검사한다
+      rebuildCompressed();
+    },
+  );
+
+  const viewSel = createSelect<CompressState["view"]>(
+    "View",
+    [
+      { value: "split", label: "Split — PNG | compressed" },
+      { value: "diff", label: "Diff — |PNG − compressed| × gain" },
+    ],
+    state.view,
+    (v) => { state.view = v; update(); },
+  );
+  const splitSlider = createSlider("Split", 0, 1, 0.01, state.split, (v) => { state.split = v; update(); });
+  const zoomSlider = createSlider("Zoom", 1, 16, 0.5, state.zoom, (v) => { state.zoom = v; update(); });
+  const gainSlider = createSlider("Diff gain", 1, 32, 1, state.gain, (v) => { state.gain = v; update(); });
+
+  const resetBtn = document.createElement("button");
+  resetBtn.className = "btn";
+  resetBtn.textContent = "Reset";
+  resetBtn.addEventListener("click", () => {
+    const fileChanged = state.file !== DEFAULT_STATE.file;
+    Object.assign(state, DEFAULT_STATE);
+    fileSel.select.value = state.file;
+    filterSel.select.value = state.filter;
+    viewSel.select.value = state.view;
+    for (const [slider, v] of [
+      [splitSlider, state.split],
+      [zoomSlider, state.zoom],
+      [gainSlider, state.gain],
+    ] as const) {
+      slider.input.value = String(v);
+      slider.valueSpan.textContent = String(v);
+    }
+    decodeCheck.input.checked = state.decode;
+    update();
+    if (fileChanged) void loadFile(state.file);
+    else rebuildCompressed();
+  });
+
+  panel.append(
+    createGroup("Texture", fileSel.row, decodeCheck.row, filterSel.row),
+    createGroup("View", viewSel.row, splitSlider.row, zoomSlider.row, gainSlider.row, resetBtn),
+  );
+
+  const readoutTitle = document.createElement("div");
+  readoutTitle.className = "readout-title";
+  readoutTitle.textContent = "Memory · quality";
+  const readout = document.createElement("pre");
+  readout.className = "readout";
+
+  container.append(panel, readoutTitle, readout);
+
+  // ── Start ──
+  // PSNR에 PNG 픽셀이 필요하므로 PNG를 먼저 읽는다
+  loadPng()
+    .then(() => {
+      if (disposed) return;
+      resources.startLoop(frame);
+      return loadFile(state.file);
+    })
+    .catch((err: unknown) => {
+      if (disposed) return;
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error("[Texture02]", msg);
+      showError(canvasWrap, msg);
+    });
+
+  // ── Cleanup (router calls this before the next route) ──
+  return () => {
+    disposed = true;
+    urlSync.cancel();
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+  };
+}
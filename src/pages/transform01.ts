@@ -1,52 +1,49 @@
-import { createGLCanvas, resizeCanvas } from "../core/gl/context";
-import { createProgram } from "../core/gl/shader";
+import { createGLCanvas, resizeCanvas, destroyGLCanvas } from "../core/gl/context";
+import type { ShaderProgram } from "../core/gl/program";
+import type { ShaderSourceSpec } from "../core/gl/shaderSource";
+import { GLResourceManager } from "../core/gl/resources";
+import type { GLResource } from "../core/gl/resources";
+import { showShaderError } from "../app/errorOverlay";
+import { mountContextLossUI } from "../app/contextLoss";
+import type { Disposer, RouteMatch } from "../router";
 import {
-  identity,
-  multiply,
-  translation,
-  rotationZ,
-  scaling,
+  numberField,
+  readState,
+  createStateSync,
+} from "../app/urlState";
+import type { StateSchema } from "../app/urlState";
+import {
+  multiplyInto,
+  translationInto,
+  rotationZInto,
+  scalingInto,
 } from "../core/math/mat4";
+import { Camera } from "../core/camera/camera";
+import { PanZoomControls } from "../core/camera/panZoomControls";
+import { parseOBJ } from "../core/loaders/obj";
+import { toGeometryDesc } from "../core/mesh/mesh";
+import type { Mesh } from "../core/mesh/mesh";
+import squareObj from "../assets/models/square.obj?raw";
 
 // ── Shader sources ──────────────────────────────────────────
 
-const VS_GLSL300 = `#version 300 es
-layout(location = 0) in vec2 a_position;
+const ATTRIBS = { a_position: 0 };
+
+const SHADER: ShaderSourceSpec = {
+  vertex: `
+in vec3 a_position;
 uniform mat4 u_mvp;
 void main() {
-  gl_Position = u_mvp * vec4(a_position, 0.0, 1.0);
-}`;
-
-const FS_GLSL300 = `#version 300 es
+  gl_Position = u_mvp * vec4(a_position, 1.0);
+}`,
+  fragment: `
 precision mediump float;
 out vec4 fragColor;
 void main() {
   fragColor = vec4(0.2, 0.8, 0.4, 1.0);
-}`;
-
-const VS_GLSL100 = `
-attribute vec2 a_position;
-uniform mat4 u_mvp;
-void main() {
-  gl_Position = u_mvp * vec4(a_position, 0.0, 1.0);
-}`;
-
-const FS_GLSL100 = `
-precision mediump float;
-void main() {
-  gl_FragColor = vec4(0.2, 0.8, 0.4, 1.0);
-}`;
-
-// ── Geometry: unit square as 2 triangles (‑0.5 … 0.5) ──────
-
-const VERTICES = new Float32Array([
-  -0.5, -0.5,
-   0.5, -0.5,
-   0.5,  0.5,
-  -0.5, -0.5,
-   0.5,  0.5,
-  -0.5,  0.5,
-]);
+}`,
+  attributes: ATTRIBS,
+};
 
 // ── Transform state ─────────────────────────────────────────
 
@@ -64,6 +61,14 @@ const DEFAULT_STATE: Readonly<TransformState> = {
   scale: 0.5,
 };
 
+/** URL query ↔ TransformState 매핑. 범위는 슬라이더와 동일하다. */
+const STATE_SCHEMA: StateSchema<TransformState> = {
+  tx: numberField("tx", -1, 1),
+  ty: numberField("ty", -1, 1),
+  rotDeg: numberField("rot", -180, 180),
+  scale: numberField("scale", 0.1, 2),
+};
+
 // ── Helpers ─────────────────────────────────────────────────
 
 function showError(container: HTMLElement, message: string): void {
@@ -126,7 +131,10 @@ function createSlider(opts: SliderOpts): {
 
 // ── Main export ─────────────────────────────────────────────
 
-export function renderTransform01(container: HTMLElement): void {
+export function renderTransform01(
+  container: HTMLElement,
+  route: RouteMatch,
+): Disposer | void {
   // ── Header ──
   const title = document.createElement("h1");
   title.className = "page-title";
@@ -140,10 +148,23 @@ export function renderTransform01(container: HTMLElement): void {
     "Scale → Rotate → Translate 가 직관적으로 적용됩니다.",
     "슬라이더를 조작하면 uniform <code>u_mvp</code>에 행렬이 전달되어",
     "버텍스 셰이더에서 <code>gl_Position = u_mvp * position</code>으로 변환됩니다.",
+    "<b>2D 카메라</b>: <code>u_mvp = viewProjection × M</code>. 캔버스를 드래그해 이동하고 휠·핀치로 확대/축소하세요.",
   ].join("<br>");
 
   container.append(title, desc);
 
+  // ── Geometry: unit square (‑0.5 … 0.5) from an OBJ file ──
+  // 라우트에 들어올 때 파싱한다. registry가 모든 페이지를 import하므로 모듈 최상위에서 실패하면 앱 전체가 멈춘다
+  let square: Mesh;
+  try {
+    square = parseOBJ(squareObj, { file: "square.obj" }).parts[0].mesh;
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("[Transform01]", msg);
+    showError(container, msg);
+    return;
+  }
+
   // ── Canvas ──
   const canvasWrap = document.createElement("div");
   container.appendChild(canvasWrap);
@@ -158,53 +179,38 @@ export function renderTransform01(container: HTMLElement): void {
     return;
   }
 
-  const { canvas, gl, isWebGL2 } = ctx;
+  const { canvas, gl } = ctx;
+  const resources = new GLResourceManager(ctx);
+  const unmountLossUI = mountContextLossUI(canvasWrap, resources);
 
   // ── Shader program ──
-  let program: WebGLProgram;
+  let program: GLResource<ShaderProgram>;
   try {
-    program = createProgram(
-      gl,
-      isWebGL2 ? VS_GLSL300 : VS_GLSL100,
-      isWebGL2 ? FS_GLSL300 : FS_GLSL100,
-    );
+    program = resources.program(SHADER, "Transform01");
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : String(e);
     console.error("[Transform01]", msg);
-    showError(canvasWrap, msg);
+    showShaderError(canvasWrap, e);
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
     return;
   }
 
-  // ── VBO + attribute ──
-  const POSITION_LOC = isWebGL2
-    ? 0
-    : gl.getAttribLocation(program, "a_position");
-
-  if (isWebGL2) {
-    const gl2 = gl as WebGL2RenderingContext;
-    const vao = gl2.createVertexArray();
-    gl2.bindVertexArray(vao);
-
-    const vbo = gl2.createBuffer();
-    gl2.bindBuffer(gl2.ARRAY_BUFFER, vbo);
-    gl2.bufferData(gl2.ARRAY_BUFFER, VERTICES, gl2.STATIC_DRAW);
-    gl2.enableVertexAttribArray(POSITION_LOC);
-    gl2.vertexAttribPointer(POSITION_LOC, 2, gl2.FLOAT, false, 0, 0);
-    // VAO stays bound
-  } else {
-    const vbo = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, vbo);
-    gl.bufferData(gl.ARRAY_BUFFER, VERTICES, gl.STATIC_DRAW);
-    gl.enableVertexAttribArray(POSITION_LOC);
-    gl.vertexAttribPointer(POSITION_LOC, 2, gl.FLOAT, false, 0, 0);
-  }
+  // ── VBO + attribute layout ──
+  const geometry = resources.geometry(toGeometryDesc(square, ATTRIBS), ATTRIBS);
 
-  // ── Uniform location ──
-  gl.useProgram(program);
-  const uMvpLoc = gl.getUniformLocation(program, "u_mvp");
+  // ── Camera (orthographic, 세로 -1 … 1이 보이도록) ──
+  const camera = new Camera({
+    projection: { kind: "orthographic", halfHeight: 1, near: 0.1, far: 10 },
+    position: [0, 0, 1],
+    target: [0, 0, 0],
+  });
+  const panZoom = new PanZoomControls(camera, canvas);
 
   // ── State ──
-  const state: TransformState = { ...DEFAULT_STATE };
+  const state: TransformState = readState(route.query, STATE_SCHEMA, DEFAULT_STATE);
+  const urlSync = createStateSync(STATE_SCHEMA, DEFAULT_STATE);
 
   // ── Controls ──
   const panel = document.createElement("div");
@@ -220,6 +226,7 @@ export function renderTransform01(container: HTMLElement): void {
     value: state.tx,
     onChange: (v) => {
       state.tx = v;
+      urlSync.write(state);
     },
   });
   const tySlider = createSlider({
@@ -230,6 +237,7 @@ export function renderTransform01(container: HTMLElement): void {
     value: state.ty,
     onChange: (v) => {
       state.ty = v;
+      urlSync.write(state);
     },
   });
   const rotSlider = createSlider({
@@ -240,6 +248,7 @@ export function renderTransform01(container: HTMLElement): void {
     value: state.rotDeg,
     onChange: (v) => {
       state.rotDeg = v;
+      urlSync.write(state);
     },
   });
   const scaleSlider = createSlider({
@@ -250,6 +259,7 @@ export function renderTransform01(container: HTMLElement): void {
     value: state.scale,
     onChange: (v) => {
       state.scale = v;
+      urlSync.write(state);
     },
   });
 
@@ -276,47 +286,49 @@ export function renderTransform01(container: HTMLElement): void {
     rotSlider.valueSpan.textContent = state.rotDeg.toFixed(2);
     scaleSlider.input.value = String(state.scale);
     scaleSlider.valueSpan.textContent = state.scale.toFixed(2);
+    panZoom.reset();
+    urlSync.write(state);
   });
   panel.appendChild(resetBtn);
 
   container.appendChild(panel);
 
-  // ── Render loop ───────────────────────────────────────────
-  let rafId = 0;
+  // ── Render loop (컨텍스트 손실 중에는 resources가 멈춘다) ──
+  // 매 프레임 행렬을 새로 할당하지 않도록 미리 만들어 두고 *Into로 덮어쓴다
+  const S = new Float32Array(16);
+  const R = new Float32Array(16);
+  const T = new Float32Array(16);
+  const mvp = new Float32Array(16);
 
   function frame(): void {
     resizeCanvas(gl, canvas);
 
     // M = T * Rz * S
-    const S = scaling(state.scale, state.scale);
-    const R = rotationZ(degToRad(state.rotDeg));
-    const T = translation(state.tx, state.ty);
-    const mvp = multiply(T, multiply(R, S));
+    scalingInto(S, state.scale, state.scale);
+    rotationZInto(R, degToRad(state.rotDeg));
+    translationInto(T, state.tx, state.ty);
+    multiplyInto(mvp, T, multiplyInto(mvp, R, S));
+
+    camera.updateAspect(canvas);
+    camera.update();
+    multiplyInto(mvp, camera.viewProjection, mvp);
 
     gl.clearColor(0.08, 0.09, 0.12, 1.0);
     gl.clear(gl.COLOR_BUFFER_BIT);
 
-    gl.useProgram(program);
-    gl.uniformMatrix4fv(uMvpLoc, false, mvp);
-    gl.drawArrays(gl.TRIANGLES, 0, 6);
-
-    rafId = requestAnimationFrame(frame);
+    program.value.use();
+    program.value.setMat4("u_mvp", mvp);
+    geometry.value.draw();
   }
 
-  rafId = requestAnimationFrame(frame);
-
-  // Cleanup when page navigates away: listen for outlet being cleared
-  const observer = new MutationObserver(() => {
-    if (!container.contains(canvas)) {
-      cancelAnimationFrame(rafId);
-      observer.disconnect();
-    }
-  });
-  observer.observe(container.parentElement ?? container, {
-    childList: true,
-    subtree: true,
-  });
+  resources.startLoop(frame);
 
-  // Also keep the identity import used as fallback reference
-  void identity;
+  // ── Cleanup (router calls this before the next route) ──
+  return () => {
+    urlSync.cancel();
+    panZoom.dispose();
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+  };
 }
@@ -1,32 +1,30 @@
-import { createGLCanvas, resizeCanvas } from "../core/gl/context";
-import { createProgram } from "../core/gl/shader";
+import { createGLCanvas, resizeCanvas, destroyGLCanvas } from "../core/gl/context";
+import type { ShaderSourceSpec } from "../core/gl/shaderSource";
+import { GLResourceManager } from "../core/gl/resources";
+import type { GLResource } from "../core/gl/resources";
+import type { ShaderProgram } from "../core/gl/program";
+import { showShaderError } from "../app/errorOverlay";
+import { mountContextLossUI } from "../app/contextLoss";
+import type { Disposer } from "../router";
 
 // ── Shader sources ──
 
-const VS_GLSL300 = `#version 300 es
-layout(location = 0) in vec2 a_position;
+const ATTRIBS = { a_position: 0 };
+
+const SHADER: ShaderSourceSpec = {
+  vertex: `
+in vec2 a_position;
 void main() {
   gl_Position = vec4(a_position, 0.0, 1.0);
-}`;
-
-const FS_GLSL300 = `#version 300 es
+}`,
+  fragment: `
 precision mediump float;
 out vec4 fragColor;
 void main() {
   fragColor = vec4(0.42, 0.55, 1.0, 1.0);
-}`;
-
-const VS_GLSL100 = `
-attribute vec2 a_position;
-void main() {
-  gl_Position = vec4(a_position, 0.0, 1.0);
-}`;
-
-const FS_GLSL100 = `
-precision mediump float;
-void main() {
-  gl_FragColor = vec4(0.42, 0.55, 1.0, 1.0);
-}`;
+}`,
+  attributes: ATTRIBS,
+};
 
 // ── Triangle data ──
 const VERTICES = new Float32Array([
@@ -42,7 +40,7 @@ function showError(container: HTMLElement, message: string): void {
   container.appendChild(el);
 }
 
-function draw(container: HTMLElement): void {
+function draw(container: HTMLElement): Disposer | void {
   // Canvas & GL context
   let ctx;
   try {
@@ -54,53 +52,51 @@ function draw(container: HTMLElement): void {
     return;
   }
 
-  const { canvas, gl, isWebGL2 } = ctx;
+  const { canvas, gl } = ctx;
   resizeCanvas(gl, canvas);
 
+  // 컨텍스트 손실 시 다시 만들 수 있도록 모든 GL 객체는 resources를 통해 생성한다
+  const resources = new GLResourceManager(ctx);
+
   // Shader program
-  let program: WebGLProgram;
+  let program: GLResource<ShaderProgram>;
   try {
-    program = createProgram(
-      gl,
-      isWebGL2 ? VS_GLSL300 : VS_GLSL100,
-      isWebGL2 ? FS_GLSL300 : FS_GLSL100,
-    );
+    program = resources.program(SHADER, "Triangle01");
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : String(e);
     console.error("[Triangle01]", msg);
-    showError(container, msg);
+    showShaderError(container, e);
+    resources.dispose();
+    destroyGLCanvas(ctx);
     return;
   }
 
-  // VBO
-  const vbo = gl.createBuffer();
-  gl.bindBuffer(gl.ARRAY_BUFFER, vbo);
-  gl.bufferData(gl.ARRAY_BUFFER, VERTICES, gl.STATIC_DRAW);
-
-  // Attribute binding
-  const POSITION_LOC = isWebGL2 ? 0 : gl.getAttribLocation(program, "a_position");
-  gl.enableVertexAttribArray(POSITION_LOC);
-  gl.vertexAttribPointer(POSITION_LOC, 2, gl.FLOAT, false, 0, 0);
-
-  // VAO (WebGL2)
-  if (isWebGL2) {
-    const gl2 = gl as WebGL2RenderingContext;
-    const vao = gl2.createVertexArray();
-    gl2.bindVertexArray(vao);
-    gl2.bindBuffer(gl2.ARRAY_BUFFER, vbo);
-    gl2.enableVertexAttribArray(POSITION_LOC);
-    gl2.vertexAttribPointer(POSITION_LOC, 2, gl2.FLOAT, false, 0, 0);
-    gl2.bindVertexArray(vao);
+  // VBO + attribute layout (WebGL1/2 VAO 분기는 Geometry가 처리)
+  const geometry = resources.geometry(
+    { buffers: [{ data: VERTICES, attributes: [{ name: "a_position", size: 2 }] }] },
+    ATTRIBS,
+  );
+
+  // Draw (렌더 루프가 없으므로 복구 후 한 번 다시 그린다)
+  function render(): void {
+    gl.clearColor(0.08, 0.09, 0.12, 1.0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    program.value.use();
+    geometry.value.draw();
   }
 
-  // Draw
-  gl.clearColor(0.08, 0.09, 0.12, 1.0);
-  gl.clear(gl.COLOR_BUFFER_BIT);
-  gl.useProgram(program);
-  gl.drawArrays(gl.TRIANGLES, 0, 3);
+  render();
+  resources.onRestored(render);
+  const unmountLossUI = mountContextLossUI(container, resources);
+
+  return () => {
+    unmountLossUI();
+    resources.dispose();
+    destroyGLCanvas(ctx);
+  };
 }
 
-export function renderTriangle01(container: HTMLElement): void {
+export function renderTriangle01(container: HTMLElement): Disposer {
   const title = document.createElement("h1");
   title.className = "page-title";
   title.textContent = "Triangle01";
@@ -115,15 +111,18 @@ export function renderTriangle01(container: HTMLElement): void {
   const canvasWrap = document.createElement("div");
   container.appendChild(canvasWrap);
 
-  draw(canvasWrap);
+  let dispose = draw(canvasWrap);
 
   // Reset 버튼
   const btn = document.createElement("button");
   btn.className = "btn";
   btn.textContent = "Reset";
   btn.addEventListener("click", () => {
+    dispose?.();
     canvasWrap.innerHTML = "";
-    draw(canvasWrap);
+    dispose = draw(canvasWrap);
   });
   container.appendChild(btn);
+
+  return () => dispose?.();
 }
@@ -1,6 +1,31 @@
-export type RouteRenderer = (container: HTMLElement) => void;
+/**
+ * 라우트 정리 함수. 다음 라우트를 렌더하기 전에 라우터가 호출한다.
+ */
+export type Disposer = () => void;
+
+/**
+ * 현재 hash에서 해석한 라우트 정보.
+ *
+ *   "#/lab/texture01?filter=NEAREST"
+ *     path   → "#/lab/texture01"
+ *     params → { id: "texture01" }   (패턴 "#/lab/:id" 기준)
+ *     query  → URLSearchParams("filter=NEAREST")
+ */
+export interface RouteMatch {
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+}
+
+/**
+ * 라우트 렌더러. rAF 루프나 GL 리소스를 만드는 페이지는 Disposer를 반환해야 한다.
+ */
+export type RouteRenderer = (
+  container: HTMLElement,
+  route: RouteMatch,
+) => Disposer | void;
 
-interface RouteEntry {
+export interface RouteEntry {
   path: string;
   render: RouteRenderer;
 }
@@ -8,6 +33,7 @@ interface RouteEntry {
 let routes: RouteEntry[] = [];
 let outlet: HTMLElement | null = null;
 let notFoundRenderer: RouteRenderer | null = null;
+let disposeCurrent: Disposer | null = null;
 
 /**
  * 라우트 테이블을 등록한다.
@@ -22,31 +48,118 @@ export function registerRoutes(
   notFoundRenderer = notFound ?? null;
 }
 
+/**
+ * hash를 path와 query 부분으로 나눈다.
+ */
+function splitHash(hash: string): { path: string; query: URLSearchParams } {
+  const raw = hash === "" || hash === "#" ? "#/" : hash;
+  const q = raw.indexOf("?");
+  const path = q === -1 ? raw : raw.slice(0, q);
+  const query = new URLSearchParams(q === -1 ? "" : raw.slice(q + 1));
+  return { path: path === "#" ? "#/" : path, query };
+}
+
+/**
+ * 라우트 패턴과 path를 세그먼트 단위로 비교한다.
+ * ":name" 세그먼트는 파라미터로 캡처하며, 일치하지 않으면 null을 반환한다.
+ */
+function matchPath(
+  pattern: string,
+  path: string,
+): Record<string, string> | null {
+  const patternSegs = pattern.split("/");
+  const pathSegs = path.split("/");
+  if (patternSegs.length !== pathSegs.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternSegs.length; i++) {
+    const p = patternSegs[i];
+    const seg = pathSegs[i];
+    if (p.startsWith(":")) {
+      if (seg === "") return null;
+      try {
+        params[p.slice(1)] = decodeURIComponent(seg);
+      } catch {
+        return null; // 잘못된 percent-encoding
+      }
+    } else if (p !== seg) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * 현재 hash의 query 부분만 교체한다.
+ * history.replaceState를 사용하므로 히스토리 항목이 쌓이지 않고 hashchange도 발생하지 않는다.
+ */
+export function replaceQuery(query: URLSearchParams): void {
+  const { path } = splitHash(location.hash);
+  const qs = query.toString();
+  const next = qs ? `${path}?${qs}` : path;
+  if (next !== (location.hash || "#/")) {
+    history.replaceState(history.state, "", next);
+  }
+}
+
+/**
+ * 현재 라우트의 Disposer를 호출한다. 예외가 나도 다음 라우트 렌더는 계속된다.
+ */
+function disposeActiveRoute(): void {
+  const dispose = disposeCurrent;
+  disposeCurrent = null;
+  if (!dispose) return;
+
+  try {
+    dispose();
+  } catch (e: unknown) {
+    console.error("[router] dispose 실패", e);
+  }
+}
+
 /**
  * 현재 hash를 읽어 해당 라우트를 렌더한다.
  */
 export function navigate(): void {
   if (!outlet) return;
 
-  const hash = location.hash || "#/";
-  const normalised = hash === "#" ? "#/" : hash;
-
   // hash가 비어 있으면 기본값 설정
   if (!location.hash || location.hash === "#") {
     history.replaceState(null, "", "#/");
   }
 
+  const { path, query } = splitHash(location.hash);
+
+  // 이전 라우트의 rAF 루프·GL 리소스를 먼저 해제
+  disposeActiveRoute();
   outlet.innerHTML = "";
 
-  const matched = routes.find((r) => r.path === normalised);
+  // 정확히 일치하는 라우트를 패턴 라우트보다 우선한다
+  let matched: RouteEntry | undefined = routes.find((r) => r.path === path);
+  let params: Record<string, string> = {};
+  if (!matched) {
+    for (const r of routes) {
+      const m = matchPath(r.path, path);
+      if (m) {
+        matched = r;
+        params = m;
+        break;
+      }
+    }
+  }
+
+  const route: RouteMatch = { path, params, query };
 
+  let result: Disposer | void = undefined;
   if (matched) {
-    matched.render(outlet);
+    result = matched.render(outlet, route);
   } else if (notFoundRenderer) {
-    notFoundRenderer(outlet);
+    result = notFoundRenderer(outlet, route);
   } else {
     outlet.textContent = "Page not found";
   }
+
+  disposeCurrent = result ?? null;
 }
 
 /**
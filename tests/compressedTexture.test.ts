@@ -0,0 +1,335 @@
+import { inflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import {
+  COMPRESSED_FORMATS,
+  CompressedTextureError,
+  canDecodeToRgba,
+  compressedByteLength,
+  compressedLevelByteLength,
+  decodeToRgba,
+  decodedByteLength,
+  mipChainLength,
+} from "../src/core/loaders/compressedTexture";
+import type { CompressedTexture, CompressedTextureFormat } from "../src/core/loaders/compressedTexture";
+import { isKTX2, parseKTX2 } from "../src/core/loaders/ktx2";
+import { isDDS, parseDDS } from "../src/core/loaders/dds";
+import { fixtureBytes } from "./fixtures";
+
+const DIR = "textures/compressed";
+
+function setU32(bytes: Uint8Array, offset: number, value: number): Uint8Array {
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).setUint32(offset, value, true);
+  return bytes;
+}
+
+/** 파서가 던진 CompressedTextureError의 메시지. 던지지 않거나 다른 오류면 실패 */
+function parseError(run: () => unknown): string {
+  try {
+    run();
+  } catch (e: unknown) {
+    expect(e).toBeInstanceOf(CompressedTextureError);
+    return (e as CompressedTextureError).message;
+  }
+  throw new Error("expected a CompressedTextureError");
+}
+
+/** 8비트 RGB / RGBA PNG를 RGBA8로 푼다. 픽스처를 만든 원본 텍스처와 비교하는 데만 쓴다 */
+function decodePng(bytes: Uint8Array): { width: number; height: number; rgba: Uint8Array } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Uint8Array[] = [];
+  for (let p = 8; p < bytes.byteLength; ) {
+    const length = view.getUint32(p);
+    const type = String.fromCharCode(...bytes.subarray(p + 4, p + 8));
+    const body = bytes.subarray(p + 8, p + 8 + length);
+    if (type === "IHDR") {
+      width = view.getUint32(p + 8);
+      height = view.getUint32(p + 12);
+      expect(body[8], "bit depth").toBe(8);
+      channels = body[9] === 6 ? 4 : 3;
+    } else if (type === "IDAT") {
+      idat.push(body);
+    }
+    p += 12 + length;
+  }
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const rgba = new Uint8Array(width * height * 4);
+  let prev = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = Uint8Array.from(raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1)));
+    for (let x = 0; x < stride; x++) {
+      const a = x >= channels ? line[x - channels] : 0;
+      const b = prev[x];
+      const c = x >= channels ? prev[x - channels] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = a;
+      else if (filter === 2) predictor = b;
+      else if (filter === 3) predictor = (a + b) >> 1;
+      else if (filter === 4) {
+        const pa = Math.abs(b - c);
+        const pb = Math.abs(a - c);
+        const pc = Math.abs(a + b - 2 * c);
+        predictor = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+      }
+      line[x] = (line[x] + predictor) & 255;
+    }
+    for (let x = 0; x < width; x++) {
+      for (let ch = 0; ch < 4; ch++) {
+        rgba[(y * width + x) * 4 + ch] = ch < channels ? line[x * channels + ch] : 255;
+      }
+    }
+    prev = line;
+  }
+  return { width, height, rgba };
+}
+
+/** RGB 채널 PSNR (dB) */
+function psnr(a: Uint8Array, b: Uint8Array): number {
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (i % 4 === 3) continue;
+    sum += (a[i] - b[i]) ** 2;
+    count++;
+  }
+  return 10 * Math.log10((255 * 255) / (sum / count));
+}
+
+function expectFullChain(texture: CompressedTexture, format: CompressedTextureFormat): void {
+  expect(texture.format).toBe(format);
+  expect([texture.width, texture.height]).toEqual([256, 256]);
+  expect(texture.levels.map((l) => l.width)).toEqual([256, 128, 64, 32, 16, 8, 4, 2, 1]);
+  expect(texture.levels.map((l) => l.height)).toEqual([256, 128, 64, 32, 16, 8, 4, 2, 1]);
+  for (const level of texture.levels) {
+    expect(level.data.byteLength).toBe(compressedLevelByteLength(format, level.width, level.height));
+  }
+  expect(decodedByteLength(texture)).toBe(349524);
+}
+
+describe("compressed texture layout helpers", () => {
+  it("counts blocks and mip levels", () => {
+    expect(mipChainLength(256, 256)).toBe(9);
+    expect(mipChainLength(300, 20)).toBe(9);
+    expect(mipChainLength(1, 1)).toBe(1);
+    // 블록보다 작은 level도 블록 하나를 차지한다
+    expect(compressedLevelByteLength("BC1_RGB", 1, 1)).toBe(8);
+    expect(compressedLevelByteLength("BC1_RGB", 5, 5)).toBe(4 * 8);
+    expect(compressedLevelByteLength("BC7", 256, 256)).toBe(64 * 64 * 16);
+    expect(compressedLevelByteLength("ASTC_6x6", 13, 13)).toBe(9 * 16);
+  });
+});
+
+describe("parseKTX2", () => {
+  it("reads the header, level index and key/value data", () => {
+    const bc1 = parseKTX2(fixtureBytes(`${DIR}/tiles-bc1.ktx2`));
+    expect(bc1.container).toBe("KTX2");
+    expectFullChain(bc1, "BC1_RGB");
+    expect(compressedByteLength(bc1)).toBe(43704);
+    expect(bc1.metadata).toEqual(new Map([["KTXorientation", "rd"], ["KTXwriter", "webgl-lab fixture generator"]]));
+
+    const bc7 = parseKTX2(fixtureBytes(`${DIR}/tiles-bc7.ktx2`));
+    expectFullChain(bc7, "BC7");
+    expect(compressedByteLength(bc7)).toBe(87408);
+  });
+
+  it("finds the same blocks as the DDS of the same encoding", () => {
+    // KTX2는 작은 level부터 정렬해 저장하고 DDS는 큰 level부터 빈틈없이 저장한다
+    const pairs: [string, string][] = [["tiles-bc1.ktx2", "tiles-dxt1.dds"], ["tiles-bc7.ktx2", "tiles-bc7.dds"]];
+    for (const [ktx2, dds] of pairs) {
+      const a = parseKTX2(fixtureBytes(`${DIR}/${ktx2}`));
+      const b = parseDDS(fixtureBytes(`${DIR}/${dds}`));
+      a.levels.forEach((level, i) => expect(level.data, `${ktx2} level ${i}`).toEqual(b.levels[i].data));
+    }
+  });
+
+  it("maps vkFormat values to formats", () => {
+    const cases: [number, CompressedTextureFormat][] = [
+      [131, "BC1_RGB"],
+      [133, "BC1_RGBA"],
+      [135, "BC2"],
+      [137, "BC3"],
+      [145, "BC7"],
+      [147, "ETC2_RGB8"],
+      [151, "ETC2_RGBA8"],
+      [157, "ASTC_4x4"],
+    ];
+    for (const [vkFormat, format] of cases) {
+      // 블록 크기가 같은 포맷끼리만 바꿔 level 길이 검사를 통과시킨다
+      const file = COMPRESSED_FORMATS[format].blockBytes === 8 ? "tiles-bc1.ktx2" : "tiles-bc7.ktx2";
+      expect(parseKTX2(setU32(fixtureBytes(`${DIR}/${file}`), 12, vkFormat)).format).toBe(format);
+    }
+  });
+
+  it("rejects invalid, unsupported and truncated files", () => {
+    const bytes = () => fixtureBytes(`${DIR}/tiles-bc7.ktx2`);
+    const fileLength = bytes().byteLength;
+    expect(isKTX2(bytes())).toBe(true);
+    expect(isKTX2(fixtureBytes(`${DIR}/tiles-bc7.dds`))).toBe(false);
+
+    expect(parseError(() => parseKTX2(fixtureBytes(`${DIR}/tiles-bc7.dds`)))).toBe("KTX2: 파일 식별자가 «KTX 20»이 아닙니다");
+    expect(parseError(() => parseKTX2(bytes().slice(0, 60)))).toBe("KTX2: 헤더(80바이트)보다 파일이 짧습니다");
+    expect(parseError(() => parseKTX2(setU32(bytes(), 44, 1)))).toBe(
+      "KTX2: supercompression BasisLZ은 지원하지 않습니다 — Basis Universal 트랜스코더가 필요합니다",
+    );
+    expect(parseError(() => parseKTX2(setU32(bytes(), 44, 2)))).toBe("KTX2: supercompression Zstandard은 지원하지 않습니다");
+    expect(parseError(() => parseKTX2(setU32(bytes(), 12, 0)))).toMatch(/^KTX2: vkFormat이 UNDEFINED입니다/);
+    // VK_FORMAT_R8G8B8A8_UNORM, VK_FORMAT_BC7_SRGB_BLOCK
+    expect(parseError(() => parseKTX2(setU32(bytes(), 12, 37)))).toMatch(/^KTX2: 지원하지 않는 vkFormat 37 /);
+    expect(parseError(() => parseKTX2(setU32(bytes(), 12, 146)))).toMatch(/^KTX2: 지원하지 않는 vkFormat 146 /);
+    expect(parseError(() => parseKTX2(setU32(bytes(), 36, 6)))).toBe("KTX2: 큐브맵(face 6개)은 지원하지 않습니다");
+    expect(parseError(() => parseKTX2(setU32(bytes(), 32, 4)))).toBe("KTX2: 배열 텍스처(layer 4개)는 지원하지 않습니다");
+    expect(parseError(() => parseKTX2(setU32(bytes(), 28, 8)))).toBe("KTX2: 3D 텍스처는 지원하지 않습니다");
+    expect(parseError(() => parseKTX2(setU32(bytes(), 20, 0)))).toBe("KTX2: 크기가 0입니다 (0×256)");
+    // level 0 항목의 byteLength (offset 80 + 8)
+    expect(parseError(() => parseKTX2(setU32(bytes(), 88, 100)))).toBe("KTX2: level 0 (256×256)는 65536바이트여야 하는데 100바이트입니다");
+    // level 0은 파일 맨 끝에 있다
+    expect(parseError(() => parseKTX2(bytes().slice(0, fileLength - 1)))).toBe(
+      `KTX2: level 0 데이터(${fileLength - 65536} + 65536)가 파일 끝을 넘습니다`,
+    );
+    expect(parseError(() => parseKTX2(bytes().slice(0, 200)))).toMatch(/^KTX2: (DFD|key\/value 데이터)\(\d+ \+ \d+\)가 파일 끝을 넘습니다$/);
+  });
+});
+
+describe("parseDDS", () => {
+  it("reads FourCC and DX10 headers with their mip chains", () => {
+    const cases: [string, CompressedTextureFormat, number][] = [
+      ["tiles-dxt1.dds", "BC1_RGBA", 43704],
+      ["tiles-dxt5.dds", "BC3", 87408],
+      ["tiles-bc7.dds", "BC7", 87408],
+    ];
+    for (const [file, format, bytes] of cases) {
+      const texture = parseDDS(fixtureBytes(`${DIR}/${file}`));
+      expect(texture.container).toBe("DDS");
+      expectFullChain(texture, format);
+      expect(compressedByteLength(texture)).toBe(bytes);
+      expect(texture.metadata.size).toBe(0);
+    }
+  });
+
+  it("maps FourCC and DXGI codes to formats", () => {
+    const fourCC = (bytes: Uint8Array, code: string) => {
+      bytes.set([...code].map((c) => c.charCodeAt(0)), 84);
+      return bytes;
+    };
+    expect(parseDDS(fourCC(fixtureBytes(`${DIR}/tiles-dxt5.dds`), "DXT3")).format).toBe("BC2");
+    // DX10 헤더는 128바이트 위치에서 시작한다
+    expect(parseDDS(setU32(fixtureBytes(`${DIR}/tiles-bc7.dds`), 128, 77)).format).toBe("BC3");
+    expect(parseDDS(setU32(fixtureBytes(`${DIR}/tiles-bc7.dds`), 128, 74)).format).toBe("BC2");
+
+    expect(parseError(() => parseDDS(fourCC(fixtureBytes(`${DIR}/tiles-dxt5.dds`), "ATI2")))).toBe(
+      'DDS: 지원하지 않는 FourCC "ATI2" (DXT1 / DXT3 / DXT5 / DX10만 읽습니다)',
+    );
+    // DXGI_FORMAT_BC7_UNORM_SRGB
+    expect(parseError(() => parseDDS(setU32(fixtureBytes(`${DIR}/tiles-bc7.dds`), 128, 99)))).toBe(
+      "DDS: 지원하지 않는 DXGI 포맷 99 (BC1 / BC2 / BC3 / BC7 UNORM만 읽습니다)",
+    );
+  });
+
+  it("rejects invalid, unsupported and truncated files", () => {
+    const dxt5 = () => fixtureBytes(`${DIR}/tiles-dxt5.dds`);
+    const bc7 = () => fixtureBytes(`${DIR}/tiles-bc7.dds`);
+    expect(isDDS(dxt5())).toBe(true);
+    expect(isDDS(fixtureBytes(`${DIR}/tiles-bc1.ktx2`))).toBe(false);
+
+    expect(parseError(() => parseDDS(fixtureBytes(`${DIR}/tiles-bc1.ktx2`)))).toBe('DDS: 매직 값이 "DDS "가 아닙니다');
+    expect(parseError(() => parseDDS(dxt5().slice(0, 100)))).toBe("DDS: 헤더(128바이트)보다 파일이 짧습니다");
+    expect(parseError(() => parseDDS(dxt5().slice(0, 1000)))).toBe("DDS: level 0 (256×256, 65536바이트)이 파일 끝을 넘습니다");
+    expect(parseError(() => parseDDS(dxt5().slice(0, -1)))).toBe("DDS: level 8 (1×1, 16바이트)이 파일 끝을 넘습니다");
+    expect(parseError(() => parseDDS(bc7().slice(0, 140)))).toBe("DDS: DX10 확장 헤더가 잘렸습니다");
+    expect(parseError(() => parseDDS(setU32(dxt5(), 4, 100)))).toBe("DDS: 헤더 크기가 124가 아닙니다 (100)");
+    expect(parseError(() => parseDDS(setU32(dxt5(), 28, 10)))).toBe("DDS: mip level 10개는 256×256의 전체 chain보다 많습니다");
+    expect(parseError(() => parseDDS(setU32(dxt5(), 112, 0x200)))).toBe("DDS: 큐브맵은 지원하지 않습니다");
+    expect(parseError(() => parseDDS(setU32(dxt5(), 80, 0x40)))).toMatch(/^DDS: 비압축 픽셀 포맷은 지원하지 않습니다/);
+    expect(parseError(() => parseDDS(setU32(bc7(), 128 + 12, 6)))).toBe("DDS: 배열 텍스처(6장)는 지원하지 않습니다");
+    expect(parseError(() => parseDDS(setU32(bc7(), 128 + 4, 4)))).toBe("DDS: 2D 텍스처만 지원합니다 (resourceDimension 4)");
+  });
+
+  it("reads only level 0 when DDSD_MIPMAPCOUNT is not set", () => {
+    const bytes = fixtureBytes(`${DIR}/tiles-dxt1.dds`);
+    setU32(bytes, 8, new DataView(bytes.buffer).getUint32(8, true) & ~0x20000);
+    expect(parseDDS(bytes).levels.map((l) => l.width)).toEqual([256]);
+  });
+});
+
+describe("decodeToRgba", () => {
+  const source = decodePng(fixtureBytes("textures/tiles/basecolor.png"));
+
+  it("decodes the BC1 and BC3 fixtures close to the source texture", () => {
+    expect([source.width, source.height]).toEqual([256, 256]);
+    for (const file of ["tiles-dxt1.dds", "tiles-bc1.ktx2", "tiles-dxt5.dds"]) {
+      const texture = file.endsWith(".dds") ? parseDDS(fixtureBytes(`${DIR}/${file}`)) : parseKTX2(fixtureBytes(`${DIR}/${file}`));
+      const pixels = decodeToRgba(texture.format, texture.levels[0]);
+      expect(pixels.length).toBe(256 * 256 * 4);
+      expect(psnr(pixels, source.rgba), file).toBeGreaterThan(30);
+      // 불투명한 원본이라 알파는 전부 255 (BC1 punch-through도 쓰이지 않는다)
+      expect(pixels.every((v, i) => i % 4 !== 3 || v === 255), file).toBe(true);
+    }
+  });
+
+  it("gives the same colors from the BC1 block inside BC3", () => {
+    const bc1 = parseDDS(fixtureBytes(`${DIR}/tiles-dxt1.dds`));
+    const bc3 = parseDDS(fixtureBytes(`${DIR}/tiles-dxt5.dds`));
+    bc1.levels.forEach((level, i) => {
+      expect(decodeToRgba("BC3", bc3.levels[i]), `level ${i}`).toEqual(decodeToRgba("BC1_RGBA", level));
+    });
+  });
+
+  it("decodes the 1×1 level to the average color", () => {
+    const mean = [0, 1, 2].map((ch) => {
+      let sum = 0;
+      for (let i = ch; i < source.rgba.length; i += 4) sum += source.rgba[i];
+      return sum / (source.width * source.height);
+    });
+    const bc1 = parseDDS(fixtureBytes(`${DIR}/tiles-dxt1.dds`));
+    const pixel = decodeToRgba(bc1.format, bc1.levels[8]);
+    expect(pixel.length).toBe(4);
+    // RGB565 양자화 (R, B 8단계 · G 4단계) 안쪽
+    for (let ch = 0; ch < 3; ch++) expect(Math.abs(pixel[ch] - mean[ch]), `channel ${ch}`).toBeLessThanOrEqual(6);
+  });
+
+  it("follows the BC1 and BC3 palette rules on hand-made blocks", () => {
+    const red = 0xf800;
+    const blue = 0x001f;
+    // c0 > c1: 4색. 텍셀 0..3 = 인덱스 0..3
+    const fourColor = Uint8Array.from([red & 255, red >> 8, blue & 255, blue >> 8, 0b11100100, 0, 0, 0]);
+    const texels = decodeToRgba("BC1_RGB", { width: 4, height: 1, data: fourColor });
+    expect(Array.from(texels)).toEqual([255, 0, 0, 255, 0, 0, 255, 255, 170, 0, 85, 255, 85, 0, 170, 255]);
+
+    // c0 <= c1: 3색 + 인덱스 3은 검정, BC1_RGBA에서는 투명
+    const threeColor = Uint8Array.from([blue & 255, blue >> 8, red & 255, red >> 8, 0b11100100, 0, 0, 0]);
+    expect(Array.from(decodeToRgba("BC1_RGB", { width: 4, height: 1, data: threeColor }).subarray(8))).toEqual([
+      127, 0, 127, 255, 0, 0, 0, 255,
+    ]);
+    expect(decodeToRgba("BC1_RGBA", { width: 4, height: 1, data: threeColor })[15]).toBe(0);
+
+    // BC3 알파: a0 > a1이면 8단계, 아니면 6단계 + 0 / 255. 색 블록은 항상 4색
+    const alpha = (a0: number, a1: number) => {
+      const block = new Uint8Array(16);
+      block.set([a0, a1]);
+      // 텍셀 i의 3비트 인덱스 = i (0..7)
+      let bits = 0;
+      for (let i = 0; i < 8; i++) bits |= i << (i * 3);
+      block.set([bits & 255, (bits >> 8) & 255, (bits >> 16) & 255], 2);
+      block.set(threeColor, 8);
+      const out = decodeToRgba("BC3", { width: 4, height: 2, data: block });
+      return Array.from({ length: 8 }, (_, i) => out[i * 4 + 3]);
+    };
+    expect(alpha(255, 0)).toEqual([255, 0, 218, 182, 145, 109, 72, 36]);
+    expect(alpha(0, 255)).toEqual([0, 255, 51, 102, 153, 204, 0, 255]);
+  });
+
+  it("clips edge blocks to the level size and refuses formats without a decoder", () => {
+    const bc1 = parseDDS(fixtureBytes(`${DIR}/tiles-dxt1.dds`));
+    const level = bc1.levels[7];
+    expect(decodeToRgba(bc1.format, level).length).toBe(2 * 2 * 4);
+
+    expect(canDecodeToRgba("BC7")).toBe(false);
+    const bc7 = parseDDS(fixtureBytes(`${DIR}/tiles-bc7.dds`));
+    expect(() => decodeToRgba("BC7", bc7.levels[0])).toThrow("BC7은 CPU 디코더가 없습니다 (BC1 / BC2 / BC3만 지원)");
+  });
+});
@@ -0,0 +1,15 @@
+import { readFileSync } from "node:fs";
+
+/** public/ 아래 파일. 랩 페이지가 fetch하는 것과 같은 파일로 테스트한다 */
+function publicUrl(path: string): URL {
+  return new URL(`../public/${path}`, import.meta.url);
+}
+
+export function fixtureText(path: string): string {
+  return readFileSync(publicUrl(path), "utf8");
+}
+
+/** 파일 전체를 담은 새 버퍼 (byteOffset 0). 테스트가 고쳐 써도 다른 테스트에 영향이 없다 */
+export function fixtureBytes(path: string): Uint8Array {
+  return new Uint8Array(readFileSync(publicUrl(path)));
+}
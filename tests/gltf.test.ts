@@ -0,0 +1,253 @@
+import { describe, expect, it } from "vitest";
+import { GltfParseError, loadGltf, parseGLB } from "../src/core/loaders/gltf";
+import type { GltfAsset, GltfLoadOptions } from "../src/core/loaders/gltf";
+import { fixtureBytes, fixtureText } from "./fixtures";
+
+/** boxes.gltf의 외부 이미지 uri("../checker.png")를 public/models 기준으로 읽는다 */
+const readUri: GltfLoadOptions["readUri"] = async (uri) => fixtureBytes(`models/${uri}`);
+
+// JSON 구조는 테스트에서 고쳐 쓰는 만큼만 적는다
+interface Doc {
+  asset: { version: string };
+  meshes: { name?: string; primitives: { attributes: Record<string, number>; indices?: number; mode?: number }[] }[];
+  accessors: Record<string, unknown>[];
+  bufferViews: { buffer: number; byteOffset?: number; byteLength: number }[];
+  buffers: { uri?: string; byteLength: number }[];
+  extensionsRequired?: string[];
+}
+
+function fixtureDoc(): Doc {
+  return JSON.parse(fixtureText("models/boxes.gltf")) as Doc;
+}
+
+function loadDoc(doc: Doc, options: GltfLoadOptions = { readUri }): Promise<GltfAsset> {
+  return loadGltf(JSON.stringify(doc), options);
+}
+
+/** doc의 buffer를 data URI에서 꺼낸다 (로더와 따로 읽어 기대값을 만든다) */
+function bufferBytes(doc: Doc, index: number): Uint8Array {
+  const uri = doc.buffers[index].uri ?? "";
+  return new Uint8Array(Buffer.from(uri.slice(uri.indexOf(",") + 1), "base64"));
+}
+
+function viewFloats(doc: Doc, view: number): Float32Array {
+  const { byteOffset = 0, byteLength } = doc.bufferViews[view];
+  return new Float32Array(bufferBytes(doc, 0).slice(byteOffset, byteOffset + byteLength).buffer);
+}
+
+function viewUint16(doc: Doc, view: number): Uint16Array {
+  const { byteOffset = 0, byteLength } = doc.bufferViews[view];
+  return new Uint16Array(bufferBytes(doc, 0).slice(byteOffset, byteOffset + byteLength).buffer);
+}
+
+/** 이어 붙인 typed array들을 buffers[1] (data URI)과 그 bufferView로 추가하고 bufferView 인덱스를 돌려준다 */
+function appendBuffer(doc: Doc, arrays: ArrayBufferView[]): number[] {
+  const parts: Uint8Array[] = [];
+  const views: number[] = [];
+  let offset = 0;
+  const buffer = doc.buffers.length;
+  for (const array of arrays) {
+    const bytes = new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+    const padded = new Uint8Array((bytes.byteLength + 3) & ~3);
+    padded.set(bytes);
+    views.push(doc.bufferViews.length);
+    doc.bufferViews.push({ buffer, byteOffset: offset, byteLength: bytes.byteLength });
+    parts.push(padded);
+    offset += padded.byteLength;
+  }
+  const all = Buffer.concat(parts);
+  doc.buffers.push({ uri: `data:application/octet-stream;base64,${all.toString("base64")}`, byteLength: all.byteLength });
+  return views;
+}
+
+/** 정점 3개짜리 삼각형 mesh를 추가하고 mesh 인덱스를 돌려준다. 법선 · 인덱스가 없으므로 위치 순서가 그대로 남는다 */
+function appendTriangle(doc: Doc, attributes: Record<string, Record<string, unknown>>): number {
+  const indices: Record<string, number> = {};
+  for (const [name, accessor] of Object.entries(attributes)) {
+    indices[name] = doc.accessors.length;
+    doc.accessors.push({ count: 3, ...accessor });
+  }
+  doc.meshes.push({ primitives: [{ attributes: indices }] });
+  return doc.meshes.length - 1;
+}
+
+async function expectGltfError(load: Promise<unknown>, path: string, message: string): Promise<void> {
+  const error = await load.then(
+    () => null,
+    (e: unknown) => e,
+  );
+  expect(error).toBeInstanceOf(GltfParseError);
+  expect((error as GltfParseError).path).toBe(path);
+  expect((error as GltfParseError).message).toBe(path ? `${path}: ${message}` : message);
+}
+
+describe("loadGltf on public/models/boxes", () => {
+  it("reads the same scene from .gltf and .glb", async () => {
+    const gltf = await loadGltf(fixtureText("models/boxes.gltf"), { readUri });
+    const glb = await loadGltf(fixtureBytes("models/boxes.glb"));
+
+    expect(gltf.nodes.map((n) => n.name)).toEqual(["Root", "Ground", "Tower", "Side", "Top"]);
+    expect(gltf.meshes.map((m) => [m.name, m.primitives.length])).toEqual([["Box", 2], ["Frustum", 1], ["Ground", 1]]);
+    expect(glb.nodes.map((n) => n.name)).toEqual(gltf.nodes.map((n) => n.name));
+    gltf.nodes.forEach((node, i) => {
+      for (let k = 0; k < 16; k++) expect(glb.nodes[i].worldMatrix[k]).toBeCloseTo(node.worldMatrix[k], 6);
+    });
+    gltf.meshes.forEach((mesh, i) => {
+      mesh.primitives.forEach((primitive, j) => {
+        const other = glb.meshes[i].primitives[j];
+        expect(other.mesh.positions).toEqual(primitive.mesh.positions);
+        expect(other.mesh.normals).toEqual(primitive.mesh.normals);
+        expect(other.mesh.uvs).toEqual(primitive.mesh.uvs);
+        expect(other.mesh.indices).toEqual(primitive.mesh.indices);
+      });
+    });
+
+    // .gltf는 외부 uri, .glb는 bufferView에 담긴 같은 PNG
+    expect(gltf.images[0].bytes).toEqual(fixtureBytes("checker.png"));
+    expect(glb.images[0].bytes).toEqual(gltf.images[0].bytes);
+    expect(glb.images[0].mimeType).toBe("image/png");
+  });
+
+  it("applies sparse values on top of the base bufferView without touching the shared base", async () => {
+    const doc = fixtureDoc();
+    const asset = await loadDoc(doc);
+    const sparse = doc.accessors[6] as { sparse: { indices: { bufferView: number }; values: { bufferView: number } } };
+
+    const expected = viewFloats(doc, 0).slice();
+    const targets = viewUint16(doc, sparse.sparse.indices.bufferView);
+    const values = viewFloats(doc, sparse.sparse.values.bufferView);
+    expect(targets.length).toBe(12);
+    targets.forEach((target, k) => expected.set(values.subarray(k * 3, k * 3 + 3), target * 3));
+
+    // Frustum은 법선이 없어 인덱스를 풀어 쓴다: k번째 정점 = accessor 6의 indices[k]번째 요소
+    const frustum = asset.meshes[1].primitives[0].mesh;
+    const list = viewUint16(doc, 5);
+    expect(frustum.vertexCount).toBe(list.length);
+    list.forEach((v, k) => {
+      expect(Array.from(frustum.positions.subarray(k * 3, k * 3 + 3))).toEqual(Array.from(expected.subarray(v * 3, v * 3 + 3)));
+    });
+    expect(Array.from(expected)).not.toEqual(Array.from(viewFloats(doc, 0)));
+
+    // 같은 bufferView를 쓰는 Box의 POSITION은 그대로
+    expect(asset.meshes[0].primitives[0].mesh.positions).toEqual(viewFloats(doc, 0));
+  });
+
+  it("starts a sparse accessor without bufferView from zeros", async () => {
+    const doc = fixtureDoc();
+    const [indexView, valueView] = appendBuffer(doc, [new Uint8Array([2]), new Float32Array([1, 2, 3])]);
+    const mesh = appendTriangle(doc, {
+      POSITION: {
+        componentType: 5126,
+        type: "VEC3",
+        sparse: { count: 1, indices: { bufferView: indexView, componentType: 5121 }, values: { bufferView: valueView } },
+      },
+    });
+    const asset = await loadDoc(doc);
+    expect(Array.from(asset.meshes[mesh].primitives[0].mesh.positions)).toEqual([0, 0, 0, 0, 0, 0, 1, 2, 3]);
+  });
+
+  it("converts normalized integers with the spec formulas and leaves the rest as plain values", async () => {
+    const doc = fixtureDoc();
+    const [bytes, shorts, ubytes, ushorts] = appendBuffer(doc, [
+      new Int8Array([-128, 127, 0, -64, 64, 1, -127, -1, 127]),
+      new Int16Array([2, -3, 100, -32768, 0, 7, 1, 1, -1]),
+      new Uint8Array([0, 255, 51, 102, 255, 0]),
+      new Uint16Array([0, 65535, 13107, 26214, 65535, 0]),
+    ]);
+    const normalizedByte = appendTriangle(doc, {
+      POSITION: { bufferView: bytes, componentType: 5120, normalized: true, type: "VEC3" },
+      TEXCOORD_0: { bufferView: ubytes, componentType: 5121, normalized: true, type: "VEC2" },
+    });
+    const plainShort = appendTriangle(doc, {
+      POSITION: { bufferView: shorts, componentType: 5122, type: "VEC3" },
+      TEXCOORD_0: { bufferView: ushorts, componentType: 5123, normalized: true, type: "VEC2" },
+    });
+    const normalizedShort = appendTriangle(doc, {
+      POSITION: { bufferView: shorts, componentType: 5122, normalized: true, type: "VEC3" },
+    });
+    const asset = await loadDoc(doc);
+    const mesh = (index: number) => asset.meshes[index].primitives[0].mesh;
+    const f32 = (values: number[]) => values.map(Math.fround);
+
+    // 부호 있는 정수: max(c / (2^(n-1) - 1), -1). 최솟값 -128도 -1
+    expect(Array.from(mesh(normalizedByte).positions)).toEqual(f32([-1, 1, 0, -64 / 127, 64 / 127, 1 / 127, -1, -1 / 127, 1]));
+    expect(Array.from(mesh(normalizedByte).uvs)).toEqual(f32([0, 1, 0.2, 0.4, 1, 0]));
+    // normalized가 아니면 정수 값 그대로 — 음수도 -1로 잘리지 않는다
+    expect(Array.from(mesh(plainShort).positions)).toEqual([2, -3, 100, -32768, 0, 7, 1, 1, -1]);
+    expect(Array.from(mesh(plainShort).uvs)).toEqual(f32([0, 1, 0.2, 0.4, 1, 0]));
+    expect(Array.from(mesh(normalizedShort).positions)).toEqual(
+      f32([2 / 32767, -3 / 32767, 100 / 32767, -1, 0, 7 / 32767, 1 / 32767, 1 / 32767, -1 / 32767]),
+    );
+  });
+});
+
+describe("glTF error paths", () => {
+  it("rejects broken JSON and unsupported documents", async () => {
+    const syntax = await loadGltf("{ not json").catch((e: unknown) => e);
+    expect(syntax).toBeInstanceOf(GltfParseError);
+    expect((syntax as GltfParseError).message).toMatch(/^JSON 구문 오류 — /);
+
+    const old = fixtureDoc();
+    old.asset.version = "1.0";
+    await expectGltfError(loadDoc(old), "asset", "지원하지 않는 glTF 버전 1.0");
+
+    const extension = fixtureDoc();
+    extension.extensionsRequired = ["KHR_draco_mesh_compression"];
+    await expectGltfError(loadDoc(extension), "extensionsRequired", "지원하지 않는 필수 확장: KHR_draco_mesh_compression");
+  });
+
+  it("needs readUri for external files", async () => {
+    await expectGltfError(loadDoc(fixtureDoc(), {}), "images[0]", '외부 파일을 읽을 readUri가 없습니다: "../checker.png"');
+  });
+
+  it("points at the offending buffer, view or accessor", async () => {
+    const shortBuffer = fixtureDoc();
+    shortBuffer.buffers[0].byteLength = 4096;
+    await expectGltfError(loadDoc(shortBuffer), "buffers[0]", "byteLength 4096보다 데이터가 짧습니다 (1176)");
+
+    const longView = fixtureDoc();
+    longView.bufferViews[2].byteLength = 1000;
+    await expectGltfError(loadDoc(longView), "bufferViews[2]", "범위 576…1576가 버퍼 크기 1176를 넘습니다");
+
+    const missingAccessor = fixtureDoc();
+    missingAccessor.meshes[0].primitives[0].attributes.NORMAL = 42;
+    await expectGltfError(loadDoc(missingAccessor), "meshes[0].primitives[0].attributes.NORMAL", "인덱스 42가 범위를 벗어납니다 (항목 9개)");
+
+    const normalizedFloat = fixtureDoc();
+    normalizedFloat.accessors[1].normalized = true;
+    await expectGltfError(loadDoc(normalizedFloat), "accessors[1].normalized", "FLOAT / UNSIGNED_INT는 normalized일 수 없습니다");
+
+    const mismatched = fixtureDoc();
+    mismatched.accessors[2].count = 12;
+    await expectGltfError(loadDoc(mismatched), "meshes[0].primitives[0].attributes.TEXCOORD_0", "TEXCOORD_0의 count가 POSITION과 다릅니다");
+  });
+
+  it("validates sparse accessors", async () => {
+    const badType = fixtureDoc();
+    (badType.accessors[6].sparse as { indices: { componentType: number } }).indices.componentType = 5126;
+    await expectGltfError(loadDoc(badType), "accessors[6].sparse.indices", "잘못된 indices.componentType 5126");
+
+    // 대상 인덱스 중 가장 큰 값보다 count를 작게 하면 범위를 넘는다
+    const outOfRange = fixtureDoc();
+    const sparse = outOfRange.accessors[6].sparse as { indices: { bufferView: number } };
+    const largest = Math.max(...viewUint16(outOfRange, sparse.indices.bufferView));
+    outOfRange.accessors[6].count = largest;
+    await expectGltfError(loadDoc(outOfRange), "accessors[6].sparse.indices", `sparse 인덱스 ${largest}가 count를 넘습니다`);
+  });
+
+  it("rejects damaged GLB containers", async () => {
+    const glb = fixtureBytes("models/boxes.glb");
+    expect(() => parseGLB(new Uint8Array(16))).toThrow("glb: GLB 매직 값이 아닙니다");
+
+    await expectGltfError(loadGltf(glb.slice(0, 100)), "glb", `헤더 길이 ${glb.byteLength}가 파일 크기 100보다 큽니다`);
+
+    const version = glb.slice();
+    version[4] = 1;
+    await expectGltfError(loadGltf(version), "glb", "지원하지 않는 GLB 버전 1");
+
+    // JSON 청크 길이를 파일보다 크게
+    const chunk = glb.slice();
+    new DataView(chunk.buffer).setUint32(12, glb.byteLength, true);
+    await expectGltfError(loadGltf(chunk), "glb", "청크 0가 파일 끝을 넘습니다");
+  });
+});
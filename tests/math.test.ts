@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import * as mat4 from "../src/core/math/mat4";
+import * as quat from "../src/core/math/quat";
+import * as vec3 from "../src/core/math/vec3";
+import * as vec4 from "../src/core/math/vec4";
+import type { Mat4 } from "../src/core/math/mat4";
+
+/** Float32 정밀도 기준 비교 */
+function expectClose(actual: ArrayLike<number>, expected: ArrayLike<number>, eps = 1e-5): void {
+  expect(actual.length).toBe(expected.length);
+  for (let i = 0; i < expected.length; i++) {
+    expect(Math.abs(actual[i] - expected[i]), `index ${i}: ${actual[i]} vs ${expected[i]}`).toBeLessThanOrEqual(eps);
+  }
+}
+
+/** 회전 · 이동 · 비균등 스케일이 섞인 일반적인 모델 행렬 */
+function sampleMatrix(): Mat4 {
+  return mat4.multiply(
+    mat4.translation(3, -2, 5),
+    mat4.multiply(mat4.fromEuler(0.3, -1.1, 0.7, "YXZ"), mat4.scaling(2, 0.5, 3)),
+  );
+}
+
+/** 점 (w = 1)을 변환하고 w로 나눈다 */
+function transformPoint(m: Mat4, [x, y, z]: number[]): number[] {
+  const w = m[3] * x + m[7] * y + m[11] * z + m[15];
+  return [0, 1, 2].map((i) => (m[i] * x + m[4 + i] * y + m[8 + i] * z + m[12 + i]) / w);
+}
+
+describe("mat4", () => {
+  it("M · M⁻¹ = I and M⁻¹ · M = I", () => {
+    const m = sampleMatrix();
+    const inv = mat4.invert(m)!;
+    expect(inv).not.toBeNull();
+    expectClose(mat4.multiply(m, inv), mat4.identity());
+    expectClose(mat4.multiply(inv, m), mat4.identity());
+  });
+
+  it("inverts small-scale matrices (determinant far below 1e-8)", () => {
+    const m = mat4.scaling(0.001, 0.001, 0.001);
+    expect(mat4.determinant(m)).toBeLessThan(1e-8);
+    const inv = mat4.invert(m)!;
+    expect(inv).not.toBeNull();
+    expectClose(mat4.multiply(m, inv), mat4.identity());
+    expect(mat4.normalMatrix(m)).not.toBeNull();
+  });
+
+  it("returns null for singular matrices and leaves out untouched", () => {
+    const out = mat4.identity();
+    expect(mat4.invertInto(out, mat4.scaling(1, 0, 1))).toBeNull();
+    expectClose(out, mat4.identity());
+    expect(mat4.normalMatrix(mat4.scaling(0, 1, 1))).toBeNull();
+  });
+
+  it("treats near-singular matrices as singular, relative to the matrix scale", () => {
+    // w = 1에 비해 세 축이 1e-20배로 찌그러진 행렬
+    expect(mat4.invert(mat4.scaling(1e-20, 1e-20, 1e-20))).toBeNull();
+    // y축이 x축과 거의 겹친다
+    const collinear = mat4.identity();
+    collinear.set([1, 1e-14, 0], 4);
+    expect(mat4.determinant(collinear)).not.toBe(0);
+    expect(mat4.invert(collinear)).toBeNull();
+    expect(mat4.normalMatrix(collinear)).toBeNull();
+
+    // 전체 크기만 작거나 큰 행렬은 비율이 그대로이므로 뒤집는다
+    for (const factor of [1e-6, 1e6]) {
+      const m = sampleMatrix().map((v) => v * factor);
+      const inv = mat4.invert(m)!;
+      expect(inv).not.toBeNull();
+      expectClose(mat4.multiply(m, inv), mat4.identity());
+      expect(mat4.normalMatrix(m)).not.toBeNull();
+    }
+  });
+
+  it("Into variants may alias their inputs", () => {
+    const a = sampleMatrix();
+    const b = mat4.rotationX(0.4);
+    const expected = mat4.multiply(a, b);
+    const out = mat4.copyInto(new Float32Array(16), b);
+    mat4.multiplyInto(out, a, out);
+    expectClose(out, expected);
+    const inPlace = sampleMatrix();
+    mat4.invertInto(inPlace, inPlace);
+    expectClose(inPlace, mat4.invert(sampleMatrix())!);
+  });
+
+  it("(Mᵀ)ᵀ = M and det(Mᵀ) = det(M)", () => {
+    const m = sampleMatrix();
+    expectClose(mat4.transpose(mat4.transpose(m)), m);
+    expect(mat4.determinant(mat4.transpose(m))).toBeCloseTo(mat4.determinant(m), 4);
+    expect(mat4.determinant(m)).toBeCloseTo(2 * 0.5 * 3, 4);
+  });
+
+  it("normal matrix is the inverse-transpose of the upper 3×3", () => {
+    const m = sampleMatrix();
+    const n = mat4.normalMatrix(m)!;
+    const it4 = mat4.transpose(mat4.invert(m)!);
+    expectClose(n, [it4[0], it4[1], it4[2], it4[4], it4[5], it4[6], it4[8], it4[9], it4[10]]);
+  });
+
+  it("compose ∘ decompose round-trips TRS", () => {
+    const q = [0.2, -0.4, 0.1, 0.9];
+    const len = Math.hypot(...q);
+    const trs = {
+      translation: new Float32Array([1, 2, 3]),
+      rotation: new Float32Array(q.map((v) => v / len)),
+      scale: new Float32Array([2, 3, 0.5]),
+    };
+    const back = mat4.decompose(mat4.compose(trs));
+    expectClose(back.translation, trs.translation);
+    expectClose(back.scale, trs.scale);
+    // q와 -q는 같은 회전
+    const sign = Math.sign(back.rotation.reduce((sum, v, i) => sum + v * trs.rotation[i], 0));
+    expectClose(back.rotation.map((v) => v * sign), trs.rotation);
+  });
+
+  it("lookAt maps the eye to the origin and the target onto -Z", () => {
+    const view = mat4.lookAt([1, 2, 3], [4, 2, -1]);
+    expectClose(transformPoint(view, [1, 2, 3]), [0, 0, 0]);
+    expectClose(transformPoint(view, [4, 2, -1]), [0, 0, -5]);
+  });
+
+  it("perspective maps near / far planes to NDC z = -1 / 1", () => {
+    const p = mat4.perspective(Math.PI / 3, 1.5, 0.1, 100);
+    expect(transformPoint(p, [0, 0, -0.1])[2]).toBeCloseTo(-1, 5);
+    expect(transformPoint(p, [0, 0, -100])[2]).toBeCloseTo(1, 4);
+  });
+});
+
+describe("quat", () => {
+  it("toMat4(fromEuler) matches mat4.fromEuler for every order", () => {
+    for (const order of ["XYZ", "XZY", "YXZ", "YZX", "ZXY", "ZYX"] as const) {
+      expectClose(quat.toMat4(quat.fromEuler(0.3, -0.8, 1.2, order)), mat4.fromEuler(0.3, -0.8, 1.2, order));
+    }
+  });
+
+  it("q · q⁻¹ = identity and rotateVec3 agrees with the matrix", () => {
+    const q = quat.fromAxisAngle([1, 2, -1], 0.9);
+    expectClose(quat.multiply(q, quat.conjugate(q)), quat.identity());
+    const v = vec3.vec3(0.5, -1, 2);
+    expectClose(quat.rotateVec3(q, v), vec3.transformDirection(v, quat.toMat4(q)));
+  });
+
+  it("slerp hits the endpoints, stays unit length and takes the short arc", () => {
+    const a = quat.fromAxisAngle([0, 1, 0], 0);
+    const b = quat.fromAxisAngle([0, 1, 0], Math.PI / 2);
+    expectClose(quat.slerp(a, b, 0), a);
+    expectClose(quat.slerp(a, b, 1), b);
+    const mid = quat.slerp(a, b, 0.5);
+    expect(Math.hypot(...mid)).toBeCloseTo(1, 6);
+    expectClose(mid, quat.fromAxisAngle([0, 1, 0], Math.PI / 4));
+    // -b는 같은 회전이므로 결과도 같아야 한다
+    const negB = b.map((v) => -v);
+    const sign = Math.sign(quat.dot(quat.slerp(a, negB, 0.5), mid));
+    expectClose(quat.slerp(a, negB, 0.5).map((v) => v * sign), mid);
+  });
+});
+
+describe("vec", () => {
+  it("cross is right-handed and perpendicular to its inputs", () => {
+    expectClose(vec3.cross(vec3.vec3(1, 0, 0), vec3.vec3(0, 1, 0)), [0, 0, 1]);
+    const a = vec3.vec3(1, 2, 3);
+    const b = vec3.vec3(-2, 0.5, 4);
+    const c = vec3.cross(a, b);
+    expect(vec3.dot(a, c)).toBeCloseTo(0, 5);
+    expect(vec3.dot(b, c)).toBeCloseTo(0, 5);
+  });
+
+  it("normalize gives unit length and keeps the zero vector", () => {
+    expect(vec3.length(vec3.normalize(vec3.vec3(3, -4, 12)))).toBeCloseTo(1, 6);
+    expectClose(vec3.normalize(vec3.vec3()), [0, 0, 0]);
+    expect(vec4.length(vec4.normalize(vec4.vec4(1, 2, 3, 4)))).toBeCloseTo(1, 6);
+  });
+
+  it("transformMat4 applies translation to points but not directions", () => {
+    const t = mat4.translation(1, 2, 3);
+    expectClose(vec3.transformMat4(vec3.vec3(1, 1, 1), t), [2, 3, 4]);
+    expectClose(vec3.transformDirection(vec3.vec3(1, 1, 1), t), [1, 1, 1]);
+    expectClose(vec4.transformMat4(vec4.vec4(1, 1, 1, 0), t), [1, 1, 1, 0]);
+  });
+});
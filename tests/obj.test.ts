@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import { ObjParseError, parseOBJ } from "../src/core/loaders/obj";
+import type { ObjModel, ObjPart } from "../src/core/loaders/obj";
+import { DEFAULT_OBJ_MATERIAL, parseMTL, resolveObjMaterial } from "../src/core/loaders/mtl";
+import type { ObjMaterial } from "../src/core/loaders/mtl";
+import { fixtureText } from "./fixtures";
+
+function partByName(model: ObjModel, name: string): ObjPart {
+  const part = model.parts.find((p) => p.name === name);
+  if (!part) throw new Error(`part "${name}" not found in ${model.parts.map((p) => p.name).join(", ")}`);
+  return part;
+}
+
+/** 삼각형마다 (면적 벡터, 세 정점 법선의 합) */
+function triangles(part: ObjPart): { area: number[]; normal: number[] }[] {
+  const { positions: p, normals: n, indices } = part.mesh;
+  const out: { area: number[]; normal: number[] }[] = [];
+  for (let t = 0; t < indices.length; t += 3) {
+    const [a, b, c] = [indices[t] * 3, indices[t + 1] * 3, indices[t + 2] * 3];
+    const u = [p[b] - p[a], p[b + 1] - p[a + 1], p[b + 2] - p[a + 2]];
+    const v = [p[c] - p[a], p[c + 1] - p[a + 1], p[c + 2] - p[a + 2]];
+    out.push({
+      area: [(u[1] * v[2] - u[2] * v[1]) / 2, (u[2] * v[0] - u[0] * v[2]) / 2, (u[0] * v[1] - u[1] * v[0]) / 2],
+      normal: [0, 1, 2].map((k) => n[a + k] + n[b + k] + n[c + k]),
+    });
+  }
+  return out;
+}
+
+function dot(a: number[], b: number[]): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+/** 파서가 던진 ObjParseError. 던지지 않거나 다른 오류면 실패 */
+function parseError(run: () => unknown): ObjParseError {
+  try {
+    run();
+  } catch (e: unknown) {
+    expect(e).toBeInstanceOf(ObjParseError);
+    return e as ObjParseError;
+  }
+  throw new Error("expected an ObjParseError");
+}
+
+/** text에서 line이 처음 나오는 줄 번호 (1부터) */
+function lineOf(text: string, line: string): number {
+  const index = text.split("\n").findIndex((l) => l.trimEnd() === line);
+  expect(index, `"${line}" not found`).toBeGreaterThanOrEqual(0);
+  return index + 1;
+}
+
+describe("parseOBJ on public/models", () => {
+  it("splits cube.obj into one vertex per v/vt/vn tuple", () => {
+    const model = parseOBJ(fixtureText("models/cube.obj"), { file: "cube.obj" });
+    expect(model.materialLibraries).toEqual(["cube.mtl"]);
+    expect(model.parts.map((p) => [p.name, p.material])).toEqual([["Cube", "Checker"]]);
+    // 위치 8개를 면 6개가 나눠 쓰지만 uv · 법선 조합은 24개
+    expect(model.vertexCount).toBe(24);
+    expect(model.triangleCount).toBe(12);
+    expect(Array.from(model.bounds.min)).toEqual([-0.5, -0.5, -0.5]);
+    expect(Array.from(model.bounds.max)).toEqual([0.5, 0.5, 0.5]);
+    for (const { area, normal } of triangles(model.parts[0])) expect(dot(area, normal)).toBeGreaterThan(0);
+  });
+
+  it("ear-clips the concave 10-gon caps of star.obj without losing area or flipping triangles", () => {
+    const text = fixtureText("models/star.obj");
+    const model = parseOBJ(text, { file: "star.obj" });
+    const caps = partByName(model, "Star/caps");
+    const sides = partByName(model, "Star/sides");
+
+    // n-gon 하나는 n - 2개의 삼각형
+    expect(caps.mesh.indexCount / 3).toBe(2 * 8);
+    expect(sides.mesh.indexCount / 3).toBe(10 * 2);
+
+    // 앞 뚜껑(z = 0.15) 윤곽의 신발끈 넓이
+    const outline = text
+      .split("\n")
+      .filter((l) => l.startsWith("v ") && l.endsWith(" 0.15"))
+      .map((l) => l.split(/\s+/).slice(1, 3).map(Number));
+    let expectedArea = 0;
+    for (let i = 0; i < outline.length; i++) {
+      const [x0, y0] = outline[i];
+      const [x1, y1] = outline[(i + 1) % outline.length];
+      expectedArea += (x0 * y1 - x1 * y0) / 2;
+    }
+    expect(expectedArea).toBeGreaterThan(0);
+
+    const front = triangles(caps).slice(0, 8);
+    const back = triangles(caps).slice(8);
+    // 모든 삼각형이 원래 다각형과 같은 방향이고 넓이를 합하면 다각형 넓이 (겹침 · 빈틈 없음)
+    for (const { area } of front) expect(area[2]).toBeGreaterThan(0);
+    for (const { area } of back) expect(area[2]).toBeLessThan(0);
+    expect(front.reduce((sum, t) => sum + t.area[2], 0)).toBeCloseTo(expectedArea, 4);
+    expect(back.reduce((sum, t) => sum - t.area[2], 0)).toBeCloseTo(expectedArea, 4);
+
+    // vn이 없는 뚜껑은 계산한 법선이 면 방향과 같다
+    for (const { area, normal } of [...triangles(caps), ...triangles(sides)]) expect(dot(area, normal)).toBeGreaterThan(0);
+  });
+
+  it("resolves negative indices in house.obj against everything defined so far", () => {
+    const model = parseOBJ(fixtureText("models/house.obj"), { file: "house.obj" });
+    expect(model.parts.map((p) => [p.name, p.material])).toEqual([
+      ["Walls", "Plaster"],
+      ["Roof", "Roof"],
+      ["Door", "Wood"],
+    ]);
+
+    // 사각형 3개 + 오각형 2개
+    const walls = partByName(model, "Walls");
+    expect(walls.mesh.indexCount / 3).toBe(3 * 2 + 2 * 3);
+    for (const { area, normal } of triangles(walls)) expect(dot(area, normal)).toBeGreaterThan(0);
+
+    // 두 지붕 면은 같은 -4..-1을 쓰지만 그 사이에 정의된 정점 4개를 가리킨다
+    const roof = partByName(model, "Roof");
+    expect(roof.mesh.indexCount / 3).toBe(4);
+    const roofZ = new Set(Array.from(roof.mesh.positions).filter((_, i) => i % 3 === 2));
+    expect([...roofZ].sort()).toEqual([-0.85, 0, 0.85].map(Math.fround).sort());
+
+    // 줄 잇기(\)로 이어진 면
+    const door = partByName(model, "Door");
+    expect(door.mesh.vertexCount).toBe(4);
+    expect(door.mesh.indexCount / 3).toBe(2);
+  });
+
+  it("gives the same mesh for negative and absolute indices", () => {
+    const header = "v 0 0 0\nv 1 0 0\nv 1 1 0\nv 0 1 0\nvt 0 0\nvt 1 0\nvt 1 1\nvt 0 1\nvn 0 0 1\n";
+    const absolute = parseOBJ(header + "f 1/1/1 2/2/1 3/3/1 4/4/1\n");
+    const relative = parseOBJ(header + "f -4/-4/-1 -3/-3/-1 -2/-2/-1 -1/-1/-1\n");
+    expect(relative.parts[0].mesh.positions).toEqual(absolute.parts[0].mesh.positions);
+    expect(relative.parts[0].mesh.uvs).toEqual(absolute.parts[0].mesh.uvs);
+    expect(relative.parts[0].mesh.normals).toEqual(absolute.parts[0].mesh.normals);
+    expect(relative.parts[0].mesh.indices).toEqual(absolute.parts[0].mesh.indices);
+  });
+});
+
+describe("parseMTL and material fallback", () => {
+  it("reads Kd and map_Kd from the bundled MTL files", () => {
+    const house = parseMTL(fixtureText("models/house.mtl"), { file: "house.mtl" });
+    expect([...house.keys()]).toEqual(["Plaster", "Roof", "Wood"]);
+    expect(house.get("Roof")).toEqual({ name: "Roof", diffuse: [0.62, 0.22, 0.18], diffuseMap: null });
+
+    const cube = parseMTL(fixtureText("models/cube.mtl"), { file: "cube.mtl" });
+    expect(cube.get("Checker")?.diffuseMap).toBe("../checker.png");
+  });
+
+  it("strips map_Kd options and keeps spaces in the file name", () => {
+    const materials = parseMTL("newmtl A\nmap_Kd -s 2 2 -clamp on my texture.png\nnewmtl B\nKd 0.5\n");
+    expect(materials.get("A")?.diffuseMap).toBe("my texture.png");
+    expect(materials.get("B")?.diffuse).toEqual([0.5, 0.5, 0.5]);
+  });
+
+  it("falls back to the default material when the MTL is missing or lacks the usemtl name", () => {
+    const model = parseOBJ(fixtureText("models/house.obj"), { file: "house.obj" });
+    const missing = new Map<string, ObjMaterial>();
+    for (const part of model.parts) expect(resolveObjMaterial(part.material, missing)).toBe(DEFAULT_OBJ_MATERIAL);
+
+    const materials = parseMTL(fixtureText("models/house.mtl"), { file: "house.mtl" });
+    materials.delete("Wood");
+    expect(resolveObjMaterial("Plaster", materials).diffuse).toEqual([0.92, 0.87, 0.78]);
+    expect(resolveObjMaterial("Wood", materials)).toBe(DEFAULT_OBJ_MATERIAL);
+
+    // usemtl이 없는 part
+    const plain = parseOBJ("v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3\n");
+    expect(plain.parts[0].material).toBeNull();
+    expect(resolveObjMaterial(plain.parts[0].material, materials)).toBe(DEFAULT_OBJ_MATERIAL);
+    expect(DEFAULT_OBJ_MATERIAL.diffuse).toEqual(parseMTL("newmtl X\n").get("X")?.diffuse);
+  });
+});
+
+describe("parse errors carry file and line", () => {
+  it("reports the line of a bad number in a fixture", () => {
+    const text = fixtureText("models/house.obj");
+    const broken = text.replace("v  1.1 0.94 -0.85", "v  1.1 abc -0.85");
+    const error = parseError(() => parseOBJ(broken, { file: "house.obj" }));
+    const line = lineOf(text, "v  1.1 0.94 -0.85");
+    expect(error.file).toBe("house.obj");
+    expect(error.line).toBe(line);
+    expect(error.message).toBe(`house.obj:${line}: 숫자가 아닙니다: "abc"`);
+  });
+
+  it("reports relative indices that reach before the first vertex", () => {
+    const text = fixtureText("models/house.obj");
+    // Door 면까지 정의된 정점은 22개다
+    const broken = text.replace("f -4 -3 -2 \\", "f -4 -3 -23 \\");
+    const error = parseError(() => parseOBJ(broken, { file: "house.obj" }));
+    expect(error.line).toBe(lineOf(text, "f -4 -3 -2 \\"));
+    expect(error.message).toContain("범위를 벗어난 v 인덱스 -23 (정의된 v 22개)");
+  });
+
+  it("numbers statements joined with \\ by their first line", () => {
+    const error = parseError(() => parseOBJ("# comment\nv 0 0 0\nf 1 \\\n  1 1 \\\n 9\n", { file: "join.obj" }));
+    expect(error.line).toBe(3);
+    expect(error.message).toBe("join.obj:3: 범위를 벗어난 v 인덱스 9 (정의된 v 1개)");
+  });
+
+  it("rejects malformed statements with their line numbers", () => {
+    const cases: [string, number, string][] = [
+      ["v 1 2\n", 1, "v에는 좌표 3개가 필요합니다"],
+      ["v 0 0 0\nv 1 0 0\n\nf 1 2\n", 4, "면에는 정점이 3개 이상 필요합니다 (2개)"],
+      ["v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 0\n", 4, '잘못된 v 인덱스: "0"'],
+      ["v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1/1 2/1 3/1\n", 4, "범위를 벗어난 vt 인덱스 1 (정의된 vt 0개)"],
+      ["v 0 0 0\nv 1 0 0\nv 0 1 0\nvn 0 0 1\nf 1//1 2//1.5 3//1\n", 5, '잘못된 vn 인덱스: "1.5"'],
+      ["o A\nusemtl\n", 2, "usemtl에 재질 이름이 없습니다"],
+    ];
+    for (const [text, line, message] of cases) {
+      const error = parseError(() => parseOBJ(text));
+      expect(error.line, text).toBe(line);
+      expect(error.message, text).toBe(`model.obj:${line}: ${message}`);
+    }
+  });
+
+  it("reports MTL errors with the MTL file name", () => {
+    const cases: [string, number, string][] = [
+      ["Kd 1 1 1\n", 1, "Kd가 newmtl보다 먼저 나왔습니다"],
+      ["newmtl A\nKd spectral file.spd\n", 2, "Kd spectral는 지원하지 않습니다"],
+      ["newmtl A\n# no file\nmap_Kd -clamp\n", 3, "map_Kd에 파일 이름이 없습니다"],
+      ["newmtl A\nKd 1 x 1\n", 2, '숫자가 아닙니다: "x"'],
+    ];
+    for (const [text, line, message] of cases) {
+      const error = parseError(() => parseMTL(text, { file: "house.mtl" }));
+      expect(error.message, text).toBe(`house.mtl:${line}: ${message}`);
+    }
+  });
+});
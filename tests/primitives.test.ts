@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import {
+  createBoxMesh,
+  createCapsuleMesh,
+  createConeMesh,
+  createCylinderMesh,
+  createIcosphereMesh,
+  createPlaneMesh,
+  createTorusMesh,
+} from "../src/core/mesh/primitives";
+import { createSphereMesh } from "../src/core/mesh/sphere";
+import { createIndexArray } from "../src/core/mesh/mesh";
+import type { Mesh } from "../src/core/mesh/mesh";
+
+function vertex(array: Float32Array, i: number): [number, number, number] {
+  return [array[i * 3], array[i * 3 + 1], array[i * 3 + 2]];
+}
+
+function sub(a: number[], b: number[]): [number, number, number] {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function cross(a: number[], b: number[]): [number, number, number] {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dot(a: number[], b: number[]): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+/**
+ * 삼각형마다 면적이 0이 아니고, (p1 - p0) × (p2 - p0)이 세 정점 법선의 합과 같은 쪽을 향하는지 본다.
+ * 정점 법선이 바깥을 향하므로 바깥에서 볼 때 CCW라는 뜻이다.
+ */
+function expectWellFormedTriangles(mesh: Mesh): void {
+  const { positions, normals, indices } = mesh;
+  expect(indices.length % 3).toBe(0);
+  for (let t = 0; t < indices.length; t += 3) {
+    const [i0, i1, i2] = [indices[t], indices[t + 1], indices[t + 2]];
+    const p0 = vertex(positions, i0);
+    const face = cross(sub(vertex(positions, i1), p0), sub(vertex(positions, i2), p0));
+    const area = Math.hypot(...face) / 2;
+    expect(area, `triangle ${t / 3} (${i0}, ${i1}, ${i2}) has zero area`).toBeGreaterThan(1e-9);
+
+    const n0 = vertex(normals, i0);
+    const n1 = vertex(normals, i1);
+    const n2 = vertex(normals, i2);
+    const averaged = [n0[0] + n1[0] + n2[0], n0[1] + n1[1] + n2[1], n0[2] + n1[2] + n2[2]];
+    expect(dot(face, averaged), `triangle ${t / 3} is wound clockwise`).toBeGreaterThan(0);
+  }
+}
+
+function expectUnitNormals(mesh: Mesh): void {
+  for (let i = 0; i < mesh.vertexCount; i++) {
+    expect(Math.hypot(...vertex(mesh.normals, i)), `normal ${i}`).toBeCloseTo(1, 5);
+  }
+}
+
+function expectIndicesInRange(mesh: Mesh): void {
+  expect(mesh.positions.length).toBe(mesh.vertexCount * 3);
+  expect(mesh.normals.length).toBe(mesh.vertexCount * 3);
+  expect(mesh.uvs.length).toBe(mesh.vertexCount * 2);
+  expect(mesh.indices.length).toBe(mesh.indexCount);
+  for (const index of mesh.indices) expect(index).toBeLessThan(mesh.vertexCount);
+}
+
+function maxIndex(mesh: Mesh): number {
+  let max = 0;
+  for (const index of mesh.indices) max = Math.max(max, index);
+  return max;
+}
+
+const cases: { name: string; mesh: Mesh; vertices: number; triangles: number }[] = [
+  // (segX + 1)(segZ + 1) 정점, 칸마다 삼각형 2개
+  { name: "plane 4×3", mesh: createPlaneMesh(2, 1, 4, 3), vertices: 5 * 4, triangles: 4 * 3 * 2 },
+  { name: "box", mesh: createBoxMesh(1, 2, 3), vertices: 24, triangles: 12 },
+  // 옆면 (heightSegments + 1)·(radial + 1) + 뚜껑 2 × (1 + radial + 1)
+  { name: "cylinder", mesh: createCylinderMesh(0.5, 0.5, 1, 16, 2), vertices: 3 * 17 + 2 * 18, triangles: 16 * 2 * 2 + 16 * 2 },
+  { name: "frustum", mesh: createCylinderMesh(0.25, 0.75, 1, 16, 1), vertices: 2 * 17 + 2 * 18, triangles: 16 * 2 + 16 * 2 },
+  // 꼭짓점 띠는 삼각형 하나씩만, 아래 뚜껑만 있다
+  { name: "cone", mesh: createConeMesh(0.5, 1, 32, 1), vertices: 2 * 33 + 34, triangles: 32 + 32 },
+  { name: "cone, 3 height segments", mesh: createConeMesh(0.5, 1, 12, 3), vertices: 4 * 13 + 14, triangles: 12 + 2 * 12 * 2 + 12 },
+  { name: "uncapped cone", mesh: createConeMesh(0.5, 1, 32, 1, false), vertices: 2 * 33, triangles: 32 },
+  // 고리 2·(capSegments + 1)개, 띠 2·capSegments + 1개 중 극점 띠 2개는 삼각형 하나씩
+  { name: "capsule", mesh: createCapsuleMesh(0.5, 1, 8, 32), vertices: 18 * 33, triangles: 2 * 32 + 15 * 32 * 2 },
+  { name: "torus", mesh: createTorusMesh(0.5, 0.2, 12, 8), vertices: 13 * 9, triangles: 12 * 8 * 2 },
+  // 20 · 4^n 면
+  { name: "icosphere", mesh: createIcosphereMesh(1, 2), vertices: -1, triangles: 20 * 16 },
+  // 극점 행은 삼각형 하나씩
+  { name: "sphere", mesh: createSphereMesh(1, 8, 16), vertices: 9 * 17, triangles: 2 * 16 + 6 * 16 * 2 },
+];
+
+describe("primitive meshes", () => {
+  for (const { name, mesh, vertices, triangles } of cases) {
+    describe(name, () => {
+      it("has the expected vertex and triangle counts", () => {
+        if (vertices >= 0) expect(mesh.vertexCount).toBe(vertices);
+        expect(mesh.indexCount).toBe(triangles * 3);
+        expectIndicesInRange(mesh);
+      });
+
+      it("has no zero-area triangles and winds CCW seen from outside", () => {
+        expectWellFormedTriangles(mesh);
+      });
+
+      it("has unit-length normals", () => {
+        expectUnitNormals(mesh);
+      });
+    });
+  }
+
+  it("puts the cone apex and capsule poles on the axis", () => {
+    const cone = createConeMesh(0.5, 1, 8, 1, false);
+    for (let i = 0; i <= 8; i++) {
+      const [x, y, z] = vertex(cone.positions, i);
+      expect(Math.hypot(x, z)).toBe(0);
+      expect(y).toBe(0.5);
+    }
+
+    const capsule = createCapsuleMesh(0.5, 1, 4, 8);
+    const last = capsule.vertexCount - 1;
+    expect(Math.hypot(capsule.positions[last * 3], capsule.positions[last * 3 + 2])).toBe(0);
+    expect(capsule.positions[last * 3 + 1]).toBeCloseTo(-1, 6);
+    expect(capsule.bounds.min[1]).toBeCloseTo(-1, 6);
+    expect(capsule.bounds.max[1]).toBeCloseTo(1, 6);
+  });
+});
+
+describe("index type", () => {
+  it("switches to Uint32 before index 0xFFFF, which WebGL2 reserves for primitive restart", () => {
+    // 255 × 257 = 65535개: 마지막 인덱스가 0xFFFE
+    const largest16 = createPlaneMesh(1, 1, 254, 256);
+    expect(largest16.vertexCount).toBe(65535);
+    expect(largest16.indices).toBeInstanceOf(Uint16Array);
+    expect(largest16.indexType).toBe(0x1403);
+    expect(maxIndex(largest16)).toBe(0xfffe);
+
+    // 256 × 256 = 65536개: 인덱스 0xFFFF가 생긴다
+    const smallest32 = createPlaneMesh(1, 1, 255, 255);
+    expect(smallest32.vertexCount).toBe(65536);
+    expect(smallest32.indices).toBeInstanceOf(Uint32Array);
+    expect(smallest32.indexType).toBe(0x1405);
+    expect(maxIndex(smallest32)).toBe(0xffff);
+  });
+
+  it("throws instead of truncating when Uint32 indices are not allowed", () => {
+    expect(createIndexArray([0, 1, 65534], 65535, false)).toBeInstanceOf(Uint16Array);
+    expect(() => createIndexArray([0, 1, 65535], 65536, false)).toThrow("정점 65536개는 Uint16 인덱스 범위(65535)를 넘습니다");
+  });
+});
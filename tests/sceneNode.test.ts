@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as mat4 from "../src/core/math/mat4";
+import * as quat from "../src/core/math/quat";
+import { SceneNode } from "../src/core/scene/sceneNode";
+import type { Mat4 } from "../src/core/math/mat4";
+
+// SceneNode가 행렬을 몇 번 다시 계산하는지 세려고 계산 함수를 감싼다 (동작은 그대로)
+vi.mock("../src/core/math/mat4", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/core/math/mat4")>();
+  return {
+    ...actual,
+    composeInto: vi.fn(actual.composeInto),
+    multiplyInto: vi.fn(actual.multiplyInto),
+    copyInto: vi.fn(actual.copyInto),
+  };
+});
+
+function expectMatrixClose(actual: Mat4, expected: Mat4, eps = 1e-5): void {
+  for (let i = 0; i < 16; i++) {
+    expect(Math.abs(actual[i] - expected[i]), `index ${i}: ${actual[i]} vs ${expected[i]}`).toBeLessThanOrEqual(eps);
+  }
+}
+
+/** 다시 계산한 local / world 행렬 수 */
+function recomputed(): { local: number; world: number } {
+  return {
+    local: vi.mocked(mat4.composeInto).mock.calls.length,
+    world: vi.mocked(mat4.multiplyInto).mock.calls.length + vi.mocked(mat4.copyInto).mock.calls.length,
+  };
+}
+
+/** 모든 노드의 worldMatrix를 읽어 dirty를 지운다 */
+function readAll(root: SceneNode): void {
+  root.traverse((node) => void node.worldMatrix);
+}
+
+/**
+ *   root
+ *   ├── arm ── hand ── finger
+ *   └── leg ── foot
+ */
+function buildTree(): Record<"root" | "arm" | "hand" | "finger" | "leg" | "foot", SceneNode> {
+  const root = new SceneNode("root", { translation: [0, 1, 0] });
+  const arm = new SceneNode("arm", { translation: [1, 0, 0], rotation: quat.fromAxisAngle([0, 0, 1], 0.5) });
+  const hand = new SceneNode("hand", { translation: [0, 2, 0], scale: [0.5, 0.5, 0.5] });
+  const finger = new SceneNode("finger", { translation: [0, 0.4, 0.1] });
+  const leg = new SceneNode("leg", { translation: [-1, -1, 0] });
+  const foot = new SceneNode("foot", { translation: [0, -1, 0.2], rotation: quat.fromAxisAngle([1, 0, 0], -0.3) });
+  root.add(arm.add(hand.add(finger))).add(leg.add(foot));
+  return { root, arm, hand, finger, leg, foot };
+}
+
+describe("SceneNode", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("dirties every descendant when a parent changes, and only those", () => {
+    const t = buildTree();
+    readAll(t.root);
+    for (const node of Object.values(t)) expect(node.needsUpdate, node.name).toBe(false);
+
+    t.arm.setTranslation(2, 0, 0);
+    expect([t.arm, t.hand, t.finger].map((n) => n.needsUpdate)).toEqual([true, true, true]);
+    expect([t.root, t.leg, t.foot].map((n) => n.needsUpdate)).toEqual([false, false, false]);
+
+    // 손자만 읽어도 조상까지 계산된다
+    void t.finger.worldMatrix;
+    expect([t.arm, t.hand, t.finger].map((n) => n.needsUpdate)).toEqual([false, false, false]);
+  });
+
+  it("still dirties descendants below a node that was already dirty", () => {
+    const t = buildTree();
+    readAll(t.root);
+
+    // hand만 dirty인 상태에서 arm을 바꾸면 전파가 hand에서 멈추지만 finger도 이미 dirty다
+    t.hand.setScale(2);
+    void t.hand.worldMatrix;
+    expect(t.finger.needsUpdate).toBe(true);
+    t.arm.setTranslation(3, 0, 0);
+    expect(t.finger.needsUpdate).toBe(true);
+    expectMatrixClose(t.finger.worldMatrix, mat4.multiply(t.hand.worldMatrix, t.finger.localMatrix));
+  });
+
+  it("does not recompute an unchanged subtree", () => {
+    const t = buildTree();
+    readAll(t.root);
+    const legWorld = Float32Array.from(t.leg.worldMatrix);
+    const footWorld = Float32Array.from(t.foot.worldMatrix);
+    vi.clearAllMocks();
+
+    readAll(t.root);
+    expect(recomputed()).toEqual({ local: 0, world: 0 });
+
+    t.hand.setTranslation(0, 3, 0);
+    readAll(t.root);
+    // local은 hand 하나, world는 hand와 finger만
+    expect(recomputed()).toEqual({ local: 1, world: 2 });
+    expect(t.leg.worldMatrix).toEqual(legWorld);
+    expect(t.foot.worldMatrix).toEqual(footWorld);
+
+    // trs를 직접 고치고 invalidate()를 부른 경우도 같다
+    vi.clearAllMocks();
+    t.foot.trs.translation[2] = 1;
+    t.foot.invalidate();
+    readAll(t.root);
+    expect(recomputed()).toEqual({ local: 1, world: 1 });
+  });
+
+  it("keeps world = parent.world × local at every level", () => {
+    const t = buildTree();
+    t.root.traverse((node) => {
+      const expected = node.parent ? mat4.multiply(node.parent.worldMatrix, node.localMatrix) : node.localMatrix;
+      expectMatrixClose(node.worldMatrix, expected);
+      expectMatrixClose(node.localMatrix, mat4.compose(node.trs));
+    });
+  });
+
+  it("follows the new parent after reparenting", () => {
+    const t = buildTree();
+    readAll(t.root);
+
+    t.leg.add(t.hand);
+    expect(t.hand.parent).toBe(t.leg);
+    expect(t.arm.children).toEqual([]);
+    expect(t.leg.children).toEqual([t.foot, t.hand]);
+    // local TRS는 그대로, world는 새 부모를 따른다
+    expect(t.hand.needsUpdate).toBe(true);
+    expect(t.finger.needsUpdate).toBe(true);
+    expectMatrixClose(t.hand.worldMatrix, mat4.multiply(t.leg.worldMatrix, t.hand.localMatrix));
+    expectMatrixClose(
+      t.finger.worldMatrix,
+      mat4.multiply(mat4.multiply(t.leg.worldMatrix, t.hand.localMatrix), t.finger.localMatrix),
+    );
+
+    // 옛 부모를 바꿔도 더는 영향이 없고, 새 부모를 바꾸면 따라간다
+    t.arm.setTranslation(9, 9, 9);
+    expect(t.hand.needsUpdate).toBe(false);
+    t.leg.setRotation(quat.fromAxisAngle([0, 1, 0], 1.2));
+    expect(t.finger.needsUpdate).toBe(true);
+    expectMatrixClose(t.finger.worldMatrix, mat4.multiply(t.hand.worldMatrix, t.finger.localMatrix));
+
+    // 떼어 내면 world = local
+    t.leg.remove(t.hand);
+    expect(t.hand.parent).toBeNull();
+    expectMatrixClose(t.hand.worldMatrix, t.hand.localMatrix);
+    expectMatrixClose(t.finger.worldMatrix, mat4.multiply(t.hand.localMatrix, t.finger.localMatrix));
+  });
+
+  it("refuses to attach a node under its own descendant", () => {
+    const t = buildTree();
+    expect(() => t.finger.add(t.arm)).toThrow('"arm"를 자기 자손 "finger" 아래에 붙일 수 없습니다');
+    expect(() => t.root.add(t.root)).toThrow();
+    expect(t.arm.parent).toBe(t.root);
+  });
+});
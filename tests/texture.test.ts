@@ -0,0 +1,317 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  TEXTURE_FORMATS,
+  TextureFormatError,
+  TextureOptionsError,
+  applyTextureParams,
+  createTexture,
+  resolveTextureFormat,
+  textureProblems,
+} from "../src/core/gl/texture";
+import type { TextureData, TextureFormat } from "../src/core/gl/texture";
+
+type GL = WebGL2RenderingContext | WebGLRenderingContext;
+
+// lib.dom이 상수를 리터럴 타입으로 선언하므로 값이 하나라도 틀리면 tsc -p tests가 실패한다
+const WEBGL2: Pick<
+  WebGL2RenderingContext,
+  | "RGBA8" | "RGB8" | "RG8" | "R8" | "RGBA16F" | "RG16F" | "R16F" | "RGBA32F" | "RGB32F" | "RG32F" | "R32F"
+  | "DEPTH_COMPONENT16" | "DEPTH_COMPONENT" | "RGBA" | "RGB" | "RG" | "RED" | "LUMINANCE" | "LUMINANCE_ALPHA" | "ALPHA"
+  | "UNSIGNED_BYTE" | "UNSIGNED_SHORT" | "HALF_FLOAT" | "FLOAT"
+  | "NEAREST" | "LINEAR" | "NEAREST_MIPMAP_NEAREST" | "LINEAR_MIPMAP_LINEAR"
+  | "CLAMP_TO_EDGE" | "REPEAT" | "MIRRORED_REPEAT" | "NONE" | "TEXTURE_2D"
+  | "TEXTURE_WRAP_S" | "TEXTURE_WRAP_T" | "TEXTURE_MIN_FILTER" | "TEXTURE_MAG_FILTER"
+  | "TEXTURE_MIN_LOD" | "TEXTURE_MAX_LOD" | "TEXTURE_BASE_LEVEL" | "TEXTURE_MAX_LEVEL"
+> = {
+  RGBA8: 0x8058,
+  RGB8: 0x8051,
+  RG8: 0x822b,
+  R8: 0x8229,
+  RGBA16F: 0x881a,
+  RG16F: 0x822f,
+  R16F: 0x822d,
+  RGBA32F: 0x8814,
+  RGB32F: 0x8815,
+  RG32F: 0x8230,
+  R32F: 0x822e,
+  DEPTH_COMPONENT16: 0x81a5,
+  DEPTH_COMPONENT: 0x1902,
+  RGBA: 0x1908,
+  RGB: 0x1907,
+  RG: 0x8227,
+  RED: 0x1903,
+  LUMINANCE: 0x1909,
+  LUMINANCE_ALPHA: 0x190a,
+  ALPHA: 0x1906,
+  UNSIGNED_BYTE: 0x1401,
+  UNSIGNED_SHORT: 0x1403,
+  HALF_FLOAT: 0x140b,
+  FLOAT: 0x1406,
+  NEAREST: 0x2600,
+  LINEAR: 0x2601,
+  NEAREST_MIPMAP_NEAREST: 0x2700,
+  LINEAR_MIPMAP_LINEAR: 0x2703,
+  CLAMP_TO_EDGE: 0x812f,
+  REPEAT: 0x2901,
+  MIRRORED_REPEAT: 0x8370,
+  NONE: 0,
+  TEXTURE_2D: 0x0de1,
+  TEXTURE_WRAP_S: 0x2802,
+  TEXTURE_WRAP_T: 0x2803,
+  TEXTURE_MIN_FILTER: 0x2801,
+  TEXTURE_MAG_FILTER: 0x2800,
+  TEXTURE_MIN_LOD: 0x813a,
+  TEXTURE_MAX_LOD: 0x813b,
+  TEXTURE_BASE_LEVEL: 0x813c,
+  TEXTURE_MAX_LEVEL: 0x813d,
+};
+
+/** 포맷마다 WebGL2 (internalformat, format)와 WebGL1 format의 상수 이름 */
+const EXPECTED: Record<TextureFormat, [keyof typeof WEBGL2, keyof typeof WEBGL2, keyof typeof WEBGL2 | null]> = {
+  RGBA8: ["RGBA8", "RGBA", "RGBA"],
+  RGB8: ["RGB8", "RGB", "RGB"],
+  RG8: ["RG8", "RG", null],
+  R8: ["R8", "RED", null],
+  LUMINANCE: ["LUMINANCE", "LUMINANCE", "LUMINANCE"],
+  LUMINANCE_ALPHA: ["LUMINANCE_ALPHA", "LUMINANCE_ALPHA", "LUMINANCE_ALPHA"],
+  ALPHA: ["ALPHA", "ALPHA", "ALPHA"],
+  RGBA16F: ["RGBA16F", "RGBA", "RGBA"],
+  RG16F: ["RG16F", "RG", null],
+  R16F: ["R16F", "RED", null],
+  RGBA32F: ["RGBA32F", "RGBA", "RGBA"],
+  RGB32F: ["RGB32F", "RGB", "RGB"],
+  RG32F: ["RG32F", "RG", null],
+  R32F: ["R32F", "RED", null],
+  DEPTH_COMPONENT16: ["DEPTH_COMPONENT16", "DEPTH_COMPONENT", null],
+};
+
+const HALF_FLOAT_OES = 0x8d61;
+
+/**
+ * Node에는 WebGL이 없으므로 texture.ts가 읽는 상수와 함수만 가진 가짜 컨텍스트.
+ * texParameter 호출은 params에 [pname, value]로 쌓인다.
+ */
+interface FakeGL {
+  params: [number, number][];
+  createTexture: ReturnType<typeof vi.fn>;
+}
+
+function fakeMembers(extensions: string[]): FakeGL & Record<string, unknown> {
+  const params: [number, number][] = [];
+  const texParameter = (_target: number, pname: number, value: number): void => {
+    params.push([pname, value]);
+  };
+  return {
+    ...WEBGL2,
+    params,
+    createTexture: vi.fn(() => ({})),
+    texParameteri: texParameter,
+    texParameterf: texParameter,
+    getExtension: (name: string) => {
+      if (!extensions.includes(name)) return null;
+      return name === "OES_texture_half_float" ? { HALF_FLOAT_OES } : {};
+    },
+  };
+}
+
+function fakeWebGL1(extensions: string[] = []): GL & FakeGL {
+  return fakeMembers(extensions) as unknown as GL & FakeGL;
+}
+
+function fakeWebGL2(): GL & FakeGL {
+  class FakeWebGL2RenderingContext {}
+  vi.stubGlobal("WebGL2RenderingContext", FakeWebGL2RenderingContext);
+  return Object.assign(new FakeWebGL2RenderingContext(), fakeMembers([])) as unknown as GL & FakeGL;
+}
+
+function data(format: TextureFormat, values: TextureData["data"]): TextureData {
+  return { data: values, width: 1, height: 1, format };
+}
+
+describe("TEXTURE_FORMATS", () => {
+  it("holds the WebGL constants for every format", () => {
+    for (const [name, [internalFormat, format, webgl1Format]] of Object.entries(EXPECTED)) {
+      const info = TEXTURE_FORMATS[name as TextureFormat];
+      expect(info.internalFormat, name).toBe(WEBGL2[internalFormat]);
+      expect(info.format, name).toBe(WEBGL2[format]);
+      expect(info.webgl1Format, name).toBe(webgl1Format === null ? null : WEBGL2[webgl1Format]);
+    }
+    expect(Object.keys(TEXTURE_FORMATS).sort()).toEqual(Object.keys(EXPECTED).sort());
+  });
+});
+
+describe("resolveTextureFormat", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("uses sized internal formats on WebGL2 and picks the type from the array", () => {
+    const gl = fakeWebGL2();
+    expect(resolveTextureFormat(gl, data("RGBA8", new Uint8Array(4)))).toEqual({
+      internalFormat: WEBGL2.RGBA8,
+      format: WEBGL2.RGBA,
+      type: WEBGL2.UNSIGNED_BYTE,
+    });
+    expect(resolveTextureFormat(gl, data("R16F", new Uint16Array(1)))).toEqual({
+      internalFormat: WEBGL2.R16F,
+      format: WEBGL2.RED,
+      type: WEBGL2.HALF_FLOAT,
+    });
+    expect(resolveTextureFormat(gl, data("R16F", new Float32Array(1))).type).toBe(WEBGL2.FLOAT);
+    expect(resolveTextureFormat(gl, data("DEPTH_COMPONENT16", null))).toEqual({
+      internalFormat: WEBGL2.DEPTH_COMPONENT16,
+      format: WEBGL2.DEPTH_COMPONENT,
+      type: WEBGL2.UNSIGNED_SHORT,
+    });
+  });
+
+  it("uses unsized formats and extension types on WebGL1", () => {
+    expect(resolveTextureFormat(fakeWebGL1(), data("LUMINANCE_ALPHA", new Uint8Array(2)))).toEqual({
+      internalFormat: WEBGL2.LUMINANCE_ALPHA,
+      format: WEBGL2.LUMINANCE_ALPHA,
+      type: WEBGL2.UNSIGNED_BYTE,
+    });
+    const gl = fakeWebGL1(["OES_texture_half_float", "OES_texture_float"]);
+    expect(resolveTextureFormat(gl, data("RGBA16F", new Uint16Array(4)))).toEqual({
+      internalFormat: WEBGL2.RGBA,
+      format: WEBGL2.RGBA,
+      type: HALF_FLOAT_OES,
+    });
+    expect(resolveTextureFormat(gl, data("RGB32F", new Float32Array(3))).type).toBe(WEBGL2.FLOAT);
+  });
+
+  it("throws TextureFormatError for names outside the table", () => {
+    for (const gl of [fakeWebGL1(), fakeWebGL2()]) {
+      for (const name of ["RGBA4", "toString", ""]) {
+        const source = data(name as TextureFormat, new Uint8Array(4));
+        expect(() => resolveTextureFormat(gl, source)).toThrow(TextureFormatError);
+        expect(() => resolveTextureFormat(gl, source)).toThrow(`${name}: 알 수 없는 텍스처 포맷입니다`);
+      }
+    }
+  });
+
+  it("rejects formats this context cannot use", () => {
+    expect(() => resolveTextureFormat(fakeWebGL1(), data("R8", new Uint8Array(1)))).toThrow("R8: WebGL2 전용 포맷입니다");
+    expect(() => resolveTextureFormat(fakeWebGL1(), data("RGBA32F", new Float32Array(4)))).toThrow(
+      "RGBA32F: WebGL1에서는 OES_texture_float 확장이 필요한데 이 기기에는 없습니다",
+    );
+    expect(() => resolveTextureFormat(fakeWebGL2(), data("RGBA32F", new Uint8Array(4)))).toThrow(
+      "RGBA32F: Float32Array가 필요한데 Uint8Array를 받았습니다",
+    );
+    expect(() => resolveTextureFormat(fakeWebGL2(), data("RGB8", new Uint8Array(2)))).toThrow(
+      "RGB8: 1×1×3채널에는 값 3개가 필요한데 2개뿐입니다",
+    );
+  });
+});
+
+describe("textureProblems", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const npot = { width: 300, height: 256 };
+  const pot = { width: 256, height: 256 };
+
+  it("rejects mipmaps and mipmap filters on WebGL1 NPOT textures", () => {
+    const gl = fakeWebGL1();
+    expect(textureProblems(gl, npot, { minFilter: WEBGL2.LINEAR_MIPMAP_LINEAR })).toEqual([
+      "WebGL1에서는 2의 거듭제곱이 아닌(NPOT) 300×256 텍스처에 mipmap을 만들 수 없습니다 (generateMipmap이 INVALID_OPERATION)",
+    ]);
+    expect(textureProblems(gl, npot, { minFilter: WEBGL2.LINEAR, mipmaps: true })).toHaveLength(1);
+    expect(textureProblems(gl, npot, { minFilter: WEBGL2.NEAREST_MIPMAP_NEAREST, mipmaps: false })).toEqual([
+      "WebGL1 NPOT 300×256 텍스처에 mipmap 축소 필터를 쓰면 텍스처가 불완전해져 검게 그려집니다",
+      "mipmap 축소 필터인데 mipmap을 만들지 않아 level 1 이상이 없으므로 텍스처가 불완전합니다",
+    ]);
+
+    expect(textureProblems(gl, npot, { minFilter: WEBGL2.LINEAR })).toEqual([]);
+    expect(textureProblems(gl, pot, { minFilter: WEBGL2.LINEAR_MIPMAP_LINEAR })).toEqual([]);
+    expect(textureProblems(fakeWebGL2(), npot, { minFilter: WEBGL2.LINEAR_MIPMAP_LINEAR })).toEqual([]);
+  });
+
+  it("allows only CLAMP_TO_EDGE wrap on WebGL1 NPOT textures", () => {
+    const gl = fakeWebGL1();
+    expect(textureProblems(gl, npot, { wrapS: WEBGL2.REPEAT, wrapT: WEBGL2.MIRRORED_REPEAT })).toEqual([
+      "WebGL1 NPOT 300×256 텍스처는 wrapS로 CLAMP_TO_EDGE만 쓸 수 있습니다 (REPEAT / MIRRORED_REPEAT이면 검게 그려집니다)",
+      "WebGL1 NPOT 300×256 텍스처는 wrapT로 CLAMP_TO_EDGE만 쓸 수 있습니다 (REPEAT / MIRRORED_REPEAT이면 검게 그려집니다)",
+    ]);
+    expect(textureProblems(gl, npot, { wrapT: WEBGL2.REPEAT })).toHaveLength(1);
+
+    expect(textureProblems(gl, npot, { wrapS: WEBGL2.CLAMP_TO_EDGE, wrapT: WEBGL2.CLAMP_TO_EDGE })).toEqual([]);
+    expect(textureProblems(gl, pot, { wrapS: WEBGL2.REPEAT, wrapT: WEBGL2.MIRRORED_REPEAT })).toEqual([]);
+    expect(textureProblems(fakeWebGL2(), npot, { wrapS: WEBGL2.REPEAT, wrapT: WEBGL2.MIRRORED_REPEAT })).toEqual([]);
+  });
+
+  it("checks the WebGL2 base level against the levels that exist and the max level", () => {
+    const gl = fakeWebGL2();
+    const mipmapped = { minFilter: WEBGL2.LINEAR_MIPMAP_LINEAR };
+    // 256×256의 mipmap 체인은 level 0…8
+    expect(textureProblems(gl, pot, { ...mipmapped, baseLevel: 8 })).toEqual([]);
+    expect(textureProblems(gl, pot, { ...mipmapped, baseLevel: 9 })).toEqual([
+      "TEXTURE_BASE_LEVEL 9에 이미지가 없습니다 (level 0…8만 있음)",
+    ]);
+    expect(textureProblems(gl, pot, { minFilter: WEBGL2.LINEAR, baseLevel: 1 })).toEqual([
+      "TEXTURE_BASE_LEVEL 1에 이미지가 없습니다 (level 0…0만 있음)",
+    ]);
+
+    expect(textureProblems(gl, pot, { ...mipmapped, baseLevel: 3, maxLevel: 2 })).toEqual([
+      "TEXTURE_BASE_LEVEL(3)이 TEXTURE_MAX_LEVEL(2)보다 크면 mipmap 텍스처가 불완전합니다",
+    ]);
+    expect(textureProblems(gl, pot, { ...mipmapped, baseLevel: 2, maxLevel: 2, minLod: 1, maxLod: 4 })).toEqual([]);
+
+    // WebGL1에는 level 범위 파라미터가 없으므로 무시한다
+    expect(textureProblems(fakeWebGL1(), pot, { ...mipmapped, baseLevel: 20, maxLevel: 0 })).toEqual([]);
+  });
+
+  it("makes createTexture throw before creating a GL texture", () => {
+    const gl = fakeWebGL1();
+    const source = data("RGBA8", new Uint8Array(3 * 5 * 4));
+    source.width = 3;
+    source.height = 5;
+    let error: unknown = null;
+    try {
+      createTexture(gl, source, { wrapS: WEBGL2.REPEAT });
+    } catch (e: unknown) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(TextureOptionsError);
+    expect((error as TextureOptionsError).problems).toEqual([
+      "WebGL1 NPOT 3×5 텍스처는 wrapS로 CLAMP_TO_EDGE만 쓸 수 있습니다 (REPEAT / MIRRORED_REPEAT이면 검게 그려집니다)",
+    ]);
+    expect(gl.createTexture).not.toHaveBeenCalled();
+  });
+});
+
+describe("applyTextureParams", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const options = {
+    wrapS: WEBGL2.MIRRORED_REPEAT,
+    minFilter: WEBGL2.LINEAR_MIPMAP_LINEAR,
+    minLod: 1,
+    maxLod: 3,
+    baseLevel: 1,
+    maxLevel: 4,
+  };
+
+  it("sets LOD and level range only on WebGL2", () => {
+    const gl2 = fakeWebGL2();
+    applyTextureParams(gl2, options);
+    expect(gl2.params).toEqual([
+      [WEBGL2.TEXTURE_WRAP_S, WEBGL2.MIRRORED_REPEAT],
+      [WEBGL2.TEXTURE_MIN_FILTER, WEBGL2.LINEAR_MIPMAP_LINEAR],
+      [WEBGL2.TEXTURE_MIN_LOD, 1],
+      [WEBGL2.TEXTURE_MAX_LOD, 3],
+      [WEBGL2.TEXTURE_BASE_LEVEL, 1],
+      [WEBGL2.TEXTURE_MAX_LEVEL, 4],
+    ]);
+
+    const gl1 = fakeWebGL1();
+    applyTextureParams(gl1, options);
+    expect(gl1.params).toEqual([
+      [WEBGL2.TEXTURE_WRAP_S, WEBGL2.MIRRORED_REPEAT],
+      [WEBGL2.TEXTURE_MIN_FILTER, WEBGL2.LINEAR_MIPMAP_LINEAR],
+    ]);
+  });
+});